@@ -1,9 +0,0 @@
-import React from 'react';
-import App from './App';
-
-// Wrapper component to handle any import issues
-const AppWrapper: React.FC = () => {
-  return <App />;
-};
-
-export default AppWrapper;
@@ -1,33 +0,0 @@
-// Fix: Add .ts extension to resolve module path.
-import { ArtboardSize } from './types.ts';
-
-export const ARTBOARD_SIZES: ArtboardSize[] = [
-  // Wide Banners
-  {w: 970, h: 250, hlFs: 28, shlFs: 18, ctaFs: 18, hlY: 100, shlY: 150, ctaY: 200, logoY: 20},
-  {w: 970, h: 90, hlFs: 26, shlFs: 16, ctaFs: 16, hlX: 120, hlY: 20, shlX: 120, shlY: 45, ctaX: 850, ctaY: 30, logoY: 25},
-  {w: 768, h: 90, hlFs: 24, shlFs: 14, ctaFs: 14, hlX: 100, hlY: 20, shlX: 100, shlY: 45, ctaX: 648, ctaY: 30, logoY: 25},
-  {w: 728, h: 90, hlFs: 24, shlFs: 14, ctaFs: 14, hlX: 100, hlY: 20, shlX: 100, shlY: 45, ctaX: 608, ctaY: 30, logoY: 25},
-  {w: 468, h: 60, hlFs: 18, shlFs: 12, ctaFs: 12, hlX: 80, hlY: 10, shlX: 80, shlY: 30, ctaX: 358, ctaY: 15, logoY: 10},
-  {w: 320, h: 100, hlFs: 18, shlFs: 12, ctaFs: 12, hlY: 40, shlY: 65, ctaY: 80, logoY: 20},
-  {w: 320, h: 50, hlFs: 14, shlFs: 10, ctaFs: 10, hlX: 60, hlY: 8, shlX: 60, shlY: 25, ctaX: 210, ctaY: 10, logoY: 8},
-  {w: 234, h: 60, hlFs: 16, shlFs: 10, ctaFs: 10, hlX: 50, hlY: 10, shlX: 50, shlY: 30, ctaX: 124, ctaY: 15, logoY: 10},
-
-  // Vertical Skyscraper Banners
-  {w: 300, h: 600, hlFs: 20, shlFs: 14, ctaFs: 14, hlY: 240, shlY: 360, ctaY: 550, logoY: 20},
-  {w: 160, h: 600, hlFs: 16, shlFs: 12, ctaFs: 12, hlY: 240, shlY: 360, ctaY: 550, logoY: 20},
-  {w: 120, h: 600, hlFs: 14, shlFs: 10, ctaFs: 10, hlY: 240, shlY: 360, ctaY: 550, logoY: 20},
-  {w: 320, h: 480, hlFs: 18, shlFs: 12, ctaFs: 12, hlY: 200, shlY: 300, ctaY: 420, logoY: 20},
-
-  // Box & Square Banners
-  {w: 336, h: 280, hlFs: 22, shlFs: 14, ctaFs: 14, hlY: 120, shlY: 170, ctaY: 230, logoY: 20},
-  {w: 300, h: 250, hlFs: 20, shlFs: 12, ctaFs: 12, hlY: 100, shlY: 150, ctaY: 200, logoY: 20},
-  {w: 250, h: 250, hlFs: 18, shlFs: 12, ctaFs: 12, hlY: 100, shlY: 150, ctaY: 200, logoY: 20},
-  {w: 200, h: 200, hlFs: 16, shlFs: 10, ctaFs: 10, hlY: 80, shlY: 120, ctaY: 160, logoY: 20},
-  
-  // Note: One 160x600 is a duplicate from the original set but kept for consistency.
-  {w: 160, h: 600, hlFs: 16, shlFs: 12, ctaFs: 12, hlY: 240, shlY: 360, ctaY: 550, logoY: 20},
-];
-
-export const LOGOS = {
-  white: '<svg id="Layer_1" data-name="Layer 1" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 3373.23 913.64"><defs><style>.cls-1{fill:#fff;}</style></defs><path class="cls-1" d="M298.24,977.34H10.36V512.52h58.1V966.77H298.24Z" transform="translate(-10.36 -512.52)"/><path class="cls-1" d="M417,757.47V977.34h-58.1V512.52H417V743L655.35,512.52h15.18L477.08,699.37l216.56,278H620.35l-185.53-237Z" transform="translate(-10.36 -512.52)"/><path class="cls-1" d="M1217.46,855.19c0,78.57-60.74,122.15-147.24,122.15H918.36V512.52h131.4c86.49,0,156.48,39.61,156.48,110.26,0,66.68-52.82,105-132,109.6C1158.7,734.36,1217.46,777.94,1217.46,855.19Zm-241-127.43h69.32c70,0,99.71-54.14,99.71-102.34s-29.72-102.34-99.71-102.34H976.47Zm180.25,124.79c0-53.48-29.71-114.23-99.7-114.23H976.47V966.77H1057C1127,966.77,1156.72,906,1156.72,852.55Z" transform="translate(-10.36 -512.52)"/><path class="cls-1" d="M1933.61,981.3h-9.9l-317.6-437.09V977.34h-11.88V512.52H1655l266.75,367.1V512.52h11.89Z" transform="translate(-10.36 -512.52)"/><polygon class="cls-1" points="1523.21 454.26 1325.42 454.26 1325.42 234.39 1460.77 234.39 1460.77 223.83 1325.42 223.83 1325.42 10.56 1523.21 10.56 1523.21 0 1267.31 0 1267.31 464.82 1523.21 464.82 1523.21 454.26"/><polygon class="cls-1" points="2641.65 454.26 2443.86 454.26 2443.86 234.39 2579.21 234.39 2579.21 223.83 2443.86 223.83 2443.86 10.56 2641.65 10.56 2641.65 0 2385.75 0 2385.75 464.82 2641.65 464.82 2641.65 454.26"/><polygon class="cls-1" points="3007.44 0 2702.31 0 2702.31 10.56 2825.82 10.56 2825.82 464.82 2883.93 464.82 2883.93 10.56 3007.44 10.56 3007.44 0"/><polygon class="cls-1" points="3373.23 0 3068.09 0 3068.09 10.56 3191.61 10.56 3191.61 464.82 3249.72 464.82 3249.72 10.56 3373.23 10.56 3373.23 0"/><path class="cls-1" d="M2335.45,981.3h-9.9L2008,544.21V977.34h-11.89V512.52h60.75l266.75,367.1V512.52h11.88Z" transform="translate(-10.36 -512.52)"/><path class="cls-1" d="M1256.26,1422.49H1153V1261.22h20.83V1415.9h82.39Z" transform="translate(-10.36 -512.52)"/><path class="cls-1" d="M1444,1341.85c0,46.51-30.54,84.31-72.44,84.31s-72.44-37.8-72.44-84.31,30.54-84.29,72.44-84.29S1444,1295.35,1444,1341.85Zm-23.34,0c0-37.32-14.73-79.63-49.1-79.63s-49.1,42.31-49.1,79.63,14.73,79.64,49.1,79.64S1420.64,1379.18,1420.64,1341.85Z" transform="translate(-10.36 -512.52)"/><path class="cls-1" d="M1637.26,1423.86h-4.55l-109.79-147.21-.06,145.84h-7.28V1261.22h21.78l92.39,123,.23-123h7.28Z" transform="translate(-10.36 -512.52)"/><path class="cls-1" d="M2240.91,1423.86h-4.56l-109.78-147.21-.06,145.84h-7.28V1261.22H2141l92.39,123,.22-123h7.29Z" transform="translate(-10.36 -512.52)"/><path class="cls-1" d="M1844,1341.85c0,50.63-36,80.64-80.49,80.64H1718V1261.22h45.45C1808,1261.22,1844,1291.23,1844,1341.85Zm-24,0c0-47.78-26.19-74.67-58.34-74.67h-21.59v149.35h21.59C1793.83,1416.53,1820,1389.64,1820,1341.85Z" transform="translate(-10.36 -512.52)"/><path class="cls-1" d="M2049.6,1341.85c0,46.51-30.54,84.31-72.44,84.31s-72.45-37.8-72.45-84.31,30.55-84.29,72.45-84.29S2049.6,1295.35,2049.6,1341.85Zm-23.91,0c0-36.89-14.56-78.7-48.53-78.7s-48.53,41.81-48.53,78.7,14.56,78.71,48.53,78.71S2025.69,1378.75,2025.69,1341.85Z" transform="translate(-10.36 -512.52)"/></svg>',
-};
\ No newline at end of file
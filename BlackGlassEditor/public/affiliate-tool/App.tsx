@@ -3,8 +3,15 @@ import { produce } from 'immer';
 // Fix: Add .tsx and .ts extensions to resolve modules.
 import { InputControls } from './components/InputControls';
 import { PreviewArea } from './components/PreviewArea';
-import { ARTBOARD_SIZES, LOGOS } from './constants';
-import { AppState, ArtboardConfig, ElementName, ArtboardLayout, SelectedElement, LayoutTemplate, SortOrder, TextStyle } from './types';
+import { ARTBOARD_SIZES, DEFAULT_ANIMATION_TIMELINE, DEFAULT_MIN_FONT_SIZE, FIT_MAX_LINES, LOGOS } from './constants';
+import { ArtboardOrderDebugger } from './components/ArtboardOrderDebugger';
+import { AppState, ArtboardConfig, ElementName, ArtboardLayout, SelectedElement, LayoutTemplate, SortOrder, TextStyle, ExportOptions, ExportReport, Html5ExportOptions, CopyVariant, PreviewMode } from './types';
+import { downloadBlob, exportArtboards, slugify } from './utils/exportArtboards';
+import { exportHtml5Banners } from './utils/html5Export';
+import { applyCopyVariant, COPY_FIELDS, getActiveVariant } from './utils/copyVariants';
+import { findAllTextOverflows } from './utils/textOverflow';
+import { clearTextFitCache } from './utils/textFit';
+import { createLayoutTemplate, loadStoredTemplates, storeTemplates } from './utils/layoutTemplates';
 
 const useHistory = <T extends object>(initialState: T) => {
     const [history, setHistory] = useState<T[]>([initialState]);
@@ -59,6 +66,11 @@ const generateInitialArtboards = (initialState: AppState): ArtboardConfig[] => {
         const constrainedSubheadlineW = Math.min(subheadlineW, size.w * 0.9);
         const constrainedCtaW = Math.min(ctaW, size.w * 0.9);
         
+        const fitBox = (y: number, fontSize: number, lines: number, style: TextStyle) => ({
+            minFontSize: Math.min(DEFAULT_MIN_FONT_SIZE, fontSize),
+            maxHeight: Math.min(lines * fontSize * style.lineHeight, size.h - y),
+        });
+
         const logoW = Math.min(100, size.w * 0.2);
         const logoH = 30;
         const centerAlignX = (elementWidth: number) => (size.w / 2) - (elementWidth / 2);
@@ -67,9 +79,9 @@ const generateInitialArtboards = (initialState: AppState): ArtboardConfig[] => {
             id,
             width: size.w,
             height: size.h,
-            headlineLayout: { x: centerAlignX(constrainedHeadlineW), y: size.hlY, width: constrainedHeadlineW, height: 50, fontSize: size.hlFs, textAlign: 'center' },
-            subheadlineLayout: { x: centerAlignX(constrainedSubheadlineW), y: size.shlY, width: constrainedSubheadlineW, height: 40, fontSize: size.shlFs, textAlign: 'center' },
-            ctaLayout: { x: centerAlignX(constrainedCtaW), y: size.ctaY, width: constrainedCtaW, height: 30, fontSize: size.ctaFs, textAlign: 'center' },
+            headlineLayout: { x: centerAlignX(constrainedHeadlineW), y: size.hlY, width: constrainedHeadlineW, height: 50, fontSize: size.hlFs, textAlign: 'center', ...fitBox(size.hlY, size.hlFs, FIT_MAX_LINES.headline, initialState.headlineStyle) },
+            subheadlineLayout: { x: centerAlignX(constrainedSubheadlineW), y: size.shlY, width: constrainedSubheadlineW, height: 40, fontSize: size.shlFs, textAlign: 'center', ...fitBox(size.shlY, size.shlFs, FIT_MAX_LINES.subheadline, initialState.subheadlineStyle) },
+            ctaLayout: { x: centerAlignX(constrainedCtaW), y: size.ctaY, width: constrainedCtaW, height: 30, fontSize: size.ctaFs, textAlign: 'center', ...fitBox(size.ctaY, size.ctaFs, FIT_MAX_LINES.cta, initialState.ctaStyle) },
             logoLayout: { x: centerAlignX(logoW), y: size.logoY, width: logoW, height: logoH },
             backgroundPosition: { x: 0, y: 0 },
             isComplete: false,
@@ -91,6 +103,7 @@ const createInitialState = (): AppState => {
         gradient: { angle: 90, colors: ['#6EE7B7', '#3B82F6'] },
         backgroundScale: 1,
         fontSizeAdjustment: 0,
+        autoFitText: true,
         headlineStyle: { fontFamily: 'Arial', fontWeight: 700, fontStyle: 'normal', letterSpacing: 0, lineHeight: 1.2, fontColor: '#000000', textTransform: 'none', textDecoration: 'none', textBgColor: '#FFFFFF', textBgOpacity: 0, overflowBehavior: 'wrap' },
         subheadlineStyle: { fontFamily: 'Arial', fontWeight: 400, fontStyle: 'normal', letterSpacing: 0, lineHeight: 1.4, fontColor: '#333333', textTransform: 'none', textDecoration: 'none', textBgColor: '#FFFFFF', textBgOpacity: 0, overflowBehavior: 'wrap' },
         ctaStyle: { fontFamily: 'Arial', fontWeight: 700, fontStyle: 'normal', letterSpacing: 0.5, lineHeight: 1, fontColor: '#FFFFFF', textTransform: 'uppercase', textDecoration: 'none', textBgColor: '#111111', textBgOpacity: 1, overflowBehavior: 'wrap' },
@@ -105,6 +118,9 @@ const createInitialState = (): AppState => {
         artboardConfigs: [],
         alignAsGroup: false,
         sortOrder: 'default',
+        animationTimeline: DEFAULT_ANIMATION_TIMELINE,
+        copyVariants: [],
+        activeVariantId: null,
     };
     
     state.artboardConfigs = generateInitialArtboards(state);
@@ -115,18 +131,58 @@ function App() {
     const { state, setState, undo, redo, canUndo, canRedo } = useHistory(createInitialState());
     const [selectedElement, setSelectedElement] = useState<SelectedElement>(null);
     const [savedTemplates, setSavedTemplates] = useState<LayoutTemplate[]>([]);
+    const [exportProgress, setExportProgress] = useState<{ done: number; total: number } | null>(null);
+    const [exportReport, setExportReport] = useState<ExportReport | null>(null);
+    const [previewMode, setPreviewMode] = useState<PreviewMode>('grid');
+    // Bumped whenever web fonts finish loading so text is re-measured with the real font
+    const [fontsVersion, setFontsVersion] = useState(0);
     
     const handleStateChange = useCallback((updates: Partial<AppState>, recordHistory = true) => {
         setState(draft => {
-            Object.assign(draft, updates);
+            // While a copy variant is shown, copy edits belong to that variant rather than the base copy.
+            const activeVariant = draft.copyVariants.find(v => v.id === draft.activeVariantId);
+            const rest = { ...updates };
+            if (activeVariant) {
+                COPY_FIELDS.forEach(field => {
+                    if (field in rest) {
+                        activeVariant[field] = rest[field]!;
+                        delete rest[field];
+                    }
+                });
+            }
+            Object.assign(draft, rest);
         }, recordHistory);
     }, [setState]);
 
+    const displayState = useMemo(() => {
+        const activeVariant = getActiveVariant(state);
+        return activeVariant ? applyCopyVariant(state, activeVariant) : state;
+    }, [state]);
+
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    const textOverflows = useMemo(() => findAllTextOverflows(state.artboardConfigs, displayState), [state.artboardConfigs, displayState, fontsVersion]);
+
+    const variantOverflowCounts = useMemo(() => {
+        const counts: Record<string, number> = {};
+        state.copyVariants.forEach(variant => {
+            counts[variant.id] = Object.keys(findAllTextOverflows(state.artboardConfigs, applyCopyVariant(state, variant))).length;
+        });
+        return counts;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [state, fontsVersion]);
+
     useEffect(() => {
-        const templates = localStorage.getItem('bannerLayoutTemplates');
-        if (templates) {
-            setSavedTemplates(JSON.parse(templates));
-        }
+        if (!document.fonts) return;
+        const handleFontsLoaded = () => {
+            clearTextFitCache();
+            setFontsVersion(version => version + 1);
+        };
+        document.fonts.addEventListener('loadingdone', handleFontsLoaded);
+        return () => document.fonts.removeEventListener('loadingdone', handleFontsLoaded);
+    }, []);
+
+    useEffect(() => {
+        setSavedTemplates(loadStoredTemplates());
         
         const logoImg = new Image();
         logoImg.onload = () => {
@@ -240,6 +296,8 @@ function App() {
     };
     
     const handleFontUpload = (fontFamily: string) => {
+        // A re-uploaded file keeps its family name, so earlier fits for that name are stale
+        clearTextFitCache();
         // Apply font to all text elements for simplicity
         setState(draft => {
             draft.headlineStyle.fontFamily = fontFamily;
@@ -248,10 +306,9 @@ function App() {
         });
     };
 
-    const handleSaveLayout = (name: string) => {
-        const newTemplate: LayoutTemplate = { name, configs: state.artboardConfigs };
+    const saveTemplate = (newTemplate: LayoutTemplate) => {
         const newTemplates = produce(savedTemplates, draft => {
-            const existingIndex = draft.findIndex(t => t.name === name);
+            const existingIndex = draft.findIndex(t => t.name === newTemplate.name);
             if (existingIndex > -1) {
                 draft[existingIndex] = newTemplate;
             } else {
@@ -259,7 +316,11 @@ function App() {
             }
         });
         setSavedTemplates(newTemplates);
-        localStorage.setItem('bannerLayoutTemplates', JSON.stringify(newTemplates));
+        storeTemplates(newTemplates);
+    };
+
+    const handleSaveLayout = (name: string) => {
+        saveTemplate(createLayoutTemplate(name, state.artboardConfigs));
     };
 
     const handleApplyLayout = (name: string) => {
@@ -272,11 +333,27 @@ function App() {
     const handleDeleteLayout = (name: string) => {
         const newTemplates = savedTemplates.filter(t => t.name !== name);
         setSavedTemplates(newTemplates);
-        localStorage.setItem('bannerLayoutTemplates', JSON.stringify(newTemplates));
+        storeTemplates(newTemplates);
     };
 
     const handleUploadLayout = (template: LayoutTemplate) => {
-        handleSaveLayout(template.name);
+        saveTemplate(template);
+    };
+
+    const handleImportVariants = (variants: CopyVariant[]) => {
+        setState(draft => {
+            draft.copyVariants = variants;
+            draft.activeVariantId = null;
+        });
+    };
+
+    const handleDeleteVariant = (variantId: string) => {
+        setState(draft => {
+            draft.copyVariants = draft.copyVariants.filter(v => v.id !== variantId);
+            if (draft.activeVariantId === variantId) {
+                draft.activeVariantId = null;
+            }
+        });
     };
 
     const handleArtboardCompleteToggle = (artboardId: string, isComplete: boolean) => {
@@ -322,12 +399,33 @@ function App() {
         });
     };
 
+    const runExport = async (fileName: string, exporter: (onProgress: (done: number, total: number) => void) => Promise<{ zip: Blob; report: ExportReport }>) => {
+        setExportReport(null);
+        setExportProgress({ done: 0, total: 0 });
+        try {
+            const { zip, report } = await exporter((done, total) => setExportProgress({ done, total }));
+            downloadBlob(zip, fileName);
+            setExportReport(report);
+        } catch (error) {
+            console.error('Artboard export failed:', error);
+            alert("Export failed. Check that all images and fonts have loaded and try again.");
+        } finally {
+            setExportProgress(null);
+        }
+    };
+
+    const handleExport = (options: ExportOptions) =>
+        runExport(`${slugify(options.campaignName)}.zip`, onProgress => exportArtboards(sortedArtboardConfigs, state, options, onProgress));
+
+    const handleExportHtml5 = (options: Html5ExportOptions) =>
+        runExport(`${slugify(options.campaignName)}_html5.zip`, onProgress => exportHtml5Banners(sortedArtboardConfigs, state, options, onProgress));
+
     return (
         <div className="flex h-screen bg-white font-sans">
             <aside className="w-[380px] bg-white border-r border-gray-200 p-4 flex flex-col">
                  <div className="overflow-y-auto">
                     <InputControls 
-                        state={state}
+                        state={displayState}
                         onStateChange={handleStateChange}
                         undo={undo}
                         redo={redo}
@@ -342,6 +440,13 @@ function App() {
                         onDeleteLayout={handleDeleteLayout}
                         onUploadLayout={handleUploadLayout}
                         onArtboardCompleteToggle={handleArtboardCompleteToggle}
+                        onExport={handleExport}
+                        onExportHtml5={handleExportHtml5}
+                        exportProgress={exportProgress}
+                        exportReport={exportReport}
+                        onImportVariants={handleImportVariants}
+                        onDeleteVariant={handleDeleteVariant}
+                        variantOverflowCounts={variantOverflowCounts}
                     />
                 </div>
             </aside>
@@ -349,7 +454,7 @@ function App() {
                 <div className="flex-grow overflow-y-auto">
                     <PreviewArea 
                         artboardConfigs={sortedArtboardConfigs}
-                        appState={state}
+                        appState={displayState}
                         onArtboardLayoutUpdate={handleArtboardLayoutUpdate}
                         onArtboardBackgroundPositionUpdate={handleArtboardBackgroundPositionUpdate}
                         onInteractionEnd={handleInteractionEnd}
@@ -357,9 +462,14 @@ function App() {
                         onElementSelect={setSelectedElement}
                         onArtboardMove={handleArtboardMove}
                         onStateChange={handleStateChange}
+                        textOverflows={textOverflows}
+                        variantOverflowCounts={variantOverflowCounts}
+                        previewMode={previewMode}
+                        onPreviewModeChange={setPreviewMode}
                     />
                 </div>
             </main>
+            <ArtboardOrderDebugger configs={sortedArtboardConfigs} textOverflows={textOverflows} />
         </div>
     );
 }
@@ -1,15 +1,17 @@
 import React, { useState, useCallback } from 'react';
 // Fix: Add .ts extension to resolve module path.
-import { ArtboardConfig } from '../types';
+import { ArtboardConfig, TextOverflow } from '../types';
 
 interface ArtboardOrderDebuggerProps {
     configs: ArtboardConfig[];
+    textOverflows?: Record<string, TextOverflow[]>;
 }
 
-export const ArtboardOrderDebugger: React.FC<ArtboardOrderDebuggerProps> = ({ configs }) => {
+export const ArtboardOrderDebugger: React.FC<ArtboardOrderDebuggerProps> = ({ configs, textOverflows = {} }) => {
     const [copyText, setCopyText] = useState('Copy');
 
     const orderString = configs.map(c => `${c.width}x${c.height}`).join(', ');
+    const overflowCount = configs.filter(c => textOverflows[c.id]).length;
 
     const handleCopy = useCallback(() => {
         navigator.clipboard.writeText(orderString).then(() => {
@@ -56,8 +58,23 @@ export const ArtboardOrderDebugger: React.FC<ArtboardOrderDebuggerProps> = ({ co
                     overflowY: 'auto'
                 }}
             >
-                {orderString}
+                {configs.map((c, i) => (
+                    <React.Fragment key={c.id}>
+                        {i > 0 && ', '}
+                        <span
+                            style={textOverflows[c.id] ? { color: '#FBBF24', fontWeight: 'bold' } : undefined}
+                            title={textOverflows[c.id]?.map(o => `${o.elementName}: ${o.reason}`).join('\n')}
+                        >
+                            {c.width}x{c.height}{textOverflows[c.id] && ` ⚠${textOverflows[c.id].length}`}
+                        </span>
+                    </React.Fragment>
+                ))}
             </div>
+            {overflowCount > 0 && (
+                <div style={{ marginTop: '6px', color: '#FBBF24' }}>
+                    {overflowCount} artboard{overflowCount === 1 ? '' : 's'} with text overflow
+                </div>
+            )}
         </div>
     );
 };
\ No newline at end of file
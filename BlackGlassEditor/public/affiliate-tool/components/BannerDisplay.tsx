@@ -1,6 +1,7 @@
 import React, { useState, useRef, useCallback, useEffect, useLayoutEffect } from 'react';
 // Fix: Add .ts extension to resolve module path.
 import { ArtboardConfig, AppState, ArtboardLayout, ElementName, SelectedElement } from '../types.ts';
+import { getGradientCss, getTextElementStyles } from '../utils/bannerStyles.ts';
 
 interface BannerDisplayProps {
   config: ArtboardConfig;
@@ -10,6 +11,8 @@ interface BannerDisplayProps {
   onInteractionEnd: () => void;
   selectedElement: SelectedElement;
   onElementSelect: (selection: SelectedElement) => void;
+  /** Rounds the text and CTA boxes in the preview (the former -04 tool's look); exports stay square. */
+  borderRadius?: number;
 }
 
 const DraggableItem: React.FC<{
@@ -271,11 +274,6 @@ const DraggableItem: React.FC<{
   );
 };
 
-const hexToRgb = (hex: string): string => {
-    let result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    return result ? `${parseInt(result[1], 16)}, ${parseInt(result[2], 16)}, ${parseInt(result[3], 16)}` : '0,0,0';
-};
-
 export const BannerDisplay: React.FC<BannerDisplayProps> = ({ 
   config, 
   state, 
@@ -283,7 +281,8 @@ export const BannerDisplay: React.FC<BannerDisplayProps> = ({
   onInteractionEnd, 
   selectedElement, 
   onElementSelect,
-  onArtboardBackgroundPositionUpdate
+  onArtboardBackgroundPositionUpdate,
+  borderRadius = 0
 }) => {
     const bgRef = useRef<HTMLDivElement>(null);
     const [isBgDragging, setIsBgDragging] = useState(false);
@@ -337,7 +336,7 @@ export const BannerDisplay: React.FC<BannerDisplayProps> = ({
     if (state.backgroundType === 'solid') {
         backgroundStyle.backgroundColor = state.backgroundColor;
     } else if (state.backgroundType === 'gradient') {
-        backgroundStyle.background = `linear-gradient(${state.gradient.angle}deg, ${state.gradient.colors.join(', ')})`;
+        backgroundStyle.background = getGradientCss(state);
     } else if (state.backgroundType === 'image' && state.backgroundImage) {
         backgroundStyle.backgroundImage = `url(${state.backgroundImage.src})`;
         backgroundStyle.backgroundSize = `${state.backgroundImage.width * state.backgroundScale}px ${state.backgroundImage.height * state.backgroundScale}px`;
@@ -346,55 +345,11 @@ export const BannerDisplay: React.FC<BannerDisplayProps> = ({
         backgroundStyle.cursor = isBgDragging ? 'grabbing' : 'grab';
     }
     
-    const baseTextStyle = (style: typeof state.headlineStyle, layout: ArtboardLayout): React.CSSProperties => {
-        const base: React.CSSProperties = {
-            fontFamily: style.fontFamily,
-            fontWeight: style.fontWeight,
-            fontStyle: style.fontStyle,
-            letterSpacing: `${style.letterSpacing}px`,
-            lineHeight: style.lineHeight,
-            color: style.fontColor,
-            textTransform: style.textTransform,
-            textDecoration: style.textDecoration,
-            textDecorationThickness: style.textDecoration === 'underline' ? `${state.ctaUnderlineThickness}px` : undefined,
-            textUnderlineOffset: style.textDecoration === 'underline' ? `${state.ctaUnderlineOffset}px` : undefined,
-            backgroundColor: `rgba(${hexToRgb(style.textBgColor)}, ${style.textBgOpacity})`,
-            boxSizing: 'border-box',
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: layout.textAlign === 'center' ? 'center' : layout.textAlign === 'right' ? 'flex-end' : 'flex-start',
-            textAlign: layout.textAlign || 'left',
-            overflow: 'hidden',
-        };
-
-        if (style.overflowBehavior === 'ellipsis') {
-            base.whiteSpace = 'nowrap';
-            base.textOverflow = 'ellipsis';
-        } else {
-            base.whiteSpace = 'normal';
-            base.overflowWrap = 'break-word';
-            base.wordBreak = 'break-word';
-        }
-
-        return base;
-    };
-
-    const headlineStyle: React.CSSProperties = {
-        ...baseTextStyle(state.headlineStyle, config.headlineLayout),
-        fontSize: `${(config.headlineLayout.fontSize || 20) + state.fontSizeAdjustment}px`,
-    };
-
-    const subheadlineStyle: React.CSSProperties = {
-        ...baseTextStyle(state.subheadlineStyle, config.subheadlineLayout),
-        fontSize: `${(config.subheadlineLayout.fontSize || 12) + state.fontSizeAdjustment}px`,
-    };
-    
-    const finalCtaStyle: React.CSSProperties = {
-        ...baseTextStyle(state.ctaStyle, config.ctaLayout),
-        fontSize: `${(config.ctaLayout.fontSize || 12) + state.fontSizeAdjustment}px`,
-        border: state.ctaStrokeEnabled ? `${state.ctaStrokeWidth}px solid ${state.ctaStrokeColor}` : 'none',
-        borderRadius: 0,
-    };
+    const textStyles = getTextElementStyles(config, state);
+    const rounded = (style: React.CSSProperties): React.CSSProperties => borderRadius > 0 ? { ...style, borderRadius: `${borderRadius}px` } : style;
+    const headlineStyle = rounded(textStyles.headline);
+    const subheadlineStyle = rounded(textStyles.subheadline);
+    const finalCtaStyle = rounded(textStyles.cta);
 
     const logoStyle: React.CSSProperties = {
         width: '100%',
@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
 // Fix: Add .ts extension to resolve module path.
-import { AppState, ElementName, LayoutTemplate, TextStyle } from '../types.ts';
+import { AnimationPreset, AppState, CopyVariant, ElementAnimation, ElementName, ExportOptions, ExportReport, Html5ExportOptions, LayoutTemplate, TextStyle } from '../types.ts';
+import { ANIMATION_PRESETS, DEFAULT_MAX_FILE_SIZE_KB, DEFAULT_MIN_FONT_SIZE, EXPORT_SCALES, HTML5_INITIAL_LOAD_LIMIT_KB } from '../constants.ts';
+import { parseCopyVariants } from '../utils/copyVariants.ts';
+import { migrateLayoutTemplate } from '../utils/layoutTemplates.ts';
 import { 
     UndoIcon, RedoIcon, UploadIcon, DownloadIcon, AlignLeftIcon, AlignCenterIcon, AlignRightIcon, 
     AlignTopIcon, AlignMiddleIcon, AlignBottomIcon, DistributeVerticalIcon, SaveIcon, TrashIcon,
@@ -24,6 +27,13 @@ interface InputControlsProps {
     onDeleteLayout: (name: string) => void;
     onUploadLayout: (template: LayoutTemplate) => void;
     onArtboardCompleteToggle: (artboardId: string, isComplete: boolean) => void;
+    onExport: (options: ExportOptions) => void;
+    onExportHtml5: (options: Html5ExportOptions) => void;
+    exportProgress: { done: number; total: number } | null;
+    exportReport: ExportReport | null;
+    onImportVariants: (variants: CopyVariant[]) => void;
+    onDeleteVariant: (variantId: string) => void;
+    variantOverflowCounts: Record<string, number>;
 }
 
 const ControlSection: React.FC<{ title: string, children: React.ReactNode, defaultOpen?: boolean }> = ({ title, children, defaultOpen = true }) => {
@@ -104,6 +114,18 @@ const TextElementControls: React.FC<{
     const handleStyleChange = (updates: Partial<TextStyle>) => {
         onStateChange({ [styleKey]: { ...styleValue, ...updates } });
     };
+
+    const layoutKey = `${elementName}Layout` as const;
+    const minFontSize = state.artboardConfigs[0]?.[layoutKey].minFontSize ?? DEFAULT_MIN_FONT_SIZE;
+
+    const handleMinFontSizeChange = (value: number) => {
+        onStateChange({
+            artboardConfigs: state.artboardConfigs.map(config => ({
+                ...config,
+                [layoutKey]: { ...config[layoutKey], minFontSize: value },
+            })),
+        });
+    };
     
     const handleFontFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
@@ -168,6 +190,13 @@ const TextElementControls: React.FC<{
                 </div>
             </div>
 
+            {state.autoFitText && (
+                <div>
+                    <Label htmlFor={`${elementName}-minFontSize`}>Auto-fit Min Size (px)</Label>
+                    <NumberInput id={`${elementName}-minFontSize`} min={1} value={minFontSize} onChange={e => handleMinFontSizeChange(parseInt(e.target.value) || DEFAULT_MIN_FONT_SIZE)} />
+                </div>
+            )}
+
              <div className="flex justify-around items-center p-1 bg-gray-100 rounded-md space-x-1">
                 <button onClick={() => onGlobalElementAlign(elementName, { h: 'left' })} className={elementButtonClass}><AlignLeftIcon className="w-5 h-5 text-gray-700" /></button>
                 <button onClick={() => onGlobalElementAlign(elementName, { h: 'center' })} className={elementButtonClass}><AlignCenterIcon className="w-5 h-5 text-gray-700" /></button>
@@ -207,9 +236,169 @@ const TextElementControls: React.FC<{
     );
 };
 
+const AnimationTimelineControls: React.FC<{
+    state: AppState,
+    onStateChange: (updates: Partial<AppState>, recordHistory?: boolean) => void,
+}> = ({ state, onStateChange }) => {
+    const handleAnimationChange = (elementName: ElementName, updates: Partial<ElementAnimation>) => {
+        onStateChange({
+            animationTimeline: {
+                ...state.animationTimeline,
+                [elementName]: { ...state.animationTimeline[elementName], ...updates },
+            },
+        });
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="grid grid-cols-4 gap-2 text-xs text-gray-500">
+                <span>Element</span>
+                <span>Entrance</span>
+                <span>Delay (ms)</span>
+                <span>Length (ms)</span>
+            </div>
+            {(['logo', 'headline', 'subheadline', 'cta'] as ElementName[]).map(elementName => {
+                const animation = state.animationTimeline[elementName];
+                return (
+                    <div key={elementName} className="grid grid-cols-4 gap-2 items-center text-sm">
+                        <span className="capitalize">{elementName}</span>
+                        <select
+                            value={animation.preset}
+                            onChange={e => handleAnimationChange(elementName, { preset: e.target.value as AnimationPreset })}
+                            className="p-1 border border-gray-300 rounded-md text-sm"
+                        >
+                            {ANIMATION_PRESETS.map(preset => <option key={preset} value={preset}>{preset}</option>)}
+                        </select>
+                        <NumberInput min={0} step={100} value={animation.delayMs} disabled={animation.preset === 'none'} onChange={e => handleAnimationChange(elementName, { delayMs: parseInt(e.target.value) || 0 })} />
+                        <NumberInput min={0} step={100} value={animation.durationMs} disabled={animation.preset === 'none'} onChange={e => handleAnimationChange(elementName, { durationMs: parseInt(e.target.value) || 0 })} />
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+const ExportControls: React.FC<{
+    state: AppState,
+    onStateChange: (updates: Partial<AppState>, recordHistory?: boolean) => void,
+    onExport: (options: ExportOptions) => void,
+    onExportHtml5: (options: Html5ExportOptions) => void,
+    exportProgress: { done: number; total: number } | null,
+    exportReport: ExportReport | null,
+}> = ({ state, onStateChange, onExport, onExportHtml5, exportProgress, exportReport }) => {
+    const [clickTagUrl, setClickTagUrl] = useState('https://www.lkbennett.com/');
+    const [options, setOptions] = useState<ExportOptions>({
+        campaignName: 'campaign',
+        format: 'png',
+        scales: [1],
+        maxFileSizeKb: DEFAULT_MAX_FILE_SIZE_KB,
+        includeIncomplete: false,
+        allVariants: false,
+    });
+
+    const incompleteCount = state.artboardConfigs.filter(c => !c.isComplete).length;
+    const exportableCount = options.includeIncomplete ? state.artboardConfigs.length : state.artboardConfigs.length - incompleteCount;
+    const isExporting = exportProgress !== null;
+
+    const toggleScale = (scale: number) => {
+        const scales = options.scales.includes(scale)
+            ? options.scales.filter(s => s !== scale)
+            : [...options.scales, scale].sort();
+        setOptions({ ...options, scales });
+    };
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <Label htmlFor="export-campaign">Campaign Name</Label>
+                <Input id="export-campaign" value={options.campaignName} onChange={e => setOptions({ ...options, campaignName: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+                <div>
+                    <Label>Format</Label>
+                    <div className="grid grid-cols-2 gap-1 p-1 bg-gray-100 rounded-md">
+                        {(['png', 'jpg'] as const).map(format => (
+                            <button
+                                key={format}
+                                onClick={() => setOptions({ ...options, format })}
+                                className={`px-2 py-1 text-sm rounded-md uppercase transition-colors ${options.format === format ? 'bg-purple-600 text-white' : 'bg-white hover:bg-gray-200'}`}
+                            >
+                                {format}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div>
+                    <Label htmlFor="export-budget">Max KB / file</Label>
+                    <NumberInput id="export-budget" min={1} value={options.maxFileSizeKb} onChange={e => setOptions({ ...options, maxFileSizeKb: parseInt(e.target.value) || DEFAULT_MAX_FILE_SIZE_KB })} />
+                </div>
+            </div>
+            <div className="flex items-center space-x-4">
+                {EXPORT_SCALES.map(scale => (
+                    <Checkbox key={scale} id={`export-scale-${scale}`} label={`${scale}x`} checked={options.scales.includes(scale)} onChange={() => toggleScale(scale)} />
+                ))}
+            </div>
+            <Checkbox
+                id="export-include-incomplete"
+                label={`Include artboards not marked Done (${incompleteCount})`}
+                checked={options.includeIncomplete}
+                onChange={e => setOptions({ ...options, includeIncomplete: e.target.checked })}
+            />
+            {state.copyVariants.length > 0 && (
+                <Checkbox
+                    id="export-all-variants"
+                    label={`Export all ${state.copyVariants.length} copy variants`}
+                    checked={options.allVariants}
+                    onChange={e => setOptions({ ...options, allVariants: e.target.checked })}
+                />
+            )}
+            <button
+                onClick={() => onExport(options)}
+                disabled={isExporting || exportableCount === 0 || options.scales.length === 0}
+                className="w-full flex items-center justify-center p-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                <DownloadIcon className="w-4 h-4 mr-2" />
+                {exportProgress ? `Exporting ${exportProgress.done}/${exportProgress.total}...` : `Export ${exportableCount} Artboards (ZIP)`}
+            </button>
+            <div className="p-2 border rounded-md space-y-3">
+                <p className="text-sm font-medium text-gray-700">HTML5 Banners</p>
+                <div>
+                    <Label htmlFor="export-clicktag">clickTag URL</Label>
+                    <Input id="export-clicktag" type="url" value={clickTagUrl} onChange={e => setClickTagUrl(e.target.value)} />
+                </div>
+                <AnimationTimelineControls state={state} onStateChange={onStateChange} />
+                <button
+                    onClick={() => onExportHtml5({ campaignName: options.campaignName, clickTagUrl, includeIncomplete: options.includeIncomplete, allVariants: options.allVariants })}
+                    disabled={isExporting || exportableCount === 0}
+                    className="w-full flex items-center justify-center p-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <DownloadIcon className="w-4 h-4 mr-2" />
+                    Export HTML5 (max {HTML5_INITIAL_LOAD_LIMIT_KB} KB each)
+                </button>
+            </div>
+            {exportReport && (
+                <div className="space-y-1 text-xs">
+                    {exportReport.skippedIncomplete.length > 0 && (
+                        <p className="text-amber-700">Skipped {exportReport.skippedIncomplete.length} artboards not marked Done.</p>
+                    )}
+                    <ul className="max-h-40 overflow-y-auto space-y-1 pr-2 font-mono">
+                        {exportReport.results.map(result => (
+                            <li key={result.fileName} className={`flex justify-between p-1 rounded ${result.overBudget ? 'bg-red-50 text-red-700' : !result.isComplete ? 'bg-amber-50 text-amber-700' : 'bg-gray-50'}`}>
+                                <span className="truncate" title={result.fileName}>{result.fileName}{!result.isComplete && ' (not done)'}</span>
+                                <span className="shrink-0 ml-2">{result.sizeKb} KB</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
 export const InputControls: React.FC<InputControlsProps> = ({ 
     state, onStateChange, undo, redo, canUndo, canRedo, onGlobalElementAlign, onTidyUp, onFontUpload,
-    savedTemplates, onSaveLayout, onApplyLayout, onDeleteLayout, onUploadLayout, onArtboardCompleteToggle
+    savedTemplates, onSaveLayout, onApplyLayout, onDeleteLayout, onUploadLayout, onArtboardCompleteToggle,
+    onExport, onExportHtml5, exportProgress, exportReport, onImportVariants, onDeleteVariant, variantOverflowCounts
 }) => {
     const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
@@ -260,14 +449,25 @@ export const InputControls: React.FC<InputControlsProps> = ({
         const reader = new FileReader();
         reader.onload = (event) => {
             try {
-                const template = JSON.parse(event.target?.result as string) as LayoutTemplate;
-                if (template.name && Array.isArray(template.configs)) {
-                    onUploadLayout(template);
-                } else {
-                    alert("Invalid template file format.");
-                }
+                onUploadLayout(migrateLayoutTemplate(JSON.parse(event.target?.result as string)));
             } catch (error) {
-                alert("Error parsing template file.");
+                alert(`Invalid template file:\n${error instanceof Error ? error.message : error}`);
+            }
+        };
+        reader.readAsText(file);
+        e.target.value = '';
+    };
+
+    const handleUploadVariants = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (event) => {
+            try {
+                const variants = parseCopyVariants(event.target?.result as string, file.name, state);
+                onImportVariants(variants);
+            } catch (error) {
+                alert(`Error importing copy variants: ${error instanceof Error ? error.message : error}`);
             }
         };
         reader.readAsText(file);
@@ -304,6 +504,31 @@ export const InputControls: React.FC<InputControlsProps> = ({
                 </div>
             </ControlSection>
 
+            <ControlSection title="Copy Variants" defaultOpen={false}>
+                <label htmlFor="upload-variants" className="w-full flex items-center justify-center p-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 cursor-pointer"><UploadIcon className="w-4 h-4 mr-2" />Import CSV / JSON</label>
+                <input id="upload-variants" type="file" accept=".csv,.json" className="hidden" onChange={handleUploadVariants} />
+                <p className="mt-2 text-xs text-gray-500">Columns: name, headline, subheadline, cta. Each row generates a full artboard set.</p>
+                {state.copyVariants.length > 0 && (
+                    <ul className="mt-3 max-h-40 overflow-y-auto space-y-2 pr-2">
+                        {state.copyVariants.map(variant => (
+                            <li key={variant.id} className={`flex items-center justify-between p-2 rounded-md border ${state.activeVariantId === variant.id ? 'bg-purple-50 border-purple-300' : 'bg-gray-50'}`}>
+                                <button onClick={() => onStateChange({ activeVariantId: variant.id }, false)} className="text-sm font-medium truncate text-left" title={variant.headline}>{variant.name}</button>
+                                <div className="flex items-center space-x-2 shrink-0">
+                                    {variantOverflowCounts[variant.id] > 0 && (
+                                        <span className="text-xs text-amber-700" title="Artboards with overflowing text">⚠ {variantOverflowCounts[variant.id]}</span>
+                                    )}
+                                    <button onClick={() => onDeleteVariant(variant.id)} className="p-1 text-gray-400 hover:text-red-600" aria-label={`Delete ${variant.name}`}><TrashIcon className="w-4 h-4" /></button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </ControlSection>
+
+            <ControlSection title="Export" defaultOpen={false}>
+                <ExportControls state={state} onStateChange={onStateChange} onExport={onExport} onExportHtml5={onExportHtml5} exportProgress={exportProgress} exportReport={exportReport} />
+            </ControlSection>
+
             <ControlSection title="Layout Templates" defaultOpen>
                 <div className="grid grid-cols-2 gap-2">
                     <button onClick={handleSaveLayoutClick} className="w-full flex items-center justify-center p-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors"><SaveIcon className="w-4 h-4 mr-2" />Save</button>
@@ -337,6 +562,7 @@ export const InputControls: React.FC<InputControlsProps> = ({
                 </div>
             </div>
              <button onClick={onTidyUp} className="w-full flex items-center justify-center p-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors"><DistributeVerticalIcon className="w-5 h-5 mr-2" />Tidy Up Vertically</button>
+             <Checkbox id="auto-fit-text" label="Auto-fit text to each artboard" checked={state.autoFitText} onChange={e => onStateChange({ autoFitText: e.target.checked })} />
 
             <ControlSection title="Headline" defaultOpen={false}>
                 <TextElementControls elementName="headline" state={state} onStateChange={onStateChange} onGlobalElementAlign={onGlobalElementAlign} onFontUpload={onFontUpload} />
@@ -1,8 +1,8 @@
-import React, {useState} from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 // Fix: Add .tsx and .ts extensions to resolve modules.
 import { BannerDisplay } from './BannerDisplay.tsx';
-import { ArtboardConfig, AppState, ElementName, ArtboardLayout, SelectedElement, SortOrder } from '../types.ts';
-import { SortIcon } from './icons.tsx';
+import { ArtboardConfig, AppState, ElementName, ArtboardLayout, PreviewMode, SelectedElement, SortOrder, TextOverflow } from '../types.ts';
+import { ChevronLeftIcon, ChevronRightIcon, GridIcon, SortIcon, ViewCarouselIcon } from './icons.tsx';
 
 interface PreviewAreaProps {
   artboardConfigs: ArtboardConfig[];
@@ -14,8 +14,21 @@ interface PreviewAreaProps {
   onElementSelect: (selection: SelectedElement) => void;
   onArtboardMove: (artboardId: string, direction: 'up' | 'down' | 'left' | 'right') => void;
   onStateChange: (updates: Partial<AppState>, recordHistory?: boolean) => void;
+  textOverflows: Record<string, TextOverflow[]>;
+  variantOverflowCounts: Record<string, number>;
+  /** Defaults to the grid; the mode toggle only shows when `onPreviewModeChange` is given. */
+  previewMode?: PreviewMode;
+  onPreviewModeChange?: (mode: PreviewMode) => void;
+  borderRadius?: number;
 }
 
+const OVERFLOW_REASON_LABELS: Record<TextOverflow['reason'], string> = {
+  'truncated': 'truncated',
+  'word-break': 'word too long for box',
+  'out-of-bounds': 'runs off artboard',
+  'no-fit': 'too long even at minimum font size',
+};
+
 export const PreviewArea: React.FC<PreviewAreaProps> = ({
   artboardConfigs,
   appState,
@@ -26,9 +39,42 @@ export const PreviewArea: React.FC<PreviewAreaProps> = ({
   onElementSelect,
   onArtboardMove,
   onStateChange,
+  textOverflows,
+  variantOverflowCounts,
+  previewMode = 'grid',
+  onPreviewModeChange,
+  borderRadius,
 }) => {
     const { zoomLevel } = appState;
     const [focusedArtboardId, setFocusedArtboardId] = useState<string | null>(null);
+    const [carouselIndex, setCarouselIndex] = useState(0);
+    const carouselRef = useRef<HTMLDivElement>(null);
+    const wheelLockRef = useRef<number | null>(null);
+
+    const lastIndex = Math.max(0, artboardConfigs.length - 1);
+    const focusedIndex = Math.min(carouselIndex, lastIndex);
+    const moveCarousel = (step: number) => setCarouselIndex(index => Math.max(0, Math.min(lastIndex, Math.min(index, lastIndex) + step)));
+
+    // Horizontal trackpad swipes step through the carousel, one artboard per gesture
+    useEffect(() => {
+        const element = carouselRef.current;
+        if (!element || previewMode !== 'carousel') return;
+        const handleWheel = (e: WheelEvent) => {
+            if (Math.abs(e.deltaX) <= Math.abs(e.deltaY) || Math.abs(e.deltaX) < 2) return;
+            e.preventDefault();
+            if (wheelLockRef.current) return;
+            setCarouselIndex(index => Math.max(0, Math.min(lastIndex, Math.min(index, lastIndex) + (e.deltaX > 0 ? 1 : -1))));
+            wheelLockRef.current = window.setTimeout(() => { wheelLockRef.current = null; }, 500);
+        };
+        element.addEventListener('wheel', handleWheel, { passive: false });
+        return () => {
+            element.removeEventListener('wheel', handleWheel);
+            if (wheelLockRef.current) {
+                clearTimeout(wheelLockRef.current);
+                wheelLockRef.current = null;
+            }
+        };
+    }, [previewMode, lastIndex]);
 
     const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, artboardId: string) => {
         const keyMap = { ArrowUp: 'up', ArrowDown: 'down', ArrowLeft: 'left', ArrowRight: 'right' };
@@ -38,6 +84,71 @@ export const PreviewArea: React.FC<PreviewAreaProps> = ({
         }
     };
     
+    const renderArtboard = (config: ArtboardConfig) => (
+        <div 
+            key={config.id} 
+            className="relative group outline-none border border-gray-200 rounded-lg shadow-sm overflow-hidden flex flex-col bg-white"
+            tabIndex={0}
+            onFocus={() => setFocusedArtboardId(config.id)}
+            onBlur={() => setFocusedArtboardId(null)}
+            onKeyDown={(e) => handleKeyDown(e, config.id)}
+        >
+            <div className="border-b border-gray-200 p-2 bg-white text-center text-xs font-mono text-gray-500 shrink-0">
+                {config.width}x{config.height}
+                {textOverflows[config.id] && (
+                    <span
+                        className="ml-2 px-2 py-0.5 rounded-full bg-amber-100 text-amber-800"
+                        title={textOverflows[config.id].map(o => `${o.elementName}: ${OVERFLOW_REASON_LABELS[o.reason]}`).join('\n')}
+                    >
+                        ⚠ {textOverflows[config.id].length} overflow
+                    </span>
+                )}
+            </div>
+            <div
+                className="relative"
+                style={{
+                    width: config.width * zoomLevel,
+                    height: config.height * zoomLevel,
+                }}
+            >
+                <div style={{ 
+                    transform: `scale(${zoomLevel})`, 
+                    transformOrigin: 'top left',
+                    width: config.width,
+                    height: config.height
+                  }}>
+                    <BannerDisplay
+                      config={config}
+                      state={appState}
+                      onArtboardLayoutUpdate={onArtboardLayoutUpdate}
+                      onArtboardBackgroundPositionUpdate={onArtboardBackgroundPositionUpdate}
+                      onInteractionEnd={onInteractionEnd}
+                      selectedElement={selectedElement}
+                      onElementSelect={onElementSelect}
+                      borderRadius={borderRadius}
+                    />
+                </div>
+            </div>
+           {config.isComplete && (
+              <div 
+                  style={{
+                      position: 'absolute', top: 0, left: 0, right: 0, bottom: 0,
+                      backgroundColor: 'rgba(255, 255, 255, 0.7)',
+                      display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 20, pointerEvents: 'none'
+                  }}
+              >
+                  <div style={{ backgroundColor: 'white', color: '#10B981', padding: '8px 16px', borderRadius: '9999px', display: 'flex', alignItems: 'center', fontWeight: 'bold', boxShadow: '0 4px 6px rgba(0,0,0,0.1)'}}>
+                      <svg className="w-6 h-6 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
+                      Done
+                  </div>
+              </div>
+           )}
+           {focusedArtboardId === config.id && (
+              <div className="absolute inset-0 ring-2 ring-purple-500 pointer-events-none rounded-lg"></div>
+           )}
+        </div>
+    );
+
   return (
     <div className="flex flex-col h-full">
          <header className="sticky top-0 z-20 bg-white border-b border-gray-200 px-4 py-2 flex items-center justify-between">
@@ -58,20 +169,55 @@ export const PreviewArea: React.FC<PreviewAreaProps> = ({
                         <option value="area-desc">Area (desc)</option>
                     </select>
                 </div>
+                {appState.copyVariants.length > 0 && (
+                    <select
+                        value={appState.activeVariantId ?? ''}
+                        onChange={(e) => onStateChange({ activeVariantId: e.target.value || null }, false)}
+                        className="bg-white border border-gray-300 rounded-md text-sm font-medium focus:ring-purple-500"
+                        aria-label="Copy variant"
+                    >
+                        <option value="">Base copy</option>
+                        {appState.copyVariants.map(variant => (
+                            <option key={variant.id} value={variant.id}>
+                                {variant.name}{variantOverflowCounts[variant.id] ? ` (⚠ ${variantOverflowCounts[variant.id]})` : ''}
+                            </option>
+                        ))}
+                    </select>
+                )}
             </div>
-            <div className="flex items-center w-64 space-x-2">
-                <input
-                    type="range"
-                    min="0.2"
-                    max="1.5"
-                    step="0.01"
-                    value={zoomLevel}
-                    onChange={(e) => onStateChange({ zoomLevel: parseFloat(e.target.value) }, false)}
-                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-                />
-                <span className="text-sm text-gray-600 font-mono w-28 text-center">
-                    {zoomLevel === 1 ? 'Normal View' : `${Math.round(zoomLevel * 100)}% (${((zoomLevel - 1) * 100).toFixed(0)}%)`}
-                </span>
+            <div className="flex items-center space-x-4">
+                {onPreviewModeChange && (
+                    <div className="flex items-center space-x-1 p-1 bg-gray-200 rounded-md">
+                        <button
+                            onClick={() => onPreviewModeChange('grid')}
+                            className={`p-1 rounded ${previewMode === 'grid' ? 'bg-white shadow' : 'hover:bg-gray-300'}`}
+                            aria-label="Grid view"
+                        >
+                            <GridIcon className="w-5 h-5 text-gray-700" />
+                        </button>
+                        <button
+                            onClick={() => onPreviewModeChange('carousel')}
+                            className={`p-1 rounded ${previewMode === 'carousel' ? 'bg-white shadow' : 'hover:bg-gray-300'}`}
+                            aria-label="Carousel view"
+                        >
+                            <ViewCarouselIcon className="w-5 h-5 text-gray-700" />
+                        </button>
+                    </div>
+                )}
+                <div className="flex items-center w-64 space-x-2">
+                    <input
+                        type="range"
+                        min="0.2"
+                        max="1.5"
+                        step="0.01"
+                        value={zoomLevel}
+                        onChange={(e) => onStateChange({ zoomLevel: parseFloat(e.target.value) }, false)}
+                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                    />
+                    <span className="text-sm text-gray-600 font-mono w-28 text-center">
+                        {zoomLevel === 1 ? 'Normal View' : `${Math.round(zoomLevel * 100)}% (${((zoomLevel - 1) * 100).toFixed(0)}%)`}
+                    </span>
+                </div>
             </div>
         </header>
         <div 
@@ -79,68 +225,66 @@ export const PreviewArea: React.FC<PreviewAreaProps> = ({
           id="preview-area"
           style={{ padding: `${24 * zoomLevel}px`,  }}
         >
-          <div
-            className="flex flex-wrap items-start"
-            style={{
-              gap: `${24 * zoomLevel}px`,
-            }}
-          >
-            {artboardConfigs.map(config => (
-              <div 
-                  key={config.id} 
-                  className="relative group outline-none border border-gray-200 rounded-lg shadow-sm overflow-hidden flex flex-col bg-white"
-                  tabIndex={0}
-                  onFocus={() => setFocusedArtboardId(config.id)}
-                  onBlur={() => setFocusedArtboardId(null)}
-                  onKeyDown={(e) => handleKeyDown(e, config.id)}
+          {previewMode === 'carousel' ? (
+            <div ref={carouselRef} className="relative w-full h-full overflow-hidden" style={{ perspective: '1500px' }}>
+              <button
+                onClick={() => moveCarousel(-1)}
+                disabled={focusedIndex === 0}
+                className="absolute left-4 top-1/2 -translate-y-1/2 z-30 bg-white/50 hover:bg-white rounded-full p-2 shadow-lg backdrop-blur-sm transition-colors disabled:opacity-30"
+                aria-label="Previous artboard"
               >
-                  <div className="border-b border-gray-200 p-2 bg-white text-center text-xs font-mono text-gray-500 shrink-0">
-                      {config.width}x{config.height}
-                  </div>
-                  <div
-                      className="relative"
+                <ChevronLeftIcon className="w-6 h-6 text-gray-800" />
+              </button>
+              <button
+                onClick={() => moveCarousel(1)}
+                disabled={focusedIndex === lastIndex}
+                className="absolute right-4 top-1/2 -translate-y-1/2 z-30 bg-white/50 hover:bg-white rounded-full p-2 shadow-lg backdrop-blur-sm transition-colors disabled:opacity-30"
+                aria-label="Next artboard"
+              >
+                <ChevronRightIcon className="w-6 h-6 text-gray-800" />
+              </button>
+              <div className="relative w-full h-full" style={{ transformStyle: 'preserve-3d' }}>
+                {artboardConfigs.map((config, index) => {
+                  const offset = index - focusedIndex;
+                  return (
+                    <div
+                      key={config.id}
                       style={{
-                          width: config.width * zoomLevel,
-                          height: config.height * zoomLevel,
+                        position: 'absolute',
+                        top: '50%',
+                        left: '50%',
+                        transition: 'transform 0.5s ease-out, opacity 0.5s',
+                        opacity: Math.abs(offset) < 3 ? 1 : 0,
+                        pointerEvents: Math.abs(offset) < 3 ? 'auto' : 'none',
+                        zIndex: artboardConfigs.length - Math.abs(offset),
+                        transform: offset === 0
+                          ? 'translate(-50%, -50%)'
+                          : `translate(-50%, -50%) scale(0.7) translateX(${offset * 70}%) translateZ(${Math.abs(offset) * -400}px) rotateY(${offset * -25}deg)`,
+                      }}
+                      // Clicking a neighbour brings it to the front instead of selecting its elements
+                      onClickCapture={(e) => {
+                          if (offset !== 0) {
+                              e.stopPropagation();
+                              setCarouselIndex(index);
+                          }
                       }}
-                  >
-                      <div style={{ 
-                          transform: `scale(${zoomLevel})`, 
-                          transformOrigin: 'top left',
-                          width: config.width,
-                          height: config.height
-                        }}>
-                          <BannerDisplay
-                            config={config}
-                            state={appState}
-                            onArtboardLayoutUpdate={onArtboardLayoutUpdate}
-                            onArtboardBackgroundPositionUpdate={onArtboardBackgroundPositionUpdate}
-                            onInteractionEnd={onInteractionEnd}
-                            selectedElement={selectedElement}
-                            onElementSelect={onElementSelect}
-                          />
-                      </div>
-                  </div>
-                 {config.isComplete && (
-                    <div 
-                        style={{
-                            position: 'absolute', top: 0, left: 0, right: 0, bottom: 0,
-                            backgroundColor: 'rgba(255, 255, 255, 0.7)',
-                            display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 20, pointerEvents: 'none'
-                        }}
                     >
-                        <div style={{ backgroundColor: 'white', color: '#10B981', padding: '8px 16px', borderRadius: '9999px', display: 'flex', alignItems: 'center', fontWeight: 'bold', boxShadow: '0 4px 6px rgba(0,0,0,0.1)'}}>
-                            <svg className="w-6 h-6 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
-                            Done
-                        </div>
+                      {renderArtboard(config)}
                     </div>
-                 )}
-                 {focusedArtboardId === config.id && (
-                    <div className="absolute inset-0 ring-2 ring-purple-500 pointer-events-none rounded-lg"></div>
-                 )}
+                  );
+                })}
               </div>
-            ))}
-          </div>
+            </div>
+          ) : (
+            <div
+              className="flex flex-wrap items-start"
+              style={{
+                gap: `${24 * zoomLevel}px`,
+              }}
+            >
+              {artboardConfigs.map(renderArtboard)}
+            </div>
+          )}
         </div>
     </div>
   );
@@ -9,6 +9,8 @@ export interface ArtboardLayout {
   align?: 'left' | 'center' | 'right';
   vAlign?: 'top' | 'middle' | 'bottom';
   textAlign?: 'left' | 'center' | 'right';
+  minFontSize?: number;
+  maxHeight?: number;
 }
 
 export interface TextStyle {
@@ -37,6 +39,32 @@ export interface ArtboardConfig {
   isComplete: boolean;
 }
 
+export type AnimationPreset = 'none' | 'fade' | 'slide-up' | 'slide-left' | 'zoom';
+
+export interface ElementAnimation {
+  preset: AnimationPreset;
+  delayMs: number;
+  durationMs: number;
+}
+
+export type AnimationTimeline = Record<ElementName, ElementAnimation>;
+
+export interface CopyVariant {
+  id: string;
+  name: string;
+  headline: string;
+  subheadline: string;
+  ctaText: string;
+}
+
+export interface TextOverflow {
+  elementName: Exclude<ElementName, 'logo'>;
+  reason: 'truncated' | 'word-break' | 'out-of-bounds' | 'no-fit';
+}
+
+/** How the preview lays out artboards: all at once, or one focused artboard at a time. */
+export type PreviewMode = 'grid' | 'carousel';
+
 export type SortOrder = 'default' | 'width-asc' | 'width-desc' | 'height-asc' | 'height-desc' | 'area-asc' | 'area-desc';
 
 export interface AppState {
@@ -54,6 +82,7 @@ export interface AppState {
   };
   backgroundScale: number;
   fontSizeAdjustment: number;
+  autoFitText: boolean;
   headlineStyle: TextStyle;
   subheadlineStyle: TextStyle;
   ctaStyle: TextStyle;
@@ -68,6 +97,9 @@ export interface AppState {
   artboardConfigs: ArtboardConfig[];
   alignAsGroup: boolean;
   sortOrder: SortOrder;
+  animationTimeline: AnimationTimeline;
+  copyVariants: CopyVariant[];
+  activeVariantId: string | null;
 }
 
 export type SelectedElement = {
@@ -92,6 +124,40 @@ export interface ArtboardSize {
 }
 
 export interface LayoutTemplate {
+  version: number;
   name: string;
   configs: ArtboardConfig[];
-}
\ No newline at end of file
+}
+export type ExportFormat = 'png' | 'jpg';
+
+export interface ExportOptions {
+  campaignName: string;
+  format: ExportFormat;
+  scales: number[];
+  maxFileSizeKb: number;
+  includeIncomplete: boolean;
+  allVariants: boolean;
+}
+
+export interface ExportResult {
+  artboardId: string;
+  fileName: string;
+  width: number;
+  height: number;
+  scale: number;
+  sizeKb: number;
+  overBudget: boolean;
+  isComplete: boolean;
+}
+
+export interface ExportReport {
+  results: ExportResult[];
+  skippedIncomplete: string[];
+}
+
+export interface Html5ExportOptions {
+  campaignName: string;
+  clickTagUrl: string;
+  includeIncomplete: boolean;
+  allVariants: boolean;
+}
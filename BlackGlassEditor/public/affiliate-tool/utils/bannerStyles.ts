@@ -0,0 +1,97 @@
+import React from 'react';
+import { AppState, ArtboardConfig, ArtboardLayout, ElementName, TextStyle } from '../types.ts';
+import { DEFAULT_MIN_FONT_SIZE } from '../constants.ts';
+import { hexToRgb } from './color.ts';
+import { fitFontSize } from './textFit.ts';
+
+export interface TextElementSpec {
+    name: Exclude<ElementName, 'logo'>;
+    text: string;
+    style: TextStyle;
+    layout: ArtboardLayout;
+    fontSize: number;
+    borderWidth: number;
+    fits: boolean;
+}
+
+const resolveTextElement = (
+    name: TextElementSpec['name'],
+    text: string,
+    style: TextStyle,
+    layout: ArtboardLayout,
+    defaultFontSize: number,
+    borderWidth: number,
+    config: ArtboardConfig,
+    state: AppState
+): TextElementSpec => {
+    const designSize = (layout.fontSize || defaultFontSize) + state.fontSizeAdjustment;
+    if (!state.autoFitText) {
+        return { name, text, style, layout, fontSize: designSize, borderWidth, fits: true };
+    }
+    // Layouts saved before auto-fit existed have no fit box; let them use the room left below them.
+    const maxHeight = layout.maxHeight ?? config.height - layout.y;
+    const minFontSize = (layout.minFontSize ?? DEFAULT_MIN_FONT_SIZE) + state.fontSizeAdjustment;
+    const { fontSize, fits } = fitFontSize(text, style, layout.width, maxHeight, minFontSize, designSize, borderWidth);
+    return { name, text, style, layout, fontSize, borderWidth, fits };
+};
+
+/**
+ * Resolves the copy, style, layout and effective font size of each text element on an artboard.
+ * With auto-fit on, the size is the largest one between the layout's minimum and its design size
+ * that fits the layout box, so it follows copy changes (and copy variants) automatically.
+ */
+export const getTextElements = (config: ArtboardConfig, state: AppState): TextElementSpec[] => [
+    resolveTextElement('headline', state.headline, state.headlineStyle, config.headlineLayout, 20, 0, config, state),
+    resolveTextElement('subheadline', state.subheadline, state.subheadlineStyle, config.subheadlineLayout, 12, 0, config, state),
+    resolveTextElement('cta', state.ctaText, state.ctaStyle, config.ctaLayout, 12, state.ctaStrokeEnabled ? state.ctaStrokeWidth : 0, config, state),
+];
+
+export const getBaseTextStyle = (style: TextStyle, layout: ArtboardLayout, state: AppState): React.CSSProperties => {
+    const base: React.CSSProperties = {
+        fontFamily: style.fontFamily,
+        fontWeight: style.fontWeight,
+        fontStyle: style.fontStyle,
+        letterSpacing: `${style.letterSpacing}px`,
+        lineHeight: style.lineHeight,
+        color: style.fontColor,
+        textTransform: style.textTransform,
+        textDecoration: style.textDecoration,
+        textDecorationThickness: style.textDecoration === 'underline' ? `${state.ctaUnderlineThickness}px` : undefined,
+        textUnderlineOffset: style.textDecoration === 'underline' ? `${state.ctaUnderlineOffset}px` : undefined,
+        backgroundColor: `rgba(${hexToRgb(style.textBgColor)}, ${style.textBgOpacity})`,
+        boxSizing: 'border-box',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: layout.textAlign === 'center' ? 'center' : layout.textAlign === 'right' ? 'flex-end' : 'flex-start',
+        textAlign: layout.textAlign || 'left',
+        overflow: 'hidden',
+    };
+
+    if (style.overflowBehavior === 'ellipsis') {
+        base.whiteSpace = 'nowrap';
+        base.textOverflow = 'ellipsis';
+    } else {
+        base.whiteSpace = 'normal';
+        base.overflowWrap = 'break-word';
+        base.wordBreak = 'break-word';
+    }
+
+    return base;
+};
+
+/** Final CSS for the three text elements of an artboard, shared by the preview and the HTML5 exporter. */
+export const getTextElementStyles = (config: ArtboardConfig, state: AppState): Record<TextElementSpec['name'], React.CSSProperties> => {
+    const styles = {} as Record<TextElementSpec['name'], React.CSSProperties>;
+    getTextElements(config, state).forEach(element => {
+        styles[element.name] = {
+            ...getBaseTextStyle(element.style, element.layout, state),
+            fontSize: `${element.fontSize}px`,
+        };
+    });
+    styles.cta.border = state.ctaStrokeEnabled ? `${state.ctaStrokeWidth}px solid ${state.ctaStrokeColor}` : 'none';
+    styles.cta.borderRadius = 0;
+    return styles;
+};
+
+export const getGradientCss = (state: AppState): string =>
+    `linear-gradient(${state.gradient.angle}deg, ${state.gradient.colors.join(', ')})`;
@@ -0,0 +1,131 @@
+import { AppState, CopyVariant } from '../types.ts';
+
+export const COPY_FIELDS = ['headline', 'subheadline', 'ctaText'] as const;
+
+type CopyFields = Pick<CopyVariant, typeof COPY_FIELDS[number]>;
+
+// Sheet headers are matched case-insensitively, ignoring spaces, dashes and underscores.
+const COLUMN_ALIASES: Record<string, keyof Omit<CopyVariant, 'id'>> = {
+    name: 'name',
+    variant: 'name',
+    market: 'name',
+    offer: 'name',
+    headline: 'headline',
+    subheadline: 'subheadline',
+    subhead: 'subheadline',
+    cta: 'ctaText',
+    ctatext: 'ctaText',
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s_-]/g, '');
+
+/** Minimal RFC 4180 parser: quoted fields may contain commas, newlines and doubled quotes. */
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const toRecords = (text: string, isJson: boolean): Record<string, string>[] => {
+    if (isJson) {
+        const data = JSON.parse(text);
+        const list = Array.isArray(data) ? data : data?.variants;
+        if (!Array.isArray(list)) {
+            throw new Error('JSON must be an array of variants or an object with a "variants" array.');
+        }
+        return list.map(item => Object.fromEntries(Object.entries(item ?? {}).map(([k, v]) => [k, v == null ? '' : String(v)])));
+    }
+
+    const [headers, ...rows] = parseCsv(text);
+    if (!headers) {
+        throw new Error('The CSV file is empty.');
+    }
+    return rows.map(cells => Object.fromEntries(headers.map((header, i) => [header, cells[i] ?? ''])));
+};
+
+/**
+ * Parses a CSV or JSON sheet of copy variants. Each row needs a headline; a missing subheadline
+ * or CTA falls back to the current copy so partial sheets (e.g. headline-only offers) still work.
+ */
+export const parseCopyVariants = (text: string, fileName: string, fallback: CopyFields): CopyVariant[] => {
+    const records = toRecords(text, /\.json$/i.test(fileName));
+    const importedAt = Date.now();
+
+    const variants = records.map((record, i) => {
+        const fields: Partial<Record<keyof Omit<CopyVariant, 'id'>, string>> = {};
+        Object.entries(record).forEach(([header, value]) => {
+            const key = COLUMN_ALIASES[normalizeHeader(header)];
+            if (key && !fields[key]) fields[key] = value.trim();
+        });
+        if (!fields.headline) {
+            throw new Error(`Row ${i + 1} is missing a headline.`);
+        }
+        return {
+            id: `variant-${importedAt}-${i}`,
+            name: fields.name || `Variant ${i + 1}`,
+            headline: fields.headline,
+            subheadline: fields.subheadline || fallback.subheadline,
+            ctaText: fields.ctaText || fallback.ctaText,
+        };
+    });
+
+    if (variants.length === 0) {
+        throw new Error('No variants found in the file.');
+    }
+    return variants;
+};
+
+export const applyCopyVariant = (state: AppState, variant: CopyVariant): AppState => ({
+    ...state,
+    headline: variant.headline,
+    subheadline: variant.subheadline,
+    ctaText: variant.ctaText,
+});
+
+export const getActiveVariant = (state: AppState): CopyVariant | undefined =>
+    state.copyVariants.find(v => v.id === state.activeVariantId);
+
+/**
+ * The states an export should render: one per copy variant (each in its own ZIP folder) when
+ * exporting all variants, otherwise just the copy currently shown in the preview.
+ */
+export const getExportRuns = (state: AppState, allVariants: boolean): { variant: CopyVariant | null; state: AppState }[] => {
+    if (allVariants && state.copyVariants.length > 0) {
+        return state.copyVariants.map(variant => ({ variant, state: applyCopyVariant(state, variant) }));
+    }
+    const active = getActiveVariant(state);
+    return [{ variant: null, state: active ? applyCopyVariant(state, active) : state }];
+};
@@ -0,0 +1,124 @@
+import JSZip from 'jszip';
+import { AppState, ArtboardConfig, ExportFormat, ExportOptions, ExportReport, ExportResult } from '../types.ts';
+import { getExportRuns } from './copyVariants.ts';
+import { renderArtboardToCanvas } from './renderArtboard.ts';
+
+export const JPEG_QUALITY_STEPS = [0.92, 0.85, 0.75, 0.65, 0.55, 0.45, 0.35];
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode canvas')), type, quality);
+    });
+
+/**
+ * Encodes the canvas in the requested format. JPGs step down in quality until they fit the byte
+ * budget; PNGs are lossless so they are encoded once and flagged by the caller if they are too heavy.
+ */
+const encodeWithinBudget = async (canvas: HTMLCanvasElement, format: ExportFormat, budgetBytes: number): Promise<Blob> => {
+    if (format === 'png') {
+        return canvasToBlob(canvas, 'image/png');
+    }
+    let blob: Blob | null = null;
+    for (const quality of JPEG_QUALITY_STEPS) {
+        blob = await canvasToBlob(canvas, 'image/jpeg', quality);
+        if (blob.size <= budgetBytes) break;
+    }
+    return blob!;
+};
+
+export const slugify = (value: string): string =>
+    value.trim().replace(/\s+/g, '_').replace(/[^a-zA-Z0-9_-]/g, '') || 'campaign';
+
+const uniqueName = (base: string, usedNames: Set<string>): string => {
+    let name = base;
+    for (let n = 2; usedNames.has(name); n++) {
+        name = `${base}_${n}`;
+    }
+    usedNames.add(name);
+    return name;
+};
+
+// Some sizes appear more than once in ARTBOARD_SIZES, so keep every file in the ZIP unique.
+export const buildFileName = (campaign: string, config: ArtboardConfig, scale: number, extension: string, usedNames: Set<string>): string =>
+    `${uniqueName(`${campaign}_${config.width}x${config.height}${scale === 1 ? '' : `@${scale}x`}`, usedNames)}.${extension}`;
+
+export interface ExportTarget {
+    folder: JSZip;
+    pathPrefix: string;
+    campaign: string;
+    state: AppState;
+    usedNames: Set<string>;
+}
+
+/** Splits an export into one ZIP folder per copy variant when every variant is being exported. */
+export const getExportTargets = (zip: JSZip, campaign: string, state: AppState, allVariants: boolean): ExportTarget[] => {
+    const usedFolders = new Set<string>();
+    return getExportRuns(state, allVariants).map(run => {
+        if (!run.variant) {
+            return { folder: zip, pathPrefix: '', campaign, state: run.state, usedNames: new Set<string>() };
+        }
+        const folderName = uniqueName(slugify(run.variant.name), usedFolders);
+        return {
+            folder: zip.folder(folderName)!,
+            pathPrefix: `${folderName}/`,
+            campaign: `${campaign}_${folderName}`,
+            state: run.state,
+            usedNames: new Set<string>(),
+        };
+    });
+};
+
+/**
+ * Renders every artboard at each requested scale and bundles the images into a single ZIP.
+ * `onProgress` is called after each file with the number of files done and the total.
+ */
+export const exportArtboards = async (
+    configs: ArtboardConfig[],
+    state: AppState,
+    options: ExportOptions,
+    onProgress?: (done: number, total: number) => void
+): Promise<{ zip: Blob; report: ExportReport }> => {
+    const budgetBytes = options.maxFileSizeKb * 1024;
+    const included = options.includeIncomplete ? configs : configs.filter(c => c.isComplete);
+    const skippedIncomplete = options.includeIncomplete ? [] : configs.filter(c => !c.isComplete).map(c => c.id);
+
+    const zip = new JSZip();
+    const targets = getExportTargets(zip, slugify(options.campaignName), state, options.allVariants);
+    const results: ExportResult[] = [];
+    const total = targets.length * included.length * options.scales.length;
+
+    for (const target of targets) {
+        for (const config of included) {
+            for (const scale of options.scales) {
+                const canvas = await renderArtboardToCanvas(config, target.state, scale);
+                const blob = await encodeWithinBudget(canvas, options.format, budgetBytes);
+                const fileName = buildFileName(target.campaign, config, scale, options.format, target.usedNames);
+                target.folder.file(fileName, blob);
+
+                results.push({
+                    artboardId: config.id,
+                    fileName: `${target.pathPrefix}${fileName}`,
+                    width: config.width,
+                    height: config.height,
+                    scale,
+                    sizeKb: Math.round((blob.size / 1024) * 10) / 10,
+                    overBudget: blob.size > budgetBytes,
+                    isComplete: config.isComplete,
+                });
+                onProgress?.(results.length, total);
+            }
+        }
+    }
+
+    const zipBlob = await zip.generateAsync({ type: 'blob' });
+    return { zip: zipBlob, report: { results, skippedIncomplete } };
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = fileName;
+    a.click();
+    // Revoking straight away can cancel the download in Firefox and Safari
+    setTimeout(() => URL.revokeObjectURL(a.href), 1000);
+};
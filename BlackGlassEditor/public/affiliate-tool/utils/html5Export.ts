@@ -0,0 +1,180 @@
+import React from 'react';
+import JSZip from 'jszip';
+import { AnimationPreset, AppState, ArtboardConfig, ArtboardLayout, ElementAnimation, ElementName, ExportReport, ExportResult, Html5ExportOptions } from '../types.ts';
+import { HTML5_INITIAL_LOAD_LIMIT_KB } from '../constants.ts';
+import { getGradientCss, getTextElementStyles } from './bannerStyles.ts';
+import { buildFileName, getExportTargets, JPEG_QUALITY_STEPS, slugify } from './exportArtboards.ts';
+import { drawBackground } from './renderArtboard.ts';
+
+const KEYFRAMES: Record<Exclude<AnimationPreset, 'none'>, string> = {
+    'fade': 'from{opacity:0}to{opacity:1}',
+    'slide-up': 'from{opacity:0;transform:translateY(20px)}to{opacity:1;transform:none}',
+    'slide-left': 'from{opacity:0;transform:translateX(20px)}to{opacity:1;transform:none}',
+    'zoom': 'from{opacity:0;transform:scale(0.6)}to{opacity:1;transform:none}',
+};
+
+const escapeHtml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const cssPropertiesToString = (style: React.CSSProperties): string =>
+    Object.entries(style)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => `${key.replace(/[A-Z]/g, m => `-${m.toLowerCase()}`)}:${value}`)
+        .join(';');
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+
+// The default logo is loaded from a blob URL, which won't survive outside this tab.
+const toDataUrl = async (src: string): Promise<string> => {
+    if (src.startsWith('data:')) return src;
+    const response = await fetch(src);
+    return blobToDataUrl(await response.blob());
+};
+
+const renderBackgroundImage = (config: ArtboardConfig, state: AppState, quality: number): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = config.width;
+    canvas.height = config.height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('Canvas 2D context is not available');
+    }
+    drawBackground(context, config, state);
+    return canvas.toDataURL('image/jpeg', quality);
+};
+
+/** Copies the uploaded @font-face rule into the package when one of the text styles uses it. */
+const getCustomFontCss = (state: AppState): string => {
+    const css = document.getElementById('custom-font-style')?.innerHTML || '';
+    const usedFamilies = [state.headlineStyle, state.subheadlineStyle, state.ctaStyle].map(s => s.fontFamily);
+    return usedFamilies.some(family => css.includes(`'${family}'`)) ? css : '';
+};
+
+const getAnimationCss = (animation: ElementAnimation): string =>
+    animation.preset === 'none'
+        ? ''
+        : `animation:bg-${animation.preset} ${animation.durationMs}ms ease-out ${animation.delayMs}ms both;`;
+
+const getPositionCss = (layout: ArtboardLayout, fixedHeight: boolean): string =>
+    `position:absolute;left:${layout.x}px;top:${layout.y}px;width:${layout.width}px;${fixedHeight ? `height:${layout.height}px;` : ''}overflow:hidden;`;
+
+interface BannerAssets {
+    logoDataUrl: string | null;
+    fontCss: string;
+}
+
+const buildBannerHtml = (config: ArtboardConfig, state: AppState, options: Html5ExportOptions, assets: BannerAssets, backgroundQuality: number): string => {
+    const textStyles = getTextElementStyles(config, state);
+    const timeline = state.animationTimeline;
+
+    let backgroundCss = '';
+    if (state.backgroundType === 'solid') {
+        backgroundCss = `background-color:${state.backgroundColor};`;
+    } else if (state.backgroundType === 'gradient') {
+        backgroundCss = `background:${getGradientCss(state)};`;
+    } else if (state.backgroundType === 'image' && state.backgroundImage) {
+        backgroundCss = `background:url(${renderBackgroundImage(config, state, backgroundQuality)}) no-repeat;`;
+    }
+
+    const usedPresets = Array.from(new Set(Object.values(timeline).map(a => a.preset)))
+        .filter((preset): preset is Exclude<AnimationPreset, 'none'> => preset !== 'none');
+    const elementCss = (name: ElementName, layout: ArtboardLayout) =>
+        `#${name}{${getPositionCss(layout, name === 'logo')}${getAnimationCss(timeline[name])}}`;
+    // Keep `</script>` sequences in the URL from closing the inline script.
+    const clickTag = JSON.stringify(options.clickTagUrl).replace(/</g, '\\u003c');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="ad.size" content="width=${config.width},height=${config.height}">
+<title>${escapeHtml(options.campaignName)} ${config.width}x${config.height}</title>
+<script type="text/javascript">var clickTag = ${clickTag};</script>
+<style>
+${assets.fontCss}
+*{margin:0;padding:0;}
+#banner{position:relative;display:block;width:${config.width}px;height:${config.height}px;overflow:hidden;cursor:pointer;text-decoration:none;${backgroundCss}}
+#logo img{width:100%;height:100%;object-fit:contain;}
+${elementCss('logo', config.logoLayout)}
+${elementCss('headline', config.headlineLayout)}
+${elementCss('subheadline', config.subheadlineLayout)}
+${elementCss('cta', config.ctaLayout)}
+${usedPresets.map(preset => `@keyframes bg-${preset}{${KEYFRAMES[preset]}}`).join('\n')}
+</style>
+</head>
+<body>
+<a id="banner" href="javascript:window.open(window.clickTag)">
+${assets.logoDataUrl ? `<div id="logo"><img src="${assets.logoDataUrl}" alt=""></div>` : ''}
+<div id="headline"><div style="${escapeHtml(cssPropertiesToString(textStyles.headline))}">${escapeHtml(state.headline)}</div></div>
+<div id="subheadline"><div style="${escapeHtml(cssPropertiesToString(textStyles.subheadline))}">${escapeHtml(state.subheadline)}</div></div>
+<div id="cta"><div style="${escapeHtml(cssPropertiesToString(textStyles.cta))}">${escapeHtml(state.ctaText)}</div></div>
+</a>
+</body>
+</html>
+`;
+};
+
+/**
+ * Builds a self-contained HTML5 creative (single index.html with every asset inlined) for each
+ * artboard and bundles each one as its own ZIP inside the downloaded archive. Image backgrounds are
+ * recompressed until the page fits the initial-load limit; anything still over it is flagged.
+ */
+export const exportHtml5Banners = async (
+    configs: ArtboardConfig[],
+    state: AppState,
+    options: Html5ExportOptions,
+    onProgress?: (done: number, total: number) => void
+): Promise<{ zip: Blob; report: ExportReport }> => {
+    const limitBytes = HTML5_INITIAL_LOAD_LIMIT_KB * 1024;
+    const included = options.includeIncomplete ? configs : configs.filter(c => c.isComplete);
+    const skippedIncomplete = options.includeIncomplete ? [] : configs.filter(c => !c.isComplete).map(c => c.id);
+
+    const assets: BannerAssets = {
+        logoDataUrl: state.logoImage ? await toDataUrl(state.logoImage.src) : null,
+        fontCss: getCustomFontCss(state),
+    };
+    const hasImageBackground = state.backgroundType === 'image' && !!state.backgroundImage;
+
+    const zip = new JSZip();
+    const targets = getExportTargets(zip, slugify(options.campaignName), state, options.allVariants);
+    const results: ExportResult[] = [];
+    const total = targets.length * included.length;
+
+    for (const target of targets) {
+        for (const config of included) {
+            let html = '';
+            let size = 0;
+            for (const quality of hasImageBackground ? JPEG_QUALITY_STEPS : [1]) {
+                html = buildBannerHtml(config, target.state, options, assets, quality);
+                size = new Blob([html]).size;
+                if (size <= limitBytes) break;
+            }
+
+            const fileName = buildFileName(target.campaign, config, 1, 'zip', target.usedNames);
+            const bannerZip = new JSZip();
+            bannerZip.file('index.html', html);
+            target.folder.file(fileName, await bannerZip.generateAsync({ type: 'blob' }));
+
+            results.push({
+                artboardId: config.id,
+                fileName: `${target.pathPrefix}${fileName}`,
+                width: config.width,
+                height: config.height,
+                scale: 1,
+                sizeKb: Math.round((size / 1024) * 10) / 10,
+                overBudget: size > limitBytes,
+                isComplete: config.isComplete,
+            });
+            onProgress?.(results.length, total);
+        }
+    }
+
+    const zipBlob = await zip.generateAsync({ type: 'blob' });
+    return { zip: zipBlob, report: { results, skippedIncomplete } };
+};
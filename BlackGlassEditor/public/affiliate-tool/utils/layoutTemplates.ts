@@ -0,0 +1,169 @@
+import { ArtboardConfig, ElementName, LayoutTemplate } from '../types.ts';
+
+export const LAYOUT_TEMPLATE_VERSION = 2;
+export const LAYOUT_TEMPLATES_STORAGE_KEY = 'bannerLayoutTemplates';
+
+const ELEMENT_NAMES: ElementName[] = ['logo', 'headline', 'subheadline', 'cta'];
+
+// Same box heights the app gives freshly generated artboards.
+const DEFAULT_ELEMENT_HEIGHTS: Record<ElementName, number> = { logo: 30, headline: 50, subheadline: 40, cta: 30 };
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Version 1 is every template saved before templates carried a version, including the ones written
+ * by the old affiliate-tool-01 to -04 copies. Those copies let layouts leave out `x`/`y`, `width`
+ * and `height` (sizing text to its content), used `align` where this app uses `textAlign`, and
+ * didn't always store `backgroundPosition` or `isComplete`. Fill all of that in so every layout
+ * has a concrete box.
+ */
+const migrateV1 = (template: JsonObject): JsonObject => ({
+    ...template,
+    configs: Array.isArray(template.configs) ? template.configs.map(config => {
+        if (!isObject(config)) return config;
+        const width = config.width as number;
+        const migrated: JsonObject = {
+            ...config,
+            backgroundPosition: isObject(config.backgroundPosition) ? config.backgroundPosition : { x: 0, y: 0 },
+            isComplete: config.isComplete === true,
+        };
+        ELEMENT_NAMES.forEach(name => {
+            const layout = config[`${name}Layout`];
+            if (!isObject(layout)) return;
+            const x = isFiniteNumber(layout.x) ? layout.x : 0;
+            const next: JsonObject = {
+                ...layout,
+                x,
+                y: isFiniteNumber(layout.y) ? layout.y : 0,
+                width: isFiniteNumber(layout.width) ? layout.width : Math.max(1, width - x),
+                height: isFiniteNumber(layout.height) ? layout.height : DEFAULT_ELEMENT_HEIGHTS[name],
+            };
+            if (name !== 'logo' && next.textAlign === undefined && next.align !== undefined) {
+                next.textAlign = next.align;
+            }
+            migrated[`${name}Layout`] = next;
+        });
+        return migrated;
+    }) : template.configs,
+    version: 2,
+});
+
+// Keyed by the version each migrator upgrades from.
+const MIGRATIONS: Record<number, (template: JsonObject) => JsonObject> = {
+    1: migrateV1,
+};
+
+const validateLayout = (layout: unknown, path: string, errors: string[]) => {
+    if (!isObject(layout)) {
+        errors.push(`${path} is missing.`);
+        return;
+    }
+    (['x', 'y', 'width', 'height'] as const).forEach(key => {
+        if (!isFiniteNumber(layout[key])) errors.push(`${path}.${key} must be a number.`);
+    });
+    (['fontSize', 'minFontSize', 'maxHeight'] as const).forEach(key => {
+        if (layout[key] !== undefined && !isFiniteNumber(layout[key])) errors.push(`${path}.${key} must be a number.`);
+    });
+};
+
+const validateTemplate = (template: JsonObject): string[] => {
+    const errors: string[] = [];
+    if (typeof template.name !== 'string' || template.name.trim() === '') {
+        errors.push('Template needs a name.');
+    }
+    if (!Array.isArray(template.configs) || template.configs.length === 0) {
+        errors.push('Template needs a non-empty "configs" array of artboards.');
+        return errors;
+    }
+    template.configs.forEach((config, i) => {
+        const path = `configs[${i}]`;
+        if (!isObject(config)) {
+            errors.push(`${path} is not an artboard object.`);
+            return;
+        }
+        if (typeof config.id !== 'string' || config.id === '') errors.push(`${path}.id must be a string.`);
+        if (!isFiniteNumber(config.width) || config.width <= 0) errors.push(`${path}.width must be a positive number.`);
+        if (!isFiniteNumber(config.height) || config.height <= 0) errors.push(`${path}.height must be a positive number.`);
+        ELEMENT_NAMES.forEach(name => validateLayout(config[`${name}Layout`], `${path}.${name}Layout`, errors));
+        const position = config.backgroundPosition;
+        if (!isObject(position) || !isFiniteNumber(position.x) || !isFiniteNumber(position.y)) {
+            errors.push(`${path}.backgroundPosition must have numeric x and y.`);
+        }
+    });
+    return errors;
+};
+
+/**
+ * Upgrades template JSON from any earlier version to the current schema and checks the result.
+ * Throws an Error listing every problem found, so callers can show the user why a file was rejected.
+ */
+export const migrateLayoutTemplate = (data: unknown): LayoutTemplate => {
+    if (!isObject(data)) {
+        throw new Error('Template must be a JSON object.');
+    }
+    const version = data.version === undefined ? 1 : data.version;
+    if (!isFiniteNumber(version) || !Number.isInteger(version) || version < 1) {
+        throw new Error(`Unknown template version "${String(data.version)}".`);
+    }
+    if (version > LAYOUT_TEMPLATE_VERSION) {
+        throw new Error(`Template version ${version} was saved by a newer version of this tool (this one reads up to ${LAYOUT_TEMPLATE_VERSION}).`);
+    }
+
+    let template = data;
+    for (let v = version; v < LAYOUT_TEMPLATE_VERSION; v++) {
+        template = MIGRATIONS[v](template);
+    }
+
+    const errors = validateTemplate(template);
+    if (errors.length > 0) {
+        throw new Error(errors.join('\n'));
+    }
+    return {
+        version: LAYOUT_TEMPLATE_VERSION,
+        name: (template.name as string).trim(),
+        configs: template.configs as ArtboardConfig[],
+    };
+};
+
+export const storeTemplates = (templates: LayoutTemplate[]) => {
+    localStorage.setItem(LAYOUT_TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+};
+
+/**
+ * Loads saved templates, upgrading old ones as they're read. Any that can't be read are logged and
+ * left out; they stay in storage until the list is next saved.
+ */
+export const loadStoredTemplates = (): LayoutTemplate[] => {
+    const raw = localStorage.getItem(LAYOUT_TEMPLATES_STORAGE_KEY);
+    if (!raw) return [];
+
+    let stored: unknown;
+    try {
+        stored = JSON.parse(raw);
+    } catch (error) {
+        console.error('Saved layout templates are not valid JSON:', error);
+        return [];
+    }
+    if (!Array.isArray(stored)) return [];
+
+    const templates: LayoutTemplate[] = [];
+    stored.forEach((data, i) => {
+        try {
+            templates.push(migrateLayoutTemplate(data));
+        } catch (error) {
+            console.error(`Dropping saved layout template #${i + 1}:`, error);
+        }
+    });
+    return templates;
+};
+
+export const createLayoutTemplate = (name: string, configs: ArtboardConfig[]): LayoutTemplate => ({
+    version: LAYOUT_TEMPLATE_VERSION,
+    name,
+    configs,
+});
@@ -0,0 +1,141 @@
+import { AppState, ArtboardConfig, ArtboardLayout } from '../types.ts';
+import { getTextElements, TextElementSpec } from './bannerStyles.ts';
+import { hexToRgb } from './color.ts';
+import { applyTextTransform, buildFontString, layoutTextLines, prepareContext } from './textLayout.ts';
+
+/** Ensures uploaded @font-face fonts are decoded before they are drawn onto a canvas. */
+const loadFonts = async (elements: TextElementSpec[]) => {
+    if (!document.fonts) return;
+    await Promise.all(elements.map(el =>
+        document.fonts.load(buildFontString(el.style, el.fontSize), el.text).catch(() => [])
+    ));
+};
+
+// Converts a CSS `linear-gradient` angle into canvas gradient end points covering the whole box.
+const createCssLinearGradient = (context: CanvasRenderingContext2D, width: number, height: number, angle: number, colors: string[]) => {
+    const radians = (angle * Math.PI) / 180;
+    const dx = Math.sin(radians);
+    const dy = -Math.cos(radians);
+    const halfLength = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+    const cx = width / 2;
+    const cy = height / 2;
+    const gradient = context.createLinearGradient(cx - dx * halfLength, cy - dy * halfLength, cx + dx * halfLength, cy + dy * halfLength);
+    colors.forEach((color, i) => gradient.addColorStop(colors.length > 1 ? i / (colors.length - 1) : 0, color));
+    return gradient;
+};
+
+export const drawBackground = (context: CanvasRenderingContext2D, config: ArtboardConfig, state: AppState) => {
+    context.fillStyle = '#FFFFFF';
+    context.fillRect(0, 0, config.width, config.height);
+
+    if (state.backgroundType === 'solid') {
+        context.fillStyle = state.backgroundColor;
+        context.fillRect(0, 0, config.width, config.height);
+    } else if (state.backgroundType === 'gradient') {
+        context.fillStyle = createCssLinearGradient(context, config.width, config.height, state.gradient.angle, state.gradient.colors);
+        context.fillRect(0, 0, config.width, config.height);
+    } else if (state.backgroundType === 'image' && state.backgroundImage) {
+        const img = state.backgroundImage;
+        context.drawImage(
+            img,
+            config.backgroundPosition.x,
+            config.backgroundPosition.y,
+            img.width * state.backgroundScale,
+            img.height * state.backgroundScale
+        );
+    }
+};
+
+const drawLogo = (context: CanvasRenderingContext2D, layout: ArtboardLayout, logo: HTMLImageElement) => {
+    const naturalWidth = logo.naturalWidth || logo.width;
+    const naturalHeight = logo.naturalHeight || logo.height;
+    if (!naturalWidth || !naturalHeight) return;
+
+    // Equivalent of `object-fit: contain` used in the preview.
+    const ratio = Math.min(layout.width / naturalWidth, layout.height / naturalHeight);
+    const drawWidth = naturalWidth * ratio;
+    const drawHeight = naturalHeight * ratio;
+    context.drawImage(
+        logo,
+        layout.x + (layout.width - drawWidth) / 2,
+        layout.y + (layout.height - drawHeight) / 2,
+        drawWidth,
+        drawHeight
+    );
+};
+
+const drawTextElement = (context: CanvasRenderingContext2D, element: TextElementSpec, state: AppState) => {
+    const { style, layout, fontSize, borderWidth } = element;
+    prepareContext(context, style, fontSize);
+
+    const innerWidth = Math.max(0, layout.width - borderWidth * 2);
+    const lines = layoutTextLines(context, applyTextTransform(element.text, style.textTransform), innerWidth, style.overflowBehavior);
+    const lineHeight = fontSize * style.lineHeight;
+    const boxHeight = lines.length * lineHeight + borderWidth * 2;
+
+    context.save();
+    context.beginPath();
+    context.rect(layout.x, layout.y, layout.width, boxHeight);
+    context.clip();
+
+    if (style.textBgOpacity > 0) {
+        context.fillStyle = `rgba(${hexToRgb(style.textBgColor)}, ${style.textBgOpacity})`;
+        context.fillRect(layout.x, layout.y, layout.width, boxHeight);
+    }
+    if (borderWidth > 0) {
+        context.strokeStyle = state.ctaStrokeColor;
+        context.lineWidth = borderWidth;
+        context.strokeRect(layout.x + borderWidth / 2, layout.y + borderWidth / 2, layout.width - borderWidth, boxHeight - borderWidth);
+    }
+
+    const align = layout.textAlign || 'left';
+    const anchorX = align === 'center'
+        ? layout.x + layout.width / 2
+        : align === 'right' ? layout.x + layout.width - borderWidth : layout.x + borderWidth;
+    context.textAlign = align;
+    context.fillStyle = style.fontColor;
+
+    lines.forEach((line, i) => {
+        const centerY = layout.y + borderWidth + i * lineHeight + lineHeight / 2;
+        context.fillText(line, anchorX, centerY);
+
+        if (style.textDecoration === 'underline') {
+            const lineWidth = context.measureText(line).width;
+            const startX = align === 'center' ? anchorX - lineWidth / 2 : align === 'right' ? anchorX - lineWidth : anchorX;
+            const underlineY = centerY + fontSize * 0.35 + state.ctaUnderlineOffset;
+            context.fillRect(startX, underlineY, lineWidth, state.ctaUnderlineThickness);
+        }
+    });
+
+    context.restore();
+};
+
+/**
+ * Rasterises a single artboard onto a new canvas at the requested pixel scale, drawing the same
+ * background, logo and text elements as BannerDisplay but without any editor chrome (grid, handles).
+ */
+export const renderArtboardToCanvas = async (config: ArtboardConfig, state: AppState, scale = 1): Promise<HTMLCanvasElement> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(config.width * scale);
+    canvas.height = Math.round(config.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('Canvas 2D context is not available');
+    }
+
+    const textElements = getTextElements(config, state);
+    await loadFonts(textElements);
+
+    context.scale(scale, scale);
+    context.beginPath();
+    context.rect(0, 0, config.width, config.height);
+    context.clip();
+
+    drawBackground(context, config, state);
+    if (state.logoImage) {
+        drawLogo(context, config.logoLayout, state.logoImage);
+    }
+    textElements.forEach(element => drawTextElement(context, element, state));
+
+    return canvas;
+};
@@ -0,0 +1,101 @@
+import { TextStyle } from '../types.ts';
+import { applyTextTransform, layoutTextLines, prepareContext } from './textLayout.ts';
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+export const getMeasureContext = (): CanvasRenderingContext2D | null => {
+    if (!measureContext) {
+        measureContext = document.createElement('canvas').getContext('2d');
+    }
+    return measureContext;
+};
+
+export interface TextBlockMetrics {
+    lines: string[];
+    height: number;
+    truncated: boolean;
+    hasBrokenWord: boolean;
+}
+
+/** Lays out text exactly as the banner renders it and reports how much room it needs. */
+export const measureTextBlock = (
+    context: CanvasRenderingContext2D,
+    text: string,
+    style: TextStyle,
+    fontSize: number,
+    width: number,
+    borderWidth = 0
+): TextBlockMetrics => {
+    prepareContext(context, style, fontSize);
+    const content = applyTextTransform(text, style.textTransform);
+    const innerWidth = Math.max(0, width - borderWidth * 2);
+    const lines = layoutTextLines(context, content, innerWidth, style.overflowBehavior);
+    return {
+        lines,
+        height: lines.length * fontSize * style.lineHeight + borderWidth * 2,
+        truncated: style.overflowBehavior === 'ellipsis' && lines[0] !== content.replace(/\s+/g, ' '),
+        hasBrokenWord: content.split(/\s+/).some(word => context.measureText(word).width > innerWidth),
+    };
+};
+
+export interface TextFitResult {
+    fontSize: number;
+    fits: boolean;
+}
+
+const fitCache = new Map<string, TextFitResult>();
+const FIT_CACHE_LIMIT = 1000;
+
+/** Drops cached fits; sizes measured before a font finished loading were measured with its fallback. */
+export const clearTextFitCache = () => {
+    fitCache.clear();
+};
+
+/**
+ * Finds the largest whole font size between `minFontSize` and `maxFontSize` at which the text fits
+ * a `width` x `maxHeight` box without truncation or mid-word breaks. If nothing fits, the minimum
+ * size is returned with `fits: false` so callers can flag the overflow.
+ */
+export const fitFontSize = (
+    text: string,
+    style: TextStyle,
+    width: number,
+    maxHeight: number,
+    minFontSize: number,
+    maxFontSize: number,
+    borderWidth = 0
+): TextFitResult => {
+    const key = [text, style.fontFamily, style.fontWeight, style.fontStyle, style.letterSpacing, style.lineHeight,
+        style.textTransform, style.overflowBehavior, width, maxHeight, minFontSize, maxFontSize, borderWidth].join('|');
+    const cached = fitCache.get(key);
+    if (cached) return cached;
+
+    const context = getMeasureContext();
+    const fitsAt = (size: number) => {
+        if (!context) return true;
+        const metrics = measureTextBlock(context, text, style, size, width, borderWidth);
+        return !metrics.truncated && !metrics.hasBrokenWord && metrics.height <= maxHeight;
+    };
+
+    const min = Math.max(1, Math.floor(Math.min(minFontSize, maxFontSize)));
+    const max = Math.max(min, Math.floor(maxFontSize));
+    let result: TextFitResult;
+    if (fitsAt(max)) {
+        result = { fontSize: max, fits: true };
+    } else if (!fitsAt(min)) {
+        result = { fontSize: min, fits: false };
+    } else {
+        // Invariant: `low` fits and `high` doesn't.
+        let low = min;
+        let high = max;
+        while (high - low > 1) {
+            const mid = Math.floor((low + high) / 2);
+            if (fitsAt(mid)) low = mid; else high = mid;
+        }
+        result = { fontSize: low, fits: true };
+    }
+
+    if (fitCache.size >= FIT_CACHE_LIMIT) fitCache.clear();
+    fitCache.set(key, result);
+    return result;
+};
@@ -0,0 +1,78 @@
+import { TextStyle } from '../types.ts';
+
+export const buildFontString = (style: TextStyle, fontSize: number): string =>
+    `${style.fontStyle} ${style.fontWeight} ${fontSize}px ${style.fontFamily}`;
+
+// Mirrors the CSS `text-transform` applied by BannerDisplay so canvas output matches the preview.
+export const applyTextTransform = (text: string, transform: TextStyle['textTransform']): string => {
+    switch (transform) {
+        case 'uppercase': return text.toUpperCase();
+        case 'lowercase': return text.toLowerCase();
+        case 'capitalize': return text.replace(/\b\w/g, char => char.toUpperCase());
+        default: return text;
+    }
+};
+
+export const prepareContext = (context: CanvasRenderingContext2D, style: TextStyle, fontSize: number) => {
+    context.font = buildFontString(style, fontSize);
+    context.letterSpacing = `${style.letterSpacing}px`;
+    context.textBaseline = 'middle';
+};
+
+const truncateWithEllipsis = (context: CanvasRenderingContext2D, text: string, maxWidth: number): string => {
+    if (context.measureText(text).width <= maxWidth) return text;
+    let truncated = text;
+    while (truncated.length > 0 && context.measureText(`${truncated}…`).width > maxWidth) {
+        truncated = truncated.slice(0, -1);
+    }
+    return `${truncated.trimEnd()}…`;
+};
+
+const breakWord = (context: CanvasRenderingContext2D, word: string, maxWidth: number): string[] => {
+    const pieces: string[] = [];
+    let current = '';
+    for (const char of word) {
+        if (current && context.measureText(current + char).width > maxWidth) {
+            pieces.push(current);
+            current = char;
+        } else {
+            current += char;
+        }
+    }
+    if (current) pieces.push(current);
+    return pieces;
+};
+
+/**
+ * Splits text into the lines a browser would render for the given box width, following the
+ * `overflowBehavior` of the style: `wrap` breaks on words (and inside words that are too long),
+ * `ellipsis` keeps a single truncated line. The context must already be prepared for the style.
+ */
+export const layoutTextLines = (
+    context: CanvasRenderingContext2D,
+    text: string,
+    maxWidth: number,
+    overflowBehavior: TextStyle['overflowBehavior'] = 'wrap'
+): string[] => {
+    if (overflowBehavior === 'ellipsis') {
+        return [truncateWithEllipsis(context, text.replace(/\s+/g, ' '), maxWidth)];
+    }
+
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+        let current = '';
+        paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+            const candidate = current ? `${current} ${word}` : word;
+            if (context.measureText(candidate).width <= maxWidth) {
+                current = candidate;
+                return;
+            }
+            if (current) lines.push(current);
+            const pieces = context.measureText(word).width > maxWidth ? breakWord(context, word, maxWidth) : [word];
+            current = pieces.pop() || '';
+            lines.push(...pieces);
+        });
+        lines.push(current);
+    });
+    return lines;
+};
@@ -0,0 +1,39 @@
+import { AppState, ArtboardConfig, TextOverflow } from '../types.ts';
+import { getTextElements } from './bannerStyles.ts';
+import { getMeasureContext, measureTextBlock } from './textFit.ts';
+
+/**
+ * Checks each text element of an artboard for copy that doesn't fit its layout box: no size in the
+ * auto-fit range fits, ellipsis truncation, words too long for the box width, or wrapped text
+ * running past the artboard edge.
+ */
+export const findTextOverflows = (config: ArtboardConfig, state: AppState): TextOverflow[] => {
+    const context = getMeasureContext();
+    if (!context) return [];
+
+    const overflows: TextOverflow[] = [];
+    getTextElements(config, state).forEach(({ name, text, style, layout, fontSize, borderWidth, fits }) => {
+        const metrics = measureTextBlock(context, text, style, fontSize, layout.width, borderWidth);
+
+        if (!fits) {
+            overflows.push({ elementName: name, reason: 'no-fit' });
+        } else if (metrics.truncated) {
+            overflows.push({ elementName: name, reason: 'truncated' });
+        } else if (metrics.hasBrokenWord) {
+            overflows.push({ elementName: name, reason: 'word-break' });
+        } else if (layout.y + metrics.height > config.height || layout.x + layout.width > config.width) {
+            overflows.push({ elementName: name, reason: 'out-of-bounds' });
+        }
+    });
+    return overflows;
+};
+
+/** Overflows per artboard id, leaving out artboards where everything fits. */
+export const findAllTextOverflows = (configs: ArtboardConfig[], state: AppState): Record<string, TextOverflow[]> => {
+    const result: Record<string, TextOverflow[]> = {};
+    configs.forEach(config => {
+        const overflows = findTextOverflows(config, state);
+        if (overflows.length > 0) result[config.id] = overflows;
+    });
+    return result;
+};
@@ -59,294 +59,20 @@ import GridSnapTool from './GridSnapTool';
 import AnimationTool from './AnimationTool';
 import PerformanceMonitor from '../utils/PerformanceMonitor';
 // import { useToast } from '@/hooks/use-toast';
-//types
-export interface TextElement {
-  id: string;
-  type: 'text';
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  text: string;
-  fontSize: number;
-  fontFamily: string;
-  fill: string;
-  fontWeight: number;
-  fontStyle: string;
-  textDecoration: string;
-  letterSpacing: number;
-  lineHeight: number;
-  align: 'left' | 'center' | 'right' | 'justify';
-  verticalAlign: 'top' | 'middle' | 'bottom';
-  wrap: 'word' | 'char' | 'none';
-  ellipsis: boolean;
-  padding: number;
-  direction: 'inherit' | 'ltr' | 'rtl';
-  rotation: number;
-  scaleX: number;
-  scaleY: number;
-  opacity: number;
-  visible: boolean;
-  zIndex: number;
-  isSelected: boolean;
-  isDragging: boolean;
-  isResizing: boolean;
-  isRotating: boolean;
-  wrapState: {
-    isWrapped: boolean;
-    maxWidth: number;
-    originalWidth: number;
-  };
-  textPath?: string; // SVG path data for text along curves
-  boundaryState: {
-    isWithinBounds: boolean;
-    violationType: 'x' | 'y' | 'width' | 'height' | null;
-  };
-  isCached: boolean;
-  perfectDrawEnabled: boolean;
-  listening: boolean;
-  name: string;
-  locked: boolean;
-  isGrouped: boolean;
-  groupId?: string;
-  children?: string[];
-}
-
-export interface ImageElement {
-  id: string;
-  type: 'image';
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  src: string;
-  rotation: number;
-  scaleX: number;
-  scaleY: number;
-  opacity: number;
-  visible: boolean;
-  zIndex: number;
-  isSelected: boolean;
-  isDragging: boolean;
-  isResizing: boolean;
-  isRotating: boolean;
-  cropData?: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
-  // Konva Filter Properties
-  filters?: string[];
-  blurRadius?: number;
-  brightness?: number;
-  contrast?: number;
-  sepia?: boolean;
-  emboss?: boolean;
-  embossStrength?: number;
-  embossWhiteLevel?: number;
-  embossDirection?: string;
-  embossBlend?: number;
-  solarize?: boolean;
-  solarizeThreshold?: number;
-  invert?: boolean;
-  hue?: number;
-  saturation?: number;
-  value?: number;
-  isCached: boolean;
-  perfectDrawEnabled: boolean;
-  listening: boolean;
-  boundaryState: {
-    isWithinBounds: boolean;
-    violationType: 'x' | 'y' | 'width' | 'height' | null;
-  };
-  name: string;
-  locked: boolean;
-  isGrouped: boolean;
-  groupId?: string;
-  children?: string[];
-  // Animation Properties
-  isAnimating?: boolean;
-  animationType?: 'none' | 'rotate' | 'scale' | 'move' | 'fade' | 'bounce' | 'pulse' | 'custom';
-  animationDuration?: number;
-  animationEasing?: 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'bounce' | 'elastic';
-  animationLoop?: boolean;
-  animationDelay?: number;
-  animationDirection?: 'normal' | 'reverse' | 'alternate';
-  animationIterations?: number;
-  animationKeyframes?: Array<{
-    time: number;
-    properties: Record<string, any>;
-  }>;
-}
-
-export interface GradientElement {
-  id: string;
-  type: 'gradient';
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  gradientType: 'linear' | 'radial';
-  angle: number;
-  stops: Array<{
-    id: string;
-    color: string;
-    position: number;
-    opacity: number;
-  }>;
-  rotation: number;
-  scaleX: number;
-  scaleY: number;
-  opacity: number;
-  visible: boolean;
-  zIndex: number;
-  isSelected: boolean;
-  isDragging: boolean;
-  isResizing: boolean;
-  isRotating: boolean;
-  isCached: boolean;
-  perfectDrawEnabled: boolean;
-  listening: boolean;
-  boundaryState: {
-    isWithinBounds: boolean;
-    violationType: 'x' | 'y' | 'width' | 'height' | null;
-  };
-  name: string;
-  locked: boolean;
-  isGrouped: boolean;
-  groupId?: string;
-  children?: string[];
-}
-
-export interface ShapeElement {
-  id: string;
-  type: 'rect' | 'circle' | 'line' | 'arrow' | 'star' | 'regularPolygon' | 'wedge' | 'ring' | 'arc' | 'path' | 'group';
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  rotation: number;
-  scaleX: number;
-  scaleY: number;
-  opacity: number;
-  visible: boolean;
-  zIndex: number;
-  isSelected: boolean;
-  isDragging: boolean;
-  isResizing: boolean;
-  isRotating: boolean;
-  fill: string;
-  stroke: string;
-  strokeWidth: number;
-  fillEnabled: boolean;
-  strokeEnabled: boolean;
-  cornerRadius?: number;
-  radius?: number;
-  points?: number[];
-  closed?: boolean;
-  tension?: number;
-  pointerLength?: number;
-  pointerWidth?: number;
-  numPoints?: number;
-  innerRadius?: number;
-  outerRadius?: number;
-  sides?: number;
-  angle?: number;
-  clockwise?: boolean;
-  data?: string;
-  shadowColor?: string;
-  shadowBlur?: number;
-  shadowOffset?: { x: number; y: number };
-  shadowOpacity?: number;
-  shadowEnabled?: boolean;
-  fillLinearGradientStartPoint?: { x: number; y: number };
-  fillLinearGradientEndPoint?: { x: number; y: number };
-  fillLinearGradientColorStops?: Array<{ color: string; position: number }>;
-  fillRadialGradientStartPoint?: { x: number; y: number };
-  fillRadialGradientEndPoint?: { x: number; y: number };
-  fillRadialGradientStartRadius?: number;
-  fillRadialGradientEndRadius?: number;
-  fillRadialGradientColorStops?: Array<{ color: string; position: number }>;
-  isCached: boolean;
-  perfectDrawEnabled: boolean;
-  listening: boolean;
-  groupId?: string;
-  children?: string[];
-  boundaryState: {
-    isWithinBounds: boolean;
-    violationType: 'x' | 'y' | 'width' | 'height' | null;
-  };
-  name: string;
-  locked: boolean;
-  isGrouped: boolean;
-}
-
-export interface GroupElement {
-  id: string;
-  type: 'group';
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  rotation: number;
-  scaleX: number;
-  scaleY: number;
-  opacity: number;
-  visible: boolean;
-  zIndex: number;
-  isSelected: boolean;
-  isDragging: boolean;
-  isResizing: boolean;
-  isRotating: boolean;
-  boundaryState: {
-    isWithinBounds: boolean;
-    violationType: 'x' | 'y' | 'width' | 'height' | null;
-  };
-  isCached: boolean;
-  perfectDrawEnabled: boolean;
-  listening: boolean;
-  name: string;
-  locked: boolean;
-  isGrouped: boolean;
-  groupId?: string;
-  children: string[];
-}
-
-export type CanvasElement = TextElement | ImageElement | GradientElement | ShapeElement | GroupElement;
-
-export interface CanvasState {
-  width: number;
-  height: number;
-  zoom: number;
-  panX: number;
-  panY: number;
-  gridSize: number;
-  snapToGrid: boolean;
-  showGrid: boolean;
-  showRulers: boolean;
-}
-
-export interface EditorState {
-  selectedTool: 'select' | 'text' | 'crop' | 'resize' | 'gradient' | 'shapes' | 'images' | 'grid' | 'move' | 'rotate' | 'animation' | 'rect' | 'circle' | 'image' | 'pan';
-  selectedElementIds: string[];
-  isPanning: boolean;
-  isSpacePressed: boolean;
-  history: CanvasElement[][];
-  historyIndex: number;
-  performance: {
-    fps: number;
-    memoryUsage: number;
-    renderTime: number;
-    drawCalls: number;
-    cachedNodes: number;
-    totalNodes: number;
-    animations: number;
-    eventListeners: number;
-    isOptimized: boolean;
-    recommendations: string[];
-  };
-}
+import type {
+  TextElement,
+  ImageElement,
+  GradientElement,
+  ShapeElement,
+  GroupElement,
+  CanvasElement,
+  CanvasState,
+  EditorState
+} from '../types/advanced-types';
+import { canvasElementUpdates, canvasElementsFromNodes, createDocument, migrateDocument, nodesFromCanvasElements, toCanvasElement } from '../utils/documentModel';
+import type { DocumentNode, ShapeNode, TextNode } from '../types/document';
+
+export type { TextElement, ImageElement, GradientElement, ShapeElement, GroupElement, CanvasElement, CanvasState, EditorState };
 
 interface AdvancedImageEditorProps {
   isOpen?: boolean;
@@ -450,7 +176,8 @@ const AdvancedImageEditor: React.FC<AdvancedImageEditorProps> = ({
 
   // Elements state
   const [elements, setElements] = useState<CanvasElement[]>([]);
-  const [layers, setLayers] = useState<CanvasElement[]>([]);
+  // The canonical model of the elements, for the tools that read and write document nodes
+  const documentNodes = useMemo(() => nodesFromCanvasElements(elements), [elements]);
   const [editingTextId, setEditingTextId] = useState<string | null>(null);
 
   // Grid and snap state
@@ -1144,6 +871,18 @@ const AdvancedImageEditor: React.FC<AdvancedImageEditorProps> = ({
     ));
   }, []);
 
+  // TextTool and ShapeTool work on document nodes; elements are converted at the boundary
+  const handleTextNodeAdd = useCallback((node: TextNode) => {
+    const element = toCanvasElement(node);
+    if (element) handleTextAdd(element as TextElement);
+  }, [handleTextAdd]);
+
+  const handleTextNodeUpdate = useCallback((id: string, updates: Partial<TextNode>) => {
+    setElements(prev => prev.map(el =>
+      el.id === id && el.type === 'text' ? { ...el, ...canvasElementUpdates(el, updates) } as TextElement : el
+    ));
+  }, []);
+
   const handleTextDelete = useCallback((id: string) => {
     setElements(prev => prev.filter(el => el.id !== id));
     setEditorState(prev => ({
@@ -1214,6 +953,17 @@ const AdvancedImageEditor: React.FC<AdvancedImageEditorProps> = ({
     ));
   }, []);
 
+  const handleShapeNodeAdd = useCallback((node: ShapeNode) => {
+    const element = toCanvasElement(node);
+    if (element) handleShapeAdd(element as ShapeElement);
+  }, [handleShapeAdd]);
+
+  const handleShapeNodeUpdate = useCallback((id: string, updates: Partial<ShapeNode>) => {
+    setElements(prev => prev.map(el =>
+      el.id === id ? { ...el, ...canvasElementUpdates(el, updates) } as CanvasElement : el
+    ));
+  }, []);
+
   const handleShapeDelete = useCallback((id: string) => {
     setElements(prev => prev.filter(el => el.id !== id));
     setEditorState(prev => ({
@@ -1403,8 +1153,7 @@ const AdvancedImageEditor: React.FC<AdvancedImageEditorProps> = ({
   }, []);
 
   // Layer management
-  const handleLayerReorder = useCallback((newLayers: any[]) => {
-    setLayers(newLayers);
+  const handleLayerReorder = useCallback((newLayers: DocumentNode[]) => {
     setElements(prev => {
       const reorderedElements = [...prev];
       newLayers.forEach((layer, index) => {
@@ -2103,8 +1852,8 @@ const AdvancedImageEditor: React.FC<AdvancedImageEditorProps> = ({
                           const reader = new FileReader();
                           reader.onload = (e) => {
                             try {
-                              const data = JSON.parse(e.target?.result as string);
-                              setElements(data.elements || []);
+                              const design = migrateDocument(JSON.parse(e.target?.result as string));
+                              setElements(canvasElementsFromNodes(design.nodes));
                             } catch (error) {
                               console.error('Error loading file:', error);
                             }
@@ -2140,6 +1889,24 @@ const AdvancedImageEditor: React.FC<AdvancedImageEditorProps> = ({
                   >
                     Save
                   </button>
+                  <button 
+                    className="block w-full text-left px-4 py-2 hover:bg-gray-600 text-sm"
+                    onClick={() => {
+                      const design = createDocument({
+                        width: canvasState.width,
+                        height: canvasState.height,
+                        nodes: nodesFromCanvasElements(elements)
+                      });
+                      const blob = new Blob([JSON.stringify(design, null, 2)], { type: 'application/json' });
+                      const link = document.createElement('a');
+                      link.download = 'design.json';
+                      link.href = URL.createObjectURL(blob);
+                      link.click();
+                      URL.revokeObjectURL(link.href);
+                    }}
+                  >
+                    Save as JSON
+                  </button>
                   <button 
                     className="block w-full text-left px-4 py-2 hover:bg-gray-600 text-sm"
                     onClick={() => {
@@ -2582,7 +2349,7 @@ const AdvancedImageEditor: React.FC<AdvancedImageEditorProps> = ({
               <div className="p-4">
               <LayerManager
                 ref={layerManagerRef}
-                layers={elements}
+                layers={documentNodes}
                 onLayerReorder={handleLayerReorder}
                 onLayerToggle={handleLayerToggle}
                 onLayerLock={(id, locked) => {
@@ -2633,11 +2400,11 @@ const AdvancedImageEditor: React.FC<AdvancedImageEditorProps> = ({
             {editorState.selectedTool === 'text' && (
               <TextTool
                 ref={textToolRef}
-                onTextAdd={handleTextAdd}
-                onTextUpdate={handleTextUpdate}
+                onTextAdd={handleTextNodeAdd}
+                onTextUpdate={handleTextNodeUpdate}
                 onTextDelete={handleTextDelete}
                 canvasState={canvasState}
-                selectedTextElement={elements.find(el => el.type === 'text' && editorState.selectedElementIds.includes(el.id)) as TextElement}
+                selectedTextNode={documentNodes.find((node): node is TextNode => node.type === 'text' && editorState.selectedElementIds.includes(node.id))}
               />
             )}
           </div>
@@ -2652,11 +2419,11 @@ const AdvancedImageEditor: React.FC<AdvancedImageEditorProps> = ({
             {editorState.selectedTool === 'shapes' && (
               <ShapeTool
                 ref={shapeToolRef}
-                onShapeAdd={handleShapeAdd}
-                onShapeUpdate={handleShapeUpdate}
+                onShapeAdd={handleShapeNodeAdd}
+                onShapeUpdate={handleShapeNodeUpdate}
                 onShapeDelete={handleShapeDelete}
                 canvasState={canvasState}
-                selectedShapeElement={elements.find(el => el.type !== 'text' && el.type !== 'image' && el.type !== 'gradient' && el.type !== 'group' && editorState.selectedElementIds.includes(el.id)) as any}
+                selectedShapeNode={documentNodes.find((node): node is ShapeNode => node.type === 'shape' && editorState.selectedElementIds.includes(node.id))}
               />
             )}
           </div>
@@ -2726,7 +2493,7 @@ const AdvancedImageEditor: React.FC<AdvancedImageEditorProps> = ({
               ref={cropToolRef}
               onCrop={handleCrop}
               selectedElementIds={editorState.selectedElementIds}
-              elements={elements}
+              nodes={documentNodes}
               canvasState={canvasState}
             />
           )}
@@ -2776,7 +2543,7 @@ const AdvancedImageEditor: React.FC<AdvancedImageEditorProps> = ({
           {/* Layer Manager */}
           <LayerManager
             ref={layerManagerRef}
-            layers={elements}
+            layers={documentNodes}
             onLayerReorder={handleLayerReorder}
             onLayerToggle={handleLayerToggle}
             onLayerLock={(id, locked) => {
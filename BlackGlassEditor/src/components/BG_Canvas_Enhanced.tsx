@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
 import { Stage, Layer, Rect, Circle, Text, Line, Transformer, Star, Group, Shape } from 'react-konva';
 import Konva from 'konva';
 import { 
@@ -15,6 +15,8 @@ import {
   Paintbrush
 } from 'lucide-react';
 import { useEditor, createDefaultShape } from '../contexts/EditorContext';
+import { nodesFromUnifiedShapes, toUnifiedShape, unifiedShapeUpdates } from '../utils/documentModel';
+import type { TextNode } from '../types/document';
 import { ToolPanel } from './ToolPanel';
 import TextTool from './TextTool';
 import ColorPicker from './ColorPicker';
@@ -559,6 +561,10 @@ export function BG_Canvas_Enhanced({ width = 1200, height = 800 }: BGCanvasEnhan
     ? state.shapes.find(s => s.id === state.tool.selectedShapeIds[0])
     : null;
 
+  // The layer manager and text tool read and write document nodes
+  const documentNodes = useMemo(() => nodesFromUnifiedShapes(state.shapes), [state.shapes]);
+  const selectedTextNode = documentNodes.find((node): node is TextNode => node.type === 'text' && node.id === selectedShape?.id);
+
   return (
     <div className="w-full h-screen flex flex-col bg-gray-900 text-white">
       {/* Menu Bar */}
@@ -929,11 +935,13 @@ export function BG_Canvas_Enhanced({ width = 1200, height = 800 }: BGCanvasEnhan
           {state.toolPanels.layers?.isOpen && (
             <div className="p-4">
               <LayerManager
-                layers={state.shapes.map(shape => ({
-                  ...shape,
-                  name: shape.name || `${shape.type} ${shape.id}`,
-                }))}
-                onLayerReorder={(newLayers) => actions.reorderShapes(newLayers)}
+                layers={documentNodes}
+                onLayerReorder={(newLayers) => {
+                  const reordered = newLayers
+                    .map(node => state.shapes.find(shape => shape.id === node.id))
+                    .filter((shape): shape is NonNullable<typeof shape> => shape !== undefined);
+                  actions.reorderShapes(reordered.map((shape, index) => ({ ...shape, zIndex: index })));
+                }}
                 onLayerToggle={(id, visible) => actions.updateShape(id, { visible })}
                 onLayerLock={(id, locked) => actions.updateShape(id, { locked })}
                 onLayerSelect={(id) => actions.selectShape(id)}
@@ -960,14 +968,17 @@ export function BG_Canvas_Enhanced({ width = 1200, height = 800 }: BGCanvasEnhan
           {state.toolPanels.text?.isOpen && (
             <div className="p-4">
               <TextTool
-                onTextAdd={(textElement) => {
-                  const shape = createDefaultShape('text', 100, 100, state.tool.toolSettings);
-                  actions.addShape({ ...shape, ...textElement });
+                onTextAdd={(node) => {
+                  const shape = toUnifiedShape(node);
+                  if (shape) actions.addShape({ ...shape, isSelected: true });
+                }}
+                onTextUpdate={(id, updates) => {
+                  const shape = state.shapes.find(s => s.id === id);
+                  if (shape) actions.updateShape(id, unifiedShapeUpdates(shape, updates));
                 }}
-                onTextUpdate={(id, updates) => actions.updateShape(id, updates)}
                 onTextDelete={(id) => actions.deleteShape(id)}
                 canvasState={state.canvas}
-                selectedTextElement={selectedShape?.type === 'text' ? selectedShape : undefined}
+                selectedTextNode={selectedTextNode}
               />
             </div>
           )}
@@ -2,7 +2,7 @@ import React, { useRef, useState, useEffect, useCallback, useReducer } from "rea
 import opentype from "opentype.js";
 
 // Comprehensive Layer Interface - combining all features from all versions
-interface Layer {
+export interface Layer {
   id: string;
   type: "text" | "image" | "shape";
   content?: string; // text content or image src
@@ -2,12 +2,13 @@
 
 import React, { useState, useRef, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
 import { Crop, Square, Circle, RotateCw, RotateCcw, Move, ZoomIn, ZoomOut, Undo2, Redo2, Check, X } from 'lucide-react';
-import { ImageElement, CanvasState } from '../AdvancedImageEditor';
+import { CanvasState } from '../types/advanced-types';
+import type { DocumentNode, ImageNode } from '../types/document';
 
 interface CropToolProps {
   onCrop: (elementId: string, cropData: { x: number; y: number; width: number; height: number }) => void;
   selectedElementIds: string[];
-  elements: any[];
+  nodes: DocumentNode[];
   canvasState: CanvasState;
 }
 
@@ -20,7 +21,7 @@ export interface CropToolRef {
 const CropTool = forwardRef<CropToolRef, CropToolProps>(({
   onCrop,
   selectedElementIds,
-  elements,
+  nodes,
   canvasState
 }, ref) => {
   // Crop state
@@ -60,13 +61,13 @@ const CropTool = forwardRef<CropToolRef, CropToolProps>(({
   // Expose methods to parent
   useImperativeHandle(ref, () => ({
     startCrop: (elementId: string) => {
-      const element = elements.find(el => el.id === elementId);
+      const element = nodes.find(node => node.id === elementId);
       if (element && element.type === 'image') {
         setCropState(prev => ({
           ...prev,
           isActive: true,
           elementId,
-          cropData: element.cropData || {
+          cropData: element.crop || {
             x: 0,
             y: 0,
             width: element.width,
@@ -100,8 +101,8 @@ const CropTool = forwardRef<CropToolRef, CropToolProps>(({
   }));
 
   // Get selected image element
-  const selectedImageElement = elements.find(el => 
-    el.type === 'image' && selectedElementIds.includes(el.id)
+  const selectedImageElement = nodes.find((node): node is ImageNode =>
+    node.type === 'image' && selectedElementIds.includes(node.id)
   );
 
   // Aspect ratio presets
@@ -1,13 +1,15 @@
 'use client';
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import { useEditor } from '../contexts/EditorContext';
+import { nodesFromUnifiedShapes } from '../utils/documentModel';
 import { ToolPanel } from './ToolPanel';
 import CropTool from './CropTool';
 import { Crop } from 'lucide-react';
 
 export function CropToolPanel() {
   const { state, actions } = useEditor();
+  const nodes = useMemo(() => nodesFromUnifiedShapes(state.shapes), [state.shapes]);
 
   const openPanel = () => {
     actions.openToolPanel('cropTool', { x: 100, y: 100 });
@@ -38,7 +40,7 @@ export function CropToolPanel() {
           <CropTool
             onCrop={handleCrop}
             selectedElementIds={state.tool.selectedShapeIds}
-            elements={state.shapes}
+            nodes={nodes}
             canvasState={{
               width: 1200,
               height: 800,
@@ -47,7 +49,8 @@ export function CropToolPanel() {
               panY: 0,
               gridSize: 20,
               snapToGrid: false,
-              showGrid: true
+              showGrid: true,
+              showRulers: false
             }}
           />
         </ToolPanel>
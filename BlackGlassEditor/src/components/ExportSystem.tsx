@@ -2,22 +2,42 @@
 
 import React, { useState, useCallback } from 'react';
 import { Download, FileImage, FileText, FileJson, File, Settings, Palette, Grid3X3, Ruler, Eye, EyeOff } from 'lucide-react';
-import { ExportManager, ExportOptions, ExportResult } from '../src/utils/ExportManager';
+import { ExportManager, ExportOptions, ExportResult } from '../utils/ExportManager';
+import { PDFFontSource, PDFPageRegion } from '../utils/VectorPDFWriter';
+
+export interface ExportPage extends PDFPageRegion {
+  id: string;
+  name: string;
+}
 
 export interface ExportSystemProps {
   stage: any; // Konva Stage instance
   elements: any[];
   canvasWidth: number;
   canvasHeight: number;
+  pages?: ExportPage[]; // PDF pages, e.g. artboard bounds; without them the whole stage is one page
+  fonts?: PDFFontSource[]; // Font files the editor has loaded, embedded in PDFs for their families
   onExport: (result: ExportResult) => void;
   className?: string;
 }
 
+const fileToFontSource = async (file: File): Promise<PDFFontSource> => {
+  const name = file.name.replace(/\.[^.]+$/, '');
+  return {
+    family: name.replace(/[-_ ]?(regular|bold|italic|oblique|bolditalic)+$/i, '') || name,
+    bold: /bold/i.test(name),
+    italic: /italic|oblique/i.test(name),
+    data: await file.arrayBuffer()
+  };
+};
+
 const ExportSystem: React.FC<ExportSystemProps> = ({
   stage,
   elements,
   canvasWidth,
   canvasHeight,
+  pages = [],
+  fonts = [],
   onExport,
   className = ''
 }) => {
@@ -35,6 +55,8 @@ const ExportSystem: React.FC<ExportSystemProps> = ({
     includeGuides: false,
     compressionLevel: 6,
     dpi: 300,
+    bleed: 0,
+    cropMarks: false,
     filename: `export-${new Date().toISOString().split('T')[0]}`,
     metadata: {
       title: 'Advanced Image Editor Export',
@@ -48,6 +70,42 @@ const ExportSystem: React.FC<ExportSystemProps> = ({
 
   const [exportHistory, setExportHistory] = useState<ExportResult[]>([]);
   const [showAdvancedOptions, setShowAdvancedOptions] = useState(false);
+  const [selectedPageIds, setSelectedPageIds] = useState<string[] | null>(null); // null = every page
+  const [uploadedFonts, setUploadedFonts] = useState<PDFFontSource[]>([]);
+
+  const embeddedFonts = [...fonts, ...uploadedFonts];
+  const embeddedFamilies = new Set(embeddedFonts.map(font => font.family.toLowerCase()));
+  const usedFamilies: string[] = showExportDialog && stage
+    ? [...new Set<string>(stage.find('Text').map((node: any) => node.fontFamily()))]
+    : [];
+  const standardFamilies = usedFamilies.filter(family => !embeddedFamilies.has(family.toLowerCase()));
+
+  // Pages and fonts come from props and the dialog rather than the stored options
+  const withPDFOptions = useCallback((options: ExportOptions): ExportOptions => {
+    if (options.format !== 'pdf') return options;
+    const selected = pages.filter(page => selectedPageIds === null || selectedPageIds.includes(page.id));
+    return {
+      ...options,
+      pages: selected.map(({ x, y, width, height }) => ({ x, y, width, height })),
+      fonts: [...fonts, ...uploadedFonts]
+    };
+  }, [pages, selectedPageIds, fonts, uploadedFonts]);
+
+  const togglePage = useCallback((pageId: string) => {
+    setSelectedPageIds(prev => {
+      const current = prev ?? pages.map(page => page.id);
+      return current.includes(pageId) ? current.filter(id => id !== pageId) : [...current, pageId];
+    });
+  }, [pages]);
+
+  const handleFontUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    const added = await Promise.all(files.map(fileToFontSource));
+    const sameFace = (a: PDFFontSource, b: PDFFontSource) =>
+      a.family.toLowerCase() === b.family.toLowerCase() && !!a.bold === !!b.bold && !!a.italic === !!b.italic;
+    setUploadedFonts(prev => [...prev.filter(font => !added.some(next => sameFace(font, next))), ...added]);
+  }, []);
 
   const formatOptions = [
     { value: 'png', label: 'PNG', icon: FileImage, description: 'High quality with transparency' },
@@ -75,7 +133,7 @@ const ExportSystem: React.FC<ExportSystemProps> = ({
 
     setIsExporting(true);
     try {
-      const result = await exportManager.export(exportOptions);
+      const result = await exportManager.export(withPDFOptions(exportOptions));
       
       // Add to history
       setExportHistory(prev => [result, ...prev.slice(0, 9)]); // Keep last 10
@@ -90,14 +148,14 @@ const ExportSystem: React.FC<ExportSystemProps> = ({
     } finally {
       setIsExporting(false);
     }
-  }, [stage, exportManager, exportOptions, onExport]);
+  }, [stage, exportManager, exportOptions, withPDFOptions, onExport]);
 
   const handleQuickExport = useCallback(async (format: 'png' | 'svg' | 'json' | 'pdf') => {
     if (!stage) return;
 
     setIsExporting(true);
     try {
-      const quickOptions = { ...exportOptions, format };
+      const quickOptions = withPDFOptions({ ...exportOptions, format });
       const result = await exportManager.export(quickOptions);
       exportManager.download(result);
       onExport(result);
@@ -106,7 +164,7 @@ const ExportSystem: React.FC<ExportSystemProps> = ({
     } finally {
       setIsExporting(false);
     }
-  }, [stage, exportManager, exportOptions, onExport]);
+  }, [stage, exportManager, exportOptions, withPDFOptions, onExport]);
 
   const handlePreview = useCallback(async () => {
     if (!stage) return;
@@ -408,6 +466,81 @@ const ExportSystem: React.FC<ExportSystemProps> = ({
                     </div>
                   )}
 
+                  {/* Pages for PDF */}
+                  {exportOptions.format === 'pdf' && pages.length > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">Pages</label>
+                      <div className="space-y-2">
+                        {pages.map(page => (
+                          <div key={page.id} className="flex items-center">
+                            <input
+                              type="checkbox"
+                              checked={selectedPageIds === null || selectedPageIds.includes(page.id)}
+                              onChange={() => togglePage(page.id)}
+                              className="mr-2"
+                            />
+                            <span className="text-sm text-gray-300">{page.name}</span>
+                            <span className="text-xs text-gray-400 ml-2">{Math.round(page.width)} × {Math.round(page.height)}</span>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="text-xs text-gray-400 mt-1">
+                        With no pages selected the whole canvas is exported as one page
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Bleed and crop marks for PDF */}
+                  {exportOptions.format === 'pdf' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">Bleed</label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={exportOptions.bleed ?? 0}
+                        onChange={(e) => updateExportOption('bleed', Math.max(0, parseFloat(e.target.value) || 0))}
+                        className="w-full p-2 bg-gray-600 border border-gray-500 rounded text-sm text-white"
+                      />
+                      <div className="flex items-center mt-2">
+                        <input
+                          type="checkbox"
+                          checked={exportOptions.cropMarks ?? false}
+                          onChange={(e) => updateExportOption('cropMarks', e.target.checked)}
+                          className="mr-2"
+                        />
+                        <span className="text-sm text-gray-300">Crop marks</span>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Embedded fonts for PDF */}
+                  {exportOptions.format === 'pdf' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">Embedded Fonts</label>
+                      {embeddedFonts.length > 0 && (
+                        <div className="space-y-1 mb-2">
+                          {embeddedFonts.map((font, index) => (
+                            <div key={`${font.family}-${index}`} className="text-sm text-gray-300">
+                              {font.family}{font.bold ? ' Bold' : ''}{font.italic ? ' Italic' : ''}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <input
+                        type="file"
+                        accept=".ttf,.otf,.woff,font/ttf,font/otf,font/woff"
+                        multiple
+                        onChange={handleFontUpload}
+                        className="w-full text-sm text-gray-300"
+                      />
+                      {standardFamilies.length > 0 && (
+                        <div className="text-xs text-gray-400 mt-1">
+                          No font file for {standardFamilies.join(', ')}; a standard PDF font is used instead
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {/* Filename */}
                   <div>
                     <label className="block text-sm font-medium text-gray-300 mb-2">Filename</label>
@@ -2,7 +2,7 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Undo, Redo, History, Trash2, Clock, Save, RotateCw, Upload } from 'lucide-react';
-import { HistoryManager, HistoryState } from '../src/utils/HistoryManager';
+import { HistoryManager, HistoryState, Patch, applyPatches, createPatches } from '../src/utils/HistoryManager';
 
 export interface HistorySystemProps {
   onStateChange: (state: any) => void;
@@ -22,10 +22,6 @@ const HistorySystem: React.FC<HistorySystemProps> = ({
   const [historyManager] = useState(() => new HistoryManager({
     maxHistorySize: 100,
     maxMemoryUsage: 50, // 50MB
-    compressionEnabled: true,
-    compressionThreshold: 1024 * 1024, // 1MB
-    autoSave: true,
-    autoSaveInterval: 30000, // 30 seconds
     groupSimilarActions: true,
     groupTimeWindow: 1000 // 1 second
   }));
@@ -37,24 +33,33 @@ const HistorySystem: React.FC<HistorySystemProps> = ({
   const [history, setHistory] = useState<HistoryState[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  // Elements as history last saw them; changes are recorded as patches against this
+  const recordedElementsRef = useRef<any[]>(elements);
 
   // Update history when elements change
   useEffect(() => {
-    if (elements.length > 0) {
-      // Only add to history if this is a user action, not a history restoration
-      if (!isLoading) {
-        historyManager.addState(
-          'elements_update',
-          'Elements updated',
-          { elements: [...elements] },
-          selectedElementIds,
-          'modify'
-        );
+    // Restorations set the ref before the new elements arrive, so they diff to nothing
+    if (!isLoading) {
+      const patchSet = createPatches(recordedElementsRef.current, elements);
+      recordedElementsRef.current = elements;
+      const state = historyManager.addState('elements_update', 'Elements updated', patchSet, {
+        elementIds: selectedElementIds,
+        category: 'modify',
+        coalesceKey: `elements_update:${selectedElementIds.join(',')}`
+      });
+      if (state) {
         updateHistoryData();
       }
     }
   }, [elements, selectedElementIds, historyManager, isLoading]);
 
+  const restoreElements = useCallback((patches: Patch[]) => {
+    const restored = applyPatches(recordedElementsRef.current, patches);
+    recordedElementsRef.current = restored;
+    onStateChange({ elements: restored });
+    onElementUpdate(restored);
+  }, [onStateChange, onElementUpdate]);
+
   const updateHistoryData = useCallback(() => {
     setHistory(historyManager.getHistory());
     setHistoryStats(historyManager.getStatistics());
@@ -65,29 +70,21 @@ const HistorySystem: React.FC<HistorySystemProps> = ({
     setIsLoading(true);
     const state = historyManager.undo();
     if (state) {
-      setCurrentState(state);
-      onStateChange(state.data);
-      if (state.data.elements) {
-        onElementUpdate(state.data.elements);
-      }
+      restoreElements(state.inversePatches);
     }
     updateHistoryData();
     setIsLoading(false);
-  }, [historyManager, onStateChange, onElementUpdate, updateHistoryData]);
+  }, [historyManager, restoreElements, updateHistoryData]);
 
   const handleRedo = useCallback(() => {
     setIsLoading(true);
     const state = historyManager.redo();
     if (state) {
-      setCurrentState(state);
-      onStateChange(state.data);
-      if (state.data.elements) {
-        onElementUpdate(state.data.elements);
-      }
+      restoreElements(state.patches);
     }
     updateHistoryData();
     setIsLoading(false);
-  }, [historyManager, onStateChange, onElementUpdate, updateHistoryData]);
+  }, [historyManager, restoreElements, updateHistoryData]);
 
   const handleClearHistory = useCallback(() => {
     historyManager.clearHistory();
@@ -137,43 +134,13 @@ const HistorySystem: React.FC<HistorySystemProps> = ({
 
   const handleJumpToState = useCallback((state: HistoryState) => {
     setIsLoading(true);
-    // Find the index of the state
-    const history = historyManager.getHistory();
-    const index = history.findIndex(s => s.id === state.id);
-    
-    if (index !== -1) {
-      // Undo/redo to the target state
-      const currentIndex = historyManager.getCurrentState() ? 
-        history.findIndex(s => s.id === historyManager.getCurrentState()!.id) : -1;
-      
-      if (index < currentIndex) {
-        // Need to undo
-        for (let i = currentIndex; i > index; i--) {
-          const state = historyManager.undo();
-          if (state) {
-            onStateChange(state.data);
-            if (state.data.elements) {
-              onElementUpdate(state.data.elements);
-            }
-          }
-        }
-      } else if (index > currentIndex) {
-        // Need to redo
-        for (let i = currentIndex; i < index; i++) {
-          const state = historyManager.redo();
-          if (state) {
-            onStateChange(state.data);
-            if (state.data.elements) {
-              onElementUpdate(state.data.elements);
-            }
-          }
-        }
-      }
+    const patches = historyManager.jumpTo(state.id);
+    if (patches && patches.length > 0) {
+      restoreElements(patches);
     }
-    
     updateHistoryData();
     setIsLoading(false);
-  }, [historyManager, onStateChange, onElementUpdate, updateHistoryData]);
+  }, [historyManager, restoreElements, updateHistoryData]);
 
   const formatTimestamp = (timestamp: number) => {
     return new Date(timestamp).toLocaleTimeString();
@@ -1,7 +1,8 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useEditor } from '../contexts/EditorContext';
+import { fromUnifiedShape, toUnifiedShape, unifiedShapeUpdates } from '../utils/documentModel';
 import { SimpleToolSelector } from './SimpleToolSelector';
 import { BasicDrawingTools } from './BasicDrawingTools';
 import ShapeTool from './ShapeTool';
@@ -17,7 +18,7 @@ import {
 } from 'lucide-react';
 
 export function IntegratedEditor() {
-  const { state } = useEditor();
+  const { state, actions } = useEditor();
   const [activePanel, setActivePanel] = useState<string | null>(null);
 
   const panels = [
@@ -31,6 +32,11 @@ export function IntegratedEditor() {
   ];
 
   const selectedShape = state.shapes.find(shape => shape.isSelected);
+  // ShapeTool reads and writes document nodes
+  const selectedShapeNode = useMemo(() => {
+    const node = selectedShape ? fromUnifiedShape(selectedShape) : null;
+    return node?.type === 'shape' ? node : undefined;
+  }, [selectedShape]);
 
   return (
     <div className="w-full h-screen bg-gray-100 flex">
@@ -94,18 +100,18 @@ export function IntegratedEditor() {
             {activePanel === 'shapes' && (
               <div className="p-4">
                 <ShapeTool
-                  onShapeAdd={() => {}}
-                  onShapeUpdate={(id, updates) => {
-                    // Update shape using your existing system
-                    const { actions } = useEditor();
-                    actions.updateShape(id, updates);
+                  onShapeAdd={(node) => {
+                    // EditorContext has no star, polygon or path shapes; those are skipped
+                    const shape = toUnifiedShape(node);
+                    if (shape) actions.addShape(shape);
                   }}
-                  onShapeDelete={(id) => {
-                    const { actions } = useEditor();
-                    actions.deleteShape(id);
+                  onShapeUpdate={(id, updates) => {
+                    const shape = state.shapes.find(s => s.id === id);
+                    if (shape) actions.updateShape(id, unifiedShapeUpdates(shape, updates));
                   }}
+                  onShapeDelete={(id) => actions.deleteShape(id)}
                   canvasState={state.canvas}
-                  selectedShapeElement={selectedShape}
+                  selectedShapeNode={selectedShapeNode}
                 />
               </div>
             )}
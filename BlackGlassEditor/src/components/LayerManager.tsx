@@ -2,47 +2,11 @@
 
 import React, { useState, useRef, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
 import { Layers, Eye, EyeOff, Lock, Unlock, Trash2, Copy, Move, Square, Circle, Type, Image as ImageIcon, Droplets, ArrowUp, ArrowDown, Plus, Minus, Group, Ungroup, Settings, Zap, Palette, Star, Triangle, Hexagon } from 'lucide-react';
-
-// Types
-export interface LayerElement {
-  id: string;
-  type: 'text' | 'image' | 'gradient' | 'rect' | 'circle' | 'line' | 'arrow' | 'star' | 'regularPolygon' | 'wedge' | 'ring' | 'arc' | 'path' | 'group';
-  name: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  visible: boolean;
-  locked: boolean;
-  opacity: number;
-  zIndex: number;
-  isSelected: boolean;
-  isGrouped: boolean;
-  parentGroupId?: string;
-  children?: string[];
-  
-  // Element-specific properties
-  text?: string;
-  src?: string;
-  fill?: string;
-  stroke?: string;
-  strokeWidth?: number;
-  
-  // Performance properties
-  isCached: boolean;
-  perfectDrawEnabled: boolean;
-  listening: boolean;
-  
-  // State tracking
-  boundaryState: {
-    isWithinBounds: boolean;
-    violationType: 'x' | 'y' | 'width' | 'height' | null;
-  };
-}
+import type { DocumentNode } from '../types/document';
 
 interface LayerManagerProps {
-  layers: LayerElement[];
-  onLayerReorder: (newLayers: LayerElement[]) => void;
+  layers: DocumentNode[]; // paint order, back to front
+  onLayerReorder: (newLayers: DocumentNode[]) => void;
   onLayerToggle: (elementId: string, visible: boolean) => void;
   onLayerLock: (elementId: string, locked: boolean) => void;
   onLayerSelect: (elementId: string) => void;
@@ -55,8 +19,8 @@ interface LayerManagerProps {
 }
 
 export interface LayerManagerRef {
-  addLayer: (layer: Omit<LayerElement, 'id'>) => void;
-  updateLayer: (id: string, updates: Partial<LayerElement>) => void;
+  addLayer: (layer: DocumentNode) => void;
+  updateLayer: (id: string, updates: Partial<DocumentNode>) => void;
   deleteLayer: (id: string) => void;
   duplicateLayer: (id: string) => void;
   groupLayers: (ids: string[]) => void;
@@ -90,10 +54,10 @@ const LayerManager = forwardRef<LayerManagerRef, LayerManagerProps>(({
 
   // Expose methods to parent
   useImperativeHandle(ref, () => ({
-    addLayer: (layer: Omit<LayerElement, 'id'>) => {
+    addLayer: (layer: DocumentNode) => {
       // This would be handled by the parent component
     },
-    updateLayer: (id: string, updates: Partial<LayerElement>) => {
+    updateLayer: (id: string, updates: Partial<DocumentNode>) => {
       // This would be handled by the parent component
     },
     deleteLayer: (id: string) => {
@@ -142,26 +106,33 @@ const LayerManager = forwardRef<LayerManagerRef, LayerManagerProps>(({
   }));
 
   // Get icon for layer type
-  const getLayerIcon = (type: string) => {
-    switch (type) {
-      case 'text': return Type;
-      case 'image': return ImageIcon;
-      case 'gradient': return Droplets;
+  const getLayerIcon = (layer: DocumentNode) => {
+    if (layer.type !== 'shape') {
+      switch (layer.type) {
+        case 'text': return Type;
+        case 'image': return ImageIcon;
+        case 'group': return Group;
+        default: return Palette;
+      }
+    }
+    if (layer.fill && layer.fill.type !== 'solid') return Droplets;
+    switch (layer.shape) {
       case 'rect': return Square;
-      case 'circle': return Circle;
+      case 'ellipse': return Circle;
       case 'line': return Zap;
       case 'arrow': return ArrowUp;
       case 'star': return Star;
-      case 'regularPolygon': return Hexagon;
+      case 'polygon': return Hexagon;
       case 'wedge': return Triangle;
       case 'ring': return Circle;
       case 'arc': return Circle;
       case 'path': return Zap;
-      case 'group': return Group;
       default: return Square;
     }
   };
 
+  const layerKind = (layer: DocumentNode) => (layer.type === 'shape' ? layer.shape : layer.type);
+
   // Handle drag start
   const handleDragStart = useCallback((e: React.DragEvent, layerId: string) => {
     setDraggedLayerId(layerId);
@@ -253,8 +224,8 @@ const LayerManager = forwardRef<LayerManagerRef, LayerManagerProps>(({
     onLayerUngroup(groupId);
   }, [onLayerUngroup]);
 
-  // Sort layers by zIndex (highest first)
-  const sortedLayers = [...layers].sort((a, b) => b.zIndex - a.zIndex);
+  // Front-most layer first
+  const sortedLayers = [...layers].reverse();
 
   return (
     <div className="layer-manager space-y-4">
@@ -311,7 +282,7 @@ const LayerManager = forwardRef<LayerManagerRef, LayerManagerProps>(({
       {/* Layers List */}
       <div className="layers-list space-y-1 max-h-96 overflow-y-auto">
         {sortedLayers.map((layer, index) => {
-          const IconComponent = getLayerIcon(layer.type);
+          const IconComponent = getLayerIcon(layer);
           const isSelected = selectedElementIds.includes(layer.id);
           const isDragged = draggedLayerId === layer.id;
           const isDragOver = dragOverLayerId === layer.id;
@@ -336,10 +307,10 @@ const LayerManager = forwardRef<LayerManagerRef, LayerManagerProps>(({
                 {/* Layer Name */}
                 <div className="flex-1 min-w-0">
                   <div className="text-sm font-medium truncate">
-                    {layer.name || `${layer.type} ${index + 1}`}
+                    {layer.name || `${layerKind(layer)} ${index + 1}`}
                   </div>
                   <div className="text-xs text-gray-400">
-                    {layer.type} • {Math.round(layer.opacity * 100)}%
+                    {layerKind(layer)} • {Math.round(layer.opacity * 100)}%
                   </div>
                 </div>
                 
@@ -431,11 +402,11 @@ const LayerManager = forwardRef<LayerManagerRef, LayerManagerProps>(({
                     </div>
                     <div>
                       <span className="text-gray-400">Z-Index:</span>
-                      <span className="ml-1">{layer.zIndex}</span>
+                      <span className="ml-1">{layers.length - 1 - index}</span>
                     </div>
                     <div>
                       <span className="text-gray-400">Cached:</span>
-                      <span className="ml-1">{layer.isCached ? 'Yes' : 'No'}</span>
+                      <span className="ml-1">{layer.extensions?.isCached ? 'Yes' : 'No'}</span>
                     </div>
                   </div>
                 </div>
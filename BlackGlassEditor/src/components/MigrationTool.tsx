@@ -2,6 +2,10 @@ import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Upload, FileImage, Layers, Palette, Type, Download } from 'lucide-react';
 import { useEditorStore } from '../stores/editorStore';
+import { DocumentNode } from '../types/document';
+import { createNode, solidPaint } from '../utils/documentModel';
+import { importPSD, PSDImportResult } from '../utils/PSDImporter';
+import { importFigmaFile, FigmaImportResult, FigmaImportWarning } from '../utils/FigmaImporter';
 import { sanitizeHtml, sanitizeForLog } from '../utils/security';
 
 interface MigrationSource {
@@ -10,6 +14,8 @@ interface MigrationSource {
   icon: React.ReactNode;
   description: string;
   supportedFormats: string[];
+  // Extra files that can be picked along with the main one, e.g. exported images
+  companionFormats?: string[];
   features: string[];
 }
 
@@ -18,17 +24,18 @@ const migrationSources: MigrationSource[] = [
     id: 'photoshop',
     name: 'Adobe Photoshop',
     icon: <FileImage className="text-blue-600" size={24} />,
-    description: 'Import PSD files with layer support',
-    supportedFormats: ['.psd'],
-    features: ['Layers', 'Text', 'Shapes', 'Effects']
+    description: 'Import PSD and PSB files with layer support',
+    supportedFormats: ['.psd', '.psb'],
+    features: ['Layers', 'Text', 'Groups', 'Blend modes']
   },
   {
     id: 'figma',
     name: 'Figma',
     icon: <Palette className="text-purple-600" size={24} />,
-    description: 'Import Figma designs via JSON export',
-    supportedFormats: ['.fig', '.json'],
-    features: ['Vector shapes', 'Text', 'Components', 'Colors']
+    description: 'Import Figma REST API JSON together with its exported images',
+    supportedFormats: ['.json'],
+    companionFormats: ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg'],
+    features: ['Artboards', 'Vector shapes', 'Text styles', 'Auto layout']
   },
   {
     id: 'sketch',
@@ -54,46 +61,49 @@ export const MigrationTool: React.FC = () => {
   const [isImporting, setIsImporting] = useState(false);
   const [importProgress, setImportProgress] = useState(0);
   const [importResults, setImportResults] = useState<any>(null);
-  const { addObject } = useEditorStore();
+  const { addObjects } = useEditorStore();
 
-  // Parse PSD file (simplified)
+  // Parse PSD/PSB file
   const parsePSDFile = async (file: File): Promise<any> => {
-    return new Promise((resolve) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        // Simplified PSD parsing - in reality would use a proper PSD parser
-        resolve({
-          layers: [
-            { name: 'Background', type: 'image', visible: true },
-            { name: 'Text Layer', type: 'text', content: 'Sample Text', visible: true },
-            { name: 'Shape Layer', type: 'shape', shape: 'rectangle', visible: true }
-          ],
-          canvas: { width: 800, height: 600 }
-        });
+    try {
+      const result: PSDImportResult = importPSD(await file.arrayBuffer());
+      return {
+        nodes: result.nodes,
+        warnings: result.warnings,
+        canvas: { width: result.width, height: result.height }
       };
-      reader.readAsArrayBuffer(file);
-    });
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Invalid Photoshop file' };
+    }
   };
 
-  // Parse Figma JSON
-  const parseFigmaJSON = async (file: File): Promise<any> => {
-    return new Promise((resolve) => {
+  const readAsDataURL = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
       const reader = new FileReader();
-      reader.onload = () => {
-        try {
-          const data = JSON.parse(reader.result as string);
-          resolve({
-            frames: data.document?.children || [],
-            canvas: { width: 1920, height: 1080 }
-          });
-        } catch (error) {
-          resolve({ error: 'Invalid Figma JSON format' });
-        }
-      };
-      reader.readAsText(file);
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
     });
   };
 
+  // Parse Figma REST API JSON; image fills are matched to files named after their imageRef.
+  // Throws with a readable message when the file isn't a Figma document
+  const parseFigmaJSON = async (file: File, imageFiles: File[] = []): Promise<FigmaImportResult> => {
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch (error) {
+      throw new Error('Invalid Figma JSON format');
+    }
+
+    const images: Record<string, string> = {};
+    for (const imageFile of imageFiles) {
+      images[imageFile.name.replace(/\.[^.]+$/, '')] = await readAsDataURL(imageFile);
+    }
+
+    return importFigmaFile(data, images);
+  };
+
   // Generic image import
   const parseImageFile = async (file: File): Promise<any> => {
     return new Promise((resolve) => {
@@ -120,13 +130,18 @@ export const MigrationTool: React.FC = () => {
     setImportProgress(0);
 
     try {
-      const file = files[0];
       const source = migrationSources.find(s => s.id === selectedSource);
       
       if (!source) throw new Error('Invalid source selected');
 
+      // The first file in a supported format is the design; the rest are its companions
+      const extensionOf = (f: File) => '.' + f.name.split('.').pop()?.toLowerCase();
+      const allFiles = Array.from(files);
+      const file = allFiles.find(f => source.supportedFormats.includes(extensionOf(f))) ?? allFiles[0];
+      const companions = allFiles.filter(f => f !== file && source.companionFormats?.includes(extensionOf(f)));
+
       // Check file format
-      const extension = '.' + file.name.split('.').pop()?.toLowerCase();
+      const extension = extensionOf(file);
       if (!source.supportedFormats.includes(extension)) {
         throw new Error(`Unsupported file format. Expected: ${source.supportedFormats.join(', ')}`);
       }
@@ -139,7 +154,7 @@ export const MigrationTool: React.FC = () => {
           parsedData = await parsePSDFile(file);
           break;
         case 'figma':
-          parsedData = await parseFigmaJSON(file);
+          parsedData = await parseFigmaJSON(file, companions);
           break;
         case 'sketch':
           // Simplified - would need proper Sketch parser
@@ -170,45 +185,30 @@ export const MigrationTool: React.FC = () => {
 
       // Import layers/objects
       let importedCount = 0;
-      if (parsedData.layers) {
+      if (parsedData.nodes) {
+        // Already canonical nodes, with groups linked to their children
+        const nodes = parsedData.nodes as DocumentNode[];
+        addObjects(nodes, `Import ${file.name}`);
+        importedCount = nodes.filter(node => node.type !== 'group').length;
+      } else if (parsedData.layers) {
+        const nodes: DocumentNode[] = [];
         for (const layer of parsedData.layers) {
           if (layer.visible) {
             const editorObject = convertLayerToObject(layer);
-            if (editorObject) {
-              addObject(editorObject);
-              importedCount++;
-            }
+            if (editorObject) nodes.push(editorObject);
           }
         }
+        addObjects(nodes, `Import ${file.name}`);
+        importedCount = nodes.length;
       } else if (parsedData.image) {
         // Single image import
-        const imageObject = {
-          id: Math.random().toString(36).substr(2, 9),
-          type: 'image' as const,
+        const imageObject = createNode('image', {
           name: 'Imported Image',
-          visible: true,
-          locked: false,
-          opacity: 1,
-          transform: {
-            x: 0,
-            y: 0,
-            scaleX: 1,
-            scaleY: 1,
-            rotation: 0,
-            skewX: 0,
-            skewY: 0
-          },
-          zIndex: 0,
-          data: {
-            src: parsedData.image,
-            cropX: 0,
-            cropY: 0,
-            cropWidth: parsedData.canvas?.width || 400,
-            cropHeight: parsedData.canvas?.height || 300,
-            filters: []
-          }
-        };
-        addObject(imageObject);
+          width: parsedData.canvas?.width || 400,
+          height: parsedData.canvas?.height || 300,
+          src: parsedData.image
+        });
+        addObjects([imageObject], `Import ${file.name}`);
         importedCount = 1;
       }
 
@@ -218,7 +218,8 @@ export const MigrationTool: React.FC = () => {
         source: source.name,
         fileName: file.name,
         importedCount,
-        totalSize: file.size
+        totalSize: file.size,
+        warnings: parsedData.warnings || []
       });
 
     } catch (error) {
@@ -233,104 +234,51 @@ export const MigrationTool: React.FC = () => {
   };
 
   // Convert layer to editor object
-  const convertLayerToObject = (layer: any): any => {
-    const baseObject = {
-      id: Math.random().toString(36).substr(2, 9),
+  const convertLayerToObject = (layer: any): DocumentNode | null => {
+    const base = {
       x: layer.x || 0,
       y: layer.y || 0,
-      opacity: layer.opacity || 1,
+      opacity: layer.opacity ?? 1,
       rotation: layer.rotation || 0
     };
 
     switch (layer.type) {
       case 'text':
-        return {
-          ...baseObject,
-          type: 'text' as const,
+        return createNode('text', {
+          ...base,
           name: 'Text Layer',
-          visible: true,
-          locked: false,
-          opacity: 1,
-          transform: {
-            x: layer.x || 0,
-            y: layer.y || 0,
-            scaleX: 1,
-            scaleY: 1,
-            rotation: 0,
-            skewX: 0,
-            skewY: 0
-          },
-          zIndex: 0,
-          data: {
-            text: layer.content || 'Text',
-            fontSize: layer.fontSize || 16,
-            fontFamily: layer.fontFamily || 'Arial',
-            fontWeight: 'normal',
-            fontStyle: 'normal',
-            fill: layer.color || '#000000',
-            align: 'left',
-            verticalAlign: 'top',
-            lineHeight: 1.2,
-            letterSpacing: 0
-          }
-        };
+          width: layer.width || 200,
+          height: layer.height || 50,
+          text: layer.content || 'Text',
+          fontSize: layer.fontSize || 16,
+          fontFamily: layer.fontFamily || 'Arial',
+          fill: solidPaint(layer.color || '#000000')
+        });
       case 'shape':
-        return {
-          ...baseObject,
-          type: 'shape' as const,
+        return createNode('shape', {
+          ...base,
           name: 'Shape Layer',
-          visible: true,
-          locked: false,
-          opacity: 1,
-          transform: {
-            x: layer.x || 0,
-            y: layer.y || 0,
-            scaleX: 1,
-            scaleY: 1,
-            rotation: 0,
-            skewX: 0,
-            skewY: 0
-          },
-          zIndex: 0,
-          data: {
-            shapeType: layer.shape || 'rect',
-            fill: layer.fill || '#cccccc',
-            stroke: layer.stroke || '#000000',
-            strokeWidth: 2
-          }
-        };
+          width: layer.width || 100,
+          height: layer.height || 100,
+          shape: layer.shape === 'circle' || layer.shape === 'ellipse' ? 'ellipse' : 'rect',
+          fill: solidPaint(layer.fill || '#cccccc'),
+          stroke: { color: layer.stroke || '#000000', width: 2 }
+        });
       case 'image':
-        return {
-          ...baseObject,
-          type: 'image' as const,
+        return createNode('image', {
+          ...base,
           name: 'Image Layer',
-          visible: true,
-          locked: false,
-          opacity: 1,
-          transform: {
-            x: layer.x || 0,
-            y: layer.y || 0,
-            scaleX: 1,
-            scaleY: 1,
-            rotation: 0,
-            skewX: 0,
-            skewY: 0
-          },
-          zIndex: 0,
-          data: {
-            src: layer.src || '',
-            cropX: 0,
-            cropY: 0,
-            cropWidth: layer.width || 200,
-            cropHeight: layer.height || 200,
-            filters: []
-          }
-        };
+          width: layer.width || 200,
+          height: layer.height || 200,
+          src: layer.src || ''
+        });
       default:
         return null;
     }
   };
 
+  const activeSource = migrationSources.find(s => s.id === selectedSource);
+
   return (
     <>
       {/* Migration Button */}
@@ -457,6 +405,21 @@ export const MigrationTool: React.FC = () => {
                               <p>Objects imported: {importResults.importedCount}</p>
                               <p>File size: {(importResults.totalSize / 1024).toFixed(1)}KB</p>
                             </div>
+                            {importResults.warnings.length > 0 && (
+                              <div className="mt-4 text-left bg-yellow-50 border border-yellow-200 rounded p-3 max-h-40 overflow-y-auto">
+                                <p className="text-sm font-medium text-yellow-800 mb-1">
+                                  Not fully supported ({importResults.warnings.length})
+                                </p>
+                                <ul className="text-xs text-yellow-700 space-y-1">
+                                  {importResults.warnings.map((warning: FigmaImportWarning, index: number) => (
+                                    <li key={index}>
+                                      <span className="font-medium">{warning.layerName}</span>
+                                      {' — '}{warning.feature}: {warning.detail}
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
                             <button
                               onClick={() => setShowMigration(false)}
                               className="mt-4 bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600"
@@ -485,12 +448,18 @@ export const MigrationTool: React.FC = () => {
                         <Upload size={48} className="mx-auto mb-4 text-gray-400" />
                         <h3 className="text-lg font-semibold mb-2">Select File to Import</h3>
                         <p className="text-gray-600 mb-4">
-                          Choose a file from {migrationSources.find(s => s.id === selectedSource)?.name || ''}
+                          Choose a file from {activeSource?.name || ''}
+                          {activeSource?.companionFormats && (
+                            <span className="block text-xs mt-1">
+                              Select its image files too; each should be named after its image reference
+                            </span>
+                          )}
                         </p>
                         <input
                           type="file"
+                          multiple={!!activeSource?.companionFormats}
                           onChange={(e) => e.target.files && handleFileImport(e.target.files)}
-                          accept={migrationSources.find(s => s.id === selectedSource)?.supportedFormats.join(',')}
+                          accept={[...(activeSource?.supportedFormats ?? []), ...(activeSource?.companionFormats ?? [])].join(',')}
                           className="hidden"
                           id="migration-file-input"
                         />
@@ -1,9 +1,10 @@
 'use client';
 
-import React, { useRef, useState, useCallback } from 'react';
+import React, { useRef, useState, useCallback, useMemo } from 'react';
 import { Stage, Layer, Rect, Circle, Text, Transformer, Line, Star, RegularPolygon } from 'react-konva';
 import Konva from 'konva';
 import { useEditor } from '../contexts/EditorContext';
+import { fromUnifiedShape, toUnifiedShape, unifiedShapeUpdates } from '../utils/documentModel';
 import ShapeTool from './ShapeTool';
 import EnhancedShapeTool from './EnhancedShapeTool';
 
@@ -16,6 +17,13 @@ export function PowerCanvas() {
   const [showShapeTool, setShowShapeTool] = useState(false);
   const [showEnhancedTool, setShowEnhancedTool] = useState(false);
 
+  // ShapeTool reads and writes document nodes
+  const selectedShape = state.shapes.find(s => s.isSelected);
+  const selectedShapeNode = useMemo(() => {
+    const node = selectedShape ? fromUnifiedShape(selectedShape) : null;
+    return node?.type === 'shape' ? node : undefined;
+  }, [selectedShape]);
+
   const handleMouseDown = (e: Konva.KonvaEventObject<MouseEvent>) => {
     const pos = e.target.getStage()?.getPointerPosition();
     if (!pos) return;
@@ -326,11 +334,18 @@ export function PowerCanvas() {
         {showShapeTool && (
           <div className="p-4">
             <ShapeTool
-              onShapeAdd={actions.addShape}
-              onShapeUpdate={actions.updateShape}
+              onShapeAdd={(node) => {
+                // EditorContext has no star, polygon or path shapes; those are skipped
+                const shape = toUnifiedShape(node);
+                if (shape) actions.addShape(shape);
+              }}
+              onShapeUpdate={(id, updates) => {
+                const shape = state.shapes.find(s => s.id === id);
+                if (shape) actions.updateShape(id, unifiedShapeUpdates(shape, updates));
+              }}
               onShapeDelete={actions.deleteShape}
               canvasState={state.canvas}
-              selectedShapeElement={state.shapes.find(s => s.isSelected)}
+              selectedShapeNode={selectedShapeNode}
             />
           </div>
         )}
@@ -1,112 +1,17 @@
 'use client';
 
-import React, { useState, useRef, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo, forwardRef, useImperativeHandle } from 'react';
 import { Square, Circle, Triangle, Star, Hexagon, Pentagon, ArrowRight, Heart, Zap, Layers, Settings, Plus, Trash2, Copy, RotateCw, Move, Palette, Eye, EyeOff, Lock, Unlock } from 'lucide-react';
 
-// Types for all Konva shapes
-export interface ShapeElement {
-  id: string;
-  type: 'rect' | 'circle' | 'line' | 'arrow' | 'star' | 'regularPolygon' | 'wedge' | 'ring' | 'arc' | 'path';
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  rotation: number;
-  scaleX: number;
-  scaleY: number;
-  opacity: number;
-  visible: boolean;
-  zIndex: number;
-  isSelected: boolean;
-  isDragging: boolean;
-  isResizing: boolean;
-  isRotating: boolean;
-  
-  // Common shape properties
-  fill: string;
-  stroke: string;
-  strokeWidth: number;
-  fillEnabled: boolean;
-  strokeEnabled: boolean;
-  
-  // Shape-specific properties
-  // Rect properties
-  cornerRadius?: number;
-  
-  // Circle properties
-  radius?: number;
-  
-  // Line properties
-  points?: number[];
-  closed?: boolean;
-  tension?: number;
-  
-  // Arrow properties
-  arrowPoints?: number[];
-  pointerLength?: number;
-  pointerWidth?: number;
-  
-  // Star properties
-  numPoints?: number;
-  starInnerRadius?: number;
-  starOuterRadius?: number;
-  
-  // RegularPolygon properties
-  sides?: number;
-  polygonRadius?: number;
-  
-  // Wedge properties
-  angle?: number;
-  wedgeRadius?: number;
-  
-  // Ring properties
-  ringInnerRadius?: number;
-  ringOuterRadius?: number;
-  
-  // Arc properties
-  arcAngle?: number;
-  arcInnerRadius?: number;
-  arcOuterRadius?: number;
-  clockwise?: boolean;
-  
-  // Path properties
-  data?: string;
-  
-  // Advanced properties
-  shadowColor?: string;
-  shadowBlur?: number;
-  shadowOffset?: { x: number; y: number };
-  shadowOpacity?: number;
-  shadowEnabled?: boolean;
-  
-  // Gradient properties
-  fillLinearGradientStartPoint?: { x: number; y: number };
-  fillLinearGradientEndPoint?: { x: number; y: number };
-  fillLinearGradientColorStops?: Array<{ color: string; position: number }>;
-  fillRadialGradientStartPoint?: { x: number; y: number };
-  fillRadialGradientEndPoint?: { x: number; y: number };
-  fillRadialGradientStartRadius?: number;
-  fillRadialGradientEndRadius?: number;
-  fillRadialGradientColorStops?: Array<{ color: string; position: number }>;
-  
-  // Performance properties
-  isCached: boolean;
-  perfectDrawEnabled: boolean;
-  listening: boolean;
-  
-  // State tracking
-  boundaryState: {
-    isWithinBounds: boolean;
-    violationType: 'x' | 'y' | 'width' | 'height' | null;
-  };
-  name: string;
-  locked: boolean;
-  isGrouped: boolean;
-}
+import type { ShapeElement } from '../types/advanced-types';
+import type { ShapeNode } from '../types/document';
+import { createNodeId, fromCanvasElement, nodeChanges, toCanvasElement } from '../utils/documentModel';
+
+export type { ShapeElement };
 
 interface ShapeToolProps {
-  onShapeAdd: (shapeElement: Omit<ShapeElement, 'id'>) => void;
-  onShapeUpdate: (id: string, updates: Partial<ShapeElement>) => void;
+  onShapeAdd: (node: ShapeNode) => void;
+  onShapeUpdate: (id: string, updates: Partial<ShapeNode>) => void;
   onShapeDelete: (id: string) => void;
   canvasState: {
     width: number;
@@ -118,7 +23,7 @@ interface ShapeToolProps {
     snapToGrid: boolean;
     showGrid: boolean;
   };
-  selectedShapeElement?: ShapeElement;
+  selectedShapeNode?: ShapeNode;
 }
 
 export interface ShapeToolRef {
@@ -136,8 +41,28 @@ const ShapeTool = forwardRef<ShapeToolRef, ShapeToolProps>(({
   onShapeUpdate,
   onShapeDelete,
   canvasState,
-  selectedShapeElement
+  selectedShapeNode
 }, ref) => {
+  // The panel edits Konva shape properties; nodes are converted on the way in and out.
+  // Gradient-filled rectangles convert to gradient elements, which the gradient tool edits instead
+  const selectedShapeElement = useMemo(() => {
+    const element = selectedShapeNode ? toCanvasElement(selectedShapeNode) : null;
+    return element && element.type !== 'gradient' ? element as ShapeElement : undefined;
+  }, [selectedShapeNode]);
+
+  const addElement = useCallback((element: Omit<ShapeElement, 'id'>) => {
+    onShapeAdd(fromCanvasElement({ ...element, id: createNodeId() } as ShapeElement) as ShapeNode);
+  }, [onShapeAdd]);
+
+  // Only the selected node can be edited: updates are reported as the node fields they change
+  const updateElement = useCallback((id: string, updates: Partial<ShapeElement>) => {
+    if (!selectedShapeElement || selectedShapeElement.id !== id) return;
+    const before = fromCanvasElement(selectedShapeElement) as ShapeNode;
+    const after = fromCanvasElement({ ...selectedShapeElement, ...updates } as ShapeElement) as ShapeNode;
+    const changes = nodeChanges(before, after);
+    if (Object.keys(changes).length > 0) onShapeUpdate(id, changes);
+  }, [selectedShapeElement, onShapeUpdate]);
+
   // Shape properties state
   const [shapeProperties, setShapeProperties] = useState<Partial<ShapeElement>>({
     type: 'rect',
@@ -178,11 +103,11 @@ const ShapeTool = forwardRef<ShapeToolRef, ShapeToolProps>(({
     { type: 'circle', name: 'Circle', icon: Circle, defaultProps: { radius: 50 } },
     { type: 'line', name: 'Line', icon: Zap, defaultProps: { points: [0, 0, 100, 0], closed: false, tension: 0 } },
     { type: 'arrow', name: 'Arrow', icon: ArrowRight, defaultProps: { points: [0, 0, 100, 0], pointerLength: 20, pointerWidth: 20 } },
-    { type: 'star', name: 'Star', icon: Star, defaultProps: { numPoints: 5, starInnerRadius: 30, starOuterRadius: 50 } },
-    { type: 'regularPolygon', name: 'Polygon', icon: Hexagon, defaultProps: { sides: 6, polygonRadius: 50 } },
-    { type: 'wedge', name: 'Wedge', icon: Triangle, defaultProps: { angle: 60, wedgeRadius: 50 } },
-    { type: 'ring', name: 'Ring', icon: Circle, defaultProps: { ringInnerRadius: 30, ringOuterRadius: 50 } },
-    { type: 'arc', name: 'Arc', icon: Circle, defaultProps: { arcAngle: 60, arcInnerRadius: 30, arcOuterRadius: 50, clockwise: false } }
+    { type: 'star', name: 'Star', icon: Star, defaultProps: { numPoints: 5, innerRadius: 30, outerRadius: 50 } },
+    { type: 'regularPolygon', name: 'Polygon', icon: Hexagon, defaultProps: { sides: 6, outerRadius: 50 } },
+    { type: 'wedge', name: 'Wedge', icon: Triangle, defaultProps: { angle: 60, outerRadius: 50 } },
+    { type: 'ring', name: 'Ring', icon: Circle, defaultProps: { innerRadius: 30, outerRadius: 50 } },
+    { type: 'arc', name: 'Arc', icon: Circle, defaultProps: { angle: 60, innerRadius: 30, outerRadius: 50, clockwise: false } }
   ];
 
   // Expose methods to parent
@@ -205,10 +130,10 @@ const ShapeTool = forwardRef<ShapeToolRef, ShapeToolProps>(({
         isRotating: false
       } as Omit<ShapeElement, 'id'>;
       
-      onShapeAdd(newShapeElement);
+      addElement(newShapeElement);
     },
     updateShape: (id: string, updates: Partial<ShapeElement>) => {
-      onShapeUpdate(id, updates);
+      updateElement(id, updates);
     },
     deleteShape: (id: string) => {
       onShapeDelete(id);
@@ -221,18 +146,18 @@ const ShapeTool = forwardRef<ShapeToolRef, ShapeToolProps>(({
           y: selectedShapeElement.y + 20,
           isSelected: true
         };
-        onShapeAdd(duplicatedElement);
+        addElement(duplicatedElement);
       }
     },
     applyGradient: (id: string, gradient: any) => {
-      onShapeUpdate(id, gradient);
+      updateElement(id, gradient);
     },
     applyShadow: (id: string, shadow: any) => {
-      onShapeUpdate(id, shadow);
+      updateElement(id, shadow);
     },
     toggleCache: (id: string) => {
       if (selectedShapeElement) {
-        onShapeUpdate(id, { isCached: !selectedShapeElement.isCached });
+        updateElement(id, { isCached: !selectedShapeElement.isCached });
       }
     }
   }));
@@ -256,92 +181,92 @@ const ShapeTool = forwardRef<ShapeToolRef, ShapeToolProps>(({
     }));
     
     if (selectedShapeElement) {
-      onShapeUpdate(selectedShapeElement.id, {
+      updateElement(selectedShapeElement.id, {
         type: shapeType as any,
         ...shapeConfig.defaultProps
       });
     }
-  }, [selectedShapeElement, onShapeUpdate]);
+  }, [selectedShapeElement, updateElement]);
 
   // Handle fill color change
   const handleFillChange = useCallback((fill: string) => {
     setShapeProperties(prev => ({ ...prev, fill }));
     if (selectedShapeElement) {
-      onShapeUpdate(selectedShapeElement.id, { fill });
+      updateElement(selectedShapeElement.id, { fill });
     }
-  }, [selectedShapeElement, onShapeUpdate]);
+  }, [selectedShapeElement, updateElement]);
 
   // Handle stroke change
   const handleStrokeChange = useCallback((stroke: string, strokeWidth: number) => {
     setShapeProperties(prev => ({ ...prev, stroke, strokeWidth }));
     if (selectedShapeElement) {
-      onShapeUpdate(selectedShapeElement.id, { stroke, strokeWidth });
+      updateElement(selectedShapeElement.id, { stroke, strokeWidth });
     }
-  }, [selectedShapeElement, onShapeUpdate]);
+  }, [selectedShapeElement, updateElement]);
 
   // Handle opacity change
   const handleOpacityChange = useCallback((opacity: number) => {
     setShapeProperties(prev => ({ ...prev, opacity }));
     if (selectedShapeElement) {
-      onShapeUpdate(selectedShapeElement.id, { opacity });
+      updateElement(selectedShapeElement.id, { opacity });
     }
-  }, [selectedShapeElement, onShapeUpdate]);
+  }, [selectedShapeElement, updateElement]);
 
   // Handle rotation change
   const handleRotationChange = useCallback((rotation: number) => {
     setShapeProperties(prev => ({ ...prev, rotation }));
     if (selectedShapeElement) {
-      onShapeUpdate(selectedShapeElement.id, { rotation });
+      updateElement(selectedShapeElement.id, { rotation });
     }
-  }, [selectedShapeElement, onShapeUpdate]);
+  }, [selectedShapeElement, updateElement]);
 
   // Handle scale change
   const handleScaleChange = useCallback((scaleX: number, scaleY: number) => {
     setShapeProperties(prev => ({ ...prev, scaleX, scaleY }));
     if (selectedShapeElement) {
-      onShapeUpdate(selectedShapeElement.id, { scaleX, scaleY });
+      updateElement(selectedShapeElement.id, { scaleX, scaleY });
     }
-  }, [selectedShapeElement, onShapeUpdate]);
+  }, [selectedShapeElement, updateElement]);
 
   // Handle visibility toggle
   const handleVisibilityToggle = useCallback(() => {
     setShapeProperties(prev => ({ ...prev, visible: !prev.visible }));
     if (selectedShapeElement) {
-      onShapeUpdate(selectedShapeElement.id, { visible: !selectedShapeElement.visible });
+      updateElement(selectedShapeElement.id, { visible: !selectedShapeElement.visible });
     }
-  }, [selectedShapeElement, onShapeUpdate]);
+  }, [selectedShapeElement, updateElement]);
 
   // Handle cache toggle
   const handleCacheToggle = useCallback(() => {
     setShapeProperties(prev => ({ ...prev, isCached: !prev.isCached }));
     if (selectedShapeElement) {
-      onShapeUpdate(selectedShapeElement.id, { isCached: !selectedShapeElement.isCached });
+      updateElement(selectedShapeElement.id, { isCached: !selectedShapeElement.isCached });
     }
-  }, [selectedShapeElement, onShapeUpdate]);
+  }, [selectedShapeElement, updateElement]);
 
   // Handle perfect draw toggle
   const handlePerfectDrawToggle = useCallback(() => {
     setShapeProperties(prev => ({ ...prev, perfectDrawEnabled: !prev.perfectDrawEnabled }));
     if (selectedShapeElement) {
-      onShapeUpdate(selectedShapeElement.id, { perfectDrawEnabled: !selectedShapeElement.perfectDrawEnabled });
+      updateElement(selectedShapeElement.id, { perfectDrawEnabled: !selectedShapeElement.perfectDrawEnabled });
     }
-  }, [selectedShapeElement, onShapeUpdate]);
+  }, [selectedShapeElement, updateElement]);
 
   // Handle listening toggle
   const handleListeningToggle = useCallback(() => {
     setShapeProperties(prev => ({ ...prev, listening: !prev.listening }));
     if (selectedShapeElement) {
-      onShapeUpdate(selectedShapeElement.id, { listening: !selectedShapeElement.listening });
+      updateElement(selectedShapeElement.id, { listening: !selectedShapeElement.listening });
     }
-  }, [selectedShapeElement, onShapeUpdate]);
+  }, [selectedShapeElement, updateElement]);
 
   // Handle specific shape property changes
   const handleShapePropertyChange = useCallback((property: string, value: any) => {
     setShapeProperties(prev => ({ ...prev, [property]: value }));
     if (selectedShapeElement) {
-      onShapeUpdate(selectedShapeElement.id, { [property]: value });
+      updateElement(selectedShapeElement.id, { [property]: value });
     }
-  }, [selectedShapeElement, onShapeUpdate]);
+  }, [selectedShapeElement, updateElement]);
 
   return (
     <div className="shape-tool space-y-4">
@@ -446,11 +371,11 @@ const ShapeTool = forwardRef<ShapeToolRef, ShapeToolProps>(({
               min="10"
               max="80"
               step="1"
-              value={shapeProperties.starInnerRadius || 30}
-              onChange={(e) => handleShapePropertyChange('starInnerRadius', parseInt(e.target.value))}
+              value={shapeProperties.innerRadius || 30}
+              onChange={(e) => handleShapePropertyChange('innerRadius', parseInt(e.target.value))}
               className="w-full"
             />
-            <span className="text-xs text-gray-400">{shapeProperties.starInnerRadius || 30}px</span>
+            <span className="text-xs text-gray-400">{shapeProperties.innerRadius || 30}px</span>
           </div>
         </div>
       )}
@@ -494,11 +419,11 @@ const ShapeTool = forwardRef<ShapeToolRef, ShapeToolProps>(({
               min="10"
               max="80"
               step="1"
-              value={shapeProperties.ringInnerRadius || 30}
-              onChange={(e) => handleShapePropertyChange('ringInnerRadius', parseInt(e.target.value))}
+              value={shapeProperties.innerRadius || 30}
+              onChange={(e) => handleShapePropertyChange('innerRadius', parseInt(e.target.value))}
               className="w-full"
             />
-            <span className="text-xs text-gray-400">{shapeProperties.ringInnerRadius || 30}px</span>
+            <span className="text-xs text-gray-400">{shapeProperties.innerRadius || 30}px</span>
           </div>
           <div>
             <label className="block text-sm font-medium mb-2">Outer Radius</label>
@@ -507,11 +432,11 @@ const ShapeTool = forwardRef<ShapeToolRef, ShapeToolProps>(({
               min="20"
               max="100"
               step="1"
-              value={shapeProperties.ringOuterRadius || 50}
-              onChange={(e) => handleShapePropertyChange('ringOuterRadius', parseInt(e.target.value))}
+              value={shapeProperties.outerRadius || 50}
+              onChange={(e) => handleShapePropertyChange('outerRadius', parseInt(e.target.value))}
               className="w-full"
             />
-            <span className="text-xs text-gray-400">{shapeProperties.ringOuterRadius || 50}px</span>
+            <span className="text-xs text-gray-400">{shapeProperties.outerRadius || 50}px</span>
           </div>
         </div>
       )}
@@ -711,7 +636,7 @@ const ShapeTool = forwardRef<ShapeToolRef, ShapeToolProps>(({
                   y: selectedShapeElement.y + 20,
                   isSelected: true
                 };
-                onShapeAdd(duplicatedElement);
+                addElement(duplicatedElement);
               }
             }}
           >
@@ -1,84 +1,17 @@
 'use client';
 
-import React, { useState, useRef, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo, forwardRef, useImperativeHandle } from 'react';
 import { Type, AlignLeft, AlignCenter, AlignRight, AlignJustify, Bold, Italic, Underline, Strikethrough, Palette, Layers, RotateCw, Move, Square, Circle, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Grid3X3, Eye, EyeOff, Trash2, Copy, Scissors, MousePointer, Settings, Zap, Lock, Unlock } from 'lucide-react';
 import AdvancedFontSelector from './AdvancedFontSelector';
+import type { TextElement } from '../types/advanced-types';
+import type { TextNode } from '../types/document';
+import { createNodeId, fromCanvasElement, nodeChanges, toCanvasElement } from '../utils/documentModel';
 
-// Types
-export interface TextElement {
-  id: string;
-  type: 'text';
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  text: string;
-  fontSize: number;
-  fontFamily: string;
-  fill: string;
-  fontWeight: number;
-  fontStyle: string;
-  textDecoration: string;
-  letterSpacing: number;
-  lineHeight: number;
-  align: 'left' | 'center' | 'right' | 'justify';
-  verticalAlign: 'top' | 'middle' | 'bottom';
-  wrap: 'word' | 'char' | 'none';
-  ellipsis: boolean;
-  padding: number;
-  direction: 'inherit' | 'ltr' | 'rtl';
-  rotation: number;
-  scaleX: number;
-  scaleY: number;
-  opacity: number;
-  visible: boolean;
-  zIndex: number;
-  isSelected: boolean;
-  isDragging: boolean;
-  isResizing: boolean;
-  isRotating: boolean;
-  
-  // Advanced text properties
-  stroke?: string;
-  strokeWidth?: number;
-  shadowColor?: string;
-  shadowBlur?: number;
-  shadowOffset?: { x: number; y: number };
-  shadowOpacity?: number;
-  
-  // Gradient properties
-  fillLinearGradientStartPoint?: { x: number; y: number };
-  fillLinearGradientEndPoint?: { x: number; y: number };
-  fillLinearGradientColorStops?: Array<{ color: string; position: number }>;
-  fillRadialGradientStartPoint?: { x: number; y: number };
-  fillRadialGradientEndPoint?: { x: number; y: number };
-  fillRadialGradientStartRadius?: number;
-  fillRadialGradientEndRadius?: number;
-  fillRadialGradientColorStops?: Array<{ color: string; position: number }>;
-  
-  // Performance properties
-  isCached: boolean;
-  perfectDrawEnabled: boolean;
-  listening: boolean;
-  name: string;
-  locked: boolean;
-  isGrouped: boolean;
-  
-  // State tracking
-  wrapState: {
-    isWrapped: boolean;
-    maxWidth: number;
-    originalWidth: number;
-  };
-  boundaryState: {
-    isWithinBounds: boolean;
-    violationType: 'x' | 'y' | 'width' | 'height' | null;
-  };
-}
+export type { TextElement };
 
 interface TextToolProps {
-  onTextAdd: (textElement: Omit<TextElement, 'id'>) => void;
-  onTextUpdate: (id: string, updates: Partial<TextElement>) => void;
+  onTextAdd: (node: TextNode) => void;
+  onTextUpdate: (id: string, updates: Partial<TextNode>) => void;
   onTextDelete: (id: string) => void;
   canvasState: {
     width: number;
@@ -90,7 +23,7 @@ interface TextToolProps {
     snapToGrid: boolean;
     showGrid: boolean;
   };
-  selectedTextElement?: TextElement;
+  selectedTextNode?: TextNode;
 }
 
 export interface TextToolRef {
@@ -109,8 +42,27 @@ const TextTool = forwardRef<TextToolRef, TextToolProps>(({
   onTextUpdate,
   onTextDelete,
   canvasState,
-  selectedTextElement
+  selectedTextNode
 }, ref) => {
+  // The panel edits Konva-style text properties; nodes are converted on the way in and out
+  const selectedTextElement = useMemo(
+    () => (selectedTextNode ? toCanvasElement(selectedTextNode) as TextElement : undefined),
+    [selectedTextNode]
+  );
+
+  const addElement = useCallback((element: Omit<TextElement, 'id'>) => {
+    onTextAdd(fromCanvasElement({ ...element, id: createNodeId() } as TextElement) as TextNode);
+  }, [onTextAdd]);
+
+  // Only the selected node can be edited: updates are reported as the node fields they change
+  const updateElement = useCallback((id: string, updates: Partial<TextElement>) => {
+    if (!selectedTextElement || selectedTextElement.id !== id) return;
+    const before = fromCanvasElement(selectedTextElement) as TextNode;
+    const after = fromCanvasElement({ ...selectedTextElement, ...updates } as TextElement) as TextNode;
+    const changes = nodeChanges(before, after);
+    if (Object.keys(changes).length > 0) onTextUpdate(id, changes);
+  }, [selectedTextElement, onTextUpdate]);
+
   // Text properties state
   const [textProperties, setTextProperties] = useState<Partial<TextElement>>({
     text: 'Double-click to edit',
@@ -189,10 +141,10 @@ const TextTool = forwardRef<TextToolRef, TextToolProps>(({
         isRotating: false
       } as Omit<TextElement, 'id'>;
       
-      onTextAdd(newTextElement);
+      addElement(newTextElement);
     },
     updateText: (id: string, updates: Partial<TextElement>) => {
-      onTextUpdate(id, updates);
+      updateElement(id, updates);
     },
     deleteText: (id: string) => {
       onTextDelete(id);
@@ -205,21 +157,21 @@ const TextTool = forwardRef<TextToolRef, TextToolProps>(({
           y: selectedTextElement.y + 20,
           isSelected: true
         };
-        onTextAdd(duplicatedElement);
+        addElement(duplicatedElement);
       }
     },
     alignText: (id: string, alignment: 'left' | 'center' | 'right' | 'justify') => {
-      onTextUpdate(id, { align: alignment });
+      updateElement(id, { align: alignment });
     },
     applyGradient: (id: string, gradient: any) => {
-      onTextUpdate(id, gradient);
+      updateElement(id, gradient);
     },
     applyShadow: (id: string, shadow: any) => {
-      onTextUpdate(id, shadow);
+      updateElement(id, shadow);
     },
     toggleCache: (id: string) => {
       if (selectedTextElement) {
-        onTextUpdate(id, { isCached: !selectedTextElement.isCached });
+        updateElement(id, { isCached: !selectedTextElement.isCached });
       }
     }
   }));
@@ -235,169 +187,169 @@ const TextTool = forwardRef<TextToolRef, TextToolProps>(({
   const handleTextChange = useCallback((text: string) => {
     setTextProperties(prev => ({ ...prev, text }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { text });
+      updateElement(selectedTextElement.id, { text });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle font family change
   const handleFontFamilyChange = useCallback((fontFamily: string) => {
     setTextProperties(prev => ({ ...prev, fontFamily }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { fontFamily });
+      updateElement(selectedTextElement.id, { fontFamily });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle font size change
   const handleFontSizeChange = useCallback((fontSize: number) => {
     setTextProperties(prev => ({ ...prev, fontSize }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { fontSize });
+      updateElement(selectedTextElement.id, { fontSize });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle font weight change
   const handleFontWeightChange = useCallback((fontWeight: number) => {
     setTextProperties(prev => ({ ...prev, fontWeight: fontWeight }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { fontWeight: fontWeight });
+      updateElement(selectedTextElement.id, { fontWeight: fontWeight });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle font style change
   const handleFontStyleChange = useCallback((fontStyle: string) => {
     setTextProperties(prev => ({ ...prev, fontStyle }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { fontStyle });
+      updateElement(selectedTextElement.id, { fontStyle });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle text decoration change
   const handleTextDecorationChange = useCallback((textDecoration: string) => {
     setTextProperties(prev => ({ ...prev, textDecoration }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { textDecoration });
+      updateElement(selectedTextElement.id, { textDecoration });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle alignment change
   const handleAlignChange = useCallback((align: 'left' | 'center' | 'right' | 'justify') => {
     setTextProperties(prev => ({ ...prev, align }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { align });
+      updateElement(selectedTextElement.id, { align });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle vertical alignment change
   const handleVerticalAlignChange = useCallback((verticalAlign: 'top' | 'middle' | 'bottom') => {
     setTextProperties(prev => ({ ...prev, verticalAlign }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { verticalAlign });
+      updateElement(selectedTextElement.id, { verticalAlign });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle wrap change
   const handleWrapChange = useCallback((wrap: 'word' | 'char' | 'none') => {
     setTextProperties(prev => ({ ...prev, wrap }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { wrap });
+      updateElement(selectedTextElement.id, { wrap });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle ellipsis toggle
   const handleEllipsisToggle = useCallback(() => {
     setTextProperties(prev => ({ ...prev, ellipsis: !prev.ellipsis }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { ellipsis: !selectedTextElement.ellipsis });
+      updateElement(selectedTextElement.id, { ellipsis: !selectedTextElement.ellipsis });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle letter spacing change
   const handleLetterSpacingChange = useCallback((letterSpacing: number) => {
     setTextProperties(prev => ({ ...prev, letterSpacing }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { letterSpacing });
+      updateElement(selectedTextElement.id, { letterSpacing });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle line height change
   const handleLineHeightChange = useCallback((lineHeight: number) => {
     setTextProperties(prev => ({ ...prev, lineHeight }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { lineHeight });
+      updateElement(selectedTextElement.id, { lineHeight });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle padding change
   const handlePaddingChange = useCallback((padding: number) => {
     setTextProperties(prev => ({ ...prev, padding }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { padding });
+      updateElement(selectedTextElement.id, { padding });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle fill color change
   const handleFillChange = useCallback((fill: string) => {
     setTextProperties(prev => ({ ...prev, fill }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { fill });
+      updateElement(selectedTextElement.id, { fill });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle stroke change
   const handleStrokeChange = useCallback((stroke: string, strokeWidth: number) => {
     setTextProperties(prev => ({ ...prev, stroke, strokeWidth }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { stroke, strokeWidth });
+      updateElement(selectedTextElement.id, { stroke, strokeWidth });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle opacity change
   const handleOpacityChange = useCallback((opacity: number) => {
     setTextProperties(prev => ({ ...prev, opacity }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { opacity });
+      updateElement(selectedTextElement.id, { opacity });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle rotation change
   const handleRotationChange = useCallback((rotation: number) => {
     setTextProperties(prev => ({ ...prev, rotation }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { rotation });
+      updateElement(selectedTextElement.id, { rotation });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle scale change
   const handleScaleChange = useCallback((scaleX: number, scaleY: number) => {
     setTextProperties(prev => ({ ...prev, scaleX, scaleY }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { scaleX, scaleY });
+      updateElement(selectedTextElement.id, { scaleX, scaleY });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle visibility toggle
   const handleVisibilityToggle = useCallback(() => {
     setTextProperties(prev => ({ ...prev, visible: !prev.visible }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { visible: !selectedTextElement.visible });
+      updateElement(selectedTextElement.id, { visible: !selectedTextElement.visible });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle cache toggle
   const handleCacheToggle = useCallback(() => {
     setTextProperties(prev => ({ ...prev, isCached: !prev.isCached }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { isCached: !selectedTextElement.isCached });
+      updateElement(selectedTextElement.id, { isCached: !selectedTextElement.isCached });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   // Handle perfect draw toggle
   const handlePerfectDrawToggle = useCallback(() => {
     setTextProperties(prev => ({ ...prev, perfectDrawEnabled: !prev.perfectDrawEnabled }));
     if (selectedTextElement) {
-      onTextUpdate(selectedTextElement.id, { perfectDrawEnabled: !selectedTextElement.perfectDrawEnabled });
+      updateElement(selectedTextElement.id, { perfectDrawEnabled: !selectedTextElement.perfectDrawEnabled });
     }
-  }, [selectedTextElement, onTextUpdate]);
+  }, [selectedTextElement, updateElement]);
 
   return (
     <div className="text-tool space-y-4">
@@ -532,13 +484,13 @@ const TextTool = forwardRef<TextToolRef, TextToolProps>(({
           onPropertyChange={(property, value) => {
             setTextProperties(prev => ({ ...prev, [property]: value }));
             if (selectedTextElement) {
-              onTextUpdate(selectedTextElement.id, { [property]: value });
+              updateElement(selectedTextElement.id, { [property]: value });
             }
           }}
           onBatchPropertyChange={(updates) => {
             setTextProperties(prev => ({ ...prev, ...updates }));
             if (selectedTextElement) {
-              onTextUpdate(selectedTextElement.id, updates);
+              updateElement(selectedTextElement.id, updates);
             }
           }}
         />
@@ -898,7 +850,7 @@ const TextTool = forwardRef<TextToolRef, TextToolProps>(({
                   y: selectedTextElement.y + 20,
                   isSelected: true
                 };
-                onTextAdd(duplicatedElement);
+                addElement(duplicatedElement);
               }
             }}
           >
@@ -1,9 +1,36 @@
 import { create } from 'zustand';
+import {
+  HistoryManager,
+  HistoryCheckpoint,
+  Patch,
+  PatchSet,
+  RecordOptions,
+  SerializedHistory,
+  applyPatches,
+  createPatches
+} from '../utils/HistoryManager';
+import { DesignDocument, DocumentNode } from '../types/document';
+import { createDocument, createNodeId, migrateDocument } from '../utils/documentModel';
+
+// A saved design plus the undo history recorded against it
+export interface EditorDocument extends DesignDocument {
+  history?: SerializedHistory;
+}
+
+type DocumentInfo = Pick<DesignDocument, 'id' | 'name' | 'background' | 'createdAt'>;
+
+interface UpdateObjectOptions {
+  // Updates sharing a key in quick succession (a drag, a slider) undo as one step.
+  // Defaults to the object id plus the updated keys; pass null to always record separately
+  coalesceKey?: string | null;
+  description?: string;
+}
 
 interface EditorState {
   selectedTool: string;
   selectedObjectId: string | null;
-  objects: any[];
+  documentInfo: DocumentInfo;
+  objects: DocumentNode[];
   canvasSize: { width: number; height: number };
   zoom: number;
   panX: number;
@@ -11,14 +38,17 @@ interface EditorState {
   showGrid: boolean;
   showRulers: boolean;
   snapToGrid: boolean;
-  history: any[];
-  historyIndex: number;
-  
+  canUndo: boolean;
+  canRedo: boolean;
+  checkpoints: HistoryCheckpoint[];
+
   // Actions
   setSelectedTool: (tool: string) => void;
   setSelectedObjectId: (id: string | null) => void;
-  addObject: (object: any) => void;
-  updateObject: (id: string, updates: any) => void;
+  addObject: (node: DocumentNode) => void;
+  // Adds several nodes as one undo step, e.g. everything from an imported file
+  addObjects: (nodes: DocumentNode[], description?: string) => void;
+  updateObject: (id: string, updates: Partial<DocumentNode>, options?: UpdateObjectOptions) => void;
   deleteObject: (id: string) => void;
   setCanvasSize: (size: { width: number; height: number }) => void;
   setZoom: (zoom: number) => void;
@@ -28,12 +58,46 @@ interface EditorState {
   setSnapToGrid: (snap: boolean) => void;
   undo: () => void;
   redo: () => void;
-  saveState: () => void;
+  createCheckpoint: (name: string) => void;
+  restoreCheckpoint: (id: string) => void;
+  removeCheckpoint: (id: string) => void;
+  serializeDocument: () => EditorDocument;
+  // Accepts any saved design; throws if it can't be read (see migrateDocument)
+  loadDocument: (data: unknown) => void;
 }
 
+const historyManager = new HistoryManager();
+
+const infoOf = ({ id, name, background, createdAt }: DesignDocument): DocumentInfo => ({ id, name, background, createdAt });
+
+const historyFlags = () => ({
+  canUndo: historyManager.canUndo(),
+  canRedo: historyManager.canRedo(),
+  checkpoints: historyManager.getCheckpoints()
+});
+
+// Patches recorded by the store are rooted at { objects }, e.g. ['objects', 3, 'x']
+const applyDocumentPatches = (patches: Patch[]) => {
+  useEditorStore.setState((state) => {
+    const { objects } = applyPatches({ objects: state.objects }, patches);
+    const selectionExists = objects.some(obj => obj.id === state.selectedObjectId);
+    return {
+      objects,
+      selectedObjectId: selectionExists ? state.selectedObjectId : null,
+      ...historyFlags()
+    };
+  });
+};
+
+const recordAndApply = (action: string, description: string, patchSet: PatchSet, options: RecordOptions) => {
+  historyManager.addState(action, description, patchSet, options);
+  applyDocumentPatches(patchSet.patches);
+};
+
 export const useEditorStore = create<EditorState>((set, get) => ({
   selectedTool: 'select',
   selectedObjectId: null,
+  documentInfo: infoOf(createDocument()),
   objects: [],
   canvasSize: { width: 800, height: 600 },
   zoom: 1,
@@ -42,94 +106,133 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   showGrid: true,
   showRulers: true,
   snapToGrid: true,
-  history: [],
-  historyIndex: -1,
+  canUndo: false,
+  canRedo: false,
+  checkpoints: [],
 
   setSelectedTool: (tool) => set({ selectedTool: tool }),
-  
+
   setSelectedObjectId: (id) => set({ selectedObjectId: id }),
-  
-  addObject: (object) => {
-    const newObject = {
-      ...object,
-      id: object.id || `object-${Date.now()}-${Math.random()}`,
-      createdAt: new Date()
-    };
-    
-    set((state) => ({
-      objects: [...state.objects, newObject],
-      selectedObjectId: newObject.id
-    }));
-    
-    get().saveState();
+
+  addObject: (node) => {
+    const newNode = { ...node, id: node.id || createNodeId() };
+    const index = get().objects.length;
+
+    recordAndApply('add_object', 'Add object', {
+      patches: [{ op: 'add', path: ['objects', index], value: newNode }],
+      inversePatches: [{ op: 'remove', path: ['objects', index] }]
+    }, { elementIds: [newNode.id], category: 'create' });
+    set({ selectedObjectId: newNode.id });
   },
-  
-  updateObject: (id, updates) => {
-    set((state) => ({
-      objects: state.objects.map(obj =>
-        obj.id === id ? { ...obj, ...updates, updatedAt: new Date() } : obj
-      )
-    }));
-    
-    get().saveState();
+
+  addObjects: (nodes, description = 'Add objects') => {
+    if (nodes.length === 0) return;
+    const start = get().objects.length;
+    const newNodes = nodes.map(node => ({ ...node, id: node.id || createNodeId() }));
+
+    recordAndApply('add_objects', description, {
+      patches: newNodes.map((node, i) => ({ op: 'add', path: ['objects', start + i], value: node })),
+      // Removed from the end so earlier indexes stay valid
+      inversePatches: newNodes.map((_, i) => ({ op: 'remove', path: ['objects', start + newNodes.length - 1 - i] }))
+    }, { elementIds: newNodes.map(node => node.id), category: 'create' });
+    set({ selectedObjectId: null });
   },
-  
+
+  updateObject: (id, updates, options = {}) => {
+    const { objects } = get();
+    const index = objects.findIndex(obj => obj.id === id);
+    if (index === -1) return;
+
+    const before = objects[index];
+    const after = { ...before, ...updates };
+    const coalesceKey = options.coalesceKey === undefined
+      ? `update:${id}:${Object.keys(updates).sort().join(',')}`
+      : options.coalesceKey ?? undefined;
+
+    recordAndApply(
+      'update_object',
+      options.description ?? 'Update object',
+      createPatches(before, after, ['objects', index]),
+      { elementIds: [id], category: 'modify', coalesceKey }
+    );
+  },
+
   deleteObject: (id) => {
-    set((state) => ({
-      objects: state.objects.filter(obj => obj.id !== id),
-      selectedObjectId: state.selectedObjectId === id ? null : state.selectedObjectId
-    }));
-    
-    get().saveState();
+    const { objects } = get();
+    const index = objects.findIndex(obj => obj.id === id);
+    if (index === -1) return;
+
+    recordAndApply('delete_object', 'Delete object', {
+      patches: [{ op: 'remove', path: ['objects', index] }],
+      inversePatches: [{ op: 'add', path: ['objects', index], value: objects[index] }]
+    }, { elementIds: [id], category: 'delete' });
   },
-  
+
   setCanvasSize: (size) => set({ canvasSize: size }),
-  
+
   setZoom: (zoom) => set({ zoom }),
-  
+
   setPan: (x, y) => set({ panX: x, panY: y }),
-  
+
   setShowGrid: (show) => set({ showGrid: show }),
-  
+
   setShowRulers: (show) => set({ showRulers: show }),
-  
+
   setSnapToGrid: (snap) => set({ snapToGrid: snap }),
-  
+
   undo: () => {
-    const { history, historyIndex } = get();
-    if (historyIndex > 0) {
-      const newIndex = historyIndex - 1;
-      const state = history[newIndex];
-      set({
-        objects: state.objects,
-        historyIndex: newIndex
-      });
-    }
+    const state = historyManager.undo();
+    if (state) applyDocumentPatches(state.inversePatches);
   },
-  
+
   redo: () => {
-    const { history, historyIndex } = get();
-    if (historyIndex < history.length - 1) {
-      const newIndex = historyIndex + 1;
-      const state = history[newIndex];
-      set({
-        objects: state.objects,
-        historyIndex: newIndex
-      });
-    }
+    const state = historyManager.redo();
+    if (state) applyDocumentPatches(state.patches);
   },
-  
-  saveState: () => {
-    const { objects, history, historyIndex } = get();
-    const newState = { objects: [...objects] };
-    
-    // Remove any states after current index
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newState);
-    
+
+  createCheckpoint: (name) => {
+    historyManager.createCheckpoint(name);
+    set(historyFlags());
+  },
+
+  restoreCheckpoint: (id) => {
+    const patches = historyManager.restoreCheckpoint(id);
+    if (patches) applyDocumentPatches(patches);
+  },
+
+  removeCheckpoint: (id) => {
+    historyManager.removeCheckpoint(id);
+    set(historyFlags());
+  },
+
+  serializeDocument: () => {
+    const { documentInfo, canvasSize, objects } = get();
+    return {
+      ...createDocument({ ...documentInfo, ...canvasSize, nodes: objects }),
+      history: historyManager.toJSON()
+    };
+  },
+
+  loadDocument: (data) => {
+    const design = migrateDocument(data);
+    const saved = data as Partial<EditorDocument>;
+
+    historyManager.clearHistory();
+    // Older schema versions were rewritten on load, so their history no longer lines up
+    if (saved.history && saved.schemaVersion === design.schemaVersion) {
+      try {
+        historyManager.load(saved.history);
+      } catch (error) {
+        // The document itself is fine; it just starts with an empty history
+        console.error('Failed to restore document history:', error);
+      }
+    }
     set({
-      history: newHistory,
-      historyIndex: newHistory.length - 1
+      documentInfo: infoOf(design),
+      canvasSize: { width: design.width, height: design.height },
+      objects: design.nodes,
+      selectedObjectId: null,
+      ...historyFlags()
     });
   }
 }));
@@ -36,6 +36,20 @@ export interface TextElement {
     originalWidth: number;
   };
   textPath?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  shadowColor?: string;
+  shadowBlur?: number;
+  shadowOffset?: { x: number; y: number };
+  shadowOpacity?: number;
+  fillLinearGradientStartPoint?: { x: number; y: number };
+  fillLinearGradientEndPoint?: { x: number; y: number };
+  fillLinearGradientColorStops?: Array<{ color: string; position: number }>;
+  fillRadialGradientStartPoint?: { x: number; y: number };
+  fillRadialGradientEndPoint?: { x: number; y: number };
+  fillRadialGradientStartRadius?: number;
+  fillRadialGradientEndRadius?: number;
+  fillRadialGradientColorStops?: Array<{ color: string; position: number }>;
   boundaryState: {
     isWithinBounds: boolean;
     violationType: 'x' | 'y' | 'width' | 'height' | null;
@@ -0,0 +1,198 @@
+/**
+ * Canonical BlackGlass document model
+ * The one typed, versioned shape a design is stored, exchanged and exported in.
+ * Editor surfaces keep their own working types and convert at the edges with
+ * the helpers in utils/documentModel.ts
+ */
+
+export const DOCUMENT_SCHEMA_VERSION = 1;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface GradientStop {
+  offset: number; // 0-1
+  color: string;
+  opacity?: number; // 0-1, multiplies the colour's own alpha
+}
+
+export type Paint =
+  | { type: 'solid'; color: string }
+  | { type: 'linear-gradient'; start: Point; end: Point; stops: GradientStop[] }
+  | {
+      type: 'radial-gradient';
+      start: Point;
+      end: Point;
+      startRadius: number;
+      endRadius: number;
+      stops: GradientStop[];
+    };
+
+export interface Stroke {
+  color: string;
+  width: number;
+}
+
+export interface Shadow {
+  color: string;
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+  opacity: number;
+}
+
+// Konva filter settings, named as Konva names them
+export interface ImageFilters {
+  blurRadius?: number;
+  brightness?: number;
+  contrast?: number;
+  hue?: number;
+  saturation?: number;
+  value?: number;
+  sepia?: boolean;
+  invert?: boolean;
+  solarize?: boolean;
+  solarizeThreshold?: number;
+  emboss?: boolean;
+  embossStrength?: number;
+  embossWhiteLevel?: number;
+  embossDirection?: string;
+  embossBlend?: number;
+}
+
+// Canvas globalCompositeOperation names; absent means normal
+export type BlendMode =
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity';
+
+export interface DocumentNodeBase {
+  id: string;
+  name: string;
+  parentId: string | null; // id of the containing group
+  // Position is the top-left of the node's box in document units, before rotation
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number; // degrees, around the top-left corner
+  scaleX: number;
+  scaleY: number;
+  opacity: number;
+  visible: boolean;
+  locked: boolean;
+  blendMode?: BlendMode;
+  shadow?: Shadow;
+  // Surface-specific settings the schema does not model (animation, keyframes, ...).
+  // Carried through conversions untouched
+  extensions?: Record<string, unknown>;
+}
+
+// A character range styled differently from the rest of its text node
+export interface TextStyleRun {
+  start: number; // UTF-16 offsets into text, end exclusive
+  end: number;
+  fontFamily?: string;
+  fontSize?: number;
+  fontWeight?: number;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  letterSpacing?: number;
+  fill?: Paint;
+}
+
+export interface TextNode extends DocumentNodeBase {
+  type: 'text';
+  text: string;
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: number;
+  italic: boolean;
+  underline: boolean;
+  strikethrough: boolean;
+  letterSpacing: number;
+  lineHeight: number;
+  align: 'left' | 'center' | 'right' | 'justify';
+  verticalAlign: 'top' | 'middle' | 'bottom';
+  wrap: 'word' | 'char' | 'none';
+  ellipsis: boolean;
+  padding: number;
+  direction: 'inherit' | 'ltr' | 'rtl';
+  textTransform: 'none' | 'uppercase' | 'lowercase' | 'capitalize';
+  fill: Paint;
+  stroke: Stroke | null;
+  styleRuns?: TextStyleRun[]; // overrides on top of the node-level style, in text order
+}
+
+export interface ImageNode extends DocumentNodeBase {
+  type: 'image';
+  src: string;
+  crop: { x: number; y: number; width: number; height: number } | null; // in source image pixels
+  filters: ImageFilters;
+}
+
+export type ShapeKind = 'rect' | 'ellipse' | 'line' | 'arrow' | 'star' | 'polygon' | 'wedge' | 'ring' | 'arc' | 'path';
+
+export interface ShapeNode extends DocumentNodeBase {
+  type: 'shape';
+  shape: ShapeKind;
+  fill: Paint | null;
+  stroke: Stroke | null;
+  cornerRadius?: number; // rect
+  points?: number[]; // line, arrow: flat [x1, y1, x2, y2, ...] relative to x/y
+  closed?: boolean;
+  tension?: number;
+  pointerLength?: number; // arrow
+  pointerWidth?: number;
+  numPoints?: number; // star
+  sides?: number; // polygon
+  innerRadius?: number; // star, ring, arc
+  outerRadius?: number;
+  angle?: number; // wedge, arc; degrees
+  clockwise?: boolean;
+  pathData?: string; // path: SVG path data
+}
+
+export interface IconNode extends DocumentNodeBase {
+  type: 'icon';
+  svg: string;
+  iconName?: string;
+  iconCategory?: string;
+  fill: Paint | null;
+}
+
+export interface GroupNode extends DocumentNodeBase {
+  type: 'group';
+  childIds: string[];
+  artboard?: boolean; // a top-level design frame; its first child is the background, if it has one
+}
+
+export type DocumentNode = TextNode | ImageNode | ShapeNode | IconNode | GroupNode;
+export type DocumentNodeType = DocumentNode['type'];
+
+export interface DesignDocument {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  background: Paint | null;
+  nodes: DocumentNode[]; // paint order, back to front
+  createdAt: string; // ISO 8601
+  updatedAt: string;
+}
@@ -4,6 +4,8 @@
  */
 
 import Konva from 'konva';
+import { VectorPDFWriter, PDFPageRegion, PDFFontSource } from './VectorPDFWriter';
+import { DesignDocument } from '../types/document';
 
 export interface ExportOptions {
   format: 'png' | 'svg' | 'json' | 'pdf';
@@ -16,6 +18,11 @@ export interface ExportOptions {
   includeGuides: boolean;
   compressionLevel: number; // 0-9 for PNG
   dpi: number; // for PDF
+  pages?: PDFPageRegion[]; // PDF: one page per region (e.g. artboards), defaults to the whole stage
+  bleed?: number; // PDF: bleed around each page, in stage units
+  cropMarks?: boolean; // PDF
+  fonts?: PDFFontSource[]; // PDF: font files to embed, otherwise standard PDF fonts are used
+  document?: DesignDocument; // JSON: write the canonical document instead of Konva's stage tree
   filename?: string;
   metadata?: {
     title?: string;
@@ -148,15 +155,14 @@ export class ExportManager {
     try {
       const opts = { ...this.defaultOptions, ...options, format: 'json' as const };
       
-      // Get stage data
-      const stageData = this.stage.toJSON();
-      
-      // Add metadata and export options
-      const exportData = {
+      const { document, ...exportOptions } = opts;
+
+      // The canonical document loads back into every editor surface; stage data only into Konva
+      const exportData = document ?? {
         version: '1.0.0',
         metadata: opts.metadata,
-        exportOptions: opts,
-        stageData: stageData,
+        exportOptions,
+        stageData: this.stage.toJSON(),
         timestamp: new Date().toISOString()
       };
       
@@ -183,25 +189,15 @@ export class ExportManager {
   }
 
   /**
-   * Export canvas to PDF
+   * Export canvas to a vector PDF (selectable text, native shapes and images)
    */
   async exportPDF(options: Partial<ExportOptions> = {}): Promise<ExportResult> {
     try {
       const opts = { ...this.defaultOptions, ...options, format: 'pdf' as const };
       
-      // First export as PNG with high quality
-      const pngResult = await this.exportPNG({
-        ...opts,
-        pixelRatio: Math.max(opts.pixelRatio, 3), // Higher quality for PDF
-        quality: 1
-      });
-      
-      if (!pngResult.success || !pngResult.data) {
-        throw new Error('Failed to generate PNG for PDF export');
-      }
-      
-      // Convert PNG to PDF using canvas
-      const pdfBlob = await this.pngToPDF(pngResult.data as Blob, opts);
+      const writer = new VectorPDFWriter(this.stage, opts);
+      const pdfBytes = await writer.write();
+      const pdfBlob = new Blob([pdfBytes as BlobPart], { type: 'application/pdf' });
       
       return {
         success: true,
@@ -327,6 +323,10 @@ export class ExportManager {
       errors.push('DPI must be between 72 and 600');
     }
     
+    if (options.bleed !== undefined && options.bleed < 0) {
+      errors.push('Bleed cannot be negative');
+    }
+    
     return errors;
   }
 
@@ -354,53 +354,6 @@ export class ExportManager {
     
     return svgData.replace('<svg', `${metadataComment}\n<svg`);
   }
-
-  private async pngToPDF(pngBlob: Blob, options: ExportOptions): Promise<Blob> {
-    // This is a simplified PDF generation
-    // In a real implementation, you'd use a library like jsPDF
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error('Could not get canvas context');
-    
-    const img = new Image();
-    const imgData = await this.blobToDataURL(pngBlob);
-    
-    return new Promise((resolve, reject) => {
-      img.onload = () => {
-        // Set canvas size based on DPI
-        const dpi = options.dpi || 300;
-        const width = (img.width * dpi) / 96; // Convert from 96 DPI
-        const height = (img.height * dpi) / 96;
-        
-        canvas.width = width;
-        canvas.height = height;
-        
-        // Draw image
-        ctx.drawImage(img, 0, 0, width, height);
-        
-        // Convert to blob (simplified - real PDF would need proper PDF structure)
-        canvas.toBlob((blob) => {
-          if (blob) {
-            resolve(blob);
-          } else {
-            reject(new Error('Failed to create PDF blob'));
-          }
-        }, 'application/pdf');
-      };
-      
-      img.onerror = () => reject(new Error('Failed to load image for PDF'));
-      img.src = imgData;
-    });
-  }
-
-  private async blobToDataURL(blob: Blob): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = () => reject(new Error('Failed to read blob'));
-      reader.readAsDataURL(blob);
-    });
-  }
 }
 
 export default ExportManager;
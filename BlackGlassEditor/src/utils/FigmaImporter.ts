@@ -0,0 +1,555 @@
+/**
+ * Master-level Figma Importer
+ * Converts a Figma file in REST API format (GET /v1/files/:key, ideally with
+ * geometry=paths) into canonical document nodes: top-level frames become
+ * artboards, shapes and vectors become shapes, text keeps its style runs and
+ * image fills are resolved from the images exported alongside the file
+ */
+
+import {
+  BlendMode,
+  DocumentNode,
+  DocumentNodeBase,
+  GroupNode,
+  Paint,
+  Shadow,
+  ShapeNode,
+  Stroke,
+  TextNode,
+  TextStyleRun
+} from '../types/document';
+import { createNode, solidPaint } from './documentModel';
+
+// The subset of the Figma REST API node format the importer reads
+
+interface FigmaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+interface FigmaVector {
+  x: number;
+  y: number;
+}
+
+interface FigmaRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface FigmaPaint {
+  type: 'SOLID' | 'GRADIENT_LINEAR' | 'GRADIENT_RADIAL' | 'GRADIENT_ANGULAR' | 'GRADIENT_DIAMOND' | 'IMAGE' | 'EMOJI' | 'VIDEO';
+  visible?: boolean;
+  opacity?: number;
+  color?: FigmaColor;
+  gradientHandlePositions?: FigmaVector[];
+  gradientStops?: Array<{ position: number; color: FigmaColor }>;
+  imageRef?: string;
+  scaleMode?: 'FILL' | 'FIT' | 'TILE' | 'STRETCH';
+}
+
+interface FigmaEffect {
+  type: 'DROP_SHADOW' | 'INNER_SHADOW' | 'LAYER_BLUR' | 'BACKGROUND_BLUR';
+  visible?: boolean;
+  radius: number;
+  color?: FigmaColor;
+  offset?: FigmaVector;
+}
+
+interface FigmaTypeStyle {
+  fontFamily?: string;
+  fontWeight?: number;
+  fontSize?: number;
+  italic?: boolean;
+  letterSpacing?: number;
+  lineHeightPx?: number;
+  textAlignHorizontal?: 'LEFT' | 'RIGHT' | 'CENTER' | 'JUSTIFIED';
+  textAlignVertical?: 'TOP' | 'CENTER' | 'BOTTOM';
+  textCase?: 'ORIGINAL' | 'UPPER' | 'LOWER' | 'TITLE' | 'SMALL_CAPS' | 'SMALL_CAPS_FORCED';
+  textDecoration?: 'NONE' | 'UNDERLINE' | 'STRIKETHROUGH';
+  textAutoResize?: 'NONE' | 'HEIGHT' | 'WIDTH_AND_HEIGHT' | 'TRUNCATE';
+  fills?: FigmaPaint[];
+}
+
+interface FigmaNode {
+  id: string;
+  name: string;
+  type: string;
+  visible?: boolean;
+  locked?: boolean;
+  opacity?: number;
+  blendMode?: string;
+  isMask?: boolean;
+  children?: FigmaNode[];
+  absoluteBoundingBox?: FigmaRect | null;
+  size?: FigmaVector;
+  relativeTransform?: number[][];
+  fills?: FigmaPaint[];
+  strokes?: FigmaPaint[];
+  strokeWeight?: number;
+  cornerRadius?: number;
+  rectangleCornerRadii?: number[];
+  effects?: FigmaEffect[];
+  fillGeometry?: Array<{ path: string }>;
+  strokeGeometry?: Array<{ path: string }>;
+  arcData?: { startingAngle: number; endingAngle: number; innerRadius: number };
+  layoutMode?: 'NONE' | 'HORIZONTAL' | 'VERTICAL';
+  itemSpacing?: number;
+  paddingLeft?: number;
+  paddingRight?: number;
+  paddingTop?: number;
+  paddingBottom?: number;
+  primaryAxisAlignItems?: string;
+  counterAxisAlignItems?: string;
+  characters?: string;
+  style?: FigmaTypeStyle;
+  characterStyleOverrides?: number[];
+  styleOverrideTable?: Record<string, FigmaTypeStyle>;
+}
+
+export interface FigmaImportWarning {
+  layerName: string;
+  feature: string;
+  detail: string;
+}
+
+export interface FigmaImportResult {
+  name: string;
+  width: number;
+  height: number;
+  nodes: DocumentNode[]; // paint order, each group before its children
+  warnings: FigmaImportWarning[];
+}
+
+type Frame = Pick<DocumentNodeBase, 'x' | 'y' | 'width' | 'height' | 'rotation'>;
+
+// Space left between pages, which are stacked top to bottom
+const PAGE_GAP = 200;
+
+const CONTAINER_TYPES = ['FRAME', 'GROUP', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE', 'SECTION'];
+const PATH_TYPES = ['VECTOR', 'STAR', 'REGULAR_POLYGON', 'BOOLEAN_OPERATION'];
+const SKIPPED_TYPES = ['SLICE', 'STICKY', 'CONNECTOR', 'SHAPE_WITH_TEXT', 'WIDGET', 'EMBED', 'LINK_UNFURL'];
+
+const BLEND_MODES: Record<string, BlendMode | null> = {
+  PASS_THROUGH: null,
+  NORMAL: null,
+  MULTIPLY: 'multiply',
+  SCREEN: 'screen',
+  OVERLAY: 'overlay',
+  DARKEN: 'darken',
+  LIGHTEN: 'lighten',
+  COLOR_DODGE: 'color-dodge',
+  COLOR_BURN: 'color-burn',
+  HARD_LIGHT: 'hard-light',
+  SOFT_LIGHT: 'soft-light',
+  DIFFERENCE: 'difference',
+  EXCLUSION: 'exclusion',
+  HUE: 'hue',
+  SATURATION: 'saturation',
+  COLOR: 'color',
+  LUMINOSITY: 'luminosity'
+};
+
+const ALIGN: Record<string, TextNode['align']> = { LEFT: 'left', RIGHT: 'right', CENTER: 'center', JUSTIFIED: 'justify' };
+const VERTICAL_ALIGN: Record<string, TextNode['verticalAlign']> = { TOP: 'top', CENTER: 'middle', BOTTOM: 'bottom' };
+const TEXT_CASE: Record<string, TextNode['textTransform']> = { UPPER: 'uppercase', LOWER: 'lowercase', TITLE: 'capitalize' };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const channel = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 255);
+
+/**
+ * Figma colours are 0-1 floats; paint opacity multiplies the colour's alpha
+ */
+const colorToCss = (color: FigmaColor, opacity = 1): string => {
+  const alpha = color.a * opacity;
+  if (alpha >= 1) {
+    return `#${[color.r, color.g, color.b].map(c => channel(c).toString(16).padStart(2, '0')).join('')}`;
+  }
+  return `rgba(${channel(color.r)}, ${channel(color.g)}, ${channel(color.b)}, ${Math.round(alpha * 1000) / 1000})`;
+};
+
+const visiblePaints = (paints: FigmaPaint[] | undefined) => (paints ?? []).filter(paint => paint.visible !== false);
+
+class FigmaReader {
+  private nodes: DocumentNode[] = [];
+  private warnings: FigmaImportWarning[] = [];
+  // Shifts Figma's absolute coordinates so the current page starts at the origin
+  private offset = { x: 0, y: 0 };
+
+  constructor(private images: Record<string, string>) {}
+
+  read(data: unknown): FigmaImportResult {
+    if (!isObject(data) || !isObject(data.document) || data.document.type !== 'DOCUMENT' || !Array.isArray(data.document.children)) {
+      throw new Error('Not a Figma file: expected the JSON returned by the Figma REST API (GET /v1/files/:key)');
+    }
+
+    let top = 0;
+    let width = 0;
+    (data.document.children as FigmaNode[]).forEach(page => {
+      const content = (page.children ?? []).filter(child => child.absoluteBoundingBox);
+      if (content.length === 0) return;
+
+      const boxes = content.map(child => child.absoluteBoundingBox as FigmaRect);
+      const left = Math.min(...boxes.map(box => box.x));
+      const pageTop = Math.min(...boxes.map(box => box.y));
+      this.offset = { x: -left, y: top - pageTop };
+      content.forEach(child => this.readNode(child, null, true));
+
+      width = Math.max(width, ...boxes.map(box => box.x + box.width - left));
+      top += Math.max(...boxes.map(box => box.y + box.height - pageTop)) + PAGE_GAP;
+    });
+
+    return {
+      name: typeof data.name === 'string' ? data.name : 'Figma import',
+      width: Math.ceil(width),
+      height: Math.ceil(Math.max(0, top - PAGE_GAP)),
+      nodes: this.nodes,
+      warnings: this.warnings
+    };
+  }
+
+  private warn(node: FigmaNode, feature: string, detail: string) {
+    this.warnings.push({ layerName: node.name || node.type, feature, detail });
+  }
+
+  private readNode(node: FigmaNode, parentId: string | null, topLevel = false) {
+    if (SKIPPED_TYPES.includes(node.type)) {
+      this.warn(node, 'Unsupported layer', `${node.type.toLowerCase().replace(/_/g, ' ')} layers can't be imported`);
+      return;
+    }
+    if (!node.absoluteBoundingBox) return;
+    if (node.isMask) {
+      this.warn(node, 'Mask', 'Imported as a normal layer; the layers above it are not masked');
+    }
+
+    if (CONTAINER_TYPES.includes(node.type)) {
+      this.readContainer(node, parentId, topLevel);
+      return;
+    }
+
+    const frame = this.frameOf(node);
+    const common = { ...frame, ...this.commonProps(node), parentId };
+    const imageFill = this.imageFillOf(node);
+
+    if (node.type === 'TEXT') {
+      this.nodes.push({ ...this.textNode(node), ...common });
+    } else if (imageFill) {
+      this.pushImage(node, imageFill, common);
+    } else if (node.type === 'RECTANGLE' || node.type === 'ELLIPSE' || node.type === 'LINE' || PATH_TYPES.includes(node.type)) {
+      this.nodes.push({ ...this.shapeNode(node, frame), ...common });
+    } else {
+      this.warn(node, 'Unsupported layer', `${node.type} layers can't be imported`);
+    }
+  }
+
+  private readContainer(node: FigmaNode, parentId: string | null, topLevel: boolean) {
+    const artboard = topLevel && node.type !== 'GROUP';
+    const group = createNode('group', {
+      ...this.frameOf(node),
+      ...this.commonProps(node),
+      parentId,
+      ...(artboard ? { artboard: true } : {}),
+      ...(node.layoutMode && node.layoutMode !== 'NONE' ? { extensions: { autoLayout: this.autoLayoutOf(node) } } : {})
+    });
+    const index = this.nodes.length;
+    this.nodes.push(group);
+
+    // Frames paint their own fills behind their children; groups have none
+    if (node.type !== 'GROUP') {
+      const background = { ...this.frameOf(node), name: `${node.name} background`, parentId: group.id, locked: artboard };
+      const imageFill = this.imageFillOf(node);
+      const fill = imageFill ? null : this.fillOf(node);
+      const stroke = this.strokeOf(node);
+      if (imageFill) {
+        this.pushImage(node, imageFill, background);
+      } else if (fill || stroke) {
+        this.nodes.push(createNode('shape', {
+          ...background,
+          shape: 'rect',
+          fill,
+          stroke,
+          cornerRadius: this.cornerRadiusOf(node)
+        }));
+      }
+    }
+
+    (node.children ?? []).forEach(child => this.readNode(child, group.id));
+    const childIds = this.nodes.filter(child => child.parentId === group.id).map(child => child.id);
+    this.nodes[index] = { ...group, childIds } as GroupNode;
+  }
+
+  private autoLayoutOf(node: FigmaNode) {
+    return {
+      direction: node.layoutMode === 'HORIZONTAL' ? 'horizontal' : 'vertical',
+      spacing: node.itemSpacing ?? 0,
+      padding: {
+        top: node.paddingTop ?? 0,
+        right: node.paddingRight ?? 0,
+        bottom: node.paddingBottom ?? 0,
+        left: node.paddingLeft ?? 0
+      },
+      primaryAlign: node.primaryAxisAlignItems ?? 'MIN',
+      counterAlign: node.counterAxisAlignItems ?? 'MIN'
+    };
+  }
+
+  /**
+   * Position, size and rotation in document units. absoluteBoundingBox is axis-aligned,
+   * so rotated nodes are placed from its centre using their unrotated size
+   */
+  private frameOf(node: FigmaNode): Frame {
+    const box = node.absoluteBoundingBox as FigmaRect;
+    const transform = node.relativeTransform;
+    const angle = transform ? Math.atan2(transform[1][0], transform[0][0]) : 0;
+    if (!node.size || Math.abs(angle) < 1e-6) {
+      return { x: box.x + this.offset.x, y: box.y + this.offset.y, width: box.width, height: box.height, rotation: 0 };
+    }
+
+    const { x: width, y: height } = node.size;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const centerX = box.x + box.width / 2 + this.offset.x;
+    const centerY = box.y + box.height / 2 + this.offset.y;
+    return {
+      x: centerX - (cos * width - sin * height) / 2,
+      y: centerY - (sin * width + cos * height) / 2,
+      width,
+      height,
+      rotation: (angle * 180) / Math.PI
+    };
+  }
+
+  private commonProps(node: FigmaNode): Partial<DocumentNodeBase> {
+    const props: Partial<DocumentNodeBase> = {
+      name: node.name,
+      opacity: node.opacity ?? 1,
+      visible: node.visible !== false,
+      locked: !!node.locked
+    };
+
+    if (node.blendMode) {
+      const blendMode = BLEND_MODES[node.blendMode];
+      if (blendMode) {
+        props.blendMode = blendMode;
+      } else if (blendMode === undefined) {
+        this.warn(node, 'Blend mode', `${node.blendMode.toLowerCase().replace(/_/g, ' ')} has no canvas equivalent; using normal`);
+      }
+    }
+
+    const shadow = this.shadowOf(node);
+    if (shadow) props.shadow = shadow;
+    return props;
+  }
+
+  // Drop shadows map onto the node's shadow; other effects are reported
+  private shadowOf(node: FigmaNode): Shadow | undefined {
+    const effects = (node.effects ?? []).filter(effect => effect.visible !== false);
+    const dropShadows = effects.filter(effect => effect.type === 'DROP_SHADOW');
+    if (dropShadows.length > 1) {
+      this.warn(node, 'Drop shadow', 'Only the first of several drop shadows was imported');
+    }
+    effects
+      .filter(effect => effect.type !== 'DROP_SHADOW')
+      .forEach(effect => this.warn(node, 'Effect', `${effect.type.toLowerCase().replace(/_/g, ' ')} was not imported`));
+
+    const shadow = dropShadows[0];
+    if (!shadow) return undefined;
+    const color = shadow.color ?? { r: 0, g: 0, b: 0, a: 0.25 };
+    return {
+      color: colorToCss({ ...color, a: 1 }),
+      blur: shadow.radius,
+      offsetX: shadow.offset?.x ?? 0,
+      offsetY: shadow.offset?.y ?? 0,
+      opacity: color.a
+    };
+  }
+
+  /**
+   * The topmost visible fill; Figma lists fills bottom to top
+   */
+  private topFill(node: FigmaNode, paints: FigmaPaint[] | undefined): FigmaPaint | undefined {
+    const visible = visiblePaints(paints);
+    if (visible.length > 1) {
+      this.warn(node, 'Multiple fills', 'Only the topmost fill was imported');
+    }
+    return visible[visible.length - 1];
+  }
+
+  private imageFillOf(node: FigmaNode): FigmaPaint | undefined {
+    const fill = visiblePaints(node.fills).pop();
+    return fill?.type === 'IMAGE' ? fill : undefined;
+  }
+
+  private fillOf(node: FigmaNode, paints = node.fills): Paint | null {
+    const fill = this.topFill(node, paints);
+    if (!fill || fill.type === 'IMAGE') return null;
+    return this.paintOf(node, fill);
+  }
+
+  private paintOf(node: FigmaNode, fill: FigmaPaint): Paint | null {
+    const opacity = fill.opacity ?? 1;
+    const stops = (fill.gradientStops ?? []).map(stop => ({
+      offset: stop.position,
+      color: colorToCss({ ...stop.color, a: 1 }),
+      opacity: stop.color.a * opacity
+    }));
+    const box = node.size ?? { x: node.absoluteBoundingBox?.width ?? 0, y: node.absoluteBoundingBox?.height ?? 0 };
+    // Handle positions are fractions of the node's box
+    const [start, end] = (fill.gradientHandlePositions ?? []).map(handle => ({ x: handle.x * box.x, y: handle.y * box.y }));
+
+    switch (fill.type) {
+      case 'SOLID':
+        return fill.color ? solidPaint(colorToCss(fill.color, opacity)) : null;
+      case 'GRADIENT_LINEAR':
+        return start && end ? { type: 'linear-gradient', start, end, stops } : null;
+      case 'GRADIENT_RADIAL':
+        return start && end
+          ? { type: 'radial-gradient', start, end: start, startRadius: 0, endRadius: Math.hypot(end.x - start.x, end.y - start.y), stops }
+          : null;
+      default: {
+        this.warn(node, 'Fill', `${fill.type.toLowerCase().replace(/_/g, ' ')} fill was replaced with its first colour`);
+        const first = fill.gradientStops?.[0]?.color;
+        return first ? solidPaint(colorToCss(first, opacity)) : null;
+      }
+    }
+  }
+
+  private strokeOf(node: FigmaNode): Stroke | null {
+    const stroke = visiblePaints(node.strokes).pop();
+    if (!stroke || !node.strokeWeight) return null;
+    if (stroke.type !== 'SOLID' || !stroke.color) {
+      this.warn(node, 'Stroke', `${stroke.type.toLowerCase().replace(/_/g, ' ')} strokes are imported as solid black`);
+      return { color: '#000000', width: node.strokeWeight };
+    }
+    return { color: colorToCss(stroke.color, stroke.opacity), width: node.strokeWeight };
+  }
+
+  private cornerRadiusOf(node: FigmaNode): number {
+    const radii = node.rectangleCornerRadii;
+    if (radii && radii.some(radius => radius !== radii[0])) {
+      this.warn(node, 'Corner radius', 'Mixed corner radii were replaced with the top-left radius');
+      return radii[0];
+    }
+    return node.cornerRadius ?? 0;
+  }
+
+  private pushImage(node: FigmaNode, fill: FigmaPaint, props: Partial<DocumentNodeBase>) {
+    const src = fill.imageRef ? this.images[fill.imageRef] : undefined;
+    if (!src) {
+      this.warn(node, 'Missing image', `Image ${fill.imageRef ?? ''} wasn't in the selected files; a placeholder was used`);
+      this.nodes.push(createNode('shape', { ...props, shape: 'rect', fill: solidPaint('#d1d5db'), stroke: null }));
+      return;
+    }
+    if (fill.scaleMode && fill.scaleMode !== 'FILL' && fill.scaleMode !== 'STRETCH') {
+      this.warn(node, 'Image scaling', `"${fill.scaleMode.toLowerCase()}" scaling was imported as a stretched image`);
+    }
+    this.nodes.push(createNode('image', { ...props, src }));
+  }
+
+  private shapeNode(node: FigmaNode, frame: Frame): ShapeNode {
+    const base = { fill: this.fillOf(node), stroke: this.strokeOf(node) };
+
+    if (node.type === 'RECTANGLE') {
+      return createNode('shape', { ...base, shape: 'rect', cornerRadius: this.cornerRadiusOf(node) });
+    }
+    if (node.type === 'ELLIPSE') {
+      if (node.arcData && (node.arcData.innerRadius > 0 || node.arcData.endingAngle - node.arcData.startingAngle < Math.PI * 2 - 1e-6)) {
+        this.warn(node, 'Arc', 'Partial ellipses and rings were imported as full ellipses');
+      }
+      return createNode('shape', { ...base, shape: 'ellipse' });
+    }
+    if (node.type === 'LINE') {
+      return createNode('shape', { ...base, shape: 'line', fill: null, points: [0, 0, frame.width, 0] });
+    }
+
+    // Vector geometry is only present when the file was fetched with geometry=paths
+    const geometry = [...(node.fillGeometry ?? []), ...(base.fill ? [] : node.strokeGeometry ?? [])];
+    if (geometry.length === 0) {
+      this.warn(node, 'Vector geometry', 'No path data in the file (export with geometry=paths); imported as a rectangle');
+      return createNode('shape', { ...base, shape: 'rect' });
+    }
+    return createNode('shape', {
+      ...base,
+      shape: 'path',
+      pathData: geometry.map(path => path.path).join(' '),
+      // strokeGeometry is the outline of the stroke, so it is filled rather than stroked
+      ...(base.fill ? {} : { fill: base.stroke ? solidPaint(base.stroke.color) : null, stroke: null })
+    });
+  }
+
+  private textNode(node: FigmaNode): TextNode {
+    const style = node.style ?? {};
+    const fontSize = style.fontSize ?? 16;
+    const fill = this.fillOf(node) ?? solidPaint('#000000');
+    if (style.textCase === 'SMALL_CAPS' || style.textCase === 'SMALL_CAPS_FORCED') {
+      this.warn(node, 'Text case', 'Small caps were imported as normal text');
+    }
+
+    return createNode('text', {
+      text: node.characters ?? '',
+      fontFamily: style.fontFamily ?? 'Inter',
+      fontSize,
+      fontWeight: style.fontWeight ?? 400,
+      italic: !!style.italic,
+      underline: style.textDecoration === 'UNDERLINE',
+      strikethrough: style.textDecoration === 'STRIKETHROUGH',
+      letterSpacing: style.letterSpacing ?? 0,
+      lineHeight: style.lineHeightPx ? style.lineHeightPx / fontSize : 1.2,
+      align: ALIGN[style.textAlignHorizontal ?? 'LEFT'] ?? 'left',
+      verticalAlign: VERTICAL_ALIGN[style.textAlignVertical ?? 'TOP'] ?? 'top',
+      textTransform: TEXT_CASE[style.textCase ?? 'ORIGINAL'] ?? 'none',
+      wrap: style.textAutoResize === 'WIDTH_AND_HEIGHT' ? 'none' : 'word',
+      ellipsis: style.textAutoResize === 'TRUNCATE',
+      fill,
+      ...this.styleRunsOf(node)
+    });
+  }
+
+  /**
+   * characterStyleOverrides holds an override id per character (0 or missing means
+   * the node's own style); consecutive characters with the same id form one run
+   */
+  private styleRunsOf(node: FigmaNode): Pick<TextNode, 'styleRuns'> {
+    const overrides = node.characterStyleOverrides ?? [];
+    const table = node.styleOverrideTable ?? {};
+    const runs: TextStyleRun[] = [];
+
+    let start = 0;
+    for (let i = 1; i <= overrides.length; i++) {
+      if (i < overrides.length && overrides[i] === overrides[start]) continue;
+      const override = table[String(overrides[start])];
+      if (overrides[start] && override) {
+        const fill = override.fills ? this.fillOf(node, override.fills) : null;
+        const run: TextStyleRun = {
+          start,
+          end: i,
+          fontFamily: override.fontFamily,
+          fontSize: override.fontSize,
+          fontWeight: override.fontWeight,
+          italic: override.italic,
+          underline: override.textDecoration ? override.textDecoration === 'UNDERLINE' : undefined,
+          strikethrough: override.textDecoration ? override.textDecoration === 'STRIKETHROUGH' : undefined,
+          letterSpacing: override.letterSpacing,
+          fill: fill ?? undefined
+        };
+        runs.push(Object.fromEntries(Object.entries(run).filter(([, value]) => value !== undefined)) as TextStyleRun);
+      }
+      start = i;
+    }
+    return runs.length > 0 ? { styleRuns: runs } : {};
+  }
+}
+
+/**
+ * Convert a parsed Figma REST API file. images maps each image fill's imageRef to a
+ * URL the editor can load; throws if the data isn't a Figma file
+ */
+export function importFigmaFile(data: unknown, images: Record<string, string> = {}): FigmaImportResult {
+  return new FigmaReader(images).read(data);
+}
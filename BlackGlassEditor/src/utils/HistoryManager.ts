@@ -1,108 +1,266 @@
 /**
  * Master-level History Manager for Undo/Redo System
- * Provides comprehensive history tracking with memory optimization
+ * Records each operation as a pair of patch lists (forward and inverse) instead of
+ * snapshots, so an entry only costs as much as the values it actually changed
  */
 
-export interface HistoryState {
+export type PatchPath = (string | number)[];
+
+export interface Patch {
+  op: 'add' | 'remove' | 'replace';
+  path: PatchPath;
+  value?: any;
+}
+
+export interface PatchSet {
+  patches: Patch[];
+  inversePatches: Patch[];
+}
+
+export interface HistoryState extends PatchSet {
   id: string;
-  timestamp: number;
+  timestamp: number; // when the entry was first recorded
+  updatedAt: number; // when the entry last absorbed a coalesced operation
   action: string;
   description: string;
-  data: any;
   elementIds: string[];
   category: 'create' | 'modify' | 'delete' | 'transform' | 'group' | 'ungroup' | 'layer' | 'style' | 'animation';
+  coalesceKey?: string;
   isUndoable: boolean;
   isRedoable: boolean;
-  memorySize: number; // estimated memory usage in bytes
+  memorySize: number; // estimated size of both patch lists in bytes
+}
+
+export interface HistoryCheckpoint {
+  id: string;
+  name: string;
+  timestamp: number;
+  stateId: string | null; // entry the checkpoint sits after; null is the start of history
 }
 
 export interface HistoryConfig {
   maxHistorySize: number; // maximum number of history states
   maxMemoryUsage: number; // maximum memory usage in MB
-  compressionEnabled: boolean;
-  compressionThreshold: number; // compress states larger than this (in bytes)
-  autoSave: boolean;
-  autoSaveInterval: number; // in milliseconds
-  groupSimilarActions: boolean;
-  groupTimeWindow: number; // group actions within this time window (in milliseconds)
+  groupSimilarActions: boolean; // merge operations that share a coalesce key
+  groupTimeWindow: number; // merge them while they arrive within this window (in milliseconds)
 }
 
+export interface RecordOptions {
+  elementIds?: string[];
+  category?: HistoryState['category'];
+  coalesceKey?: string; // operations with the same key in quick succession become one entry
+}
+
+export interface SerializedHistory {
+  version: number;
+  history: HistoryState[];
+  currentIndex: number;
+  checkpoints: HistoryCheckpoint[];
+}
+
+export const HISTORY_FORMAT_VERSION = 2;
+
+const createId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const isPlainObject = (value: unknown): value is Record<string, any> => {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+const isSameValue = (a: unknown, b: unknown): boolean =>
+  a === b || (a instanceof Date && b instanceof Date && a.getTime() === b.getTime());
+
+const diffInto = (before: any, after: any, path: PatchPath, out: PatchSet): void => {
+  if (isSameValue(before, after)) return;
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const common = Math.min(before.length, after.length);
+    for (let i = 0; i < common; i++) {
+      diffInto(before[i], after[i], [...path, i], out);
+    }
+    for (let i = common; i < after.length; i++) {
+      out.patches.push({ op: 'add', path: [...path, i], value: after[i] });
+      out.inversePatches.unshift({ op: 'remove', path: [...path, i] });
+    }
+    for (let i = before.length - 1; i >= common; i--) {
+      out.patches.push({ op: 'remove', path: [...path, i] });
+      out.inversePatches.unshift({ op: 'add', path: [...path, i], value: before[i] });
+    }
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    Object.keys(before).forEach(key => {
+      if (!(key in after)) {
+        out.patches.push({ op: 'remove', path: [...path, key] });
+        out.inversePatches.unshift({ op: 'add', path: [...path, key], value: before[key] });
+      } else {
+        diffInto(before[key], after[key], [...path, key], out);
+      }
+    });
+    Object.keys(after).forEach(key => {
+      if (!(key in before)) {
+        out.patches.push({ op: 'add', path: [...path, key], value: after[key] });
+        out.inversePatches.unshift({ op: 'remove', path: [...path, key] });
+      }
+    });
+    return;
+  }
+
+  out.patches.push({ op: 'replace', path, value: after });
+  out.inversePatches.unshift({ op: 'replace', path, value: before });
+};
+
+/**
+ * Diff two values into the patches that turn `before` into `after` and back.
+ * Arrays are compared by index, so prefer recording explicit patches for inserts
+ * and removals in the middle of large lists.
+ */
+export function createPatches(before: any, after: any, basePath: PatchPath = []): PatchSet {
+  const result: PatchSet = { patches: [], inversePatches: [] };
+  diffInto(before, after, basePath, result);
+  return result;
+}
+
+const applyPatch = (node: any, patch: Patch, depth: number): any => {
+  if (depth === patch.path.length) {
+    return patch.op === 'remove' ? undefined : patch.value;
+  }
+  if (typeof node !== 'object' || node === null) {
+    throw new Error(`History patch path "${patch.path.join('/')}" does not exist`);
+  }
+
+  const key = patch.path[depth];
+  const copy: any = Array.isArray(node) ? [...node] : { ...node };
+
+  if (depth < patch.path.length - 1) {
+    copy[key] = applyPatch(node[key], patch, depth + 1);
+  } else if (Array.isArray(copy) && typeof key === 'number') {
+    if (patch.op === 'add') copy.splice(key, 0, patch.value);
+    else if (patch.op === 'remove') copy.splice(key, 1);
+    else copy[key] = patch.value;
+  } else if (patch.op === 'remove') {
+    delete copy[key];
+  } else {
+    copy[key] = patch.value;
+  }
+  return copy;
+};
+
+/**
+ * Apply patches without mutating `target`. Only the containers along each patch
+ * path are copied; everything else is shared with the original.
+ */
+export function applyPatches<T>(target: T, patches: Patch[]): T {
+  return patches.reduce((root, patch) => applyPatch(root, patch, 0), target);
+}
+
+const estimateSize = (value: unknown): number => {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === 'string') return value.length * 2;
+  if (typeof value === 'boolean') return 4;
+  if (typeof value !== 'object') return 8;
+  if (value instanceof Date) return 8;
+  if (Array.isArray(value)) return value.reduce((sum, item) => sum + estimateSize(item), 16);
+  return Object.keys(value).reduce(
+    (sum, key) => sum + key.length * 2 + estimateSize((value as Record<string, unknown>)[key]),
+    16
+  );
+};
+
+const estimatePatchSize = (patches: Patch[]): number =>
+  patches.reduce((sum, patch) => sum + 24 + estimateSize(patch.path) + estimateSize(patch.value), 0);
+
+/**
+ * Fold replace-only patches into earlier patches that already touch the same
+ * paths, so a stream of updates keeps one patch per path. Returns null when the
+ * later patches reach anything the earlier ones didn't
+ */
+const foldReplacements = (earlier: Patch[], later: Patch[]): Patch[] | null => {
+  if (later.some(patch => patch.op !== 'replace') || earlier.some(patch => patch.op === 'remove')) return null;
+
+  const laterByPath = new Map(later.map(patch => [patch.path.join('/'), patch]));
+  const earlierPaths = new Set(earlier.map(patch => patch.path.join('/')));
+  if (earlierPaths.size !== earlier.length || laterByPath.size !== later.length) return null;
+  if (Array.from(laterByPath.keys()).some(path => !earlierPaths.has(path))) return null;
+
+  return earlier.map(patch => {
+    const next = laterByPath.get(patch.path.join('/'));
+    return next ? { ...patch, value: next.value } : patch;
+  });
+};
+
 export class HistoryManager {
   private history: HistoryState[] = [];
   private currentIndex: number = -1;
+  private checkpoints: HistoryCheckpoint[] = [];
   private config: HistoryConfig;
   private isGrouping: boolean = false;
   private currentGroup: HistoryState[] = [];
   private groupStartTime: number = 0;
-  private autoSaveTimer: number | null = null;
   private memoryUsage: number = 0;
 
   constructor(config: Partial<HistoryConfig> = {}) {
     this.config = {
       maxHistorySize: 100,
       maxMemoryUsage: 50, // 50MB
-      compressionEnabled: true,
-      compressionThreshold: 1024, // 1KB
-      autoSave: false,
-      autoSaveInterval: 30000, // 30 seconds
       groupSimilarActions: true,
       groupTimeWindow: 1000, // 1 second
       ...config
     };
-
-    if (this.config.autoSave) {
-      this.startAutoSave();
-    }
   }
 
   /**
-   * Add a new state to history
+   * Record an operation. Returns the entry it ended up in, which is an existing
+   * entry when the operation was coalesced, or null if there was nothing to record
    */
   addState(
     action: string,
     description: string,
-    data: any,
-    elementIds: string[] = [],
-    category: HistoryState['category'] = 'modify'
-  ): void {
+    { patches, inversePatches }: PatchSet,
+    options: RecordOptions = {}
+  ): HistoryState | null {
+    if (patches.length === 0) return null;
+
+    const now = Date.now();
     const state: HistoryState = {
-      id: `state-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      timestamp: Date.now(),
+      id: createId('state'),
+      timestamp: now,
+      updatedAt: now,
       action,
       description,
-      data: this.config.compressionEnabled ? this.compressData(data) : data,
-      elementIds,
-      category,
+      patches,
+      inversePatches,
+      elementIds: options.elementIds ?? [],
+      category: options.category ?? 'modify',
+      coalesceKey: options.coalesceKey,
       isUndoable: true,
       isRedoable: false,
-      memorySize: this.estimateMemoryUsage(data)
+      memorySize: estimatePatchSize(patches) + estimatePatchSize(inversePatches)
     };
 
-    // Check if we should group this action
-    if (this.config.groupSimilarActions && this.shouldGroupAction(state)) {
-      this.addToGroup(state);
-      return;
+    if (this.isGrouping) {
+      this.currentGroup.push(state);
+      return state;
     }
 
     // Clear redo history if we're not at the end
-    if (this.currentIndex < this.history.length - 1) {
-      this.history = this.history.slice(0, this.currentIndex + 1);
-    }
-
-    // Add new state
-    this.history.push(state);
-    this.currentIndex = this.history.length - 1;
-    this.memoryUsage += state.memorySize;
+    this.discardRedo();
 
-    // Cleanup if necessary
-    this.cleanupHistory();
+    const previous = this.history[this.currentIndex];
+    if (previous && this.shouldCoalesce(previous, state)) {
+      this.coalesce(previous, state);
+      this.cleanupHistory();
+      return previous;
+    }
 
-    // Update redoable flags
-    this.updateRedoableFlags();
+    this.push(state);
+    return state;
   }
 
   /**
-   * Undo the last action
+   * Step back one entry. Apply the returned entry's `inversePatches` to the document
    */
   undo(): HistoryState | null {
     if (!this.canUndo()) return null;
@@ -110,12 +268,12 @@ export class HistoryManager {
     const state = this.history[this.currentIndex];
     this.currentIndex--;
     this.updateRedoableFlags();
-    
+
     return state;
   }
 
   /**
-   * Redo the next action
+   * Step forward one entry. Apply the returned entry's `patches` to the document
    */
   redo(): HistoryState | null {
     if (!this.canRedo()) return null;
@@ -123,10 +281,32 @@ export class HistoryManager {
     this.currentIndex++;
     const state = this.history[this.currentIndex];
     this.updateRedoableFlags();
-    
+
     return state;
   }
 
+  /**
+   * Move to the point just after the given entry (null for the start of history)
+   * and return the patches that take the document there, in order
+   */
+  jumpTo(stateId: string | null): Patch[] | null {
+    const target = stateId === null ? -1 : this.history.findIndex(state => state.id === stateId);
+    if (stateId !== null && target === -1) return null;
+
+    const patches: Patch[] = [];
+    while (this.currentIndex > target) {
+      patches.push(...this.history[this.currentIndex].inversePatches);
+      this.currentIndex--;
+    }
+    while (this.currentIndex < target) {
+      this.currentIndex++;
+      patches.push(...this.history[this.currentIndex].patches);
+    }
+    this.updateRedoableFlags();
+
+    return patches;
+  }
+
   /**
    * Check if undo is possible
    */
@@ -162,7 +342,7 @@ export class HistoryManager {
    * Get history states for specific elements
    */
   getElementHistory(elementIds: string[]): HistoryState[] {
-    return this.history.filter(state => 
+    return this.history.filter(state =>
       state.elementIds.some(id => elementIds.includes(id))
     );
   }
@@ -174,27 +354,53 @@ export class HistoryManager {
     return this.history.filter(state => state.category === category);
   }
 
+  /**
+   * Name the current position so it can be returned to later
+   */
+  createCheckpoint(name: string): HistoryCheckpoint {
+    const checkpoint: HistoryCheckpoint = {
+      id: createId('checkpoint'),
+      name,
+      timestamp: Date.now(),
+      stateId: this.getCurrentState()?.id ?? null
+    };
+    this.checkpoints.push(checkpoint);
+    return checkpoint;
+  }
+
+  /**
+   * Get all checkpoints, oldest first
+   */
+  getCheckpoints(): HistoryCheckpoint[] {
+    return [...this.checkpoints];
+  }
+
+  /**
+   * Move to a checkpoint and return the patches that take the document there
+   */
+  restoreCheckpoint(checkpointId: string): Patch[] | null {
+    const checkpoint = this.checkpoints.find(c => c.id === checkpointId);
+    return checkpoint ? this.jumpTo(checkpoint.stateId) : null;
+  }
+
+  /**
+   * Delete a checkpoint. The history itself is untouched
+   */
+  removeCheckpoint(checkpointId: string): void {
+    this.checkpoints = this.checkpoints.filter(c => c.id !== checkpointId);
+  }
+
   /**
    * Clear all history
    */
   clearHistory(): void {
     this.history = [];
     this.currentIndex = -1;
+    this.checkpoints = [];
     this.memoryUsage = 0;
     this.updateRedoableFlags();
   }
 
-  /**
-   * Clear history for specific elements
-   */
-  clearElementHistory(elementIds: string[]): void {
-    this.history = this.history.filter(state => 
-      !state.elementIds.some(id => elementIds.includes(id))
-    );
-    this.currentIndex = Math.min(this.currentIndex, this.history.length - 1);
-    this.updateRedoableFlags();
-  }
-
   /**
    * Get history statistics
    */
@@ -203,6 +409,7 @@ export class HistoryManager {
     memoryUsage: number;
     undoableStates: number;
     redoableStates: number;
+    checkpoints: number;
     categories: Record<string, number>;
     averageStateSize: number;
   } {
@@ -216,24 +423,61 @@ export class HistoryManager {
       memoryUsage: this.memoryUsage,
       undoableStates: this.history.filter(state => state.isUndoable).length,
       redoableStates: this.history.filter(state => state.isRedoable).length,
+      checkpoints: this.checkpoints.length,
       categories,
       averageStateSize: this.history.length > 0 ? this.memoryUsage / this.history.length : 0
     };
   }
 
   /**
-   * Export history data
+   * Serializable snapshot of the history, to be saved next to the document it
+   * was recorded against
    */
-  exportHistory(): string {
-    const exportData = {
+  toJSON(): SerializedHistory {
+    return {
+      version: HISTORY_FORMAT_VERSION,
       history: this.history,
       currentIndex: this.currentIndex,
-      config: this.config,
-      exportedAt: new Date().toISOString(),
-      version: '1.0.0'
+      checkpoints: this.checkpoints
     };
+  }
+
+  /**
+   * Replace the history with a saved one. The document must be in the state it
+   * was saved in, or the patches will not line up
+   */
+  load(data: SerializedHistory): void {
+    if (!data || data.version !== HISTORY_FORMAT_VERSION) {
+      throw new Error(`Unsupported history format version: ${data?.version}`);
+    }
+    if (!Array.isArray(data.history) || !Array.isArray(data.checkpoints)) {
+      throw new Error('History data is missing its entries or checkpoints');
+    }
+    if (!Number.isInteger(data.currentIndex) || data.currentIndex < -1 || data.currentIndex >= data.history.length) {
+      throw new Error(`History position ${data.currentIndex} is out of range`);
+    }
+    data.history.forEach((state, index) => {
+      if (!state || !Array.isArray(state.patches) || !Array.isArray(state.inversePatches)) {
+        throw new Error(`History entry ${index} has no patches`);
+      }
+    });
 
-    return JSON.stringify(exportData, null, 2);
+    const ids = new Set(data.history.map(state => state.id));
+    this.history = data.history.map(state => ({
+      ...state,
+      memorySize: estimatePatchSize(state.patches) + estimatePatchSize(state.inversePatches)
+    }));
+    this.currentIndex = data.currentIndex;
+    this.checkpoints = data.checkpoints.filter(c => c.stateId === null || ids.has(c.stateId));
+    this.memoryUsage = this.history.reduce((sum, state) => sum + state.memorySize, 0);
+    this.updateRedoableFlags();
+  }
+
+  /**
+   * Export history data
+   */
+  exportHistory(): string {
+    return JSON.stringify({ ...this.toJSON(), exportedAt: new Date().toISOString() }, null, 2);
   }
 
   /**
@@ -241,10 +485,7 @@ export class HistoryManager {
    */
   importHistory(data: string): void {
     try {
-      const importData = JSON.parse(data);
-      this.history = importData.history || [];
-      this.currentIndex = importData.currentIndex || -1;
-      this.updateRedoableFlags();
+      this.load(JSON.parse(data));
     } catch (error) {
       console.error('Failed to import history:', error);
     }
@@ -262,39 +503,35 @@ export class HistoryManager {
   /**
    * End grouping actions
    */
-  endGrouping(): void {
+  endGrouping(description?: string): void {
     if (!this.isGrouping || this.currentGroup.length === 0) {
       this.isGrouping = false;
       return;
     }
 
-    // Create a grouped state
+    const group = this.currentGroup;
     const groupedState: HistoryState = {
-      id: `group-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: createId('group'),
       timestamp: this.groupStartTime,
+      updatedAt: Date.now(),
       action: 'group',
-      description: `${this.currentGroup.length} actions grouped`,
-      data: this.currentGroup.map(state => state.data),
-      elementIds: Array.from(new Set(this.currentGroup.flatMap(state => state.elementIds))),
+      description: description ?? `${group.length} actions grouped`,
+      patches: group.flatMap(state => state.patches),
+      inversePatches: [...group].reverse().flatMap(state => state.inversePatches),
+      elementIds: Array.from(new Set(group.flatMap(state => state.elementIds))),
       category: 'group',
       isUndoable: true,
       isRedoable: false,
-      memorySize: this.currentGroup.reduce((sum, state) => sum + state.memorySize, 0)
+      memorySize: group.reduce((sum, state) => sum + state.memorySize, 0)
     };
 
-    // Add grouped state
-    this.history.push(groupedState);
-    this.currentIndex = this.history.length - 1;
-    this.memoryUsage += groupedState.memorySize;
-
     // Reset grouping
     this.isGrouping = false;
     this.currentGroup = [];
     this.groupStartTime = 0;
 
-    // Cleanup and update
-    this.cleanupHistory();
-    this.updateRedoableFlags();
+    this.discardRedo();
+    this.push(groupedState);
   }
 
   /**
@@ -313,65 +550,74 @@ export class HistoryManager {
 
   // Private methods
 
-  private shouldGroupAction(state: HistoryState): boolean {
-    if (!this.isGrouping) return false;
-    
-    const timeDiff = state.timestamp - this.groupStartTime;
-    return timeDiff < this.config.groupTimeWindow;
+  private push(state: HistoryState): void {
+    this.history.push(state);
+    this.currentIndex = this.history.length - 1;
+    this.memoryUsage += state.memorySize;
+
+    this.cleanupHistory();
+    this.updateRedoableFlags();
   }
 
-  private addToGroup(state: HistoryState): void {
-    this.currentGroup.push(state);
+  private shouldCoalesce(previous: HistoryState, state: HistoryState): boolean {
+    if (!this.config.groupSimilarActions || !state.coalesceKey) return false;
+    if (previous.coalesceKey !== state.coalesceKey) return false;
+    if (state.timestamp - previous.updatedAt > this.config.groupTimeWindow) return false;
+
+    // A checkpoint on the previous entry pins the document as it was then
+    return !this.checkpoints.some(c => c.stateId === previous.id);
   }
 
-  private compressData(data: any): any {
-    if (this.config.compressionEnabled && this.estimateMemoryUsage(data) > this.config.compressionThreshold) {
-      // Simple compression - in a real implementation, you'd use a proper compression library
-      return {
-        compressed: true,
-        data: JSON.stringify(data)
-      };
+  private coalesce(previous: HistoryState, state: HistoryState): void {
+    this.memoryUsage -= previous.memorySize;
+
+    const folded = foldReplacements(previous.patches, state.patches);
+    if (folded) {
+      // The usual drag or slider stream: keep the latest values and the original inverse
+      previous.patches = folded;
+    } else {
+      previous.patches = [...previous.patches, ...state.patches];
+      previous.inversePatches = [...state.inversePatches, ...previous.inversePatches];
     }
-    return data;
+    previous.updatedAt = state.timestamp;
+    previous.description = state.description;
+    previous.elementIds = Array.from(new Set([...previous.elementIds, ...state.elementIds]));
+    previous.memorySize = estimatePatchSize(previous.patches) + estimatePatchSize(previous.inversePatches);
+
+    this.memoryUsage += previous.memorySize;
   }
 
-  private decompressData(data: any): any {
-    if (data && typeof data === 'object' && data.compressed) {
-      try {
-        return JSON.parse(data.data);
-      } catch (error) {
-        console.error('Failed to decompress data:', error);
-        return data;
-      }
-    }
-    return data;
+  private discardRedo(): void {
+    if (this.currentIndex >= this.history.length - 1) return;
+
+    const removed = this.history.splice(this.currentIndex + 1);
+    const removedIds = new Set(removed.map(state => state.id));
+    this.memoryUsage -= removed.reduce((sum, state) => sum + state.memorySize, 0);
+    this.checkpoints = this.checkpoints.filter(c => c.stateId === null || !removedIds.has(c.stateId));
   }
 
-  private estimateMemoryUsage(data: any): number {
-    try {
-      return new Blob([JSON.stringify(data)]).size;
-    } catch (error) {
-      return 1024; // fallback estimate
-    }
+  private dropOldest(): void {
+    const removedState = this.history.shift();
+    if (!removedState) return;
+
+    this.memoryUsage -= removedState.memorySize;
+    this.currentIndex--;
+
+    // The start of history can no longer be reached, and the dropped entry's
+    // resulting state is the new start
+    this.checkpoints = this.checkpoints
+      .filter(c => c.stateId !== null)
+      .map(c => (c.stateId === removedState.id ? { ...c, stateId: null } : c));
   }
 
   private cleanupHistory(): void {
-    // Remove old states if we exceed max history size
-    while (this.history.length > this.config.maxHistorySize) {
-      const removedState = this.history.shift();
-      if (removedState) {
-        this.memoryUsage -= removedState.memorySize;
-        this.currentIndex--;
-      }
+    // Never drop the entry the document is currently at
+    while (this.history.length > this.config.maxHistorySize && this.currentIndex > 0) {
+      this.dropOldest();
     }
 
-    // Remove states if memory usage is too high
-    while (this.getMemoryUsage() > this.config.maxMemoryUsage && this.history.length > 1) {
-      const removedState = this.history.shift();
-      if (removedState) {
-        this.memoryUsage -= removedState.memorySize;
-        this.currentIndex--;
-      }
+    while (this.getMemoryUsage() > this.config.maxMemoryUsage && this.history.length > 1 && this.currentIndex > 0) {
+      this.dropOldest();
     }
   }
 
@@ -382,25 +628,10 @@ export class HistoryManager {
     });
   }
 
-  private startAutoSave(): void {
-    this.autoSaveTimer = window.setInterval(() => {
-      // Auto-save logic would go here
-      console.log('Auto-saving history...');
-    }, this.config.autoSaveInterval);
-  }
-
-  private stopAutoSave(): void {
-    if (this.autoSaveTimer) {
-      clearInterval(this.autoSaveTimer);
-      this.autoSaveTimer = null;
-    }
-  }
-
   /**
    * Cleanup resources
    */
   cleanup(): void {
-    this.stopAutoSave();
     this.clearHistory();
   }
 }
@@ -0,0 +1,328 @@
+/**
+ * Master-level PSD Importer
+ * Reads Photoshop PSD and PSB files into canonical document nodes: pixel layers
+ * become images, text layers become editable text and layer groups become groups.
+ * Anything the editor can't represent is reported back rather than silently dropped
+ */
+
+import { readPsd } from 'ag-psd';
+import type {
+  BlendMode as PSDBlendMode,
+  Color,
+  Layer,
+  LayerEffectsInfo,
+  LayerTextData,
+  TextStyle
+} from 'ag-psd';
+import { BlendMode, DocumentNode, DocumentNodeBase, GroupNode, Shadow, TextNode } from '../types/document';
+import { createNode, solidPaint } from './documentModel';
+
+export interface PSDImportWarning {
+  layerName: string;
+  feature: string;
+  detail: string;
+}
+
+export interface PSDImportResult {
+  width: number;
+  height: number;
+  nodes: DocumentNode[]; // paint order, each group before its children
+  warnings: PSDImportWarning[];
+}
+
+type Bounds = Pick<DocumentNodeBase, 'x' | 'y' | 'width' | 'height'>;
+
+const BLEND_MODES: Partial<Record<PSDBlendMode, BlendMode | null>> = {
+  'pass through': null,
+  normal: null,
+  multiply: 'multiply',
+  screen: 'screen',
+  overlay: 'overlay',
+  darken: 'darken',
+  lighten: 'lighten',
+  'color dodge': 'color-dodge',
+  'color burn': 'color-burn',
+  'hard light': 'hard-light',
+  'soft light': 'soft-light',
+  difference: 'difference',
+  exclusion: 'exclusion',
+  hue: 'hue',
+  saturation: 'saturation',
+  color: 'color',
+  luminosity: 'luminosity'
+};
+
+const FONT_WEIGHTS: Array<[RegExp, number]> = [
+  [/thin|hairline/i, 100],
+  [/extra-?light|ultra-?light/i, 200],
+  [/semi-?bold|demi-?bold/i, 600],
+  [/extra-?bold|ultra-?bold|heavy/i, 800],
+  [/black/i, 900],
+  [/light/i, 300],
+  [/medium/i, 500],
+  [/bold/i, 700]
+];
+
+const JUSTIFICATION: Record<string, TextNode['align']> = {
+  left: 'left',
+  right: 'right',
+  center: 'center',
+  'justify-left': 'justify',
+  'justify-right': 'justify',
+  'justify-center': 'justify',
+  'justify-all': 'justify'
+};
+
+const EFFECT_NAMES: Record<Exclude<keyof LayerEffectsInfo, 'disabled' | 'scale' | 'dropShadow'>, string> = {
+  innerShadow: 'Inner shadow',
+  outerGlow: 'Outer glow',
+  innerGlow: 'Inner glow',
+  bevel: 'Bevel and emboss',
+  solidFill: 'Color overlay',
+  satin: 'Satin',
+  stroke: 'Stroke',
+  gradientOverlay: 'Gradient overlay',
+  patternOverlay: 'Pattern overlay'
+};
+
+const toHex = (value: number) => Math.round(Math.min(255, Math.max(0, value))).toString(16).padStart(2, '0');
+
+/**
+ * Convert a Photoshop colour to #rrggbb; HSB, CMYK and Lab colours aren't converted
+ */
+const colorToHex = (color: Color | undefined): string | null => {
+  if (!color) return null;
+  if ('r' in color) return `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`;
+  if ('fr' in color) return `#${toHex(color.fr * 255)}${toHex(color.fg * 255)}${toHex(color.fb * 255)}`;
+  if ('k' in color && !('c' in color)) return `#${toHex(color.k)}${toHex(color.k)}${toHex(color.k)}`;
+  return null;
+};
+
+const isEnabled = (effect: { enabled?: boolean } | Array<{ enabled?: boolean }> | undefined) =>
+  Array.isArray(effect) ? effect.some(item => item.enabled !== false) : !!effect && effect.enabled !== false;
+
+/**
+ * Split a PostScript font name such as "OpenSans-SemiBoldItalic" into family, weight and style
+ */
+const parseFontName = (postScriptName: string) => {
+  const [familyPart, stylePart = ''] = postScriptName.split('-');
+  const family = familyPart
+    .replace(/(PSMT|MT|PS)$/, '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2');
+  const weight = FONT_WEIGHTS.find(([pattern]) => pattern.test(stylePart))?.[1] ?? 400;
+  return { family, weight, italic: /italic|oblique/i.test(stylePart) };
+};
+
+class PSDReader {
+  private nodes: DocumentNode[] = [];
+  private warnings: PSDImportWarning[] = [];
+
+  read(buffer: ArrayBuffer): PSDImportResult {
+    let psd;
+    try {
+      psd = readPsd(buffer, { skipThumbnail: true, skipCompositeImageData: true, skipLinkedFilesData: true });
+    } catch (error) {
+      throw new Error(`Could not read Photoshop file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    (psd.children ?? []).forEach(layer => this.readLayer(layer, null));
+    return { width: psd.width, height: psd.height, nodes: this.nodes, warnings: this.warnings };
+  }
+
+  private warn(layer: Layer, feature: string, detail: string) {
+    this.warnings.push({ layerName: layer.name || 'Untitled layer', feature, detail });
+  }
+
+  // Returns the bounds of what was imported so parent groups can size themselves
+  private readLayer(layer: Layer, parentId: string | null): Bounds | null {
+    if (layer.adjustment) {
+      this.warn(layer, 'Adjustment layer', `${layer.adjustment.type} adjustment was skipped`);
+      return null;
+    }
+    if (layer.children) return this.readGroup(layer, parentId);
+
+    const bounds = this.boundsOf(layer);
+    if (!bounds) return null;
+
+    const node = layer.text ? this.textNode(layer, layer.text, bounds) : this.imageNode(layer, bounds);
+    if (!node) return null;
+
+    this.nodes.push({ ...node, ...this.commonProps(layer), parentId });
+    this.reportUnsupported(layer);
+    return bounds;
+  }
+
+  private readGroup(layer: Layer, parentId: string | null): Bounds | null {
+    const group = createNode('group', { name: layer.name || 'Group', parentId });
+    const index = this.nodes.length;
+    this.nodes.push(group);
+
+    const childBounds = (layer.children ?? [])
+      .map(child => this.readLayer(child, group.id))
+      .filter((bounds): bounds is Bounds => bounds !== null);
+    if (childBounds.length === 0) {
+      this.nodes.splice(index, 1);
+      return null;
+    }
+
+    const left = Math.min(...childBounds.map(b => b.x));
+    const top = Math.min(...childBounds.map(b => b.y));
+    const right = Math.max(...childBounds.map(b => b.x + b.width));
+    const bottom = Math.max(...childBounds.map(b => b.y + b.height));
+    const bounds = { x: left, y: top, width: right - left, height: bottom - top };
+
+    const childIds = this.nodes.filter(node => node.parentId === group.id).map(node => node.id);
+    this.nodes[index] = { ...group, ...bounds, ...this.commonProps(layer), childIds } as GroupNode;
+    this.reportUnsupported(layer);
+    return bounds;
+  }
+
+  private boundsOf(layer: Layer): Bounds | null {
+    const x = layer.left ?? 0;
+    const y = layer.top ?? 0;
+    const width = (layer.right ?? x) - x;
+    const height = (layer.bottom ?? y) - y;
+    // Empty layers have no pixels to import
+    return width > 0 && height > 0 ? { x, y, width, height } : null;
+  }
+
+  private commonProps(layer: Layer): Partial<DocumentNodeBase> {
+    const props: Partial<DocumentNodeBase> = {
+      name: layer.name || 'Layer',
+      opacity: (layer.opacity ?? 1) * (layer.children ? 1 : layer.fillOpacity ?? 1),
+      visible: !layer.hidden
+    };
+
+    if (layer.blendMode) {
+      const blendMode = BLEND_MODES[layer.blendMode];
+      if (blendMode) {
+        props.blendMode = blendMode;
+      } else if (blendMode === undefined) {
+        this.warn(layer, 'Blend mode', `"${layer.blendMode}" has no canvas equivalent; using normal`);
+      }
+    }
+
+    const shadow = this.dropShadowOf(layer);
+    if (shadow) props.shadow = shadow;
+    return props;
+  }
+
+  private dropShadowOf(layer: Layer): Shadow | undefined {
+    if (!layer.effects || layer.effects.disabled) return undefined;
+    const dropShadows = (layer.effects.dropShadow ?? []).filter(effect => effect.enabled !== false);
+    if (dropShadows.length > 1) {
+      this.warn(layer, 'Drop shadow', 'Only the first of several drop shadows was imported');
+    }
+
+    const effect = dropShadows[0];
+    if (!effect) return undefined;
+    // Photoshop's angle points at the light, so the shadow falls the other way
+    const angle = ((effect.angle ?? 120) * Math.PI) / 180;
+    const distance = effect.distance?.value ?? 0;
+    return {
+      color: colorToHex(effect.color) ?? '#000000',
+      blur: effect.size?.value ?? 0,
+      offsetX: -Math.cos(angle) * distance,
+      offsetY: Math.sin(angle) * distance,
+      opacity: effect.opacity ?? 1
+    };
+  }
+
+  private imageNode(layer: Layer, bounds: Bounds): DocumentNode | null {
+    if (!layer.canvas) {
+      this.warn(layer, 'Layer pixels', 'Layer has no pixel data and was skipped');
+      return null;
+    }
+    return createNode('image', { ...bounds, src: layer.canvas.toDataURL('image/png') });
+  }
+
+  private textNode(layer: Layer, text: LayerTextData, bounds: Bounds): TextNode {
+    const runs = text.styleRuns ?? [];
+    const style: TextStyle = { ...text.style, ...runs[0]?.style };
+    const differs = (run: TextStyle) =>
+      (run.font && run.font.name !== style.font?.name) || (run.fontSize !== undefined && run.fontSize !== style.fontSize);
+    if (runs.some(run => differs(run.style))) {
+      this.warn(layer, 'Mixed text styles', 'Text uses several fonts or sizes; the first one was applied to all of it');
+    }
+
+    // transform is [xx, xy, yx, yy, tx, ty]; font sizes are in untransformed text space
+    const [xx = 1, xy = 0, yx = 0, yy = 1, tx = 0, ty = 0] = text.transform ?? [];
+    const scaleX = Math.hypot(xx, xy);
+    const scaleY = Math.hypot(yx, yy);
+    const rotation = (Math.atan2(xy, xx) * 180) / Math.PI;
+    const fontSize = (style.fontSize ?? 12) * scaleY;
+
+    const font = parseFontName(style.font?.name ?? 'Arial');
+    const paragraph = { ...text.paragraphStyle, ...text.paragraphStyleRuns?.[0]?.style };
+    const fillColor = colorToHex(style.fillColor);
+    if (style.fillColor && !fillColor) {
+      this.warn(layer, 'Text colour', 'Text colour isn\'t RGB or greyscale; black was used');
+    }
+    if (text.warp?.style && text.warp.style !== 'none') {
+      this.warn(layer, 'Warped text', `"${text.warp.style}" warp was removed`);
+    }
+
+    // Box text keeps its frame and rotation; point text is placed by its rendered pixels
+    const [boxLeft, boxTop, boxRight, boxBottom] = text.boxBounds ?? [];
+    const isBox = text.shapeType === 'box' && boxRight !== undefined && boxBottom !== undefined;
+    if (!isBox && Math.abs(rotation) > 0.01) {
+      this.warn(layer, 'Rotated text', 'Point text rotation was not kept');
+    }
+    const frame = isBox
+      ? {
+          x: tx + boxLeft * xx + boxTop * yx,
+          y: ty + boxLeft * xy + boxTop * yy,
+          width: (boxRight - boxLeft) * scaleX,
+          height: (boxBottom - boxTop) * scaleY,
+          rotation
+        }
+      : bounds;
+
+    return createNode('text', {
+      ...frame,
+      // Photoshop separates lines with carriage returns
+      text: text.text.replace(/\r\n?/g, '\n'),
+      fontFamily: font.family,
+      fontSize,
+      fontWeight: style.fauxBold ? 700 : font.weight,
+      italic: style.fauxItalic || font.italic,
+      underline: !!style.underline,
+      strikethrough: !!style.strikethrough,
+      letterSpacing: ((style.tracking ?? 0) / 1000) * fontSize,
+      lineHeight: style.autoLeading === false && style.leading ? (style.leading * scaleY) / fontSize : 1.2,
+      align: JUSTIFICATION[paragraph.justification ?? 'left'] ?? 'left',
+      wrap: isBox ? 'word' : 'none',
+      fill: solidPaint(fillColor ?? '#000000')
+    });
+  }
+
+  private reportUnsupported(layer: Layer) {
+    const filters = layer.placedLayer?.filter;
+    if (filters?.enabled && filters.list.length > 0) {
+      const names = filters.list.map(filter => filter.name).join(', ');
+      this.warn(layer, 'Smart filters', `${names} imported as flattened pixels; filters can't be edited`);
+    } else if (layer.placedLayer) {
+      this.warn(layer, 'Smart object', 'Imported as flattened pixels');
+    }
+
+    if (layer.effects && !layer.effects.disabled) {
+      (Object.keys(EFFECT_NAMES) as Array<keyof typeof EFFECT_NAMES>)
+        .filter(key => isEnabled(layer.effects?.[key]))
+        .forEach(key => this.warn(layer, 'Layer effect', `${EFFECT_NAMES[key]} was not imported`));
+    }
+
+    if ((layer.mask && !layer.mask.disabled) || (layer.vectorMask && !layer.vectorMask.disable && !layer.vectorFill)) {
+      this.warn(layer, 'Layer mask', 'Mask was ignored; the layer is shown unmasked');
+    }
+    if (layer.clipping) {
+      this.warn(layer, 'Clipping mask', 'Layer is no longer clipped to the layer below');
+    }
+  }
+}
+
+/**
+ * Read a PSD or PSB file. Throws if the bytes aren't a Photoshop document
+ */
+export function importPSD(buffer: ArrayBuffer): PSDImportResult {
+  return new PSDReader().read(buffer);
+}
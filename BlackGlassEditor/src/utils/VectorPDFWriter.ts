@@ -0,0 +1,985 @@
+/**
+ * Vector PDF Writer for Konva Stages
+ * Walks the node tree and writes native PDF paths, text and images instead of a rasterised stage
+ */
+
+import Konva from 'konva';
+import fontkit from '@pdf-lib/fontkit';
+import {
+  PDFDocument,
+  PDFFont,
+  PDFImage,
+  PDFPage,
+  PDFName,
+  PDFDict,
+  PDFOperator,
+  PDFOperatorNames,
+  StandardFonts,
+  LineCapStyle,
+  LineJoinStyle,
+  TextRenderingMode,
+  pushGraphicsState,
+  popGraphicsState,
+  concatTransformationMatrix,
+  moveTo,
+  lineTo,
+  appendBezierCurve,
+  closePath,
+  rectangle,
+  fill,
+  stroke,
+  fillAndStroke,
+  clip,
+  clipEvenOdd,
+  endPath,
+  setGraphicsState,
+  setFillingRgbColor,
+  setStrokingRgbColor,
+  setStrokingCmykColor,
+  setLineWidth,
+  setLineCap,
+  setLineJoin,
+  setDashPattern,
+  beginText,
+  endText,
+  setFontAndSize,
+  setTextMatrix,
+  setCharacterSpacing,
+  setTextRenderingMode,
+  showText,
+  drawObject,
+} from 'pdf-lib';
+
+/** Stage region (in unscaled stage units) written as one PDF page, e.g. an artboard */
+export interface PDFPageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Font file to embed for a Konva fontFamily; `data` is the file contents or a URL to fetch */
+export interface PDFFontSource {
+  family: string;
+  bold?: boolean;
+  italic?: boolean;
+  data: ArrayBuffer | Uint8Array | string;
+}
+
+export interface PDFMetadata {
+  title?: string;
+  description?: string;
+  author?: string;
+  created?: string;
+  modified?: string;
+  version?: string;
+}
+
+export interface VectorPDFOptions {
+  pages?: PDFPageRegion[];
+  bleed?: number; // stage units added around each page
+  cropMarks?: boolean;
+  dpi: number; // resolution for nodes that have to be rasterised
+  backgroundColor?: string;
+  includeBackground: boolean;
+  fonts?: PDFFontSource[];
+  metadata?: PDFMetadata;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+interface PageContext {
+  page: PDFPage;
+  operators: PDFOperator[];
+  graphicsStates: Map<string, PDFName>;
+  fonts: Map<PDFFont, PDFName>;
+  images: Map<PDFImage, PDFName>;
+  shadingCount: number;
+}
+
+// Konva draws in CSS pixels; PDF user space is 72 units per inch
+const CSS_PIXELS_PER_INCH = 96;
+const POINTS_PER_PIXEL = 72 / CSS_PIXELS_PER_INCH;
+
+const CROP_MARK_OFFSET = 6; // points beyond the bleed edge
+const CROP_MARK_LENGTH = 18;
+const CROP_MARK_WIDTH = 0.25;
+
+// Arcs are split into Bezier segments of at most a quarter turn
+const MAX_ARC_SEGMENT = Math.PI / 2;
+
+const STANDARD_FONT_FAMILIES: Array<{ match: RegExp; fonts: [StandardFonts, StandardFonts, StandardFonts, StandardFonts] }> = [
+  { match: /courier|mono/i, fonts: [StandardFonts.Courier, StandardFonts.CourierBold, StandardFonts.CourierOblique, StandardFonts.CourierBoldOblique] },
+  { match: /times|georgia|serif/i, fonts: [StandardFonts.TimesRoman, StandardFonts.TimesRomanBold, StandardFonts.TimesRomanItalic, StandardFonts.TimesRomanBoldItalic] },
+];
+const DEFAULT_STANDARD_FONTS: [StandardFonts, StandardFonts, StandardFonts, StandardFonts] = [
+  StandardFonts.Helvetica, StandardFonts.HelveticaBold, StandardFonts.HelveticaOblique, StandardFonts.HelveticaBoldOblique,
+];
+
+/**
+ * Collects path segments as PDF operators, converting canvas-style quadratic curves and
+ * elliptical arcs to the cubic Beziers PDF supports
+ */
+class PathBuilder {
+  readonly operators: PDFOperator[] = [];
+  private currentX = 0;
+  private currentY = 0;
+  private hasPoint = false;
+
+  moveTo(x: number, y: number): this {
+    this.operators.push(moveTo(x, y));
+    this.setPoint(x, y);
+    return this;
+  }
+
+  lineTo(x: number, y: number): this {
+    if (!this.hasPoint) return this.moveTo(x, y);
+    this.operators.push(lineTo(x, y));
+    this.setPoint(x, y);
+    return this;
+  }
+
+  curveTo(c1x: number, c1y: number, c2x: number, c2y: number, x: number, y: number): this {
+    if (!this.hasPoint) this.moveTo(c1x, c1y);
+    this.operators.push(appendBezierCurve(c1x, c1y, c2x, c2y, x, y));
+    this.setPoint(x, y);
+    return this;
+  }
+
+  quadTo(cx: number, cy: number, x: number, y: number): this {
+    if (!this.hasPoint) this.moveTo(cx, cy);
+    const x0 = this.currentX;
+    const y0 = this.currentY;
+    return this.curveTo(
+      x0 + (2 / 3) * (cx - x0), y0 + (2 / 3) * (cy - y0),
+      x + (2 / 3) * (cx - x), y + (2 / 3) * (cy - y),
+      x, y
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number): this {
+    return this.moveTo(x, y).lineTo(x + width, y).lineTo(x + width, y + height).lineTo(x, y + height).close();
+  }
+
+  /**
+   * Elliptical arc from `start` sweeping `sweep` radians (negative is anticlockwise), rotated by
+   * `rotation`. Like canvas `arc()`, it joins the current point to the arc start with a line.
+   */
+  arc(cx: number, cy: number, rx: number, ry: number, rotation: number, start: number, sweep: number): this {
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const point = (t: number) => ({
+      x: cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+      y: cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos,
+    });
+    const tangent = (t: number) => ({
+      x: -rx * Math.sin(t) * cos - ry * Math.cos(t) * sin,
+      y: -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos,
+    });
+
+    const first = point(start);
+    this.lineTo(first.x, first.y);
+    if (sweep === 0) return this;
+
+    const segments = Math.max(1, Math.ceil(Math.abs(sweep) / MAX_ARC_SEGMENT - 1e-9));
+    const step = sweep / segments;
+    const k = (4 / 3) * Math.tan(step / 4);
+    for (let i = 0; i < segments; i++) {
+      const t1 = start + i * step;
+      const t2 = t1 + step;
+      const p1 = point(t1);
+      const p2 = point(t2);
+      const d1 = tangent(t1);
+      const d2 = tangent(t2);
+      this.curveTo(p1.x + k * d1.x, p1.y + k * d1.y, p2.x - k * d2.x, p2.y - k * d2.y, p2.x, p2.y);
+    }
+    return this;
+  }
+
+  roundedRect(width: number, height: number, cornerRadius: number | number[]): this {
+    const clamp = (r: number | undefined) => Math.min(r || 0, width / 2, height / 2);
+    const [topLeft, topRight, bottomRight, bottomLeft] = typeof cornerRadius === 'number'
+      ? [cornerRadius, cornerRadius, cornerRadius, cornerRadius].map(clamp)
+      : [0, 1, 2, 3].map(i => clamp(cornerRadius[i]));
+
+    this.moveTo(topLeft, 0);
+    this.lineTo(width - topRight, 0);
+    this.arc(width - topRight, topRight, topRight, topRight, 0, -Math.PI / 2, Math.PI / 2);
+    this.lineTo(width, height - bottomRight);
+    this.arc(width - bottomRight, height - bottomRight, bottomRight, bottomRight, 0, 0, Math.PI / 2);
+    this.lineTo(bottomLeft, height);
+    this.arc(bottomLeft, height - bottomLeft, bottomLeft, bottomLeft, 0, Math.PI / 2, Math.PI / 2);
+    this.lineTo(0, topLeft);
+    this.arc(topLeft, topLeft, topLeft, topLeft, 0, Math.PI, Math.PI / 2);
+    return this.close();
+  }
+
+  close(): this {
+    this.operators.push(closePath());
+    return this;
+  }
+
+  private setPoint(x: number, y: number): void {
+    this.currentX = x;
+    this.currentY = y;
+    this.hasPoint = true;
+  }
+}
+
+export class VectorPDFWriter {
+  private stage: Konva.Stage;
+  private options: VectorPDFOptions;
+  private doc!: PDFDocument;
+  private fontCache = new Map<string, Promise<PDFFont>>();
+  private standardFontCharacters = new Map<PDFFont, Set<number>>();
+  private imageCache = new Map<CanvasImageSource, Promise<PDFImage>>();
+
+  constructor(stage: Konva.Stage, options: VectorPDFOptions) {
+    this.stage = stage;
+    this.options = options;
+  }
+
+  /**
+   * Write every page region (or the whole stage) to a PDF document
+   */
+  async write(): Promise<Uint8Array> {
+    this.doc = await PDFDocument.create();
+    this.doc.registerFontkit(fontkit);
+    this.applyMetadata();
+
+    const regions = this.options.pages && this.options.pages.length > 0
+      ? this.options.pages
+      : [{ x: 0, y: 0, width: this.stage.width(), height: this.stage.height() }];
+
+    for (const region of regions) {
+      await this.writePage(region);
+    }
+
+    return this.doc.save();
+  }
+
+  // Page setup
+
+  private async writePage(region: PDFPageRegion): Promise<void> {
+    const bleed = Math.max(0, this.options.bleed || 0) * POINTS_PER_PIXEL;
+    const margin = this.options.cropMarks ? bleed + CROP_MARK_OFFSET + CROP_MARK_LENGTH : bleed;
+    const trimWidth = region.width * POINTS_PER_PIXEL;
+    const trimHeight = region.height * POINTS_PER_PIXEL;
+
+    const page = this.doc.addPage([trimWidth + margin * 2, trimHeight + margin * 2]);
+    page.setTrimBox(margin, margin, trimWidth, trimHeight);
+    page.setBleedBox(margin - bleed, margin - bleed, trimWidth + bleed * 2, trimHeight + bleed * 2);
+
+    const ctx: PageContext = {
+      page,
+      operators: [],
+      graphicsStates: new Map(),
+      fonts: new Map(),
+      images: new Map(),
+      shadingCount: 0,
+    };
+
+    ctx.operators.push(pushGraphicsState());
+    ctx.operators.push(rectangle(margin - bleed, margin - bleed, trimWidth + bleed * 2, trimHeight + bleed * 2), clip(), endPath());
+    // Flip to Konva's y-down coordinates with the region's top-left corner at the trim origin
+    ctx.operators.push(concatTransformationMatrix(
+      POINTS_PER_PIXEL, 0, 0, -POINTS_PER_PIXEL,
+      margin - region.x * POINTS_PER_PIXEL,
+      page.getHeight() - margin + region.y * POINTS_PER_PIXEL
+    ));
+
+    const bleedPx = this.options.bleed || 0;
+    if (this.options.includeBackground && this.options.backgroundColor) {
+      const color = this.parseColor(this.options.backgroundColor);
+      if (color) {
+        ctx.operators.push(
+          setFillingRgbColor(color.r, color.g, color.b),
+          rectangle(region.x - bleedPx, region.y - bleedPx, region.width + bleedPx * 2, region.height + bleedPx * 2),
+          fill()
+        );
+      }
+    }
+
+    for (const layer of this.stage.getLayers()) {
+      await this.writeNode(ctx, layer);
+    }
+    ctx.operators.push(popGraphicsState());
+
+    if (this.options.cropMarks) {
+      this.writeCropMarks(ctx, margin, bleed, trimWidth, trimHeight);
+    }
+
+    // Push in chunks so very large pages don't overflow the argument stack
+    for (let i = 0; i < ctx.operators.length; i += 5000) {
+      page.pushOperators(...ctx.operators.slice(i, i + 5000));
+    }
+  }
+
+  private writeCropMarks(ctx: PageContext, margin: number, bleed: number, trimWidth: number, trimHeight: number): void {
+    const near = bleed + CROP_MARK_OFFSET;
+    const far = near + CROP_MARK_LENGTH;
+    const left = margin;
+    const right = margin + trimWidth;
+    const bottom = margin;
+    const top = margin + trimHeight;
+
+    const ops = ctx.operators;
+    ops.push(pushGraphicsState(), setStrokingCmykColor(1, 1, 1, 1), setLineWidth(CROP_MARK_WIDTH));
+    for (const x of [left, right]) {
+      const dir = x === left ? -1 : 1;
+      for (const y of [bottom, top]) {
+        const vDir = y === bottom ? -1 : 1;
+        ops.push(moveTo(x + dir * near, y), lineTo(x + dir * far, y));
+        ops.push(moveTo(x, y + vDir * near), lineTo(x, y + vDir * far));
+      }
+    }
+    ops.push(stroke(), popGraphicsState());
+  }
+
+  private applyMetadata(): void {
+    const metadata = this.options.metadata;
+    if (!metadata) return;
+
+    if (metadata.title) this.doc.setTitle(metadata.title);
+    if (metadata.author) this.doc.setAuthor(metadata.author);
+    if (metadata.description) this.doc.setSubject(metadata.description);
+    this.doc.setCreator(`Advanced Image Editor${metadata.version ? ` ${metadata.version}` : ''}`);
+
+    const created = metadata.created ? new Date(metadata.created) : null;
+    const modified = metadata.modified ? new Date(metadata.modified) : null;
+    if (created && !isNaN(created.getTime())) this.doc.setCreationDate(created);
+    if (modified && !isNaN(modified.getTime())) this.doc.setModificationDate(modified);
+  }
+
+  // Node tree
+
+  private async writeNode(ctx: PageContext, node: Konva.Node): Promise<void> {
+    if (!node.visible() || node instanceof Konva.Transformer) return;
+
+    if (node instanceof Konva.Container) {
+      const clipped = this.beginContainerClip(ctx, node);
+      for (const child of node.getChildren()) {
+        await this.writeNode(ctx, child);
+      }
+      if (clipped) ctx.operators.push(popGraphicsState());
+      return;
+    }
+
+    if (!(node instanceof Konva.Shape)) return;
+
+    if (node instanceof Konva.Text) {
+      await this.writeText(ctx, node);
+    } else if (this.needsRaster(node)) {
+      await this.writeRaster(ctx, node);
+    } else if (node instanceof Konva.Image) {
+      await this.writeImage(ctx, node);
+    } else {
+      const path = this.buildShapePath(node);
+      if (path) {
+        this.paintShape(ctx, node, path.builder.operators, path.fillable, path.evenOdd);
+      } else {
+        await this.writeRaster(ctx, node);
+      }
+    }
+  }
+
+  /**
+   * Clip a group's children to its rectangular clip. The clip is set in the group's space, then the
+   * transform is undone so children can keep using their own absolute transforms.
+   */
+  private beginContainerClip(ctx: PageContext, container: Konva.Container): boolean {
+    const width = container.clipWidth();
+    const height = container.clipHeight();
+    if (!width || !height) return false;
+
+    const transform = container.getAbsoluteTransform(this.stage);
+    ctx.operators.push(
+      pushGraphicsState(),
+      concatTransformationMatrix(...(transform.getMatrix() as Matrix)),
+      rectangle(container.clipX() || 0, container.clipY() || 0, width, height),
+      clip(),
+      endPath(),
+      concatTransformationMatrix(...(transform.copy().invert().getMatrix() as Matrix))
+    );
+    return true;
+  }
+
+  private needsRaster(shape: Konva.Shape): boolean {
+    const filters = shape.filters();
+    return Boolean(shape.hasShadow()) || (Array.isArray(filters) && filters.length > 0);
+  }
+
+  private buildShapePath(shape: Konva.Shape): { builder: PathBuilder; fillable: boolean; evenOdd: boolean } | null {
+    const builder = new PathBuilder();
+
+    if (shape instanceof Konva.Rect) {
+      const cornerRadius = shape.cornerRadius();
+      const hasRadius = Array.isArray(cornerRadius) ? cornerRadius.some(Boolean) : Boolean(cornerRadius);
+      if (hasRadius) {
+        builder.roundedRect(shape.width(), shape.height(), cornerRadius);
+      } else {
+        builder.rect(0, 0, shape.width(), shape.height());
+      }
+      return { builder, fillable: true, evenOdd: false };
+    }
+
+    if (shape instanceof Konva.Circle) {
+      const radius = shape.radius();
+      builder.moveTo(radius, 0).arc(0, 0, radius, radius, 0, 0, Math.PI * 2).close();
+      return { builder, fillable: true, evenOdd: false };
+    }
+
+    if (shape instanceof Konva.Ellipse) {
+      const rx = shape.radiusX();
+      const ry = shape.radiusY();
+      builder.moveTo(rx, 0).arc(0, 0, rx, ry, 0, 0, Math.PI * 2).close();
+      return { builder, fillable: true, evenOdd: false };
+    }
+
+    if (shape instanceof Konva.Ring) {
+      const outer = shape.outerRadius();
+      const inner = shape.innerRadius();
+      builder.moveTo(outer, 0).arc(0, 0, outer, outer, 0, 0, Math.PI * 2).close();
+      builder.moveTo(inner, 0).arc(0, 0, inner, inner, 0, 0, -Math.PI * 2).close();
+      return { builder, fillable: true, evenOdd: true };
+    }
+
+    if (shape instanceof Konva.RegularPolygon) {
+      const sides = shape.sides();
+      const radius = shape.radius();
+      for (let n = 0; n < sides; n++) {
+        builder.lineTo(radius * Math.sin((n * 2 * Math.PI) / sides), -radius * Math.cos((n * 2 * Math.PI) / sides));
+      }
+      builder.close();
+      return { builder, fillable: true, evenOdd: false };
+    }
+
+    if (shape instanceof Konva.Star) {
+      const numPoints = shape.numPoints();
+      builder.moveTo(0, -shape.outerRadius());
+      for (let n = 1; n < numPoints * 2; n++) {
+        const radius = n % 2 === 0 ? shape.outerRadius() : shape.innerRadius();
+        builder.lineTo(radius * Math.sin((n * Math.PI) / numPoints), -radius * Math.cos((n * Math.PI) / numPoints));
+      }
+      builder.close();
+      return { builder, fillable: true, evenOdd: false };
+    }
+
+    // Arrow heads aren't exposed as geometry, so arrows go through the raster fallback
+    if (shape instanceof Konva.Line && !(shape instanceof Konva.Arrow)) {
+      return this.buildLinePath(builder, shape);
+    }
+
+    if (shape instanceof Konva.Path) {
+      return this.buildSvgPath(builder, shape);
+    }
+
+    return null;
+  }
+
+  private buildLinePath(builder: PathBuilder, line: Konva.Line): { builder: PathBuilder; fillable: boolean; evenOdd: boolean } | null {
+    const points = line.points();
+    const length = points.length;
+    if (!length) return null;
+
+    const closed = line.closed();
+    builder.moveTo(points[0], points[1]);
+    if (line.tension() !== 0 && length > 4) {
+      const tp = line.getTensionPoints();
+      const len = tp.length;
+      let n = closed ? 0 : 4;
+      if (!closed) builder.quadTo(tp[0], tp[1], tp[2], tp[3]);
+      while (n < len - 2) {
+        builder.curveTo(tp[n], tp[n + 1], tp[n + 2], tp[n + 3], tp[n + 4], tp[n + 5]);
+        n += 6;
+      }
+      if (!closed) builder.quadTo(tp[len - 2], tp[len - 1], points[length - 2], points[length - 1]);
+    } else if (line.bezier()) {
+      for (let n = 2; n + 5 < length; n += 6) {
+        builder.curveTo(points[n], points[n + 1], points[n + 2], points[n + 3], points[n + 4], points[n + 5]);
+      }
+    } else {
+      for (let n = 2; n < length; n += 2) {
+        builder.lineTo(points[n], points[n + 1]);
+      }
+    }
+    if (closed) builder.close();
+    return { builder, fillable: closed, evenOdd: false };
+  }
+
+  private buildSvgPath(builder: PathBuilder, path: Konva.Path): { builder: PathBuilder; fillable: boolean; evenOdd: boolean } {
+    let closed = false;
+    for (const segment of path.dataArray) {
+      const p = segment.points;
+      switch (segment.command) {
+        case 'M':
+          builder.moveTo(p[0], p[1]);
+          break;
+        case 'L':
+          builder.lineTo(p[0], p[1]);
+          break;
+        case 'C':
+          builder.curveTo(p[0], p[1], p[2], p[3], p[4], p[5]);
+          break;
+        case 'Q':
+          builder.quadTo(p[0], p[1], p[2], p[3]);
+          break;
+        case 'A':
+          // Konva stores arcs in centre form: cx, cy, rx, ry, start angle, sweep, x-axis rotation
+          builder.arc(p[0], p[1], p[2], p[3], p[6], p[4], p[5]);
+          break;
+        case 'z':
+          closed = true;
+          builder.close();
+          break;
+      }
+    }
+    return { builder, fillable: closed || path.hasFill(), evenOdd: false };
+  }
+
+  // Painting
+
+  private paintShape(ctx: PageContext, shape: Konva.Shape, path: PDFOperator[], fillable: boolean, evenOdd: boolean): void {
+    const ops = ctx.operators;
+    const opacity = shape.getAbsoluteOpacity();
+    const fillKind = fillable && shape.fillEnabled() ? this.getFillKind(shape) : null;
+    const fillColor = fillKind === 'color' ? this.parseColor(shape.fill()) : null;
+    const strokeColor = shape.hasStroke() ? this.parseColor(shape.stroke()) : null;
+
+    ops.push(pushGraphicsState(), concatTransformationMatrix(...(shape.getAbsoluteTransform(this.stage).getMatrix() as Matrix)));
+
+    if (fillKind === 'linear-gradient' || fillKind === 'radial-gradient') {
+      const shading = this.createShading(ctx, shape, fillKind);
+      if (shading) {
+        ops.push(pushGraphicsState(), ...path, evenOdd ? clipEvenOdd() : clip(), endPath());
+        this.applyAlpha(ctx, opacity, 1);
+        ops.push(PDFOperator.of(PDFOperatorNames.ShadingFill, [shading]), popGraphicsState());
+      }
+    }
+
+    const paintFill = fillColor !== null && fillColor.a > 0;
+    const paintStroke = strokeColor !== null && strokeColor.a > 0;
+    if (paintFill || paintStroke) {
+      this.applyAlpha(ctx, opacity * (fillColor?.a ?? 1), opacity * (strokeColor?.a ?? 1));
+      if (fillColor) ops.push(setFillingRgbColor(fillColor.r, fillColor.g, fillColor.b));
+      if (paintStroke) this.applyStrokeStyle(ops, shape, strokeColor!);
+      ops.push(...path);
+      if (paintFill && paintStroke) {
+        ops.push(evenOdd ? PDFOperator.of(PDFOperatorNames.FillEvenOddAndStroke) : fillAndStroke());
+      } else if (paintFill) {
+        ops.push(evenOdd ? PDFOperator.of(PDFOperatorNames.FillEvenOdd) : fill());
+      } else {
+        ops.push(stroke());
+      }
+    }
+
+    ops.push(popGraphicsState());
+  }
+
+  /** Mirrors Konva's own precedence between a fill colour and gradients */
+  private getFillKind(shape: Konva.Shape): 'color' | 'linear-gradient' | 'radial-gradient' | null {
+    const hasColor = Boolean(shape.fill());
+    const hasLinear = Boolean(shape.fillLinearGradientColorStops());
+    const hasRadial = Boolean(shape.fillRadialGradientColorStops());
+    const priority = shape.fillPriority();
+
+    if (hasColor && priority === 'color') return 'color';
+    if (hasLinear && priority === 'linear-gradient') return 'linear-gradient';
+    if (hasRadial && priority === 'radial-gradient') return 'radial-gradient';
+    if (hasColor) return 'color';
+    if (hasLinear) return 'linear-gradient';
+    if (hasRadial) return 'radial-gradient';
+    return null;
+  }
+
+  private applyStrokeStyle(ops: PDFOperator[], shape: Konva.Shape, color: RGBA): void {
+    ops.push(setStrokingRgbColor(color.r, color.g, color.b), setLineWidth(shape.strokeWidth()));
+
+    const lineCap = shape.lineCap();
+    if (lineCap === 'round') ops.push(setLineCap(LineCapStyle.Round));
+    else if (lineCap === 'square') ops.push(setLineCap(LineCapStyle.Projecting));
+
+    const lineJoin = shape.lineJoin();
+    if (lineJoin === 'round') ops.push(setLineJoin(LineJoinStyle.Round));
+    else if (lineJoin === 'bevel') ops.push(setLineJoin(LineJoinStyle.Bevel));
+
+    const dash = shape.dash();
+    if (dash && dash.length > 0 && shape.dashEnabled()) {
+      ops.push(setDashPattern(dash, shape.dashOffset() || 0));
+    }
+  }
+
+  private applyAlpha(ctx: PageContext, fillAlpha: number, strokeAlpha: number): void {
+    if (fillAlpha >= 1 && strokeAlpha >= 1) return;
+
+    const key = `${fillAlpha.toFixed(3)}|${strokeAlpha.toFixed(3)}`;
+    let name = ctx.graphicsStates.get(key);
+    if (!name) {
+      const state = this.doc.context.obj({ Type: 'ExtGState', ca: fillAlpha, CA: strokeAlpha });
+      name = ctx.page.node.newExtGState('GS', state);
+      ctx.graphicsStates.set(key, name);
+    }
+    ctx.operators.push(setGraphicsState(name));
+  }
+
+  /**
+   * Register an axial or radial shading for the shape's gradient. Coordinates are in the shape's
+   * own space because `sh` paints in the current user space.
+   */
+  private createShading(ctx: PageContext, shape: Konva.Shape, kind: 'linear-gradient' | 'radial-gradient'): PDFName | null {
+    const stops = kind === 'linear-gradient' ? shape.fillLinearGradientColorStops() : shape.fillRadialGradientColorStops();
+    const colors: Array<{ offset: number; color: RGBA }> = [];
+    for (let i = 0; i + 1 < stops.length; i += 2) {
+      const color = this.parseColor(String(stops[i + 1]));
+      if (color) colors.push({ offset: Math.min(1, Math.max(0, Number(stops[i]))), color });
+    }
+    if (colors.length === 0) return null;
+    colors.sort((a, b) => a.offset - b.offset);
+    // Hold the end colours out to 0 and 1 like canvas gradients do
+    if (colors[0].offset > 0) colors.unshift({ offset: 0, color: colors[0].color });
+    if (colors[colors.length - 1].offset < 1) colors.push({ offset: 1, color: colors[colors.length - 1].color });
+
+    const context = this.doc.context;
+    const segment = (from: RGBA, to: RGBA) => context.obj({
+      FunctionType: 2,
+      Domain: [0, 1],
+      C0: [from.r, from.g, from.b],
+      C1: [to.r, to.g, to.b],
+      N: 1,
+    });
+    const segments = colors.slice(1).map((stop, i) => segment(colors[i].color, stop.color));
+    const shadingFunction = segments.length === 1
+      ? segments[0]
+      : context.obj({
+          FunctionType: 3,
+          Domain: [0, 1],
+          Functions: segments,
+          Bounds: colors.slice(1, -1).map(stop => stop.offset),
+          Encode: segments.flatMap(() => [0, 1]),
+        });
+
+    let coords: number[];
+    let shadingType: number;
+    if (kind === 'linear-gradient') {
+      const start = shape.fillLinearGradientStartPoint();
+      const end = shape.fillLinearGradientEndPoint();
+      shadingType = 2;
+      coords = [start.x, start.y, end.x, end.y];
+    } else {
+      const start = shape.fillRadialGradientStartPoint();
+      const end = shape.fillRadialGradientEndPoint();
+      shadingType = 3;
+      coords = [start.x, start.y, shape.fillRadialGradientStartRadius(), end.x, end.y, shape.fillRadialGradientEndRadius()];
+    }
+
+    const shading = context.register(context.obj({
+      ShadingType: shadingType,
+      ColorSpace: 'DeviceRGB',
+      Coords: coords,
+      Function: shadingFunction,
+      Extend: [true, true],
+    }));
+
+    const { Resources } = ctx.page.node.normalizedEntries();
+    let shadings = Resources.lookupMaybe(PDFName.of('Shading'), PDFDict);
+    if (!shadings) {
+      shadings = context.obj({});
+      Resources.set(PDFName.of('Shading'), shadings);
+    }
+    const name = PDFName.of(`Sh${++ctx.shadingCount}`);
+    shadings.set(name, shading);
+    return name;
+  }
+
+  // Text
+
+  /**
+   * Write text as real PDF text so it stays selectable. Line breaks come from Konva's own
+   * wrapping; positions are recomputed with the PDF font's metrics.
+   */
+  private async writeText(ctx: PageContext, text: Konva.Text): Promise<void> {
+    const lines = text.textArr;
+    if (!text.text() || lines.length === 0) return;
+
+    const font = await this.resolveFont(text.fontFamily(), text.fontStyle());
+    const fontName = this.getFontName(ctx, font);
+    const fontSize = text.fontSize();
+    const lineHeightPx = text.lineHeight() * fontSize;
+    const padding = text.padding();
+    const letterSpacing = text.letterSpacing();
+    const align = text.align();
+    const totalWidth = text.width();
+    const innerWidth = totalWidth - padding * 2;
+
+    let alignY = 0;
+    if (text.verticalAlign() === 'middle') {
+      alignY = (text.height() - lines.length * lineHeightPx - padding * 2) / 2;
+    } else if (text.verticalAlign() === 'bottom') {
+      alignY = text.height() - lines.length * lineHeightPx - padding * 2;
+    }
+
+    // Konva uses a 'middle' baseline; move from the em-box middle down to the alphabetic baseline
+    const ascent = font.heightAtSize(fontSize, { descender: false });
+    const descent = font.heightAtSize(fontSize) - ascent;
+    const baselineShift = (ascent - descent) / 2;
+
+    const fillColor = text.fillEnabled() ? this.parseColor(text.fill()) : null;
+    const strokeColor = text.hasStroke() ? this.parseColor(text.stroke()) : null;
+    const paintFill = fillColor !== null && fillColor.a > 0;
+    const paintStroke = strokeColor !== null && strokeColor.a > 0;
+    if (!paintFill && !paintStroke) return;
+
+    const ops = ctx.operators;
+    const opacity = text.getAbsoluteOpacity();
+    ops.push(pushGraphicsState(), concatTransformationMatrix(...(text.getAbsoluteTransform(this.stage).getMatrix() as Matrix)));
+    this.applyAlpha(ctx, opacity * (fillColor?.a ?? 1), opacity * (strokeColor?.a ?? 1));
+    if (fillColor) ops.push(setFillingRgbColor(fillColor.r, fillColor.g, fillColor.b));
+    if (paintStroke) ops.push(setStrokingRgbColor(strokeColor!.r, strokeColor!.g, strokeColor!.b), setLineWidth(text.strokeWidth()));
+
+    const decoration = text.textDecoration() || '';
+    const decorations: Array<{ x: number; y: number; width: number }> = [];
+
+    ops.push(beginText(), setFontAndSize(fontName, fontSize));
+    if (paintFill && paintStroke) ops.push(setTextRenderingMode(TextRenderingMode.FillAndOutline));
+    else if (paintStroke) ops.push(setTextRenderingMode(TextRenderingMode.Outline));
+    if (letterSpacing) ops.push(setCharacterSpacing(letterSpacing));
+
+    lines.forEach((line, index) => {
+      const content = this.encodableText(font, line.text);
+      const middleY = padding + alignY + lineHeightPx / 2 + index * lineHeightPx;
+      const baselineY = middleY + baselineShift;
+      const lineWidth = this.measureText(font, content, fontSize, letterSpacing);
+      const justify = align === 'justify' && !line.lastInParagraph && content.includes(' ');
+
+      let x = padding;
+      if (align === 'right') x += innerWidth - lineWidth;
+      else if (align === 'center') x += (innerWidth - lineWidth) / 2;
+
+      if (justify) {
+        const words = content.split(' ');
+        const spaceWidth = this.measureText(font, ' ', fontSize, letterSpacing);
+        const gap = spaceWidth + (innerWidth - lineWidth) / (words.length - 1);
+        words.forEach(word => {
+          if (word) this.showTextAt(ops, font, word, x, baselineY);
+          x += this.measureText(font, word, fontSize, letterSpacing) + gap;
+        });
+        decorations.push({ x: padding, y: middleY, width: innerWidth });
+      } else {
+        this.showTextAt(ops, font, content, x, baselineY);
+        decorations.push({ x, y: middleY, width: lineWidth });
+      }
+    });
+    ops.push(endText());
+
+    const underline = decoration.includes('underline');
+    const lineThrough = decoration.includes('line-through');
+    if ((underline || lineThrough) && fillColor) {
+      ops.push(setStrokingRgbColor(fillColor.r, fillColor.g, fillColor.b), setLineWidth(fontSize / 15));
+      decorations.forEach(({ x, y, width }) => {
+        if (underline) ops.push(moveTo(x, y + Math.round(fontSize / 2)), lineTo(x + width, y + Math.round(fontSize / 2)));
+        if (lineThrough) ops.push(moveTo(x, y), lineTo(x + width, y));
+      });
+      ops.push(stroke());
+    }
+
+    ops.push(popGraphicsState());
+  }
+
+  private showTextAt(ops: PDFOperator[], font: PDFFont, content: string, x: number, baselineY: number): void {
+    // The page space is flipped to y-down, so flip the text matrix back to keep glyphs upright
+    ops.push(setTextMatrix(1, 0, 0, -1, x, baselineY), showText(font.encodeText(content)));
+  }
+
+  private measureText(font: PDFFont, content: string, fontSize: number, letterSpacing: number): number {
+    return font.widthOfTextAtSize(content, fontSize) + letterSpacing * Array.from(content).length;
+  }
+
+  /** Standard fonts only cover WinAnsi; swap anything else for '?' instead of failing the export */
+  private encodableText(font: PDFFont, content: string): string {
+    const characters = this.standardFontCharacters.get(font);
+    if (!characters) return content;
+    return Array.from(content).map(char => characters.has(char.codePointAt(0)!) ? char : '?').join('');
+  }
+
+  private getFontName(ctx: PageContext, font: PDFFont): PDFName {
+    let name = ctx.fonts.get(font);
+    if (!name) {
+      name = ctx.page.node.newFontDictionary(font.name, font.ref);
+      ctx.fonts.set(font, name);
+    }
+    return name;
+  }
+
+  private resolveFont(fontFamily: string, fontStyle: string): Promise<PDFFont> {
+    const family = fontFamily.split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+    const bold = /bold|[6-9]00/.test(fontStyle);
+    const italic = /italic|oblique/.test(fontStyle);
+    const key = `${family.toLowerCase()}|${bold}|${italic}`;
+
+    let font = this.fontCache.get(key);
+    if (!font) {
+      font = this.loadFont(family, bold, italic);
+      this.fontCache.set(key, font);
+    }
+    return font;
+  }
+
+  private async loadFont(family: string, bold: boolean, italic: boolean): Promise<PDFFont> {
+    const sources = (this.options.fonts || []).filter(source => source.family.toLowerCase() === family.toLowerCase());
+    const source = sources.find(s => Boolean(s.bold) === bold && Boolean(s.italic) === italic)
+      || sources.find(s => Boolean(s.bold) === bold)
+      || sources[0];
+
+    if (source) {
+      try {
+        const data = typeof source.data === 'string'
+          ? await (await fetch(source.data)).arrayBuffer()
+          : source.data;
+        return await this.doc.embedFont(data, { subset: true });
+      } catch (error) {
+        console.warn(`Could not embed font "${family}", falling back to a standard PDF font:`, error);
+      }
+    }
+
+    const fonts = STANDARD_FONT_FAMILIES.find(entry => entry.match.test(family))?.fonts || DEFAULT_STANDARD_FONTS;
+    const font = await this.doc.embedFont(fonts[(bold ? 1 : 0) + (italic ? 2 : 0)]);
+    this.standardFontCharacters.set(font, new Set(font.getCharacterSet()));
+    return font;
+  }
+
+  // Images
+
+  private async writeImage(ctx: PageContext, node: Konva.Image): Promise<void> {
+    const source = node.image();
+    if (source && !(source instanceof HTMLImageElement || source instanceof HTMLCanvasElement)) {
+      await this.writeRaster(ctx, node);
+      return;
+    }
+    const cornerRadius = node.cornerRadius();
+    const hasRadius = Array.isArray(cornerRadius) ? cornerRadius.some(Boolean) : Boolean(cornerRadius);
+    const width = node.width();
+    const height = node.height();
+
+    const frame = new PathBuilder();
+    if (hasRadius) frame.roundedRect(width, height, cornerRadius);
+    else frame.rect(0, 0, width, height);
+    if (node.hasFill() || node.hasStroke()) {
+      this.paintShape(ctx, node, frame.operators, true, false);
+    }
+    if (!source) return;
+
+    const image = await this.embedImage(source);
+    let name = ctx.images.get(image);
+    if (!name) {
+      name = ctx.page.node.newXObject('Image', image.ref);
+      ctx.images.set(image, name);
+    }
+
+    const cropWidth = node.cropWidth();
+    const cropHeight = node.cropHeight();
+    const sourceWidth = image.width;
+    const sourceHeight = image.height;
+    const scaleX = cropWidth ? width / cropWidth : width / sourceWidth;
+    const scaleY = cropHeight ? height / cropHeight : height / sourceHeight;
+    const offsetX = cropWidth ? -node.cropX() * scaleX : 0;
+    const offsetY = cropHeight ? -node.cropY() * scaleY : 0;
+
+    const ops = ctx.operators;
+    ops.push(pushGraphicsState(), concatTransformationMatrix(...(node.getAbsoluteTransform(this.stage).getMatrix() as Matrix)));
+    ops.push(...frame.operators, clip(), endPath());
+    this.applyAlpha(ctx, node.getAbsoluteOpacity(), 1);
+    // Image space is y-up, so map the unit square onto the flipped user space
+    ops.push(
+      concatTransformationMatrix(sourceWidth * scaleX, 0, 0, -sourceHeight * scaleY, offsetX, offsetY + sourceHeight * scaleY),
+      drawObject(name),
+      popGraphicsState()
+    );
+  }
+
+  /** Embed an image once per document at its native resolution, reusing the original file when possible */
+  private embedImage(source: HTMLImageElement | HTMLCanvasElement): Promise<PDFImage> {
+    let image = this.imageCache.get(source);
+    if (!image) {
+      image = this.loadImage(source);
+      this.imageCache.set(source, image);
+    }
+    return image;
+  }
+
+  private async loadImage(source: HTMLImageElement | HTMLCanvasElement): Promise<PDFImage> {
+    if (source instanceof HTMLImageElement && source.src) {
+      try {
+        const bytes = new Uint8Array(await (await fetch(source.src)).arrayBuffer());
+        if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+          return await this.doc.embedPng(bytes);
+        }
+        if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+          return await this.doc.embedJpg(bytes);
+        }
+      } catch (error) {
+        // Other formats and unreadable sources are re-encoded from a canvas below
+      }
+    }
+
+    const width = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+    const height = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Could not get canvas context');
+    context.drawImage(source, 0, 0);
+    return this.doc.embedPng(await this.canvasToBytes(canvas));
+  }
+
+  /**
+   * Shapes with shadows, filters or custom drawing can't be expressed as PDF vectors, so they are
+   * rendered at the export DPI and placed as an image
+   */
+  private async writeRaster(ctx: PageContext, node: Konva.Shape): Promise<void> {
+    const absolute = node.getClientRect();
+    const relative = node.getClientRect({ relativeTo: this.stage });
+    if (!absolute.width || !absolute.height) return;
+
+    const pixelRatio = (this.options.dpi / CSS_PIXELS_PER_INCH) * (relative.width / absolute.width);
+    const canvas = node.toCanvas({ ...absolute, pixelRatio });
+    const image = await this.doc.embedPng(await this.canvasToBytes(canvas));
+    const name = ctx.page.node.newXObject('Image', image.ref);
+
+    // toCanvas already applied the node's opacity
+    ctx.operators.push(
+      pushGraphicsState(),
+      concatTransformationMatrix(relative.width, 0, 0, -relative.height, relative.x, relative.y + relative.height),
+      drawObject(name),
+      popGraphicsState()
+    );
+  }
+
+  private canvasToBytes(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(async (blob) => {
+        if (!blob) {
+          reject(new Error('Failed to encode canvas'));
+          return;
+        }
+        resolve(new Uint8Array(await blob.arrayBuffer()));
+      }, 'image/png');
+    });
+  }
+
+  private parseColor(color: string | CanvasGradient | undefined): RGBA | null {
+    if (!color || typeof color !== 'string') return null;
+    const rgba = Konva.Util.colorToRGBA(color);
+    if (!rgba) return null;
+    return { r: rgba.r / 255, g: rgba.g / 255, b: rgba.b / 255, a: rgba.a ?? 1 };
+  }
+}
+
+export default VectorPDFWriter;
@@ -0,0 +1,986 @@
+/**
+ * Master-level Document Model helpers
+ * Builds canonical document nodes and converts them to and from each editor
+ * surface's working type: UnifiedShape (EditorContext), CanvasElement
+ * (AdvancedImageEditor and its tools) and the text engine's Layer
+ */
+
+import type { UnifiedShape } from '../contexts/EditorContext';
+import type {
+  CanvasElement,
+  TextElement,
+  ImageElement,
+  GradientElement,
+  ShapeElement,
+  GroupElement
+} from '../types/advanced-types';
+import type { Layer as TextEngineLayer } from '../components/BlackGlassTextEngine/blackglass-text-engine';
+import {
+  DOCUMENT_SCHEMA_VERSION,
+  DesignDocument,
+  DocumentNode,
+  DocumentNodeBase,
+  DocumentNodeType,
+  GradientStop,
+  ImageFilters,
+  Paint,
+  Shadow,
+  ShapeKind,
+  ShapeNode,
+  Stroke,
+  TextNode
+} from '../types/document';
+
+export type NodeOfType<T extends DocumentNodeType> = Extract<DocumentNode, { type: T }>;
+
+type JsonObject = Record<string, any>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const createNodeId = () => `node-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const TYPE_DEFAULTS: { [T in DocumentNodeType]: Omit<NodeOfType<T>, keyof DocumentNodeBase | 'type'> } = {
+  text: {
+    text: '',
+    fontFamily: 'Arial',
+    fontSize: 16,
+    fontWeight: 400,
+    italic: false,
+    underline: false,
+    strikethrough: false,
+    letterSpacing: 0,
+    lineHeight: 1.2,
+    align: 'left',
+    verticalAlign: 'top',
+    wrap: 'word',
+    ellipsis: false,
+    padding: 0,
+    direction: 'inherit',
+    textTransform: 'none',
+    fill: { type: 'solid', color: '#000000' },
+    stroke: null
+  },
+  image: { src: '', crop: null, filters: {} },
+  shape: { shape: 'rect', fill: { type: 'solid', color: '#cccccc' }, stroke: null },
+  icon: { svg: '', fill: null },
+  group: { childIds: [] }
+};
+
+const baseDefaults = (): DocumentNodeBase => ({
+  id: createNodeId(),
+  name: '',
+  parentId: null,
+  x: 0,
+  y: 0,
+  width: 100,
+  height: 100,
+  rotation: 0,
+  scaleX: 1,
+  scaleY: 1,
+  opacity: 1,
+  visible: true,
+  locked: false
+});
+
+/**
+ * Create a node with every required property filled in
+ */
+export function createNode<T extends DocumentNodeType>(type: T, props: Partial<NodeOfType<T>> = {}): NodeOfType<T> {
+  const defaults = TYPE_DEFAULTS[type] as JsonObject;
+  // Copy nested defaults so nodes never share them
+  const copied = JSON.parse(JSON.stringify(defaults));
+  return { ...baseDefaults(), ...copied, ...props, type } as NodeOfType<T>;
+}
+
+export function createDocument(props: Partial<Omit<DesignDocument, 'schemaVersion'>> = {}): DesignDocument {
+  const now = new Date().toISOString();
+  return {
+    id: `doc-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name: 'Untitled Design',
+    width: 1200,
+    height: 800,
+    background: null,
+    nodes: [],
+    createdAt: now,
+    updatedAt: now,
+    ...props,
+    schemaVersion: DOCUMENT_SCHEMA_VERSION
+  };
+}
+
+// Shared conversion helpers
+
+export const solidPaint = (color: string): Paint => ({ type: 'solid', color });
+
+/**
+ * A single colour for surfaces that only take a string fill
+ */
+export const paintColor = (paint: Paint | null, fallback = 'transparent'): string => {
+  if (!paint) return fallback;
+  if (paint.type === 'solid') return paint.color;
+  return paint.stops[0]?.color ?? fallback;
+};
+
+const strokeOf = (color: string | undefined, width: number | undefined): Stroke | null =>
+  color && width && width > 0 ? { color, width } : null;
+
+const parseFontStyle = (fontStyle: string | undefined, fontWeight: number | undefined) => {
+  const style = fontStyle ?? 'normal';
+  const numeric = style.match(/\b([1-9]00)\b/);
+  return {
+    italic: /italic|oblique/.test(style),
+    fontWeight: numeric ? Number(numeric[1]) : /bold/.test(style) ? 700 : fontWeight ?? 400
+  };
+};
+
+const composeFontStyle = (node: TextNode) => {
+  const parts = [node.italic ? 'italic' : '', node.fontWeight >= 600 ? 'bold' : ''].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : 'normal';
+};
+
+const composeTextDecoration = (node: TextNode) => {
+  const parts = [node.underline ? 'underline' : '', node.strikethrough ? 'line-through' : ''].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : 'none';
+};
+
+type KonvaStops = Array<{ color: string; position: number }> | undefined;
+
+// Konva-style fill properties, as CanvasElement text and shapes carry them
+interface KonvaFillProps {
+  fill?: string;
+  fillEnabled?: boolean;
+  fillLinearGradientStartPoint?: { x: number; y: number };
+  fillLinearGradientEndPoint?: { x: number; y: number };
+  fillLinearGradientColorStops?: KonvaStops;
+  fillRadialGradientStartPoint?: { x: number; y: number };
+  fillRadialGradientEndPoint?: { x: number; y: number };
+  fillRadialGradientStartRadius?: number;
+  fillRadialGradientEndRadius?: number;
+  fillRadialGradientColorStops?: KonvaStops;
+}
+
+const toStops = (stops: Array<{ color: string; position: number }>): GradientStop[] =>
+  stops.map(stop => ({ color: stop.color, offset: stop.position }));
+
+const paintFromKonvaFill = (props: KonvaFillProps, width: number, height: number): Paint | null => {
+  if (props.fillEnabled === false) return null;
+  if (props.fillLinearGradientColorStops?.length) {
+    return {
+      type: 'linear-gradient',
+      start: props.fillLinearGradientStartPoint ?? { x: 0, y: 0 },
+      end: props.fillLinearGradientEndPoint ?? { x: width, y: 0 },
+      stops: toStops(props.fillLinearGradientColorStops)
+    };
+  }
+  if (props.fillRadialGradientColorStops?.length) {
+    const center = { x: width / 2, y: height / 2 };
+    return {
+      type: 'radial-gradient',
+      start: props.fillRadialGradientStartPoint ?? center,
+      end: props.fillRadialGradientEndPoint ?? center,
+      startRadius: props.fillRadialGradientStartRadius ?? 0,
+      endRadius: props.fillRadialGradientEndRadius ?? Math.max(width, height) / 2,
+      stops: toStops(props.fillRadialGradientColorStops)
+    };
+  }
+  return props.fill ? solidPaint(props.fill) : null;
+};
+
+const konvaFillFromPaint = (paint: Paint | null): KonvaFillProps => {
+  const fill = paintColor(paint);
+  if (!paint || paint.type === 'solid') return { fill, fillEnabled: paint !== null };
+
+  const stops = paint.stops.map(stop => ({ color: stop.color, position: stop.offset }));
+  if (paint.type === 'linear-gradient') {
+    return {
+      fill,
+      fillEnabled: true,
+      fillLinearGradientStartPoint: paint.start,
+      fillLinearGradientEndPoint: paint.end,
+      fillLinearGradientColorStops: stops
+    };
+  }
+  return {
+    fill,
+    fillEnabled: true,
+    fillRadialGradientStartPoint: paint.start,
+    fillRadialGradientEndPoint: paint.end,
+    fillRadialGradientStartRadius: paint.startRadius,
+    fillRadialGradientEndRadius: paint.endRadius,
+    fillRadialGradientColorStops: stops
+  };
+};
+
+interface KonvaShadowProps {
+  shadowColor?: string;
+  shadowBlur?: number;
+  shadowOffset?: { x: number; y: number };
+  shadowOpacity?: number;
+  shadowEnabled?: boolean;
+}
+
+const shadowFromKonva = (props: KonvaShadowProps): Shadow | undefined => {
+  if (props.shadowEnabled === false || !props.shadowColor) return undefined;
+  return {
+    color: props.shadowColor,
+    blur: props.shadowBlur ?? 0,
+    offsetX: props.shadowOffset?.x ?? 0,
+    offsetY: props.shadowOffset?.y ?? 0,
+    opacity: props.shadowOpacity ?? 1
+  };
+};
+
+const konvaFromShadow = (shadow: Shadow | undefined): KonvaShadowProps =>
+  shadow
+    ? {
+        shadowColor: shadow.color,
+        shadowBlur: shadow.blur,
+        shadowOffset: { x: shadow.offsetX, y: shadow.offsetY },
+        shadowOpacity: shadow.opacity,
+        shadowEnabled: true
+      }
+    : {};
+
+/**
+ * Gradient between the two points where a CSS-style angle (0 = upwards,
+ * clockwise) crosses a width x height box
+ */
+const linearGradientFromAngle = (angle: number, width: number, height: number, stops: GradientStop[]): Paint => {
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const halfLength = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  const center = { x: width / 2, y: height / 2 };
+  return {
+    type: 'linear-gradient',
+    start: { x: center.x - dx * halfLength, y: center.y - dy * halfLength },
+    end: { x: center.x + dx * halfLength, y: center.y + dy * halfLength },
+    stops
+  };
+};
+
+const angleOfGradient = (start: { x: number; y: number }, end: { x: number; y: number }) => {
+  const degrees = (Math.atan2(end.x - start.x, -(end.y - start.y)) * 180) / Math.PI;
+  return (degrees + 360) % 360;
+};
+
+const withoutUndefined = (values: JsonObject): JsonObject | undefined => {
+  const entries = Object.entries(values).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+/**
+ * Konva render settings every surface carries. Only non-default values are kept,
+ * as extensions, so tools that toggle them survive a round trip through the model
+ */
+interface KonvaRenderFlags {
+  isCached?: boolean;
+  perfectDrawEnabled?: boolean;
+  listening?: boolean;
+}
+
+const renderExtensions = (flags: KonvaRenderFlags): JsonObject => ({
+  isCached: flags.isCached ? true : undefined,
+  perfectDrawEnabled: flags.perfectDrawEnabled === false ? false : undefined,
+  listening: flags.listening === false ? false : undefined
+});
+
+const renderFlagsOf = (node: DocumentNode): Required<KonvaRenderFlags> => ({
+  isCached: node.extensions?.isCached === true,
+  perfectDrawEnabled: node.extensions?.perfectDrawEnabled !== false,
+  listening: node.extensions?.listening !== false
+});
+
+// Fields whose values differ, compared structurally
+const changedFields = <T extends object>(before: T, after: T): Partial<T> =>
+  Object.fromEntries(
+    Object.entries(after).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify((before as JsonObject)[key]))
+  ) as Partial<T>;
+
+/**
+ * What changed between two versions of a node, for tools that report edits as partial updates
+ */
+export const nodeChanges = <T extends DocumentNode>(before: T, after: T): Partial<T> => changedFields(before, after);
+
+/**
+ * Order items back to front by their zIndex, keeping the original order for ties
+ */
+const byZIndex = <T extends { zIndex?: number }>(items: T[]): T[] =>
+  items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => (a.item.zIndex ?? 0) - (b.item.zIndex ?? 0) || a.index - b.index)
+    .map(entry => entry.item);
+
+/**
+ * Surfaces record grouping on the children, the group, or both. Make both sides
+ * agree: every child listed by a group points back at it, and every group lists
+ * the children that point at it
+ */
+export function linkGroups(nodes: DocumentNode[]): DocumentNode[] {
+  const parentOf = new Map<string, string>();
+  nodes.forEach(node => {
+    if (node.type === 'group') node.childIds.forEach(childId => parentOf.set(childId, node.id));
+  });
+  nodes.forEach(node => {
+    if (node.parentId && !parentOf.has(node.id)) parentOf.set(node.id, node.parentId);
+  });
+
+  const ids = new Set(nodes.map(node => node.id));
+  const childrenOf = new Map<string, string[]>();
+  parentOf.forEach((parentId, childId) => {
+    if (!ids.has(childId)) return;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), childId]);
+  });
+
+  return nodes.map(node => {
+    const parentId = parentOf.get(node.id) ?? null;
+    const linked = parentId === node.parentId ? node : { ...node, parentId };
+    if (linked.type !== 'group') return linked;
+    const childIds = nodes.filter(child => childrenOf.get(node.id)?.includes(child.id)).map(child => child.id);
+    return { ...linked, childIds };
+  });
+}
+
+// UnifiedShape (contexts/EditorContext.tsx)
+
+export function fromUnifiedShape(shape: UnifiedShape): DocumentNode {
+  const base = {
+    id: shape.id,
+    name: shape.name,
+    parentId: shape.parentGroupId ?? null,
+    x: shape.x,
+    y: shape.y,
+    width: shape.width,
+    height: shape.height,
+    rotation: shape.rotation,
+    scaleX: shape.scaleX,
+    scaleY: shape.scaleY,
+    opacity: shape.opacity,
+    visible: shape.visible,
+    locked: shape.locked,
+    extensions: withoutUndefined(renderExtensions(shape))
+  };
+  const stroke = strokeOf(shape.stroke, shape.strokeWidth);
+
+  switch (shape.type) {
+    case 'text':
+      return createNode('text', {
+        ...base,
+        ...parseFontStyle(shape.fontStyle, shape.fontWeight),
+        text: shape.text ?? '',
+        fontSize: shape.fontSize ?? 16,
+        fontFamily: shape.fontFamily ?? 'Arial',
+        underline: /underline/.test(shape.textDecoration ?? ''),
+        strikethrough: /line-through/.test(shape.textDecoration ?? ''),
+        letterSpacing: shape.letterSpacing ?? 0,
+        lineHeight: shape.lineHeight ?? 1.2,
+        align: shape.align ?? 'left',
+        verticalAlign: shape.verticalAlign ?? 'top',
+        wrap: shape.wrap ?? 'word',
+        ellipsis: shape.ellipsis ?? false,
+        padding: shape.padding ?? 0,
+        direction: shape.direction ?? 'inherit',
+        fill: solidPaint(shape.fill),
+        stroke
+      });
+    case 'image':
+      return createNode('image', { ...base, src: shape.src ?? '' });
+    case 'icon':
+      return createNode('icon', {
+        ...base,
+        svg: shape.svg ?? '',
+        iconName: shape.iconName,
+        iconCategory: shape.iconCategory,
+        fill: shape.fill ? solidPaint(shape.fill) : null
+      });
+    case 'group':
+      return createNode('group', { ...base, childIds: shape.children ?? [] });
+    case 'circle':
+      return createNode('shape', { ...base, shape: 'ellipse', fill: solidPaint(shape.fill), stroke });
+    case 'line':
+      return createNode('shape', {
+        ...base,
+        shape: 'line',
+        fill: null,
+        stroke,
+        points: shape.points ?? [0, 0, shape.width, shape.height]
+      });
+    default:
+      return createNode('shape', { ...base, shape: 'rect', fill: solidPaint(shape.fill), stroke });
+  }
+}
+
+/**
+ * Returns null for nodes EditorContext has no shape type for (stars, paths, ...)
+ */
+export function toUnifiedShape(node: DocumentNode, zIndex = 0): UnifiedShape | null {
+  const fill = node.type === 'text' || node.type === 'shape' || node.type === 'icon' ? node.fill : null;
+  const stroke = node.type === 'text' || node.type === 'shape' ? node.stroke : null;
+  const base = {
+    id: node.id,
+    x: node.x,
+    y: node.y,
+    width: node.width,
+    height: node.height,
+    visible: node.visible,
+    locked: node.locked,
+    opacity: node.opacity,
+    zIndex,
+    isSelected: false,
+    isDragging: false,
+    isResizing: false,
+    isRotating: false,
+    fill: paintColor(fill),
+    stroke: stroke?.color ?? 'transparent',
+    strokeWidth: stroke?.width ?? 0,
+    rotation: node.rotation,
+    scaleX: node.scaleX,
+    scaleY: node.scaleY,
+    parentGroupId: node.parentId ?? undefined,
+    ...renderFlagsOf(node),
+    name: node.name,
+    boundaryState: { isWithinBounds: true, violationType: null }
+  };
+
+  switch (node.type) {
+    case 'text':
+      return {
+        ...base,
+        type: 'text',
+        text: node.text,
+        fontSize: node.fontSize,
+        fontFamily: node.fontFamily,
+        fontWeight: node.fontWeight,
+        fontStyle: node.italic ? 'italic' : 'normal',
+        textDecoration: composeTextDecoration(node),
+        letterSpacing: node.letterSpacing,
+        lineHeight: node.lineHeight,
+        align: node.align,
+        verticalAlign: node.verticalAlign,
+        wrap: node.wrap,
+        ellipsis: node.ellipsis,
+        padding: node.padding,
+        direction: node.direction
+      };
+    case 'image':
+      return { ...base, type: 'image', src: node.src };
+    case 'icon':
+      return { ...base, type: 'icon', svg: node.svg, iconName: node.iconName, iconCategory: node.iconCategory };
+    case 'group':
+      return { ...base, type: 'group', children: node.childIds };
+    case 'shape':
+      if (node.shape === 'rect') return { ...base, type: 'rect' };
+      if (node.shape === 'ellipse') return { ...base, type: 'circle', radius: Math.min(node.width, node.height) / 2 };
+      if (node.shape === 'line') return { ...base, type: 'line', points: node.points };
+      return null;
+  }
+}
+
+export const nodesFromUnifiedShapes = (shapes: UnifiedShape[]): DocumentNode[] =>
+  linkGroups(byZIndex(shapes).map(fromUnifiedShape));
+
+export const unifiedShapesFromNodes = (nodes: DocumentNode[]): UnifiedShape[] =>
+  nodes.map((node, index) => toUnifiedShape(node, index)).filter((shape): shape is UnifiedShape => shape !== null);
+
+/**
+ * Node updates from a tool, as the fields to change on an EditorContext shape.
+ * Selection and drag state, which the model does not carry, are left alone
+ */
+export function unifiedShapeUpdates(shape: UnifiedShape, updates: Partial<DocumentNode>): Partial<UnifiedShape> {
+  const node = fromUnifiedShape(shape);
+  const before = toUnifiedShape(node, shape.zIndex);
+  const after = toUnifiedShape({ ...node, ...updates, id: node.id, type: node.type } as DocumentNode, shape.zIndex);
+  return before && after ? changedFields(before, after) : {};
+}
+
+// CanvasElement (types/advanced-types.ts, AdvancedImageEditor and its tools)
+
+const CANVAS_SHAPE_KINDS: Record<string, ShapeKind> = {
+  rect: 'rect',
+  circle: 'ellipse',
+  line: 'line',
+  arrow: 'arrow',
+  star: 'star',
+  regularPolygon: 'polygon',
+  wedge: 'wedge',
+  ring: 'ring',
+  arc: 'arc',
+  path: 'path'
+};
+
+const CANVAS_SHAPE_TYPES = Object.fromEntries(
+  Object.entries(CANVAS_SHAPE_KINDS).map(([type, kind]) => [kind, type])
+) as Record<ShapeKind, Exclude<ShapeElement['type'], 'group'>>;
+
+const IMAGE_FILTER_KEYS: Array<keyof ImageFilters> = [
+  'blurRadius', 'brightness', 'contrast', 'hue', 'saturation', 'value', 'sepia', 'invert',
+  'solarize', 'solarizeThreshold', 'emboss', 'embossStrength', 'embossWhiteLevel', 'embossDirection', 'embossBlend'
+];
+
+const ANIMATION_KEYS = [
+  'isAnimating', 'animationType', 'animationDuration', 'animationEasing', 'animationLoop',
+  'animationDelay', 'animationDirection', 'animationIterations', 'animationKeyframes'
+] as const;
+
+export function fromCanvasElement(element: CanvasElement): DocumentNode {
+  const base = {
+    id: element.id,
+    name: element.name,
+    parentId: element.groupId ?? null,
+    x: element.x,
+    y: element.y,
+    width: element.width,
+    height: element.height,
+    rotation: element.rotation,
+    scaleX: element.scaleX,
+    scaleY: element.scaleY,
+    opacity: element.opacity,
+    visible: element.visible,
+    locked: element.locked
+  };
+  const flags = renderExtensions(element);
+
+  switch (element.type) {
+    case 'text':
+      return createNode('text', {
+        ...base,
+        ...parseFontStyle(element.fontStyle, element.fontWeight),
+        text: element.text,
+        fontSize: element.fontSize,
+        fontFamily: element.fontFamily,
+        underline: /underline/.test(element.textDecoration),
+        strikethrough: /line-through/.test(element.textDecoration),
+        letterSpacing: element.letterSpacing,
+        lineHeight: element.lineHeight,
+        align: element.align,
+        verticalAlign: element.verticalAlign,
+        wrap: element.wrap,
+        ellipsis: element.ellipsis,
+        padding: element.padding,
+        direction: element.direction,
+        fill: paintFromKonvaFill(element, element.width, element.height) ?? solidPaint(element.fill),
+        stroke: strokeOf(element.stroke, element.strokeWidth),
+        shadow: shadowFromKonva(element),
+        extensions: withoutUndefined({ ...flags, textPath: element.textPath })
+      });
+    case 'image': {
+      const crop = element.cropData ?? (
+        element.cropWidth && element.cropHeight
+          ? { x: element.cropX ?? 0, y: element.cropY ?? 0, width: element.cropWidth, height: element.cropHeight }
+          : null
+      );
+      const filters = withoutUndefined(Object.fromEntries(IMAGE_FILTER_KEYS.map(key => [key, element[key]]))) ?? {};
+      return createNode('image', {
+        ...base,
+        src: element.src,
+        crop,
+        filters,
+        extensions: withoutUndefined({ ...flags, ...Object.fromEntries(ANIMATION_KEYS.map(key => [key, element[key]])) })
+      });
+    }
+    case 'gradient': {
+      const stops = element.stops.map(stop => ({ color: stop.color, offset: stop.position / 100, opacity: stop.opacity }));
+      const fill: Paint = element.gradientType === 'radial'
+        ? {
+            type: 'radial-gradient',
+            start: { x: element.width / 2, y: element.height / 2 },
+            end: { x: element.width / 2, y: element.height / 2 },
+            startRadius: 0,
+            endRadius: Math.max(element.width, element.height) / 2,
+            stops
+          }
+        : linearGradientFromAngle(element.angle, element.width, element.height, stops);
+      return createNode('shape', { ...base, shape: 'rect', fill, stroke: null, extensions: withoutUndefined(flags) });
+    }
+    case 'group':
+      return createNode('group', { ...base, childIds: element.children ?? [], extensions: withoutUndefined(flags) });
+    default:
+      return createNode('shape', {
+        ...base,
+        shape: CANVAS_SHAPE_KINDS[element.type] ?? 'rect',
+        fill: paintFromKonvaFill(element, element.width, element.height),
+        stroke: element.strokeEnabled === false ? null : strokeOf(element.stroke, element.strokeWidth),
+        shadow: shadowFromKonva(element),
+        cornerRadius: element.cornerRadius,
+        points: element.points,
+        closed: element.closed,
+        tension: element.tension,
+        pointerLength: element.pointerLength,
+        pointerWidth: element.pointerWidth,
+        numPoints: element.numPoints,
+        sides: element.sides,
+        innerRadius: element.innerRadius,
+        outerRadius: element.outerRadius ?? element.radius,
+        angle: element.angle,
+        clockwise: element.clockwise,
+        pathData: element.data,
+        extensions: withoutUndefined(flags)
+      });
+  }
+}
+
+const isGradientRect = (node: ShapeNode) =>
+  node.shape === 'rect' && node.stroke === null && !node.shadow && node.fill !== null && node.fill.type !== 'solid';
+
+/**
+ * Returns null for nodes the image editor has no element type for (icons)
+ */
+export function toCanvasElement(node: DocumentNode, zIndex = 0): CanvasElement | null {
+  const base = {
+    id: node.id,
+    x: node.x,
+    y: node.y,
+    width: node.width,
+    height: node.height,
+    rotation: node.rotation,
+    scaleX: node.scaleX,
+    scaleY: node.scaleY,
+    opacity: node.opacity,
+    visible: node.visible,
+    zIndex,
+    isSelected: false,
+    isDragging: false,
+    isResizing: false,
+    isRotating: false,
+    ...renderFlagsOf(node),
+    boundaryState: { isWithinBounds: true, violationType: null },
+    name: node.name,
+    locked: node.locked,
+    isGrouped: node.parentId !== null,
+    groupId: node.parentId ?? undefined
+  };
+
+  switch (node.type) {
+    case 'text': {
+      const element: TextElement = {
+        ...base,
+        ...konvaFillFromPaint(node.fill),
+        ...konvaFromShadow(node.shadow),
+        type: 'text',
+        text: node.text,
+        fontSize: node.fontSize,
+        fontFamily: node.fontFamily,
+        fill: paintColor(node.fill, '#000000'),
+        fontWeight: node.fontWeight,
+        fontStyle: composeFontStyle(node),
+        textDecoration: composeTextDecoration(node),
+        letterSpacing: node.letterSpacing,
+        lineHeight: node.lineHeight,
+        align: node.align,
+        verticalAlign: node.verticalAlign,
+        wrap: node.wrap,
+        ellipsis: node.ellipsis,
+        padding: node.padding,
+        direction: node.direction,
+        stroke: node.stroke?.color,
+        strokeWidth: node.stroke?.width,
+        wrapState: { isWrapped: node.wrap !== 'none', maxWidth: node.width, originalWidth: node.width },
+        textPath: node.extensions?.textPath as string | undefined
+      };
+      return element;
+    }
+    case 'image': {
+      const element: ImageElement = {
+        ...base,
+        ...node.filters,
+        ...(node.extensions as Partial<ImageElement> | undefined),
+        type: 'image',
+        src: node.src,
+        cropData: node.crop ?? undefined,
+        cropX: node.crop?.x,
+        cropY: node.crop?.y,
+        cropWidth: node.crop?.width,
+        cropHeight: node.crop?.height
+      };
+      return element;
+    }
+    case 'group': {
+      const element: GroupElement = { ...base, type: 'group', children: node.childIds };
+      return element;
+    }
+    case 'shape': {
+      if (isGradientRect(node) && node.fill && node.fill.type !== 'solid') {
+        const element: GradientElement = {
+          ...base,
+          type: 'gradient',
+          gradientType: node.fill.type === 'radial-gradient' ? 'radial' : 'linear',
+          angle: node.fill.type === 'linear-gradient' ? angleOfGradient(node.fill.start, node.fill.end) : 0,
+          stops: node.fill.stops.map((stop, index) => ({
+            id: `${node.id}-stop-${index}`,
+            color: stop.color,
+            position: stop.offset * 100,
+            opacity: stop.opacity ?? 1
+          }))
+        };
+        return element;
+      }
+      const element: ShapeElement = {
+        ...base,
+        ...konvaFillFromPaint(node.fill),
+        ...konvaFromShadow(node.shadow),
+        type: CANVAS_SHAPE_TYPES[node.shape],
+        fill: paintColor(node.fill),
+        stroke: node.stroke?.color ?? 'transparent',
+        strokeWidth: node.stroke?.width ?? 0,
+        fillEnabled: node.fill !== null,
+        strokeEnabled: node.stroke !== null,
+        cornerRadius: node.cornerRadius,
+        radius: node.shape === 'ellipse' ? Math.min(node.width, node.height) / 2 : node.outerRadius,
+        points: node.points,
+        closed: node.closed,
+        tension: node.tension,
+        pointerLength: node.pointerLength,
+        pointerWidth: node.pointerWidth,
+        numPoints: node.numPoints,
+        innerRadius: node.innerRadius,
+        outerRadius: node.outerRadius,
+        sides: node.sides,
+        angle: node.angle,
+        clockwise: node.clockwise,
+        data: node.pathData
+      };
+      return element;
+    }
+    default:
+      return null;
+  }
+}
+
+export const nodesFromCanvasElements = (elements: CanvasElement[]): DocumentNode[] =>
+  linkGroups(byZIndex(elements).map(fromCanvasElement));
+
+export const canvasElementsFromNodes = (nodes: DocumentNode[]): CanvasElement[] =>
+  nodes.map((node, index) => toCanvasElement(node, index)).filter((element): element is CanvasElement => element !== null);
+
+/**
+ * Node updates from a tool, as the fields to change on an image editor element.
+ * Selection and drag state, which the model does not carry, are left alone
+ */
+export function canvasElementUpdates(element: CanvasElement, updates: Partial<DocumentNode>): Partial<CanvasElement> {
+  const node = fromCanvasElement(element);
+  const before = toCanvasElement(node, element.zIndex);
+  const after = toCanvasElement({ ...node, ...updates, id: node.id, type: node.type } as DocumentNode, element.zIndex);
+  return before && after ? changedFields(before, after) : {};
+}
+
+// Text engine Layer (components/BlackGlassTextEngine)
+
+const TEXT_ENGINE_EXTENSION_KEYS = ['keyframes', 'wordSpacing', 'paragraphSpacing', 'underlineOffset', 'outline'] as const;
+
+export function fromTextEngineLayer(layer: TextEngineLayer): DocumentNode {
+  const fontSize = layer.fontSize ?? 16;
+  const lineHeight = layer.lineHeight ?? 1.2;
+  const text = layer.content ?? '';
+  const base = {
+    id: layer.id,
+    name: '',
+    x: layer.x,
+    y: layer.y,
+    rotation: layer.rotation ?? 0,
+    scaleX: layer.scale ?? 1,
+    scaleY: layer.scale ?? 1,
+    opacity: layer.opacity ?? 1,
+    visible: layer.visible ?? true,
+    extensions: withoutUndefined(Object.fromEntries(TEXT_ENGINE_EXTENSION_KEYS.map(key => [key, layer[key]])))
+  };
+
+  switch (layer.type) {
+    case 'text': {
+      const lines = text.split('\n');
+      return createNode('text', {
+        ...base,
+        name: text.slice(0, 32),
+        // The engine sizes text to its content; estimate a box from the longest line
+        width: layer.width ?? Math.max(...lines.map(line => line.length)) * fontSize * 0.6,
+        height: layer.height ?? lines.length * fontSize * lineHeight,
+        text,
+        fontFamily: layer.fontFamily ?? 'Arial',
+        fontSize,
+        fontWeight: layer.bold ? 700 : layer.fontWeight ?? 400,
+        italic: layer.italic ?? false,
+        underline: layer.underline ?? false,
+        strikethrough: layer.strikethrough ?? false,
+        letterSpacing: layer.letterSpacing ?? 0,
+        lineHeight,
+        align: layer.textAlign === 'start' ? 'left' : layer.textAlign === 'end' ? 'right' : layer.textAlign ?? 'left',
+        textTransform: layer.textTransform ?? 'none',
+        fill: solidPaint(layer.color ?? '#000000'),
+        stroke: layer.stroke ? { color: layer.stroke.color, width: layer.stroke.width } : null,
+        shadow: layer.shadow ? { ...layer.shadow, opacity: 1 } : undefined
+      });
+    }
+    case 'image':
+      return createNode('image', {
+        ...base,
+        width: layer.width ?? 100,
+        height: layer.height ?? 100,
+        src: layer.imageSrc ?? layer.content ?? ''
+      });
+    default:
+      return createNode('shape', {
+        ...base,
+        width: layer.width ?? 100,
+        height: layer.height ?? 100,
+        shape: 'rect',
+        fill: solidPaint(layer.color ?? '#cccccc')
+      });
+  }
+}
+
+/**
+ * Returns null for nodes the text engine can't draw (groups, icons). Non-rect
+ * shapes come through as the engine's plain box shape
+ */
+export function toTextEngineLayer(node: DocumentNode, zIndex = 0): TextEngineLayer | null {
+  const base = {
+    id: node.id,
+    x: node.x,
+    y: node.y,
+    width: node.width,
+    height: node.height,
+    rotation: node.rotation,
+    scale: node.scaleX,
+    opacity: node.opacity,
+    visible: node.visible,
+    zIndex,
+    ...(node.extensions as Partial<TextEngineLayer> | undefined)
+  };
+
+  switch (node.type) {
+    case 'text':
+      return {
+        ...base,
+        type: 'text',
+        content: node.text,
+        fontSize: node.fontSize,
+        fontFamily: node.fontFamily,
+        fontWeight: node.fontWeight,
+        bold: node.fontWeight >= 600,
+        italic: node.italic,
+        underline: node.underline,
+        strikethrough: node.strikethrough,
+        letterSpacing: node.letterSpacing,
+        lineHeight: node.lineHeight,
+        textAlign: node.align,
+        textTransform: node.textTransform,
+        color: paintColor(node.fill, '#000000'),
+        stroke: node.stroke ?? undefined,
+        shadow: node.shadow
+          ? { offsetX: node.shadow.offsetX, offsetY: node.shadow.offsetY, blur: node.shadow.blur, color: node.shadow.color }
+          : undefined
+      };
+    case 'image':
+      return { ...base, type: 'image', imageSrc: node.src };
+    case 'shape':
+      return { ...base, type: 'shape', color: paintColor(node.fill) };
+    default:
+      return null;
+  }
+}
+
+export const nodesFromTextEngineLayers = (layers: TextEngineLayer[]): DocumentNode[] =>
+  byZIndex(layers).map(fromTextEngineLayer);
+
+export const textEngineLayersFromNodes = (nodes: DocumentNode[]): TextEngineLayer[] =>
+  nodes.map((node, index) => toTextEngineLayer(node, index)).filter((layer): layer is TextEngineLayer => layer !== null);
+
+// Loading and validation
+
+const NODE_TYPES: DocumentNodeType[] = ['text', 'image', 'shape', 'icon', 'group'];
+const NUMERIC_NODE_KEYS = ['x', 'y', 'width', 'height', 'rotation', 'scaleX', 'scaleY', 'opacity'] as const;
+
+/**
+ * Version 0 is any design saved before the canonical model: the image editor's
+ * `{ elements }`, EditorContext's `{ shapes }` and the text engine's `{ layers }`
+ */
+const migrateV0 = (data: JsonObject): JsonObject => {
+  let nodes: DocumentNode[] = [];
+  if (Array.isArray(data.elements)) nodes = nodesFromCanvasElements(data.elements);
+  else if (Array.isArray(data.shapes)) nodes = nodesFromUnifiedShapes(data.shapes);
+  else if (Array.isArray(data.layers)) nodes = nodesFromTextEngineLayers(data.layers);
+
+  const size = data.canvas ?? data.canvasSize ?? {};
+  return createDocument({
+    name: typeof data.name === 'string' ? data.name : undefined,
+    width: isFiniteNumber(size.width) ? size.width : undefined,
+    height: isFiniteNumber(size.height) ? size.height : undefined,
+    nodes
+  }) as unknown as JsonObject;
+};
+
+// Keyed by the version each migrator upgrades from
+const MIGRATIONS: Record<number, (data: JsonObject) => JsonObject> = {
+  0: migrateV0
+};
+
+const validateDocument = (data: JsonObject): string[] => {
+  const errors: string[] = [];
+  if (typeof data.id !== 'string' || data.id === '') errors.push('Document needs an id.');
+  if (!isFiniteNumber(data.width) || data.width <= 0) errors.push('Document width must be a positive number.');
+  if (!isFiniteNumber(data.height) || data.height <= 0) errors.push('Document height must be a positive number.');
+  if (!Array.isArray(data.nodes)) {
+    errors.push('Document needs a "nodes" array.');
+    return errors;
+  }
+
+  const types = new Map<string, string>();
+  data.nodes.forEach((node: unknown, i: number) => {
+    const path = `nodes[${i}]`;
+    if (!isObject(node)) {
+      errors.push(`${path} is not a node object.`);
+      return;
+    }
+    if (typeof node.id !== 'string' || node.id === '') errors.push(`${path}.id must be a string.`);
+    else if (types.has(node.id)) errors.push(`${path}.id "${node.id}" is used more than once.`);
+    else types.set(node.id, node.type);
+    if (!NODE_TYPES.includes(node.type)) errors.push(`${path}.type "${String(node.type)}" is not a node type.`);
+    NUMERIC_NODE_KEYS.forEach(key => {
+      if (!isFiniteNumber(node[key])) errors.push(`${path}.${key} must be a number.`);
+    });
+  });
+
+  data.nodes.forEach((node: JsonObject, i: number) => {
+    if (!isObject(node)) return;
+    if (node.parentId != null && types.get(node.parentId) !== 'group') {
+      errors.push(`nodes[${i}].parentId "${node.parentId}" is not a group in this document.`);
+    }
+    if (node.type === 'group') {
+      if (!Array.isArray(node.childIds)) errors.push(`nodes[${i}].childIds must be an array.`);
+      else node.childIds.filter((id: string) => !types.has(id)).forEach((id: string) => {
+        errors.push(`nodes[${i}].childIds lists missing node "${id}".`);
+      });
+    }
+  });
+  return errors;
+};
+
+/**
+ * Upgrades document JSON from any earlier version to the current schema and
+ * checks the result. Throws an Error listing every problem found
+ */
+export function migrateDocument(data: unknown): DesignDocument {
+  if (!isObject(data)) {
+    throw new Error('Document must be a JSON object.');
+  }
+  const version = data.schemaVersion === undefined ? 0 : data.schemaVersion;
+  if (!isFiniteNumber(version) || !Number.isInteger(version) || version < 0) {
+    throw new Error(`Unknown document schema version "${String(data.schemaVersion)}".`);
+  }
+  if (version > DOCUMENT_SCHEMA_VERSION) {
+    throw new Error(`Document schema version ${version} is newer than this editor supports (${DOCUMENT_SCHEMA_VERSION}).`);
+  }
+
+  let document = data;
+  for (let v = version; v < DOCUMENT_SCHEMA_VERSION; v++) {
+    document = MIGRATIONS[v](document);
+  }
+
+  const errors = validateDocument(document);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+  return document as DesignDocument;
+}
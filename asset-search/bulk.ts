@@ -0,0 +1,189 @@
+import JSZip from 'jszip';
+import type { Asset } from './types';
+
+// --- Bulk Asset Operations ---
+// Renames, metadata edits and downloads across many selected assets. Each
+// asset is its own request, run a few at a time, so one failure doesn't stop the
+// rest and every asset reports its own outcome to the progress panel.
+
+export type BulkItemStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BulkItemProgress {
+  assetId: string;
+  assetName: string;
+  status: BulkItemStatus;
+  error?: string;
+}
+
+export interface BulkJob {
+  title: string;
+  items: BulkItemProgress[];
+  finished: boolean;
+}
+
+export interface AssetMetadataUpdate {
+  name?: string;
+  label?: string;
+  description?: string;
+  tags?: string;
+}
+
+const CONCURRENCY = 3;
+
+// Characters Amplience or the downloaded file system won't accept in a name
+const UNSAFE_NAME_CHARS = /[\\/:*?"<>|]+/g;
+
+export const RENAME_TOKENS = ['name', 'index', 'label', 'date'];
+
+const tokenPattern = /\{(\w+)(?::(\d+))?\}/g;
+
+// Tokens in a rename pattern that aren't built in, e.g. {campaign}; the user fills these in
+export const getPatternVariables = (pattern: string): string[] => {
+  const names = [...pattern.matchAll(tokenPattern)].map(match => match[1]);
+  return [...new Set(names.filter(name => !RENAME_TOKENS.includes(name)))];
+};
+
+// "{campaign}_{index}" → "SS25_01"; {index:3} pads to three digits, plain {index} to the width of the count
+export const applyRenamePattern = (
+  pattern: string,
+  asset: Pick<Asset, 'name' | 'label' | 'createdDate'>,
+  index: number,
+  total: number,
+  variables: Record<string, string> = {}
+): string => {
+  const renamed = pattern.replace(tokenPattern, (match, token: string, width?: string) => {
+    switch (token) {
+      case 'name': return asset.name;
+      case 'label': return asset.label || asset.name;
+      case 'index': return String(index + 1).padStart(width ? Number(width) : String(total).length, '0');
+      case 'date': return (asset.createdDate || new Date().toISOString()).slice(0, 10);
+      default: return variables[token] ?? match;
+    }
+  });
+  return renamed.replace(UNSAFE_NAME_CHARS, '-').trim();
+};
+
+export const createBulkJob = (title: string, assets: Asset[]): BulkJob => ({
+  title,
+  finished: false,
+  items: assets.map(asset => ({ assetId: asset.id, assetName: asset.name, status: 'pending' }))
+});
+
+// Runs `task` for every asset, at most CONCURRENCY at once, reporting each status change
+export const runBulk = async (
+  job: BulkJob,
+  assets: Asset[],
+  task: (asset: Asset, index: number) => Promise<void>,
+  onProgress: (job: BulkJob) => void
+): Promise<BulkJob> => {
+  let current = job;
+  const setItem = (index: number, update: Partial<BulkItemProgress>) => {
+    const items = [...current.items];
+    items[index] = { ...items[index], ...update };
+    current = { ...current, items };
+    onProgress(current);
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < assets.length) {
+      const index = next++;
+      setItem(index, { status: 'running' });
+      try {
+        await task(assets[index], index);
+        setItem(index, { status: 'done' });
+      } catch (error) {
+        setItem(index, { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, assets.length) }, worker));
+  current = { ...current, finished: true };
+  onProgress(current);
+  return current;
+};
+
+export const updateAssetRequest = async (assetId: string, updates: AssetMetadataUpdate, userEmail: string) => {
+  const response = await fetch('/api/amplience-asset-update', {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-user-email': userEmail
+    },
+    body: JSON.stringify({ assetId, ...updates })
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!data.success) throw new Error(data.error || data.message || `HTTP ${response.status}`);
+};
+
+export const deleteAssetRequest = async (assetId: string, userEmail: string) => {
+  const response = await fetch('/api/amplience-asset-delete', {
+    method: 'DELETE',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-user-email': userEmail
+    },
+    body: JSON.stringify({ assetId })
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!data.success) throw new Error(data.error || data.message || `HTTP ${response.status}`);
+};
+
+// Tags are sent as one comma-separated string
+export const normaliseTags = (text: string): string =>
+  [...new Set(text.split(',').map(tag => tag.trim()).filter(Boolean))].join(',');
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+};
+
+const extensionFor = (asset: Asset) => EXTENSIONS[asset.mimeType] || asset.mimeType?.split('/')[1] || 'bin';
+
+// Asset names are often the uploaded file's name; drop its extension so "look.jpg" isn't zipped as "look.jpg.jpg"
+const stripExtension = (name: string, asset: Asset) => {
+  const known = new Set([...Object.values(EXTENSIONS), 'jpeg', extensionFor(asset)]);
+  const match = name.match(/\.([a-z0-9]+)$/i);
+  return match && known.has(match[1].toLowerCase()) && match.index! > 0 ? name.slice(0, match.index) : name;
+};
+
+// Zips the selected assets under their names, numbering duplicates so none overwrite another
+export const zipAssets = async (
+  job: BulkJob,
+  assets: Asset[],
+  onProgress: (job: BulkJob) => void
+): Promise<{ job: BulkJob; blob: Blob | null }> => {
+  const zip = new JSZip();
+  const usedNames = new Map<string, number>();
+
+  const finished = await runBulk(job, assets, async (asset) => {
+    if (!asset.imageUrl) throw new Error(asset.isMediaSet ? 'Media sets have no single file to download' : 'No file URL');
+    const response = await fetch(asset.imageUrl);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const blob = await response.blob();
+
+    const baseName = stripExtension((asset.name || 'asset').replace(UNSAFE_NAME_CHARS, '-'), asset);
+    const key = baseName.toLowerCase();
+    const count = (usedNames.get(key) || 0) + 1;
+    usedNames.set(key, count);
+    zip.file(`${count > 1 ? `${baseName}_${count}` : baseName}.${extensionFor(asset)}`, blob);
+  }, onProgress);
+
+  const downloaded = finished.items.some(item => item.status === 'done');
+  return { job: finished, blob: downloaded ? await zip.generateAsync({ type: 'blob' }) : null };
+};
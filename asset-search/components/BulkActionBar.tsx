@@ -0,0 +1,179 @@
+"use client";
+
+import { useState } from 'react';
+import { Pencil, Tag, FolderPlus, Download, X } from 'lucide-react';
+import type { Asset } from '../types';
+import { applyRenamePattern, getPatternVariables } from '../bulk';
+
+interface BulkActionBarProps {
+  selectedAssets: Asset[];
+  visibleCount: number;
+  isAuthorized: boolean;
+  busy: boolean;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onRename: (pattern: string, variables: Record<string, string>) => void;
+  onUpdateMetadata: (updates: { label?: string; tags?: string }) => void;
+  onAddToCollection: () => void;
+  onDownload: () => void;
+}
+
+type Panel = 'rename' | 'metadata' | null;
+
+const PREVIEW_COUNT = 3;
+
+const BulkActionBar = ({
+  selectedAssets,
+  visibleCount,
+  isAuthorized,
+  busy,
+  onSelectAll,
+  onClear,
+  onRename,
+  onUpdateMetadata,
+  onAddToCollection,
+  onDownload
+}: BulkActionBarProps) => {
+  const [panel, setPanel] = useState<Panel>(null);
+  const [pattern, setPattern] = useState('{campaign}_{index}');
+  const [variables, setVariables] = useState<Record<string, string>>({});
+  const [label, setLabel] = useState('');
+  const [tags, setTags] = useState('');
+
+  const count = selectedAssets.length;
+  const patternVariables = getPatternVariables(pattern);
+  const missingVariables = patternVariables.filter(name => !variables[name]?.trim());
+  const preview = selectedAssets
+    .slice(0, PREVIEW_COUNT)
+    .map((asset, index) => applyRenamePattern(pattern, asset, index, count, variables));
+
+  const togglePanel = (next: Panel) => setPanel(current => (current === next ? null : next));
+
+  const actionButton = (onClick: () => void, Icon: typeof Pencil, text: string, active = false) => (
+    <button
+      onClick={onClick}
+      disabled={busy}
+      className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border transition disabled:opacity-50 ${active ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-gray-200 text-gray-700 hover:bg-gray-50'}`}
+    >
+      <Icon className="h-4 w-4" />
+      {text}
+    </button>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-4 mb-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-800 mr-2">{count} selected</span>
+        {count < visibleCount && (
+          <button onClick={onSelectAll} className="text-sm text-blue-600 hover:text-blue-800">
+            Select all {visibleCount}
+          </button>
+        )}
+        <button onClick={onClear} className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700">
+          <X className="h-4 w-4" />
+          Clear
+        </button>
+
+        <div className="flex flex-wrap gap-2 ml-auto">
+          {isAuthorized && (
+            <>
+              {actionButton(() => togglePanel('rename'), Pencil, 'Rename', panel === 'rename')}
+              {actionButton(() => togglePanel('metadata'), Tag, 'Label & Tags', panel === 'metadata')}
+            </>
+          )}
+          {actionButton(onAddToCollection, FolderPlus, 'Add to Collection')}
+          {actionButton(onDownload, Download, 'Download ZIP')}
+        </div>
+      </div>
+
+      {panel === 'rename' && (
+        <div className="mt-4 border-t border-gray-100 pt-4 space-y-3 text-sm">
+          <label className="flex flex-col gap-1 text-gray-600">
+            Pattern
+            <input
+              type="text"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              className="border border-gray-200 rounded-lg px-3 py-1.5 font-mono"
+            />
+          </label>
+          <p className="text-xs text-gray-500">
+            Use {'{name}'}, {'{label}'}, {'{date}'} and {'{index}'} ({'{index:3}'} pads to three digits). Any other {'{word}'} becomes a field below.
+          </p>
+          {patternVariables.map(name => (
+            <label key={name} className="flex items-center gap-2 text-gray-600">
+              <span className="w-28 font-mono">{`{${name}}`}</span>
+              <input
+                type="text"
+                value={variables[name] || ''}
+                onChange={(e) => setVariables(prev => ({ ...prev, [name]: e.target.value }))}
+                className="flex-1 border border-gray-200 rounded-lg px-3 py-1.5"
+              />
+            </label>
+          ))}
+          <div className="text-gray-600">
+            Preview:
+            <ul className="mt-1 space-y-0.5 font-mono text-xs text-gray-800">
+              {preview.map((name, index) => (
+                <li key={selectedAssets[index].id}>
+                  <span className="text-gray-400">{selectedAssets[index].name} →</span> {name}
+                </li>
+              ))}
+              {count > PREVIEW_COUNT && <li className="text-gray-400">…and {count - PREVIEW_COUNT} more</li>}
+            </ul>
+          </div>
+          <button
+            onClick={() => {
+              onRename(pattern, variables);
+              setPanel(null);
+            }}
+            disabled={busy || !pattern.trim() || missingVariables.length > 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Rename {count} asset{count !== 1 ? 's' : ''}
+          </button>
+        </div>
+      )}
+
+      {panel === 'metadata' && (
+        <div className="mt-4 border-t border-gray-100 pt-4 space-y-3 text-sm">
+          <label className="flex flex-col gap-1 text-gray-600">
+            Label
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Leave empty to keep each asset's label"
+              className="border border-gray-200 rounded-lg px-3 py-1.5"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-gray-600">
+            Tags
+            <input
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="Comma separated; replaces existing tags. Leave empty to keep them"
+              className="border border-gray-200 rounded-lg px-3 py-1.5"
+            />
+          </label>
+          <button
+            onClick={() => {
+              onUpdateMetadata({
+                ...(label.trim() ? { label: label.trim() } : {}),
+                ...(tags.trim() ? { tags } : {})
+              });
+              setPanel(null);
+            }}
+            disabled={busy || (!label.trim() && !tags.trim())}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Update {count} asset{count !== 1 ? 's' : ''}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -0,0 +1,83 @@
+"use client";
+
+import { CheckCircle, XCircle, Loader2, RotateCcw, X } from 'lucide-react';
+import type { BulkJob } from '../bulk';
+
+interface BulkProgressPanelProps {
+  job: BulkJob;
+  onRetryFailed: () => void;
+  onClose: () => void;
+}
+
+const BulkProgressPanel = ({ job, onRetryFailed, onClose }: BulkProgressPanelProps) => {
+  const total = job.items.length;
+  const done = job.items.filter(item => item.status === 'done').length;
+  const failed = job.items.filter(item => item.status === 'failed');
+  const completed = done + failed.length;
+
+  return (
+    <div className="fixed bottom-4 right-4 w-96 max-w-[calc(100vw-2rem)] bg-white rounded-xl shadow-xl border border-gray-200 z-40">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+        <h3 className="text-sm font-semibold text-gray-800">{job.title}</h3>
+        {job.finished && (
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      <div className="px-4 py-3 space-y-3 text-sm">
+        <div>
+          <div className="flex justify-between text-gray-600 mb-1">
+            <span>{completed} of {total}</span>
+            <span>
+              {done} succeeded{failed.length > 0 && <span className="text-red-600"> · {failed.length} failed</span>}
+            </span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all ${failed.length > 0 ? 'bg-amber-500' : 'bg-green-500'}`}
+              style={{ width: `${total ? (completed / total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+
+        <ul className="max-h-48 overflow-y-auto space-y-1">
+          {job.items.filter(item => item.status !== 'done').map(item => (
+            <li key={item.assetId} className="flex items-start gap-2">
+              {item.status === 'failed' ? (
+                <XCircle className="h-4 w-4 text-red-500 flex-shrink-0 mt-0.5" />
+              ) : item.status === 'running' ? (
+                <Loader2 className="h-4 w-4 text-blue-500 animate-spin flex-shrink-0 mt-0.5" />
+              ) : (
+                <span className="h-4 w-4 rounded-full border border-gray-300 flex-shrink-0 mt-0.5" />
+              )}
+              <span className="min-w-0">
+                <span className="block truncate text-gray-800" title={item.assetName}>{item.assetName}</span>
+                {item.error && <span className="block text-xs text-red-600">{item.error}</span>}
+              </span>
+            </li>
+          ))}
+          {job.finished && failed.length === 0 && (
+            <li className="flex items-center gap-2 text-green-700">
+              <CheckCircle className="h-4 w-4" />
+              All done
+            </li>
+          )}
+        </ul>
+
+        {job.finished && failed.length > 0 && (
+          <button
+            onClick={onRetryFailed}
+            className="flex items-center gap-1 text-blue-600 hover:text-blue-800"
+          >
+            <RotateCcw className="h-4 w-4" />
+            Retry {failed.length} failed
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BulkProgressPanel;
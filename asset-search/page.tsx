@@ -1,26 +1,25 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import ApiStatusCheck from '@/components/ApiStatusCheck';
 import { useAuthorization } from '@/hooks/useAuthorization';
 import { CollectionPreview } from '@/components/CollectionPreview';
-
-interface Asset {
-  id: string;
-  name: string;
-  label: string;
-  mimeType: string;
-  createdDate: string;
-  imageUrl: string | null;
-  isMediaSet?: boolean;
-  contents?: string[];
-  debug?: {
-    name: string;
-    filename: string;
-    thumbFile: string;
-    file: string;
-  };
-}
+import BulkActionBar from './components/BulkActionBar';
+import BulkProgressPanel from './components/BulkProgressPanel';
+import type { Asset } from './types';
+import type { BulkJob } from './bulk';
+import {
+  applyRenamePattern,
+  createBulkJob,
+  deleteAssetRequest,
+  downloadBlob,
+  normaliseTags,
+  runBulk,
+  updateAssetRequest,
+  zipAssets
+} from './bulk';
+import type { Collection, CollectionProduct } from '@/types/collection';
+import { updateCollection, fetchCollections as fetchStoredCollections, assetToProduct, getRole, canEdit } from '@/lib/collections';
 
 export default function AssetSearch() {
   // Authorization hook
@@ -40,14 +39,18 @@ export default function AssetSearch() {
   const [repositories, setRepositories] = useState<{id: string, label: string}[]>([]);
   const [selectedRepository, setSelectedRepository] = useState<string>('');
   const [loadingRepositories, setLoadingRepositories] = useState(false);
-  const [collections, setCollections] = useState<{id: string, name: string}[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
   const [loadingCollections, setLoadingCollections] = useState(false);
   const [selectedCollection, setSelectedCollection] = useState<string>('');
   const [showCollectionModal, setShowCollectionModal] = useState(false);
-  const [selectedAsset, setSelectedAsset] = useState<Asset | null>(null);
+  const [collectionModalAssets, setCollectionModalAssets] = useState<Asset[]>([]);
   const [updatingAsset, setUpdatingAsset] = useState<string | null>(null);
   const [deletingAsset, setDeletingAsset] = useState<string | null>(null);
   const [showCollections, setShowCollections] = useState(false); // Hidden by default
+  const [selectedAssetIds, setSelectedAssetIds] = useState<Set<string>>(new Set());
+  const [bulkJob, setBulkJob] = useState<BulkJob | null>(null);
+  // Re-runs the last bulk operation for the assets that failed
+  const bulkRetryRef = useRef<((failedIds: Set<string>) => Promise<void>) | null>(null);
   
   // Cache for search results
   const [searchCache, setSearchCache] = useState<Record<string, {
@@ -91,18 +94,9 @@ export default function AssetSearch() {
   async function fetchCollections() {
     setLoadingCollections(true);
     try {
-      // For now, fetch all public collections (no userId required)
-      const response = await fetch(`/api/collections?userId=${userId}`);
-      const data = await response.json();
-      
-      if (data.collections && Array.isArray(data.collections)) {
-        setCollections(data.collections.map((col: any) => ({
-          id: col.id,
-          name: col.name
-        })));
-      } else {
-        setCollections([]);
-      }
+      // Their own and shared collections, but only those this user may add to
+      const loaded = await fetchStoredCollections<CollectionProduct>(userId);
+      setCollections(loaded.filter(col => col.id && canEdit(getRole(col, userId))));
     } catch (err: any) {
       console.error('Error fetching collections:', err);
       setCollections([]);
@@ -141,7 +135,7 @@ export default function AssetSearch() {
     return () => clearTimeout(delayDebounceFn);
   }, [searchTerm, fileType, selectedRepository, showPublishedOnly]);
 
-  async function searchAssets(term: string, cursor: string | null = null) {
+  async function searchAssets(term: string, cursor: string | null = null, bypassCache = false) {
     console.log('🔍 searchAssets called with:', { term, cursor, selectedRepository, fileType });
     setLoading(true);
     setError(null);
@@ -152,7 +146,7 @@ export default function AssetSearch() {
     
     try {
       // Check if we have cached results
-      if (searchCache[cacheKey]) {
+      if (!bypassCache && searchCache[cacheKey]) {
         console.log('🔍 Using cached results');
         const cachedData = searchCache[cacheKey];
         
@@ -246,45 +240,52 @@ export default function AssetSearch() {
     }
   };
 
-  // Add asset to collection
-  async function addAssetToCollection(asset: Asset, collectionId: string) {
+  // Add assets to collection
+  async function addAssetsToCollection(assetsToAdd: Asset[], collectionId: string) {
+    const collection = collections.find(col => col.id === collectionId);
+    if (!collection) return;
+
     try {
-      const response = await fetch('/api/collections/add-asset', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-user-email': userEmail || ''
-        },
-        body: JSON.stringify({
-          collectionId,
-          assetData: asset
-        })
-      });
+      const result = await updateCollection(collection, assetsToAdd.map(asset => ({
+        type: 'add' as const,
+        item: {
+          product: assetToProduct(asset),
+          selectedSwatch: null,
+          imageUrl: asset.imageUrl || '',
+          itemType: 'asset' as const
+        }
+      })), userId);
 
-      const data = await response.json();
-      
-      if (data.success) {
-        alert(`Successfully added "${asset.name}" to collection!`);
+      const saved = result.status === 'saved' ? result.collection : result.latest;
+      setCollections(prev => prev.map(col => (col.id === saved.id ? saved : col)));
+
+      if (result.status === 'saved') {
+        const added = saved.products.length - collection.products.length;
+        const skipped = assetsToAdd.length - added;
+        alert(assetsToAdd.length === 1 && added === 1
+          ? `Successfully added "${assetsToAdd[0].name}" to collection!`
+          : `Added ${added} asset${added !== 1 ? 's' : ''} to "${saved.name}"${skipped > 0 ? ` (${skipped} already in it)` : ''}.`);
         setShowCollectionModal(false);
-        setSelectedAsset(null);
+        setCollectionModalAssets([]);
         setSelectedCollection('');
       } else {
-        alert(`Failed to add asset: ${data.error || data.message}`);
+        alert(`Failed to add asset${assetsToAdd.length !== 1 ? 's' : ''}: ${result.message}`);
       }
     } catch (error) {
-      console.error('Error adding asset to collection:', error);
-      alert('Failed to add asset to collection. Please try again.');
+      console.error('Error adding assets to collection:', error);
+      alert(`Failed to add to collection: ${error instanceof Error ? error.message : 'Please try again.'}`);
     }
   }
 
   // Create collection function
   const createCollection = async (name: string): Promise<string> => {
-    const newCollection = {
+    const newCollection: Collection = {
       id: `collection_${Date.now()}`,
       name: name,
       products: [],
       createdAt: new Date().toISOString(),
-      isPublic: false
+      isPublic: false,
+      userId
     };
     
     try {
@@ -319,30 +320,13 @@ export default function AssetSearch() {
   async function updateAsset(assetId: string, updates: { name?: string; label?: string; description?: string; tags?: string }) {
     setUpdatingAsset(assetId);
     try {
-      const response = await fetch('/api/amplience-asset-update', {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-user-email': userEmail || ''
-        },
-        body: JSON.stringify({
-          assetId,
-          ...updates
-        })
-      });
-
-      const data = await response.json();
-      
-      if (data.success) {
-        alert(`Successfully updated asset!`);
-        // Refresh the search to show updated data
-        await searchAssets(searchTerm);
-      } else {
-        alert(`Failed to update asset: ${data.error || data.message}`);
-      }
+      await updateAssetRequest(assetId, updates, userEmail || '');
+      alert(`Successfully updated asset!`);
+      // Refresh the search to show updated data
+      await searchAssets(searchTerm || '*', null, true);
     } catch (error) {
       console.error('Error updating asset:', error);
-      alert('Failed to update asset. Please try again.');
+      alert(`Failed to update asset: ${error instanceof Error ? error.message : 'Please try again.'}`);
     } finally {
       setUpdatingAsset(null);
     }
@@ -356,34 +340,77 @@ export default function AssetSearch() {
 
     setDeletingAsset(assetId);
     try {
-      const response = await fetch('/api/amplience-asset-delete', {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-user-email': userEmail || ''
-        },
-        body: JSON.stringify({
-          assetId
-        })
+      await deleteAssetRequest(assetId, userEmail || '');
+      alert(`Successfully deleted asset "${assetName}"!`);
+      setSelectedAssetIds(prev => {
+        const next = new Set(prev);
+        next.delete(assetId);
+        return next;
       });
-
-      const data = await response.json();
-      
-      if (data.success) {
-        alert(`Successfully deleted asset "${assetName}"!`);
-        // Refresh the search to show updated data
-        await searchAssets(searchTerm);
-      } else {
-        alert(`Failed to delete asset: ${data.error || data.message}`);
-      }
+      // Refresh the search to show updated data
+      await searchAssets(searchTerm || '*', null, true);
     } catch (error) {
       console.error('Error deleting asset:', error);
-      alert('Failed to delete asset. Please try again.');
+      alert(`Failed to delete asset: ${error instanceof Error ? error.message : 'Please try again.'}`);
     } finally {
       setDeletingAsset(null);
     }
   }
 
+  const visibleAssets = assets.filter(asset =>
+    (fileType === 'all' || asset.mimeType === fileType) &&
+    !(hideMediaSets && asset.isMediaSet)
+  );
+  const selectedAssets = visibleAssets.filter(asset => selectedAssetIds.has(asset.id));
+  const bulkRunning = bulkJob !== null && !bulkJob.finished;
+
+  const toggleSelected = (assetId: string) => {
+    setSelectedAssetIds(prev => {
+      const next = new Set(prev);
+      if (next.has(assetId)) next.delete(assetId);
+      else next.add(assetId);
+      return next;
+    });
+  };
+
+  // Runs one request per asset, then refreshes the results and leaves only the failures selected
+  async function runBulkOperation(title: string, targets: Asset[], task: (asset: Asset) => Promise<void>) {
+    if (targets.length === 0) return;
+    bulkRetryRef.current = failedIds => runBulkOperation(title, targets.filter(asset => failedIds.has(asset.id)), task);
+    const finished = await runBulk(createBulkJob(title, targets), targets, task, setBulkJob);
+
+    setSelectedAssetIds(new Set(finished.items.filter(item => item.status === 'failed').map(item => item.assetId)));
+    if (finished.items.some(item => item.status === 'done')) {
+      await searchAssets(searchTerm || '*', null, true);
+    }
+  }
+
+  function bulkRename(targets: Asset[], pattern: string, variables: Record<string, string>) {
+    // Names are worked out up front so a retry keeps each asset's original index
+    const names = new Map(targets.map((asset, index) => [asset.id, applyRenamePattern(pattern, asset, index, targets.length, variables)]));
+    return runBulkOperation(`Renaming ${targets.length} assets`, targets, async (asset) => {
+      const name = names.get(asset.id);
+      if (!name) throw new Error('The pattern gave an empty name');
+      if (name !== asset.name) await updateAssetRequest(asset.id, { name }, userEmail || '');
+    });
+  }
+
+  function bulkUpdateMetadata(targets: Asset[], updates: { label?: string; tags?: string }) {
+    const normalised = { ...updates, ...(updates.tags !== undefined ? { tags: normaliseTags(updates.tags) } : {}) };
+    return runBulkOperation(`Updating ${targets.length} assets`, targets, asset =>
+      updateAssetRequest(asset.id, normalised, userEmail || ''));
+  }
+
+  async function bulkDownload(targets: Asset[]) {
+    if (targets.length === 0) return;
+    bulkRetryRef.current = failedIds => bulkDownload(targets.filter(asset => failedIds.has(asset.id)));
+    const { job, blob } = await zipAssets(createBulkJob(`Downloading ${targets.length} assets`, targets), targets, setBulkJob);
+    if (blob) {
+      downloadBlob(blob, `assets-${new Date().toISOString().slice(0, 10)}.zip`);
+    }
+    setSelectedAssetIds(new Set(job.items.filter(item => item.status === 'failed').map(item => item.assetId)));
+  }
+
   const isImage = (mimeType: string) => mimeType?.startsWith('image/');
   const isMediaSet = (mimeType: string) => mimeType === 'application/x-amplience-media-set';
 
@@ -521,18 +548,46 @@ export default function AssetSearch() {
           </div>
         )}
 
-        <div className="mb-4">
+        <div className="mb-4 flex items-center justify-between">
           <p className="text-gray-600">Found {total} assets</p>
+          {selectedAssets.length === 0 && visibleAssets.length > 0 && (
+            <button
+              onClick={() => setSelectedAssetIds(new Set(visibleAssets.map(asset => asset.id)))}
+              className="text-sm text-blue-600 hover:text-blue-800 transition"
+            >
+              Select all
+            </button>
+          )}
         </div>
 
+        {selectedAssets.length > 0 && (
+          <BulkActionBar
+            selectedAssets={selectedAssets}
+            visibleCount={visibleAssets.length}
+            isAuthorized={isAuthorized}
+            busy={bulkRunning}
+            onSelectAll={() => setSelectedAssetIds(new Set(visibleAssets.map(asset => asset.id)))}
+            onClear={() => setSelectedAssetIds(new Set())}
+            onRename={(pattern, variables) => bulkRename(selectedAssets, pattern, variables)}
+            onUpdateMetadata={(updates) => bulkUpdateMetadata(selectedAssets, updates)}
+            onAddToCollection={() => {
+              setCollectionModalAssets(selectedAssets);
+              setShowCollectionModal(true);
+            }}
+            onDownload={() => bulkDownload(selectedAssets)}
+          />
+        )}
+
         <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
-          {assets
-            .filter(asset => 
-              (fileType === 'all' || asset.mimeType === fileType) && 
-              !(hideMediaSets && asset.isMediaSet)
-            )
-            .map((asset) => (
-            <div key={asset.id} className="group relative border bg-white rounded-lg overflow-hidden shadow-sm hover:shadow-lg transition-shadow duration-300">
+          {visibleAssets.map((asset) => (
+            <div key={asset.id} className={`group relative border bg-white rounded-lg overflow-hidden shadow-sm hover:shadow-lg transition-shadow duration-300 ${selectedAssetIds.has(asset.id) ? 'ring-2 ring-blue-500' : ''}`}>
+              <input
+                type="checkbox"
+                checked={selectedAssetIds.has(asset.id)}
+                onChange={() => toggleSelected(asset.id)}
+                className={`absolute top-2 left-2 z-[1] h-4 w-4 cursor-pointer transition-opacity ${selectedAssetIds.size > 0 ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+                aria-label={`Select ${asset.name}`}
+              />
               <div className="aspect-square w-full bg-gray-50 flex items-center justify-center">
                 {asset.imageUrl ? (
                   <img
@@ -572,7 +627,7 @@ export default function AssetSearch() {
                   {/* Add to Collection Button */}
                   <button 
                     onClick={() => {
-                      setSelectedAsset(asset);
+                      setCollectionModalAssets([asset]);
                       setShowCollectionModal(true);
                     }}
                     className="text-xs bg-purple-500 text-white px-2 py-1 rounded hover:bg-purple-600 transition"
@@ -640,15 +695,7 @@ export default function AssetSearch() {
                       onClick={async () => {
                         try {
                           const response = await fetch(asset.imageUrl!);
-                          const blob = await response.blob();
-                          const url = window.URL.createObjectURL(blob);
-                          const link = document.createElement('a');
-                          link.href = url;
-                          link.download = `${asset.name || 'asset'}.jpg`;
-                          document.body.appendChild(link);
-                          link.click();
-                          document.body.removeChild(link);
-                          window.URL.revokeObjectURL(url);
+                          downloadBlob(await response.blob(), `${asset.name || 'asset'}.jpg`);
                         } catch (error) {
                           console.error('Download failed:', error);
                           alert('Download failed. Please try right-clicking and "Save as".');
@@ -680,11 +727,13 @@ export default function AssetSearch() {
         )}
 
         {/* Collection Modal */}
-        {showCollectionModal && selectedAsset && (
+        {showCollectionModal && collectionModalAssets.length > 0 && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
             <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
               <h3 className="text-lg font-semibold mb-4">
-                Add "{selectedAsset.name}" to Collection
+                {collectionModalAssets.length === 1
+                  ? `Add "${collectionModalAssets[0].name}" to Collection`
+                  : `Add ${collectionModalAssets.length} assets to Collection`}
               </h3>
               
               {collections.length === 0 ? (
@@ -718,7 +767,7 @@ export default function AssetSearch() {
                     <button
                       onClick={() => {
                         if (selectedCollection) {
-                          addAssetToCollection(selectedAsset, selectedCollection);
+                          addAssetsToCollection(collectionModalAssets, selectedCollection);
                         } else {
                           alert('Please select a collection first.');
                         }
@@ -731,7 +780,7 @@ export default function AssetSearch() {
                     <button
                       onClick={() => {
                         setShowCollectionModal(false);
-                        setSelectedAsset(null);
+                        setCollectionModalAssets([]);
                         setSelectedCollection('');
                       }}
                       className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition"
@@ -744,6 +793,16 @@ export default function AssetSearch() {
             </div>
           </div>
         )}
+
+        {bulkJob && (
+          <BulkProgressPanel
+            job={bulkJob}
+            onRetryFailed={() => {
+              bulkRetryRef.current?.(new Set(bulkJob.items.filter(item => item.status === 'failed').map(item => item.assetId)));
+            }}
+            onClose={() => setBulkJob(null)}
+          />
+        )}
       </div>
     </div>
   );
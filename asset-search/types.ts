@@ -0,0 +1,18 @@
+// --- Asset Search Types ---
+
+export interface Asset {
+  id: string;
+  name: string;
+  label: string;
+  mimeType: string;
+  createdDate: string;
+  imageUrl: string | null;
+  isMediaSet?: boolean;
+  contents?: string[];
+  debug?: {
+    name: string;
+    filename: string;
+    thumbFile: string;
+    file: string;
+  };
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { useState } from 'react';
+import { Users, History, Activity, Globe, Lock, X, RotateCcw } from 'lucide-react';
+import type { Collection, CollectionActivity, CollectionRole } from '@/types/collection';
+import type { CollectionChange } from '@/lib/collections';
+import { getRole, canEdit, canManage } from '@/lib/collections';
+
+interface CollectionManagePanelProps {
+  collection: Collection;
+  userId: string;
+  onChange: (changes: CollectionChange<Collection['products'][number]>[]) => Promise<void>;
+}
+
+type Tab = 'sharing' | 'activity' | 'history';
+
+const ACTIVITY_SHOWN = 30;
+
+const describeActivity = (entry: CollectionActivity) => {
+  const item = `${entry.itemType === 'asset' ? 'asset' : 'product'} "${entry.itemName}"`;
+  switch (entry.action) {
+    case 'add': return `added ${item}`;
+    case 'remove': return `removed ${item}`;
+    case 'rename': return `renamed it ${entry.detail}`;
+    case 'share': return `changed access: ${entry.detail}`;
+    case 'visibility': return `made it ${entry.detail}`;
+    case 'restore': return `restored ${entry.detail}`;
+  }
+};
+
+const CollectionManagePanel = ({ collection, userId, onChange }: CollectionManagePanelProps) => {
+  const [tab, setTab] = useState<Tab>('sharing');
+  const [memberEmail, setMemberEmail] = useState('');
+  const [memberRole, setMemberRole] = useState<CollectionRole>('editor');
+  const [saving, setSaving] = useState(false);
+
+  const role = getRole(collection, userId);
+  const members = collection.members || [];
+  const activity = [...(collection.activity || [])].reverse().slice(0, ACTIVITY_SHOWN);
+  const history = [...(collection.history || [])].reverse();
+
+  const submit = async (changes: CollectionChange<Collection['products'][number]>[]) => {
+    setSaving(true);
+    try {
+      await onChange(changes);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddMember = async () => {
+    const email = memberEmail.trim().toLowerCase();
+    if (!email) return;
+    await submit([{ type: 'share', userId: email, role: memberRole }]);
+    setMemberEmail('');
+  };
+
+  const tabButton = (id: Tab, label: string, Icon: typeof Users) => (
+    <button
+      onClick={() => setTab(id)}
+      className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg transition ${tab === id ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-100'}`}
+    >
+      <Icon className="h-4 w-4" />
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="border-t border-gray-100 px-6 py-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex gap-1">
+          {tabButton('sharing', 'Sharing', Users)}
+          {tabButton('activity', 'Activity', Activity)}
+          {tabButton('history', 'History', History)}
+        </div>
+        <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 capitalize">
+          {role ? `You: ${role}` : 'No access'}
+        </span>
+      </div>
+
+      {tab === 'sharing' && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600">
+              Owner: <span className="font-medium text-gray-800">{collection.userId || 'everyone (unowned)'}</span>
+            </span>
+            {canManage(role) && (
+              <button
+                onClick={() => submit([{ type: 'visibility', isPublic: !collection.isPublic }])}
+                disabled={saving}
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+              >
+                {collection.isPublic ? <Lock className="h-4 w-4" /> : <Globe className="h-4 w-4" />}
+                Make {collection.isPublic ? 'private' : 'public'}
+              </button>
+            )}
+          </div>
+
+          {members.length === 0 ? (
+            <p className="text-sm text-gray-500">Not shared with anyone yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {members.map(member => (
+                <li key={member.userId} className="flex items-center gap-3 py-2 text-sm">
+                  <span className="flex-1 truncate text-gray-800">{member.userId}</span>
+                  {canManage(role) ? (
+                    <>
+                      <select
+                        value={member.role}
+                        onChange={(e) => submit([{ type: 'share', userId: member.userId, role: e.target.value as CollectionRole }])}
+                        disabled={saving}
+                        className="border border-gray-200 rounded px-2 py-1 text-sm"
+                      >
+                        <option value="editor">Editor</option>
+                        <option value="viewer">Viewer</option>
+                      </select>
+                      <button
+                        onClick={() => submit([{ type: 'share', userId: member.userId, role: null }])}
+                        disabled={saving}
+                        className="p-1 text-gray-400 hover:text-red-500"
+                        title="Remove access"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <span className="capitalize text-gray-500">{member.role}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {canManage(role) && (
+            <div className="flex gap-2">
+              <input
+                type="email"
+                value={memberEmail}
+                onChange={(e) => setMemberEmail(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddMember()}
+                placeholder="colleague@lkbennett.com"
+                className="flex-1 border border-gray-200 rounded-lg px-3 py-1.5 text-sm"
+              />
+              <select
+                value={memberRole}
+                onChange={(e) => setMemberRole(e.target.value as CollectionRole)}
+                className="border border-gray-200 rounded-lg px-2 py-1.5 text-sm"
+              >
+                <option value="editor">Editor</option>
+                <option value="viewer">Viewer</option>
+              </select>
+              <button
+                onClick={handleAddMember}
+                disabled={saving || !memberEmail.trim()}
+                className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                Share
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {tab === 'activity' && (
+        activity.length === 0 ? (
+          <p className="text-sm text-gray-500">No activity recorded yet.</p>
+        ) : (
+          <ul className="space-y-1 max-h-64 overflow-y-auto text-sm">
+            {activity.map(entry => (
+              <li key={entry.id} className="flex gap-2">
+                <span className="text-gray-400 whitespace-nowrap">{new Date(entry.at).toLocaleString()}</span>
+                <span className="text-gray-700">
+                  <span className="font-medium">{entry.userId}</span> {describeActivity(entry)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+
+      {tab === 'history' && (
+        history.length === 0 ? (
+          <p className="text-sm text-gray-500">No earlier versions yet; one is kept each time the products or name change.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 max-h-64 overflow-y-auto text-sm">
+            {history.map(version => (
+              <li key={version.version} className="flex items-center gap-3 py-2">
+                <span className="font-medium text-gray-800">v{version.version}</span>
+                <span className="flex-1 text-gray-500">
+                  {version.products.length} items · {version.savedBy} · {new Date(version.savedAt).toLocaleString()}
+                </span>
+                {version.version === (collection.version ?? 0) ? (
+                  <span className="text-xs text-gray-400">Current</span>
+                ) : canEdit(role) && (
+                  <button
+                    onClick={() => submit([{ type: 'restore', version: version.version }])}
+                    disabled={saving}
+                    className="flex items-center gap-1 text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                    Restore
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+};
+
+export default CollectionManagePanel;
@@ -0,0 +1,163 @@
+"use client";
+
+import { useState } from 'react';
+import { FileText, FileSpreadsheet } from 'lucide-react';
+import type { Collection } from '@/types/collection';
+import type { LineSheetOptions } from '../line-sheet';
+import {
+  DEFAULT_LINE_SHEET_OPTIONS,
+  getLineSheetRows,
+  renderLineSheetPdf,
+  downloadLineSheetCsv,
+  lineSheetToXlsx,
+  downloadFile
+} from '../line-sheet';
+
+interface LineSheetExportProps {
+  collections: Collection[];
+}
+
+const fileName = (collections: Collection[], extension: string) => {
+  const base = collections.length === 1 ? collections[0].name : 'line-sheet';
+  return `${base.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'line-sheet'}.${extension}`;
+};
+
+const LineSheetExport = ({ collections }: LineSheetExportProps) => {
+  const [options, setOptions] = useState<LineSheetOptions>(DEFAULT_LINE_SHEET_OPTIONS);
+  const [exporting, setExporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const productCount = collections.reduce((sum, collection) => sum + collection.products.length, 0);
+  const title = collections.length === 1 ? `${collections[0].name} Line Sheet` : 'Line Sheet';
+
+  const update = <K extends keyof LineSheetOptions>(key: K, value: LineSheetOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleExportPdf = async () => {
+    setExporting(true);
+    setMessage(null);
+    try {
+      const { bytes, skippedImages } = await renderLineSheetPdf(collections, options, title);
+      downloadFile(bytes as BlobPart, 'application/pdf', fileName(collections, 'pdf'));
+      if (skippedImages > 0) {
+        setMessage(`${skippedImages} image${skippedImages === 1 ? '' : 's'} couldn't be loaded and ${skippedImages === 1 ? 'was' : 'were'} left blank.`);
+      }
+    } catch (error) {
+      console.error('Error exporting line sheet:', error);
+      setMessage(`Failed to export line sheet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleExportCsv = () => {
+    downloadLineSheetCsv(getLineSheetRows(collections), fileName(collections, 'csv'));
+  };
+
+  const handleExportXlsx = async () => {
+    setMessage(null);
+    try {
+      const blob = await lineSheetToXlsx(getLineSheetRows(collections));
+      downloadFile(blob, blob.type, fileName(collections, 'xlsx'));
+    } catch (error) {
+      console.error('Error exporting line sheet workbook:', error);
+      setMessage(`Failed to export line sheet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-800">Line Sheet</h2>
+        <span className="text-sm text-gray-500">
+          {productCount} product{productCount !== 1 ? 's' : ''} from {collections.length} collection{collections.length !== 1 ? 's' : ''}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 text-sm">
+        <label className="flex flex-col gap-1 text-gray-600">
+          Columns
+          <input
+            type="number"
+            min={1}
+            max={6}
+            value={options.columns}
+            onChange={(e) => update('columns', Math.min(6, Math.max(1, Number(e.target.value) || 1)))}
+            className="w-20 border border-gray-200 rounded-lg px-2 py-1.5"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-600">
+          Rows per page
+          <input
+            type="number"
+            min={1}
+            max={6}
+            value={options.rows}
+            onChange={(e) => update('rows', Math.min(6, Math.max(1, Number(e.target.value) || 1)))}
+            className="w-20 border border-gray-200 rounded-lg px-2 py-1.5"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-600">
+          Paper
+          <select
+            value={options.pageSize}
+            onChange={(e) => update('pageSize', e.target.value as LineSheetOptions['pageSize'])}
+            className="border border-gray-200 rounded-lg px-2 py-1.5"
+          >
+            <option value="A4">A4</option>
+            <option value="Letter">Letter</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-gray-600">
+          Orientation
+          <select
+            value={options.orientation}
+            onChange={(e) => update('orientation', e.target.value as LineSheetOptions['orientation'])}
+            className="border border-gray-200 rounded-lg px-2 py-1.5"
+          >
+            <option value="portrait">Portrait</option>
+            <option value="landscape">Landscape</option>
+          </select>
+        </label>
+        {([['showSwatch', 'Swatch'], ['showPrice', 'Price'], ['showUrl', 'Product URL']] as const).map(([key, label]) => (
+          <label key={key} className="flex items-center gap-2 text-gray-700 py-1.5">
+            <input type="checkbox" checked={options[key]} onChange={(e) => update(key, e.target.checked)} />
+            {label}
+          </label>
+        ))}
+
+        <div className="flex gap-2 ml-auto">
+          <button
+            onClick={handleExportCsv}
+            disabled={productCount === 0}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition"
+          >
+            <FileSpreadsheet className="h-4 w-4" />
+            CSV
+          </button>
+          <button
+            onClick={handleExportXlsx}
+            disabled={productCount === 0}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition"
+          >
+            <FileSpreadsheet className="h-4 w-4" />
+            XLSX
+          </button>
+          <button
+            onClick={handleExportPdf}
+            disabled={exporting || productCount === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition"
+          >
+            <FileText className="h-4 w-4" />
+            {exporting ? 'Building PDF...' : 'PDF'}
+          </button>
+        </div>
+      </div>
+
+      {message && <p className="mt-3 text-sm text-gray-600">{message}</p>}
+    </div>
+  );
+};
+
+export default LineSheetExport;
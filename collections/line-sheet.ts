@@ -0,0 +1,319 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage, PDFString, PageSizes, StandardFonts, rgb } from 'pdf-lib';
+import JSZip from 'jszip';
+import type { Product } from '@/types/product';
+import type { Collection } from '@/types/collection';
+
+// --- Line Sheets ---
+// Buyer line sheets built from the products of the selected collections: a paginated
+// PDF grid (image, name, swatch, price, product link) and a CSV or XLSX of the same rows.
+
+export interface LineSheetOptions {
+  columns: number;
+  rows: number;
+  pageSize: 'A4' | 'Letter';
+  orientation: 'portrait' | 'landscape';
+  showSwatch: boolean;
+  showPrice: boolean;
+  showUrl: boolean;
+}
+
+export const DEFAULT_LINE_SHEET_OPTIONS: LineSheetOptions = {
+  columns: 4,
+  rows: 3,
+  pageSize: 'A4',
+  orientation: 'portrait',
+  showSwatch: true,
+  showPrice: true,
+  showUrl: true
+};
+
+export interface LineSheetRow {
+  collectionName: string;
+  productId: string;
+  name: string;
+  swatch: string;
+  price: string;
+  priceValue: number | null;
+  currency: string;
+  productUrl: string;
+  imageUrl: string;
+}
+
+const SITE_URL = 'https://www.lkbennett.com';
+const MARGIN = 36;
+const HEADER_HEIGHT = 40;
+const FOOTER_HEIGHT = 20;
+const CELL_GAP = 12;
+const TEXT_SIZE = 8;
+const NAME_SIZE = 9;
+const LINE_GAP = 3;
+// Image downloads in flight at once while building the PDF
+const IMAGE_FETCH_CONCURRENCY = 4;
+
+// Older collections nest the product one level deeper (item.product.product)
+const unwrapProduct = (item: Collection['products'][number]): Product =>
+  (item.product as unknown as { product?: Product }).product || item.product;
+
+const getProductUrl = (product: Product) => {
+  const url = (product as { url?: string }).url || '';
+  return url.startsWith('/') ? `${SITE_URL}${url}` : url;
+};
+
+export const getLineSheetRows = (collections: Collection[]): LineSheetRow[] =>
+  collections.flatMap(collection => collection.products
+    .filter(item => item && item.product)
+    .map(item => {
+      const product = unwrapProduct(item);
+      const current = product.pricing?.current;
+      return {
+        collectionName: collection.name,
+        productId: String(product.id),
+        // Outfit slot items carry their name on the product rather than in titles
+        name: product.titles?.default || (product as { name?: string }).name || 'Product',
+        swatch: item.selectedSwatch?.name || product.properties?.swatches?.[0]?.name || '',
+        price: current?.formatted || '',
+        priceValue: current?.value ?? null,
+        currency: current?.currency || '',
+        productUrl: getProductUrl(product),
+        imageUrl: item.imageUrl || product.media?.main_image?.url || ''
+      };
+    }));
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const SHEET_HEADER = ['Collection', 'Product ID', 'Name', 'Swatch', 'Price', 'Currency', 'Product URL', 'Image URL'];
+
+const sheetValues = (row: LineSheetRow): Array<string | number | null> => [
+  row.collectionName, row.productId, row.name, row.swatch, row.priceValue, row.currency, row.productUrl, row.imageUrl
+];
+
+export const lineSheetToCsv = (rows: LineSheetRow[]): string => {
+  const lines = rows.map(row => sheetValues(row).map(csvCell).join(','));
+  return [SHEET_HEADER.join(','), ...lines].join('\r\n');
+};
+
+// Control characters other than tab and newlines aren't allowed in XML at all
+const xmlText = (text: string) =>
+  text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const xlsxCell = (value: string | number | null, ref: string) => {
+  if (value === null || value === '') return '';
+  return typeof value === 'number'
+    ? `<c r="${ref}"><v>${value}</v></c>`
+    : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlText(value)}</t></is></c>`;
+};
+
+const xlsxRow = (values: Array<string | number | null>, index: number) =>
+  `<row r="${index + 1}">${values.map((value, column) => xlsxCell(value, `${String.fromCharCode(65 + column)}${index + 1}`)).join('')}</row>`;
+
+// The smallest workbook Excel and Numbers open: one sheet of inline strings, prices as numbers
+export const lineSheetToXlsx = (rows: LineSheetRow[]): Promise<Blob> => {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+</Types>`);
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`);
+  zip.file('xl/workbook.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="Line Sheet" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`);
+  zip.file('xl/_rels/workbook.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+</Relationships>`);
+  const sheetRows = [SHEET_HEADER, ...rows.map(sheetValues)].map(xlsxRow).join('');
+  zip.file('xl/worksheets/sheet1.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows}</sheetData></worksheet>`);
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+export const downloadFile = (data: BlobPart, type: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking straight away can cancel the download in Firefox and Safari
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Excel only reads the CSV as UTF-8 (for £ and accented names) with a byte order mark
+export const downloadLineSheetCsv = (rows: LineSheetRow[], filename: string) =>
+  downloadFile(`\uFEFF${lineSheetToCsv(rows)}`, 'text/csv;charset=utf-8', filename);
+
+const isAmplienceUrl = (url: string) => {
+  try {
+    return new URL(url).hostname.endsWith('.amplience.net');
+  } catch {
+    return false;
+  }
+};
+
+// Amplience serves any image as a JPEG at a given width, which is all pdf-lib needs
+const jpegUrl = (url: string) => `${url.split('?')[0]}?fmt=jpg&qlt=80&w=600`;
+
+const fetchImageBytes = async (url: string): Promise<Uint8Array> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status} for ${url}`);
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+const isPng = (bytes: Uint8Array) => bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+
+// Amplience images are asked for as JPEG, falling back to the original; other hosts'
+// images are used as they are if they're JPEG or PNG, the formats pdf-lib can embed
+const embedImage = async (doc: PDFDocument, url: string): Promise<PDFImage> => {
+  const candidates = isAmplienceUrl(url) ? [jpegUrl(url), url] : [url];
+  let lastError: unknown = null;
+  for (const candidate of candidates) {
+    try {
+      const bytes = await fetchImageBytes(candidate);
+      if (isJpeg(bytes)) return await doc.embedJpg(bytes);
+      if (isPng(bytes)) return await doc.embedPng(bytes);
+      lastError = new Error(`${candidate} is not a JPEG or PNG image`);
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
+
+// The standard fonts only cover WinAnsi; anything else would make pdf-lib throw
+const safeText = (font: PDFFont, text: string) => {
+  const supported = new Set(font.getCharacterSet());
+  return [...text].map(char => (supported.has(char.codePointAt(0)!) ? char : '?')).join('');
+};
+
+const fitText = (font: PDFFont, text: string, size: number, maxWidth: number) => {
+  let fitted = safeText(font, text);
+  if (font.widthOfTextAtSize(fitted, size) <= maxWidth) return fitted;
+  while (fitted.length > 1 && font.widthOfTextAtSize(`${fitted}…`, size) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}…`;
+};
+
+const addLink = (doc: PDFDocument, page: PDFPage, url: string, x: number, y: number, width: number, height: number) => {
+  const link = doc.context.register(doc.context.obj({
+    Type: 'Annot',
+    Subtype: 'Link',
+    Rect: [x, y, x + width, y + height],
+    Border: [0, 0, 0],
+    A: { Type: 'Action', S: 'URI', URI: PDFString.of(url) }
+  }));
+  page.node.addAnnot(link);
+};
+
+export const renderLineSheetPdf = async (
+  collections: Collection[],
+  options: LineSheetOptions,
+  title = 'Line Sheet'
+): Promise<{ bytes: Uint8Array; skippedImages: number }> => {
+  const columns = Math.max(1, Math.round(options.columns));
+  const rowsPerPage = Math.max(1, Math.round(options.rows));
+  const doc = await PDFDocument.create();
+  doc.setTitle(title);
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+
+  const [baseWidth, baseHeight] = PageSizes[options.pageSize === 'Letter' ? 'Letter' : 'A4'];
+  const [pageWidth, pageHeight] = options.orientation === 'landscape' ? [baseHeight, baseWidth] : [baseWidth, baseHeight];
+  const cellWidth = (pageWidth - MARGIN * 2 - CELL_GAP * (columns - 1)) / columns;
+  const cellHeight = (pageHeight - MARGIN * 2 - HEADER_HEIGHT - FOOTER_HEIGHT - CELL_GAP * (rowsPerPage - 1)) / rowsPerPage;
+  const textLines = 1 + [options.showSwatch, options.showPrice, options.showUrl].filter(Boolean).length;
+  const textHeight = NAME_SIZE + (textLines - 1) * TEXT_SIZE + textLines * LINE_GAP + 4;
+  const imageHeight = Math.max(cellHeight - textHeight, 20);
+
+  // Each collection starts on a new page under its own heading
+  const pages: { page: PDFPage; collectionName: string }[] = [];
+  let skippedImages = 0;
+
+  for (const collection of collections) {
+    const rows = getLineSheetRows([collection]);
+    const images: Array<PDFImage | null> = rows.map(() => null);
+    let next = 0;
+    const worker = async () => {
+      while (next < rows.length) {
+        const index = next++;
+        const row = rows[index];
+        if (!row.imageUrl) continue;
+        try {
+          images[index] = await embedImage(doc, row.imageUrl);
+        } catch (error) {
+          console.error(`Error embedding line sheet image for ${row.name}:`, error);
+          skippedImages += 1;
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(IMAGE_FETCH_CONCURRENCY, rows.length) }, worker));
+
+    const perPage = columns * rowsPerPage;
+    for (let start = 0; start < Math.max(rows.length, 1); start += perPage) {
+      const page = doc.addPage([pageWidth, pageHeight]);
+      pages.push({ page, collectionName: collection.name });
+
+      rows.slice(start, start + perPage).forEach((row, index) => {
+        const column = index % columns;
+        const gridRow = Math.floor(index / columns);
+        const x = MARGIN + column * (cellWidth + CELL_GAP);
+        const top = pageHeight - MARGIN - HEADER_HEIGHT - gridRow * (cellHeight + CELL_GAP);
+
+        // Image, fitted and centred in its box
+        const imageBottom = top - imageHeight;
+        page.drawRectangle({ x, y: imageBottom, width: cellWidth, height: imageHeight, color: rgb(0.96, 0.96, 0.96) });
+        const image = images[start + index];
+        if (image) {
+          const scale = Math.min(cellWidth / image.width, imageHeight / image.height);
+          const width = image.width * scale;
+          const height = image.height * scale;
+          page.drawImage(image, { x: x + (cellWidth - width) / 2, y: imageBottom + (imageHeight - height) / 2, width, height });
+        }
+
+        let y = imageBottom - NAME_SIZE - LINE_GAP;
+        page.drawText(fitText(bold, row.name, NAME_SIZE, cellWidth), { x, y, size: NAME_SIZE, font: bold });
+        const line = (text: string, color = rgb(0.3, 0.3, 0.3)) => {
+          y -= TEXT_SIZE + LINE_GAP;
+          page.drawText(fitText(font, text, TEXT_SIZE, cellWidth), { x, y, size: TEXT_SIZE, font, color });
+        };
+        if (options.showSwatch) line(row.swatch);
+        if (options.showPrice) line(row.price);
+        if (options.showUrl && row.productUrl) {
+          line(row.productUrl.replace(/^https?:\/\//, ''), rgb(0.15, 0.35, 0.75));
+          addLink(doc, page, row.productUrl, x, y - 1, cellWidth, TEXT_SIZE + 2);
+        }
+      });
+    }
+  }
+
+  if (pages.length === 0) throw new Error('No collections selected');
+
+  pages.forEach(({ page, collectionName }, index) => {
+    page.drawText(safeText(bold, title), { x: MARGIN, y: pageHeight - MARGIN - 14, size: 14, font: bold });
+    page.drawText(fitText(font, collectionName, 10, pageWidth - MARGIN * 2), {
+      x: MARGIN, y: pageHeight - MARGIN - 28, size: 10, font, color: rgb(0.4, 0.4, 0.4)
+    });
+    const footer = `Page ${index + 1} of ${pages.length} · ${new Date().toLocaleDateString()}`;
+    page.drawText(safeText(font, footer), {
+      x: pageWidth - MARGIN - font.widthOfTextAtSize(safeText(font, footer), TEXT_SIZE),
+      y: MARGIN - 12,
+      size: TEXT_SIZE,
+      font,
+      color: rgb(0.5, 0.5, 0.5)
+    });
+  });
+
+  return { bytes: await doc.save(), skippedImages };
+};
@@ -3,29 +3,15 @@
 import { useState, useEffect, useRef } from 'react';
 import type { WheelEvent } from 'react';
 import { motion } from 'framer-motion';
-import { Package, Calendar, Tag, Trash2, Edit3, Plus, Lock, Globe, X } from 'lucide-react';
-import type { Product } from '@/types/product';
+import { Package, Calendar, Tag, Trash2, Edit3, Plus, Lock, Globe, X, Users } from 'lucide-react';
+import type { Collection, CollectionProduct } from '@/types/collection';
 import { ProductCard } from '@/components/email-generator/ProductCard';
 import { Button } from '@/components/ui/button'; // Added Button import
 import { useAuthorization } from '@/hooks/useAuthorization'; // Added useAuthorization import
-
-// Define types based on product-search page
-type ProductSwatchType = NonNullable<NonNullable<Product['properties']>['swatches']>[number];
-
-interface Collection {
-  id: string;
-  name: string;
-  products: Array<{
-    product: Product;
-    selectedSwatch: ProductSwatchType | null;
-    imageUrl: string;
-  }>;
-  createdAt: Date;
-  isPublic: boolean;
-  userId?: string;
-  lastModified?: string;
-  lastModifiedBy?: string;
-}
+import type { CollectionChange } from '@/lib/collections';
+import { updateCollection, fetchCollections, deleteCollectionRequest, getRole, canEdit, canManage } from '@/lib/collections';
+import CollectionManagePanel from './components/CollectionManagePanel';
+import LineSheetExport from './components/LineSheetExport';
 
 export default function Collections() {
   const [collections, setCollections] = useState<Collection[]>([]);
@@ -33,66 +19,64 @@ export default function Collections() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showEmptyCollections, setShowEmptyCollections] = useState(false);
+  const [managingCollectionId, setManagingCollectionId] = useState<string | null>(null);
 
   const { userEmail } = useAuthorization(); // Use userEmail from useAuthorization hook
+  const userId = userEmail || 'public';
 
   useEffect(() => {
-    const fetchCollections = async () => {
-      console.log('🔍 fetchCollections called');
+    const loadCollections = async () => {
+      console.log('🔍 loadCollections called');
       setLoading(true);
       setError(null);
       try {
-        const response = await fetch(`/api/collections?userId=${userEmail}`);
-        const data = await response.json();
-        console.log('🔍 API response:', { success: data.success, collectionsCount: data.collections?.length });
+        // Includes collections other people have shared with this user
+        const data = await fetchCollections<CollectionProduct>(userId);
+        console.log('🔍 API response:', { collectionsCount: data.length });
+        
+        const loadedCollections = data
+          .filter((c: any) => c && c.id && c.name) // Filter out invalid collections
+          .map((c: any) => ({
+            ...c,
+            createdAt: c.createdAt || new Date().toISOString(),
+            products: Array.isArray(c.products) ? c.products.filter((p: any) => {
+              // Handle both old and new product structures
+              if (!p || !p.product) return false;
+              
+              // New structure: p.product.product.id
+              if (p.product.product && p.product.product.id) return true;
+              
+              // Old structure: p.product.id (for backward compatibility)
+              if (p.product.id) return true;
+              
+              return false;
+            }) : [],
+          }));
         
-        if (data.success) {
-          const loadedCollections = data.collections
-            .filter((c: any) => c && c.id && c.name) // Filter out invalid collections
-            .map((c: any) => ({
-              ...c,
-              createdAt: new Date(c.createdAt || new Date()),
-              products: Array.isArray(c.products) ? c.products.filter((p: any) => {
-                // Handle both old and new product structures
-                if (!p || !p.product) return false;
-                
-                // New structure: p.product.product.id
-                if (p.product.product && p.product.product.id) return true;
-                
-                // Old structure: p.product.id (for backward compatibility)
-                if (p.product.id) return true;
-                
-                return false;
-              }) : [],
-            }));
-          
-          console.log('🔍 Loaded collections:', loadedCollections.map((c: Collection) => ({ name: c.name, productsCount: c.products.length })));
-          setCollections(loadedCollections);
-          
-          if (loadedCollections.length > 0) {
-            // Sort by public first, then by name
-            const sortedCollections = loadedCollections.sort((a: Collection, b: Collection) => {
-              if (a.isPublic && !b.isPublic) return -1;
-              if (!a.isPublic && b.isPublic) return 1;
-              return a.name.localeCompare(b.name);
-            });
-            // Select the first collection by default
-            setSelectedCollections(new Set([sortedCollections[0].id]));
-            console.log('🔍 Selected first collection:', sortedCollections[0].id);
-          }
-        } else {
-          setError(data.error || 'Failed to load collections');
+        console.log('🔍 Loaded collections:', loadedCollections.map((c: Collection) => ({ name: c.name, productsCount: c.products.length })));
+        setCollections(loadedCollections);
+        
+        if (loadedCollections.length > 0) {
+          // Sort by public first, then by name
+          const sortedCollections = loadedCollections.sort((a: Collection, b: Collection) => {
+            if (a.isPublic && !b.isPublic) return -1;
+            if (!a.isPublic && b.isPublic) return 1;
+            return a.name.localeCompare(b.name);
+          });
+          // Select the first collection by default
+          setSelectedCollections(new Set([sortedCollections[0].id]));
+          console.log('🔍 Selected first collection:', sortedCollections[0].id);
         }
       } catch (error) {
         console.error('Failed to load collections:', error);
         setError(error instanceof Error ? error.message : 'Failed to load collections');
       } finally {
         setLoading(false);
-        console.log('🔍 fetchCollections completed');
+        console.log('🔍 loadCollections completed');
       }
     };
 
-    fetchCollections();
+    loadCollections();
   }, [userEmail]);
 
   const toggleCollection = (collectionId: string) => {
@@ -135,26 +119,18 @@ export default function Collections() {
   };
 
   const deleteCollection = async (collectionId: string) => {
+    const collection = collections.find(c => c.id === collectionId);
+    if (!collection) return;
+    if (!canManage(getRole(collection, userId))) {
+      alert(`Only the owner can delete "${collection.name}".`);
+      return;
+    }
     if (!confirm('Are you sure you want to delete this collection? This action cannot be undone.')) {
       return;
     }
 
     try {
-      const response = await fetch(`/api/collections`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          collectionId: collectionId,
-          userId: userEmail
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
-      }
+      await deleteCollectionRequest(collection, userId);
 
       setCollections(prev => prev.filter(c => c.id !== collectionId));
       setSelectedCollections(prev => {
@@ -170,73 +146,35 @@ export default function Collections() {
     }
   };
 
+  // Versioned write; if someone else changed the collection in a way that can't be merged, show theirs instead
+  const applyCollectionChanges = async (collection: Collection, changes: CollectionChange<CollectionProduct>[]) => {
+    try {
+      const result = await updateCollection(collection, changes, userId);
+      const saved = result.status === 'saved' ? result.collection : result.latest;
+      setCollections(prev => prev.map(col => (col.id === saved.id ? saved : col)));
+      if (result.status === 'conflict') {
+        alert(`Your change to "${collection.name}" wasn't saved: ${result.message} The latest version is now shown.`);
+      }
+    } catch (error) {
+      console.error('Error updating collection:', error);
+      alert(`Failed to update collection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const deleteProductFromCollection = async (collectionId: string, productId: string) => {
-    console.log('🔍 deleteProductFromCollection called:', { collectionId, productId });
-    
     if (!collectionId || !productId) {
       console.error('Invalid collection or product ID:', { collectionId, productId });
       return;
     }
 
-    try {
-      const collection = collections.find(c => c.id === collectionId);
-      if (!collection) {
-        console.error('Collection not found:', collectionId);
-        alert('Collection not found. Please refresh the page and try again.');
-        return;
-      }
-
-      console.log('🔍 Original products count:', collection.products.length);
-      
-      const updatedProducts = collection.products.filter(item => {
-        if (!item || !item.product) return false;
-        
-        // Get the actual product ID from the nested structure
-        const actualProduct = (item.product as any).product || item.product;
-        const itemProductId = actualProduct.id;
-        
-        const shouldKeep = itemProductId !== productId;
-        if (!shouldKeep) {
-          console.log('🔍 Removing product:', itemProductId);
-        }
-        
-        return shouldKeep;
-      });
-      
-      console.log('🔍 Updated products count:', updatedProducts.length);
-      
-      const response = await fetch(`/api/collections`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          id: collectionId,
-          products: updatedProducts,
-          userId: userEmail,
-          appendProducts: false // Explicitly set to false since we're replacing the array
-        }),
-      });
-
-      console.log('🔍 API response status:', response.status);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error('🔍 API error data:', errorData);
-        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      setCollections(prev => prev.map(col => 
-        col.id === collectionId ? { ...col, products: updatedProducts } : col
-      ));
-      
-      // Show success message
-      console.log(`Successfully removed product ${productId} from collection ${collectionId}`);
-      
-    } catch (error) {
-      console.error('Error removing product:', error);
-      alert(`Failed to remove product from collection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    const collection = collections.find(c => c.id === collectionId);
+    if (!collection) {
+      console.error('Collection not found:', collectionId);
+      alert('Collection not found. Please refresh the page and try again.');
+      return;
     }
+
+    await applyCollectionChanges(collection, [{ type: 'remove', itemId: productId }]);
   };
 
   const nonEmptyCollections = collections.filter(c => c.products.length > 0);
@@ -373,6 +311,10 @@ export default function Collections() {
           </div>
         </div>
 
+        {selectedCollections.size > 0 && (
+          <LineSheetExport collections={collections.filter(c => selectedCollections.has(c.id))} />
+        )}
+
         {/* Selected Collections Content */}
         {selectedCollections.size === 0 ? (
           <div className="text-center py-20 bg-white rounded-xl shadow-md">
@@ -387,6 +329,7 @@ export default function Collections() {
             {Array.from(selectedCollections).map((collectionId) => {
               const collection = collections.find(c => c.id === collectionId);
               if (!collection) return null;
+              const role = getRole(collection, userId);
 
               return (
                 <motion.div
@@ -420,7 +363,7 @@ export default function Collections() {
                           {collection.lastModified && (
                             <div className="flex items-center">
                               <Edit3 className="h-4 w-4 mr-2" />
-                              <span>Modified {new Date(collection.lastModified).toLocaleDateString()}</span>
+                              <span>Modified {new Date(collection.lastModified).toLocaleDateString()}{collection.lastModifiedBy && ` by ${collection.lastModifiedBy}`}</span>
                             </div>
                           )}
                         </div>
@@ -437,16 +380,33 @@ export default function Collections() {
                           <X className="h-5 w-5" />
                         </button>
                         <button
-                          onClick={() => deleteCollection(collection.id)}
-                          className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition"
-                          title="Delete collection"
+                          onClick={() => setManagingCollectionId(managingCollectionId === collection.id ? null : collection.id)}
+                          className={`p-2 rounded-lg transition ${managingCollectionId === collection.id ? 'bg-blue-50 text-blue-600' : 'text-gray-400 hover:bg-gray-100'}`}
+                          title="Sharing, activity and history"
                         >
-                          <Trash2 className="h-5 w-5" />
+                          <Users className="h-5 w-5" />
                         </button>
+                        {canManage(role) && (
+                          <button
+                            onClick={() => deleteCollection(collection.id)}
+                            className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition"
+                            title="Delete collection"
+                          >
+                            <Trash2 className="h-5 w-5" />
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
 
+                  {managingCollectionId === collection.id && (
+                    <CollectionManagePanel
+                      collection={collection}
+                      userId={userId}
+                      onChange={(changes) => applyCollectionChanges(collection, changes)}
+                    />
+                  )}
+
                   {/* Collection Products */}
                   <div className="p-6">
                     {collection.products.length === 0 ? (
@@ -506,7 +466,7 @@ export default function Collections() {
                                   showPrice={true}
                                   showSwatches={true}
                                   showButton={false}
-                                  showRemoveButton={true}
+                                  showRemoveButton={canEdit(role)}
                                   onRemove={() => deleteProductFromCollection(collection.id, productId)}
                                 />
                               </motion.div>
@@ -0,0 +1,178 @@
+import { BlockType, EditorBlock, ImageGridBlockData, ImageGridItem, isBlockType } from '@/types/email-editor';
+import type { Product } from '@/types/product';
+import { classifyField, htmlToText, isProduct } from './plainText';
+
+// --- Email Alternates ---
+// The AMP for Email part exported alongside the HTML and plain-text versions, in which
+// product grids become swipeable carousels.
+// Other blocks are reduced to AMP-safe images, copy and links. Clients without AMP
+// support, and AMP clients once the part expires, fall back to the HTML part.
+
+interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// Used when an image can't be loaded to measure it
+const FALLBACK_IMAGE_HEIGHT = 300;
+const MEASURE_TIMEOUT_MS = 8000;
+
+const ALLOWED_TAGS = new Set(['p', 'br', 'b', 'strong', 'i', 'em', 'u', 'h1', 'h2', 'h3', 'h4', 'ul', 'ol', 'li', 'a', 'span']);
+
+const AMP_STYLES = `
+body { margin: 0; background: #ffffff; color: #222222; font-family: Arial, Helvetica, sans-serif; }
+.email { max-width: 600px; margin: 0 auto; }
+.block { padding: 12px 16px; }
+.block p { margin: 0 0 12px; line-height: 1.5; }
+.button { display: inline-block; padding: 12px 24px; background: #222222; color: #ffffff; text-decoration: none; }
+.card { display: block; width: 220px; margin-right: 12px; color: #222222; text-decoration: none; }
+.card-name { margin: 8px 0 2px; font-size: 14px; }
+.card-price { margin: 0; font-size: 14px; font-weight: bold; }
+`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const isHttps = (url?: string): url is string => !!url && url.startsWith('https://');
+
+export const hasProductGrid = (blocks: EditorBlock[]) =>
+  blocks.some(block => isBlockType(block, BlockType.ImageGrid)
+    && ((block.data as ImageGridBlockData).columns || []).some(col => col.type === 'product'));
+
+const measureImage = (url: string): Promise<ImageSize | null> =>
+  new Promise(resolve => {
+    const img = new Image();
+    const timer = setTimeout(() => resolve(null), MEASURE_TIMEOUT_MS);
+    img.onload = () => {
+      clearTimeout(timer);
+      resolve(img.naturalWidth > 0 ? { width: img.naturalWidth, height: img.naturalHeight } : null);
+    };
+    img.onerror = () => {
+      clearTimeout(timer);
+      resolve(null);
+    };
+    img.src = url;
+  });
+
+// amp-img needs its size up front; intrinsic layout shrinks it to fit the column but never enlarges a logo
+const ampImage = (url: string, alt: string, sizes: Map<string, ImageSize | null>) => {
+  const size = sizes.get(url);
+  const dimensions = size
+    ? `width="${size.width}" height="${size.height}" layout="intrinsic"`
+    : `height="${FALLBACK_IMAGE_HEIGHT}" layout="fixed-height"`;
+  return `<amp-img src="${escapeHtml(url)}" alt="${escapeHtml(alt)}" ${dimensions}></amp-img>`;
+};
+
+// Keeps basic formatting tags and safe links; AMP rejects most attributes and all inline scripts
+const sanitiseCopy = (html: string) =>
+  html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(\/?)([a-z0-9]+)([^>]*)>/gi, (_, close: string, tag: string, attributes: string) => {
+      const name = tag.toLowerCase();
+      if (!ALLOWED_TAGS.has(name)) return '';
+      if (name !== 'a' || close) return `<${close}${name}>`;
+      const href = attributes.match(/href=["']([^"']+)["']/i)?.[1];
+      return href && /^(https:|mailto:)/i.test(href) ? `<a href="${escapeHtml(href)}">` : '<a>';
+    });
+
+const productCard = (product: Product, imageUrl: string, sizes: Map<string, ImageSize | null>) => {
+  const price = product.pricing?.current?.formatted;
+  const content = [
+    isHttps(imageUrl) ? ampImage(imageUrl, product.titles.default, sizes) : '',
+    `<p class="card-name">${escapeHtml(product.titles.default)}</p>`,
+    price ? `<p class="card-price">${escapeHtml(price)}</p>` : '',
+  ].join('');
+  return isHttps(product.url) ? `<a class="card" href="${escapeHtml(product.url)}">${content}</a>` : `<div class="card">${content}</div>`;
+};
+
+const gridCarousel = (columns: ImageGridItem[], sizes: Map<string, ImageSize | null>) => {
+  const cards = columns.map(col => {
+    if (col.type === 'product') return productCard(col.product, col.imageUrl, sizes);
+    if (col.type === 'custom' && isHttps(col.imageUrl)) {
+      const image = ampImage(col.imageUrl, htmlToText(col.altText || ''), sizes);
+      return isHttps(col.linkUrl) ? `<a class="card" href="${escapeHtml(col.linkUrl)}">${image}</a>` : `<div class="card">${image}</div>`;
+    }
+    return '';
+  }).filter(Boolean);
+  return `<amp-carousel type="carousel" layout="fixed-height" height="400" controls>${cards.join('')}</amp-carousel>`;
+};
+
+// Same field detection as the plain-text part, rendered as AMP markup
+const renderData = (data: Record<string, unknown>, sizes: Map<string, ImageSize | null>): string => {
+  if (isProduct(data)) return productCard(data, '', sizes);
+
+  const parts: string[] = [];
+  const images: string[] = [];
+  let link = '';
+  let label = '';
+  let alt = '';
+
+  Object.entries(data).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      value.forEach(item => {
+        if (item && typeof item === 'object') parts.push(renderData(item as Record<string, unknown>, sizes));
+      });
+    } else if (value && typeof value === 'object') {
+      parts.push(renderData(value as Record<string, unknown>, sizes));
+    } else if (typeof value === 'string') {
+      const role = classifyField(key, value);
+      if (role === 'link' && !link && isHttps(value.trim())) link = value.trim();
+      else if (role === 'image' && isHttps(value.trim())) images.push(value.trim());
+      // Decoded to plain text here; escapeHtml encodes it again when it's written out
+      else if (role === 'alt') alt = htmlToText(value);
+      else if (role === 'cta') label = htmlToText(value);
+      else if (role === 'heading') parts.push(`<h2>${sanitiseCopy(value)}</h2>`);
+      else if (role === 'text') parts.push(/<p[\s>]/i.test(value) ? sanitiseCopy(value) : `<p>${sanitiseCopy(value)}</p>`);
+    }
+  });
+
+  // A link belongs to the button when there is one, otherwise to the block's image
+  const imageMarkup = images.map(url => ampImage(url, alt, sizes)).join('');
+  const linkedImages = link && !label && imageMarkup ? `<a href="${escapeHtml(link)}">${imageMarkup}</a>` : imageMarkup;
+  const button = link && label ? `<p><a class="button" href="${escapeHtml(link)}">${escapeHtml(label)}</a></p>` : '';
+  return [linkedImages, ...parts, button].filter(Boolean).join('');
+};
+
+const collectImageUrls = (value: unknown, key: string, urls: Set<string>) => {
+  if (Array.isArray(value)) value.forEach(item => collectImageUrls(item, key, urls));
+  // Products carry every swatch and gallery image; cards only show the grid's chosen image
+  else if (value && typeof value === 'object' && isProduct(value as Record<string, unknown>)) return;
+  else if (value && typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([childKey, child]) => collectImageUrls(child, childKey, urls));
+  } else if (typeof value === 'string' && isHttps(value.trim()) && classifyField(key, value) === 'image') {
+    urls.add(value.trim());
+  }
+};
+
+export const generateAmpEmail = async (blocks: EditorBlock[]): Promise<string> => {
+  const urls = new Set<string>();
+  blocks.forEach(block => collectImageUrls(block.data, '', urls));
+  const sizes = new Map<string, ImageSize | null>();
+  await Promise.all(Array.from(urls).map(async url => sizes.set(url, await measureImage(url))));
+
+  const body = blocks.map(block => {
+    const columns = isBlockType(block, BlockType.ImageGrid) ? (block.data as ImageGridBlockData).columns || [] : [];
+    const content = columns.some(col => col.type === 'product')
+      ? gridCarousel(columns, sizes)
+      : renderData(block.data as Record<string, unknown>, sizes);
+    return content ? `<div class="block">${content}</div>` : '';
+  }).join('\n');
+
+  return `<!doctype html>
+<html ⚡4email data-css-strict>
+<head>
+<meta charset="utf-8">
+<script async src="https://cdn.ampproject.org/v0.js"></script>
+<script async custom-element="amp-carousel" src="https://cdn.ampproject.org/v0/amp-carousel-0.1.js"></script>
+<style amp4email-boilerplate>body{visibility:hidden}</style>
+<style amp-custom>${AMP_STYLES}</style>
+</head>
+<body>
+<div class="email">
+${body}
+</div>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,231 @@
+import { doc, getDoc, runTransaction } from 'firebase/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/lib/firebase';
+import { EditorBlock } from '@/types/email-editor';
+import { toFirestore } from './templates';
+
+// --- Email Autosave ---
+// Saves the canvas to `roomEmails/{id}` as numbered revisions, each recording the
+// revision it was based on (kept in `roomEmails/{id}/revisions/{revisionId}`). If the
+// stored blocks have moved on since our base, whether through another autosave or
+// BlockSynchronizer, the three versions are merged block by block instead of one
+// overwriting the other. A local draft covers edits the tab closed on before saving.
+
+export interface SavedBase {
+  revisionId: string | null;
+  blocks: EditorBlock[];
+}
+
+export interface BlockConflict {
+  blockId: string;
+  blockType: string;
+  // Data fields both sides changed; empty when one side deleted the block the other edited
+  fields: string[];
+  resolution: 'kept-local' | 'kept-remote';
+}
+
+export interface MergeResult {
+  blocks: EditorBlock[];
+  conflicts: BlockConflict[];
+}
+
+export interface EmailRevision {
+  revisionId: string;
+  baseRevisionId: string | null;
+  revision: number;
+  blocks: EditorBlock[];
+  merged: boolean;
+  savedBy: string;
+  savedAt: string;
+}
+
+export interface AutosaveResult {
+  base: SavedBase;
+  // Set when other changes were merged in; `blocks` is then what the canvas should show
+  merge: MergeResult | null;
+}
+
+export interface CampaignMetadata {
+  campaignName: string;
+  subjectLine: string;
+  preheader: string;
+  sendDate: string;
+}
+
+export interface EmailDraft extends CampaignMetadata {
+  blocks: EditorBlock[];
+  baseRevisionId: string | null;
+  // The metadata last saved when the draft was written; missing on drafts from older versions
+  baseMetadata?: CampaignMetadata;
+  savedAt: string;
+}
+
+const DRAFT_KEY = (emailId: string) => `email_draft_${emailId}`;
+
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+export const sameBlocks = (a: EditorBlock[], b: EditorBlock[]) => same(a, b);
+
+// Whether two lists keep the blocks they share in the same order
+const sameOrder = (a: EditorBlock[], b: EditorBlock[]) => {
+  const inB = new Set(b.map(block => block.id));
+  const inA = new Set(a.map(block => block.id));
+  return same(a.map(block => block.id).filter(id => inB.has(id)), b.map(block => block.id).filter(id => inA.has(id)));
+};
+
+const mergeBlock = (base: EditorBlock, local: EditorBlock, remote: EditorBlock, conflicts: BlockConflict[]): EditorBlock => {
+  if (same(local, base)) return remote;
+  if (same(remote, base) || same(local, remote)) return local;
+  if (local.type !== remote.type) {
+    conflicts.push({ blockId: local.id, blockType: String(local.type), fields: ['type'], resolution: 'kept-local' });
+    return local;
+  }
+
+  const baseData = base.data as Record<string, unknown>;
+  const localData = local.data as Record<string, unknown>;
+  const remoteData = remote.data as Record<string, unknown>;
+  const data: Record<string, unknown> = {};
+  const conflictingFields: string[] = [];
+
+  new Set([...Object.keys(localData), ...Object.keys(remoteData)]).forEach(key => {
+    const [b, l, r] = [baseData[key], localData[key], remoteData[key]];
+    let value = l;
+    if (same(l, b)) value = r;
+    else if (!same(r, b) && !same(l, r)) conflictingFields.push(key);
+    if (value !== undefined) data[key] = value;
+  });
+
+  if (conflictingFields.length > 0) {
+    conflicts.push({ blockId: local.id, blockType: String(local.type), fields: conflictingFields, resolution: 'kept-local' });
+  }
+  return { ...local, data } as EditorBlock;
+};
+
+// Three-way merge by block id. Edits to different blocks, or different fields of one block,
+// all survive; where both sides changed the same field the local edit wins and is reported.
+export const mergeBlocks = (base: EditorBlock[], local: EditorBlock[], remote: EditorBlock[]): MergeResult => {
+  const baseById = new Map(base.map(block => [block.id, block]));
+  const localById = new Map(local.map(block => [block.id, block]));
+  const remoteById = new Map(remote.map(block => [block.id, block]));
+  const merged = new Map<string, EditorBlock>();
+  const conflicts: BlockConflict[] = [];
+
+  new Set([...baseById.keys(), ...localById.keys(), ...remoteById.keys()]).forEach(id => {
+    const [b, l, r] = [baseById.get(id), localById.get(id), remoteById.get(id)];
+    if (!b) {
+      // Added on one side (or the same block arrived on both through the synchroniser)
+      merged.set(id, (l || r)!);
+    } else if (!l && !r) {
+      return;
+    } else if (!l) {
+      if (same(r, b)) return;
+      conflicts.push({ blockId: id, blockType: String(r!.type), fields: [], resolution: 'kept-remote' });
+      merged.set(id, r!);
+    } else if (!r) {
+      if (same(l, b)) return;
+      conflicts.push({ blockId: id, blockType: String(l.type), fields: [], resolution: 'kept-local' });
+      merged.set(id, l);
+    } else {
+      merged.set(id, mergeBlock(b, l, r, conflicts));
+    }
+  });
+
+  // Follow whichever side reordered; blocks only the other side has go after their predecessor there
+  const primary = !sameOrder(base, remote) && sameOrder(base, local) ? remote : local;
+  const secondary = primary === local ? remote : local;
+  const order = primary.map(block => block.id).filter(id => merged.has(id));
+  secondary.forEach((block, index) => {
+    if (!merged.has(block.id) || order.includes(block.id)) return;
+    let at = 0;
+    for (let i = index - 1; i >= 0; i--) {
+      const position = order.indexOf(secondary[i].id);
+      if (position !== -1) {
+        at = position + 1;
+        break;
+      }
+    }
+    order.splice(at, 0, block.id);
+  });
+
+  return { blocks: order.map(id => merged.get(id)!), conflicts };
+};
+
+// Takes a field from `local` only where it changed from `base` and `remote` hasn't moved on since
+export const mergeMetadata = (base: CampaignMetadata, local: CampaignMetadata, remote: CampaignMetadata): CampaignMetadata => {
+  const merged = { ...remote };
+  (Object.keys(merged) as (keyof CampaignMetadata)[]).forEach(field => {
+    if (local[field] !== base[field] && remote[field] === base[field]) {
+      merged[field] = local[field];
+    }
+  });
+  return merged;
+};
+
+export const getRevision = async (emailId: string, revisionId: string): Promise<EmailRevision | null> => {
+  const snapshot = await getDoc(doc(db, 'roomEmails', emailId, 'revisions', revisionId));
+  return snapshot.exists() ? (snapshot.data() as EmailRevision) : null;
+};
+
+// Writes `local` as the next revision, merging first if the stored email isn't the one we last saw
+export const saveRevision = async (emailId: string, base: SavedBase, local: EditorBlock[], userId: string): Promise<AutosaveResult> => {
+  const emailRef = doc(db, 'roomEmails', emailId);
+
+  return runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(emailRef);
+    const stored = snapshot.exists() ? snapshot.data() : {};
+    // The campaign metadata save can create the document before any blocks are written
+    const remoteBlocks: EditorBlock[] = stored.blocks || base.blocks;
+    const remoteRevisionId: string | null = stored.revisionId || null;
+    const movedOn = remoteRevisionId !== base.revisionId || !sameBlocks(remoteBlocks, base.blocks);
+
+    // Someone else already saved exactly this (usually the synchroniser echoing our edits)
+    if (movedOn && sameBlocks(remoteBlocks, local)) {
+      return { base: { revisionId: remoteRevisionId, blocks: remoteBlocks }, merge: null };
+    }
+
+    const merge = movedOn ? mergeBlocks(base.blocks, local, remoteBlocks) : null;
+    const revision: EmailRevision = {
+      revisionId: uuidv4(),
+      baseRevisionId: remoteRevisionId,
+      revision: (stored.revision || 0) + 1,
+      blocks: merge ? merge.blocks : local,
+      merged: merge !== null,
+      savedBy: userId,
+      savedAt: new Date().toISOString()
+    };
+
+    transaction.set(doc(db, 'roomEmails', emailId, 'revisions', revision.revisionId), toFirestore(revision));
+    transaction.set(emailRef, toFirestore({
+      blocks: revision.blocks,
+      revisionId: revision.revisionId,
+      revision: revision.revision,
+      lastSavedBy: userId,
+      lastSavedAt: revision.savedAt
+    }), { merge: true });
+
+    return { base: { revisionId: revision.revisionId, blocks: revision.blocks }, merge };
+  });
+};
+
+export const saveDraft = (emailId: string, draft: EmailDraft) => {
+  try {
+    localStorage.setItem(DRAFT_KEY(emailId), JSON.stringify(draft));
+  } catch (error) {
+    // Storage full or unavailable (private mode); the remote autosave still runs
+    console.warn('Could not cache email draft locally:', error);
+  }
+};
+
+export const loadDraft = (emailId: string): EmailDraft | null => {
+  try {
+    const stored = localStorage.getItem(DRAFT_KEY(emailId));
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.warn('Could not read cached email draft:', error);
+    return null;
+  }
+};
+
+export const clearDraft = (emailId: string) => {
+  localStorage.removeItem(DRAFT_KEY(emailId));
+};
@@ -0,0 +1,247 @@
+import { EditorBlock } from '@/types/email-editor';
+import { generateEmailHTML } from '@/lib/emailExporter';
+
+// --- Email Client Compatibility ---
+// Lints the HTML that generateEmailHTML exports for things that break in common email
+// clients. Each block is exported and checked on its own so findings can point back at
+// the block; anything the empty document shell already has is reported once, unattached.
+
+export type ClientFamily = 'outlook' | 'gmail' | 'apple' | 'yahoo';
+
+export const CLIENT_LABELS: Record<ClientFamily, string> = {
+  outlook: 'Outlook (Windows)',
+  gmail: 'Gmail',
+  apple: 'Apple Mail',
+  yahoo: 'Yahoo / AOL',
+};
+
+export type CompatibilityRule =
+  | 'gmail-clip'
+  | 'unsupported-css'
+  | 'missing-alt'
+  | 'image-dimensions'
+  | 'image-url'
+  | 'background-vml'
+  | 'dark-mode';
+
+export type CompatibilitySeverity = 'error' | 'warning' | 'info';
+
+export interface CompatibilityFinding {
+  id: string;
+  rule: CompatibilityRule;
+  severity: CompatibilitySeverity;
+  message: string;
+  clients: ClientFamily[];
+  // Null for findings about the whole email
+  blockId: string | null;
+  // How many times the same problem occurs in the block
+  count: number;
+}
+
+export interface CompatibilityReport {
+  sizeBytes: number;
+  findings: CompatibilityFinding[];
+}
+
+// Gmail hides everything past this size behind "[Message clipped]"
+export const GMAIL_CLIP_BYTES = 102 * 1024;
+const GMAIL_CLIP_WARNING_BYTES = GMAIL_CLIP_BYTES * 0.9;
+
+interface CssSupportRule {
+  label: string;
+  property: RegExp;
+  value?: RegExp;
+  clients: ClientFamily[];
+}
+
+// CSS the main client families drop or mangle (per caniemail.com); Apple Mail supports all of these
+const CSS_SUPPORT: CssSupportRule[] = [
+  { label: 'border-radius', property: /^border(-\w+)*-radius$/, clients: ['outlook'] },
+  { label: 'box-shadow', property: /^box-shadow$/, clients: ['outlook'] },
+  { label: 'display: flex', property: /^display$/, value: /flex/, clients: ['outlook'] },
+  { label: 'display: grid', property: /^display$/, value: /grid/, clients: ['outlook', 'gmail', 'yahoo'] },
+  { label: 'position', property: /^position$/, value: /absolute|relative|fixed|sticky/, clients: ['outlook', 'gmail', 'yahoo'] },
+  { label: 'float', property: /^float$/, value: /left|right/, clients: ['outlook'] },
+  { label: 'max-width or min-width', property: /^(max|min)-width$/, clients: ['outlook'] },
+  { label: 'background-size', property: /^background-size$/, clients: ['outlook'] },
+  { label: 'object-fit', property: /^object-fit$/, clients: ['outlook', 'gmail'] },
+  { label: 'animation, transition or transform', property: /^(animation|transition|transform)(-|$)/, clients: ['outlook', 'gmail'] },
+  { label: 'opacity', property: /^opacity$/, clients: ['outlook'] },
+  { label: 'rgba() or hsl() colour', property: /./, value: /rgba\(|hsla?\(/, clients: ['outlook'] },
+  { label: 'CSS gradient', property: /./, value: /(linear|radial)-gradient/, clients: ['outlook'] },
+  { label: 'CSS variable', property: /./, value: /var\(--/, clients: ['outlook', 'gmail', 'yahoo'] },
+];
+
+interface RawFinding {
+  rule: CompatibilityRule;
+  severity: CompatibilitySeverity;
+  message: string;
+  clients: ClientFamily[];
+}
+
+const parseDeclarations = (css: string) =>
+  css.split(';')
+    .map(declaration => {
+      const colon = declaration.indexOf(':');
+      return colon === -1 ? null : {
+        property: declaration.slice(0, colon).trim().toLowerCase(),
+        value: declaration.slice(colon + 1).trim().toLowerCase(),
+      };
+    })
+    .filter((declaration): declaration is { property: string; value: string } => !!declaration && !!declaration.property);
+
+const lintCss = (css: string): RawFinding[] =>
+  parseDeclarations(css).flatMap(({ property, value }) =>
+    CSS_SUPPORT
+      .filter(rule => rule.property.test(property) && (!rule.value || rule.value.test(value)))
+      .map(rule => ({
+        rule: 'unsupported-css' as const,
+        severity: 'warning' as const,
+        message: `${rule.label} isn't supported in ${rule.clients.map(client => CLIENT_LABELS[client]).join(', ')}`,
+        clients: rule.clients,
+      })));
+
+const lintImage = (img: HTMLImageElement): RawFinding[] => {
+  const findings: RawFinding[] = [];
+  const src = img.getAttribute('src') || '';
+
+  if (!img.hasAttribute('alt')) {
+    findings.push({
+      rule: 'missing-alt',
+      severity: 'warning',
+      message: 'Image has no alt text, which shows while images are blocked and is read by screen readers',
+      clients: ['outlook', 'gmail', 'apple', 'yahoo'],
+    });
+  }
+  if (!img.hasAttribute('width') || !img.hasAttribute('height')) {
+    findings.push({
+      rule: 'image-dimensions',
+      severity: 'warning',
+      message: "Image has no width/height attributes; Outlook ignores CSS sizes and shows it at its file's size",
+      clients: ['outlook'],
+    });
+  }
+  if (src.startsWith('data:')) {
+    findings.push({
+      rule: 'image-url',
+      severity: 'error',
+      message: 'Image is embedded as a data URL, which Gmail and Outlook block; upload it and use its URL',
+      clients: ['gmail', 'outlook'],
+    });
+  } else if (!/^https?:\/\//i.test(src)) {
+    findings.push({
+      rule: 'image-url',
+      severity: 'error',
+      message: `Image URL "${src || '(empty)'}" isn't absolute, so it can't load in any client`,
+      clients: ['outlook', 'gmail', 'apple', 'yahoo'],
+    });
+  } else if (src.startsWith('http://')) {
+    findings.push({
+      rule: 'image-url',
+      severity: 'warning',
+      message: 'Image is served over http://; some clients block or warn about insecure images',
+      clients: ['gmail', 'apple'],
+    });
+  }
+  return findings;
+};
+
+const hasBackgroundImage = (element: Element) =>
+  element.hasAttribute('background') || /background(-image)?\s*:[^;]*url\(/i.test(element.getAttribute('style') || '');
+
+// Lints one exported HTML document; VML lives in conditional comments, so it's checked on the raw string
+const lintHtml = (html: string): RawFinding[] => {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  const findings: RawFinding[] = [];
+
+  // Selectors and at-rule preludes are dropped so stylesheet rules read like inline declarations
+  document.querySelectorAll('style').forEach(style =>
+    findings.push(...lintCss((style.textContent || '').replace(/[^{};]*\{/g, ';').replace(/\}/g, ';'))));
+  document.querySelectorAll('[style]').forEach(element => findings.push(...lintCss(element.getAttribute('style') || '')));
+  document.querySelectorAll('img').forEach(img => findings.push(...lintImage(img)));
+
+  const backgrounds = Array.from(document.querySelectorAll('*')).filter(hasBackgroundImage).length;
+  if (backgrounds > 0 && !/<v:(rect|roundrect|fill|image)\b/i.test(html)) {
+    findings.push(...Array.from({ length: backgrounds }, () => ({
+      rule: 'background-vml' as const,
+      severity: 'error' as const,
+      message: 'Background image has no VML fallback, so Outlook shows only the background colour',
+      clients: ['outlook' as const],
+    })));
+  }
+  return findings;
+};
+
+const findingKey = (finding: RawFinding) => `${finding.rule}|${finding.message}`;
+
+// Collapses repeats of the same problem into one finding with a count
+const group = (raw: RawFinding[], blockId: string | null): CompatibilityFinding[] => {
+  const grouped = new Map<string, CompatibilityFinding>();
+  raw.forEach(finding => {
+    const key = findingKey(finding);
+    const existing = grouped.get(key);
+    if (existing) {
+      existing.count += 1;
+    } else {
+      grouped.set(key, { ...finding, id: `${blockId || 'email'}|${key}`, blockId, count: 1 });
+    }
+  });
+  return Array.from(grouped.values());
+};
+
+const SEVERITY_ORDER: Record<CompatibilitySeverity, number> = { error: 0, warning: 1, info: 2 };
+
+export const checkEmailCompatibility = (blocks: EditorBlock[], preheader: string): CompatibilityReport => {
+  const html = generateEmailHTML(blocks, preheader);
+  const sizeBytes = new TextEncoder().encode(html).length;
+
+  const shellFindings = lintHtml(generateEmailHTML([], preheader));
+  const shellCounts = new Map<string, number>();
+  shellFindings.forEach(finding => shellCounts.set(findingKey(finding), (shellCounts.get(findingKey(finding)) || 0) + 1));
+  // Drops as many of each finding as the shell produced, leaving what the block itself added
+  const withoutShell = (raw: RawFinding[]) => {
+    const remaining = new Map(shellCounts);
+    return raw.filter(finding => {
+      const left = remaining.get(findingKey(finding)) || 0;
+      remaining.set(findingKey(finding), left - 1);
+      return left <= 0;
+    });
+  };
+  const emailFindings: RawFinding[] = [...shellFindings];
+
+  if (sizeBytes > GMAIL_CLIP_BYTES) {
+    emailFindings.push({
+      rule: 'gmail-clip',
+      severity: 'error',
+      message: `The HTML is ${(sizeBytes / 1024).toFixed(1)}KB; Gmail clips anything over 102KB, hiding the rest of the email and its footer`,
+      clients: ['gmail'],
+    });
+  } else if (sizeBytes > GMAIL_CLIP_WARNING_BYTES) {
+    emailFindings.push({
+      rule: 'gmail-clip',
+      severity: 'warning',
+      message: `The HTML is ${(sizeBytes / 1024).toFixed(1)}KB, close to Gmail's 102KB clipping limit`,
+      clients: ['gmail'],
+    });
+  }
+
+  if (!/name=["']?(color-scheme|supported-color-schemes)/i.test(html) && !/prefers-color-scheme/i.test(html)) {
+    emailFindings.push({
+      rule: 'dark-mode',
+      severity: 'info',
+      message: 'No color-scheme meta tag or dark mode styles, so clients that invert colours will recolour this email; check logos and text over images',
+      clients: ['gmail', 'outlook', 'apple'],
+    });
+  }
+
+  const blockFindings = blocks.flatMap(block => group(
+    withoutShell(lintHtml(generateEmailHTML([block], preheader))),
+    block.id
+  ));
+
+  return {
+    sizeBytes,
+    findings: [...group(emailFindings, null), ...blockFindings]
+      .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]),
+  };
+};
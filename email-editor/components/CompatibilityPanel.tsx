@@ -0,0 +1,124 @@
+'use client';
+
+import React, { useState } from 'react';
+import { AlertCircle, AlertTriangle, Info, X } from 'lucide-react';
+import { EditorBlock } from '@/types/email-editor';
+import type { ClientFamily, CompatibilityReport, CompatibilitySeverity } from '../compatibility';
+import { CLIENT_LABELS, GMAIL_CLIP_BYTES } from '../compatibility';
+
+interface CompatibilityPanelProps {
+  report: CompatibilityReport | null;
+  blocks: EditorBlock[];
+  onJumpToBlock: (blockId: string) => void;
+  onClose: () => void;
+}
+
+const SEVERITY_STYLES: Record<CompatibilitySeverity, { icon: typeof AlertCircle; className: string; label: string }> = {
+  error: { icon: AlertCircle, className: 'text-red-600', label: 'Errors' },
+  warning: { icon: AlertTriangle, className: 'text-amber-600', label: 'Warnings' },
+  info: { icon: Info, className: 'text-blue-600', label: 'Notes' },
+};
+
+export function CompatibilityPanel({ report, blocks, onJumpToBlock, onClose }: CompatibilityPanelProps) {
+  const [client, setClient] = useState<ClientFamily | null>(null);
+
+  const blockLabel = (blockId: string) => {
+    const index = blocks.findIndex(block => block.id === blockId);
+    return index === -1 ? 'Removed block' : `${index + 1}. ${String(blocks[index].type).replace(/[-_]/g, ' ')}`;
+  };
+
+  const findings = (report?.findings || []).filter(finding => !client || finding.clients.includes(client));
+  const sizePercent = report ? Math.min(100, (report.sizeBytes / GMAIL_CLIP_BYTES) * 100) : 0;
+
+  return (
+    <div className="h-full flex flex-col bg-white border-l">
+      <div className="flex items-center justify-between px-4 py-3 border-b">
+        <h2 className="font-semibold text-sm">Client Compatibility</h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-800" title="Close">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {!report ? (
+        <p className="text-sm text-gray-500 p-4">Checking...</p>
+      ) : (
+        <>
+          <div className="px-4 py-3 border-b space-y-2">
+            <div className="flex justify-between text-xs text-gray-600">
+              <span>HTML size</span>
+              <span>{(report.sizeBytes / 1024).toFixed(1)}KB of 102KB (Gmail clip)</span>
+            </div>
+            <div className="h-1.5 bg-gray-100 rounded">
+              <div
+                className={`h-1.5 rounded ${sizePercent >= 100 ? 'bg-red-500' : sizePercent >= 90 ? 'bg-amber-500' : 'bg-green-500'}`}
+                style={{ width: `${sizePercent}%` }}
+              />
+            </div>
+            <div className="flex flex-wrap gap-1">
+              <button
+                onClick={() => setClient(null)}
+                className={`text-xs px-2 py-0.5 rounded ${client === null ? 'bg-gray-800 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+              >
+                All clients
+              </button>
+              {(Object.keys(CLIENT_LABELS) as ClientFamily[]).map(family => (
+                <button
+                  key={family}
+                  onClick={() => setClient(family)}
+                  className={`text-xs px-2 py-0.5 rounded ${client === family ? 'bg-gray-800 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+                >
+                  {CLIENT_LABELS[family]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto">
+            {findings.length === 0 ? (
+              <p className="text-sm text-gray-500 p-4">No problems found{client ? ` for ${CLIENT_LABELS[client]}` : ''}.</p>
+            ) : (
+              (Object.keys(SEVERITY_STYLES) as CompatibilitySeverity[]).map(severity => {
+                const group = findings.filter(finding => finding.severity === severity);
+                if (group.length === 0) return null;
+                const { icon: Icon, className, label } = SEVERITY_STYLES[severity];
+                return (
+                  <section key={severity}>
+                    <h3 className={`px-4 pt-3 pb-1 text-xs font-semibold uppercase ${className}`}>
+                      {label} ({group.length})
+                    </h3>
+                    <ul className="divide-y">
+                      {group.map(finding => (
+                        <li key={finding.id} className="flex gap-2 px-4 py-2 text-xs">
+                          <Icon className={`h-4 w-4 flex-shrink-0 ${className}`} />
+                          <div className="flex-1 min-w-0">
+                            <p className="text-gray-800">
+                              {finding.message}
+                              {finding.count > 1 && <span className="text-gray-500"> (x{finding.count})</span>}
+                            </p>
+                            <p className="text-gray-500 mt-0.5">
+                              {finding.clients.map(family => CLIENT_LABELS[family]).join(' · ')}
+                            </p>
+                            {finding.blockId ? (
+                              <button
+                                onClick={() => onJumpToBlock(finding.blockId!)}
+                                className="mt-1 text-blue-600 hover:text-blue-800 capitalize"
+                              >
+                                Go to {blockLabel(finding.blockId)}
+                              </button>
+                            ) : (
+                              <p className="mt-1 text-gray-400">Whole email</p>
+                            )}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                );
+              })
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { EditorBlock } from '@/types/email-editor';
+import { generateEmailHTML } from '@/lib/emailExporter';
+import { generatePlainText } from '../plainText';
+import type { DarkModeSimulation } from '../preview';
+import {
+  DARK_MODE_LABELS,
+  PREVIEW_WIDTHS,
+  simulateBlockedImages,
+  simulateDarkMode,
+  withPreviewBase,
+} from '../preview';
+
+interface PreviewMatrixDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  blocks: EditorBlock[];
+  preheader: string;
+}
+
+type PreviewView = 'html' | 'text';
+
+export function PreviewMatrixDialog({ open, onOpenChange, blocks, preheader }: PreviewMatrixDialogProps) {
+  const [widths, setWidths] = useState<number[]>([320, 375, 600]);
+  const [darkMode, setDarkMode] = useState<DarkModeSimulation>('off');
+  const [blockImages, setBlockImages] = useState(false);
+  const [view, setView] = useState<PreviewView>('html');
+
+  const html = useMemo(() => {
+    if (!open || view !== 'html') return '';
+    let output = simulateDarkMode(generateEmailHTML(blocks, preheader), darkMode);
+    if (blockImages) output = simulateBlockedImages(output);
+    return withPreviewBase(output);
+  }, [open, view, blocks, preheader, darkMode, blockImages]);
+
+  const plainText = useMemo(
+    () => (open && view === 'text' ? generatePlainText(blocks, preheader) : ''),
+    [open, view, blocks, preheader],
+  );
+
+  const toggleWidth = (width: number) => {
+    setWidths(prev => (prev.includes(width)
+      ? prev.filter(w => w !== width)
+      : [...prev, width].sort((a, b) => a - b)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[95vw] h-[92vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Preview Matrix</DialogTitle>
+          <DialogDescription>
+            The exported email at several widths. Dark mode and image blocking approximate what each client family does.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <div className="flex rounded-md border overflow-hidden">
+            {(['html', 'text'] as PreviewView[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1 ${view === option ? 'bg-gray-800 text-white' : 'bg-white hover:bg-gray-50'}`}
+              >
+                {option === 'html' ? 'HTML' : 'Plain text'}
+              </button>
+            ))}
+          </div>
+          {view === 'html' && (
+            <>
+              <div className="flex flex-wrap gap-1">
+                {PREVIEW_WIDTHS.map(({ label, width }) => (
+                  <button
+                    key={width}
+                    onClick={() => toggleWidth(width)}
+                    className={`text-xs px-2 py-1 rounded ${widths.includes(width) ? 'bg-gray-800 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+                  >
+                    {label} ({width}px)
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="preview-dark-mode">Mode</Label>
+                <select
+                  id="preview-dark-mode"
+                  value={darkMode}
+                  onChange={(e) => setDarkMode(e.target.value as DarkModeSimulation)}
+                  className="border border-input rounded-md px-2 py-1 text-sm bg-background"
+                >
+                  {(Object.keys(DARK_MODE_LABELS) as DarkModeSimulation[]).map(mode => (
+                    <option key={mode} value={mode}>{DARK_MODE_LABELS[mode]}</option>
+                  ))}
+                </select>
+              </div>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={blockImages} onChange={(e) => setBlockImages(e.target.checked)} />
+                Images blocked
+              </label>
+            </>
+          )}
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-auto bg-gray-100 rounded-md p-4">
+          {view === 'text' ? (
+            <pre className="max-w-[80ch] mx-auto bg-white p-6 rounded shadow-sm text-sm whitespace-pre-wrap font-mono">
+              {plainText}
+            </pre>
+          ) : widths.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">Choose at least one width to preview.</p>
+          ) : (
+            <div className="flex gap-4 items-start h-full">
+              {widths.map(width => (
+                <div key={width} className="flex flex-col h-full flex-shrink-0">
+                  <p className="text-xs text-gray-600 mb-1">{width}px</p>
+                  {/* Sandboxed: no scripts, forms or same-origin access; links may open new tabs */}
+                  <iframe
+                    title={`Email preview at ${width}px`}
+                    srcDoc={html}
+                    sandbox="allow-popups allow-popups-to-escape-sandbox"
+                    style={{ width }}
+                    className="flex-1 bg-white border rounded shadow-sm"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Lock } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { BlockType, EditorBlock } from '@/types/email-editor';
+import type { EmailTemplateSummary, TemplateSource } from '../templates';
+import { listTemplates, saveTemplate } from '../templates';
+
+interface SaveTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  blocks: EditorBlock[];
+  lockedBlockIds: string[];
+  templateSource: TemplateSource | null;
+  userId: string;
+}
+
+// Header and footer carry the brand, so they start out locked
+const isBrandBlock = (block: EditorBlock) => block.type === BlockType.Header || block.type === BlockType.Footer;
+
+export function SaveTemplateDialog({ open, onOpenChange, blocks, lockedBlockIds, templateSource, userId }: SaveTemplateDialogProps) {
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<EmailTemplateSummary[]>([]);
+  const [targetId, setTargetId] = useState('');
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+  const [stripCopy, setStripCopy] = useState(true);
+  const [locked, setLocked] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setLocked(new Set(blocks.filter(block => lockedBlockIds.includes(block.id) || isBrandBlock(block)).map(block => block.id)));
+    listTemplates()
+      .then(list => {
+        setTemplates(list);
+        // Emails started from a template default to saving a new version of it
+        const source = templateSource && list.find(template => template.id === templateSource.templateId);
+        setTargetId(source ? source.id : '');
+        setName(source ? source.name : '');
+        setTags(source ? source.tags.join(', ') : '');
+      })
+      .catch(error => {
+        console.error('Error loading templates:', error);
+        setTemplates([]);
+      });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const handleTargetChange = (id: string) => {
+    setTargetId(id);
+    const template = templates.find(t => t.id === id);
+    if (template) {
+      setName(template.name);
+      setTags(template.tags.join(', '));
+    }
+  };
+
+  const toggleLocked = (blockId: string) => {
+    setLocked(prev => {
+      const next = new Set(prev);
+      if (next.has(blockId)) next.delete(blockId);
+      else next.add(blockId);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    try {
+      const saved = await saveTemplate({
+        templateId: targetId || undefined,
+        name: name.trim(),
+        tags: tags.split(',').map(tag => tag.trim()).filter(Boolean),
+        blocks,
+        lockedBlockIds: Array.from(locked),
+        stripCopy,
+        userId,
+      });
+      toast({
+        title: 'Template Saved',
+        description: `"${saved.name}" saved as version ${saved.currentVersion}.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast({
+        title: 'Save Failed',
+        description: error instanceof Error ? error.message : 'Could not save the template.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Save this layout to the template library. Locked blocks can't be edited in emails made from it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="template-target">Save to</Label>
+            <select
+              id="template-target"
+              value={targetId}
+              onChange={(e) => handleTargetChange(e.target.value)}
+              className="border border-input rounded-md px-3 py-2 text-sm bg-background"
+            >
+              <option value="">New template</option>
+              {templates.map(template => (
+                <option key={template.id} value={template.id}>
+                  {template.name} (new version after v{template.currentVersion})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. New arrivals - 3 column" />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="template-tags">Tags</Label>
+            <Input id="template-tags" value={tags} onChange={(e) => setTags(e.target.value)} placeholder="sale, newsletter, hero" />
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={stripCopy} onChange={(e) => setStripCopy(e.target.checked)} />
+            Remove campaign copy and products (locked blocks are kept as they are)
+          </label>
+          <div className="grid gap-2">
+            <Label>Locked brand blocks</Label>
+            <ul className="max-h-48 overflow-y-auto border rounded-md divide-y text-sm">
+              {blocks.map((block, index) => (
+                <li key={block.id}>
+                  <label className="flex items-center gap-2 px-3 py-1.5 cursor-pointer">
+                    <input type="checkbox" checked={locked.has(block.id)} onChange={() => toggleLocked(block.id)} />
+                    <span className="flex-1 capitalize">{index + 1}. {String(block.type).replace(/[-_]/g, ' ')}</span>
+                    {locked.has(block.id) && <Lock className="h-3 w-3 text-gray-500" />}
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !name.trim()}>
+            {saving ? 'Saving...' : targetId ? 'Save New Version' : 'Save Template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
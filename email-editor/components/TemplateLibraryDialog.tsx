@@ -0,0 +1,190 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { History, LayoutTemplate } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import type { EmailTemplateSummary, EmailTemplateVersion } from '../templates';
+import { getTemplateVersion, listTemplates, listTemplateVersions, searchTemplates } from '../templates';
+
+interface TemplateLibraryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUseTemplate: (template: EmailTemplateSummary, version: EmailTemplateVersion) => void;
+  onStartBlank: () => void;
+}
+
+export function TemplateLibraryDialog({ open, onOpenChange, onUseTemplate, onStartBlank }: TemplateLibraryDialogProps) {
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<EmailTemplateSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [searchText, setSearchText] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [versions, setVersions] = useState<EmailTemplateVersion[]>([]);
+  const [opening, setOpening] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    listTemplates()
+      .then(setTemplates)
+      .catch(error => {
+        console.error('Error loading templates:', error);
+        toast({ title: 'Load Error', description: 'Could not load the template library.', variant: 'destructive' });
+      })
+      .finally(() => setLoading(false));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const handleUse = async (template: EmailTemplateSummary, versionNumber = template.currentVersion) => {
+    setOpening(`${template.id}:${versionNumber}`);
+    try {
+      const version = versions.find(v => expandedId === template.id && v.version === versionNumber)
+        || await getTemplateVersion(template.id, versionNumber);
+      onUseTemplate(template, version);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error opening template:', error);
+      toast({
+        title: 'Open Failed',
+        description: error instanceof Error ? error.message : 'Could not open the template.',
+        variant: 'destructive',
+      });
+    } finally {
+      setOpening(null);
+    }
+  };
+
+  const toggleVersions = async (templateId: string) => {
+    if (expandedId === templateId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(templateId);
+    setVersions([]);
+    try {
+      setVersions(await listTemplateVersions(templateId));
+    } catch (error) {
+      console.error('Error loading template versions:', error);
+    }
+  };
+
+  const results = searchTemplates(templates, searchText);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>Start from a Template</DialogTitle>
+          <DialogDescription>Pick a saved layout for this email, or start with the default blocks.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            placeholder="Search templates by name or tag..."
+            className="flex-1"
+          />
+          <Button
+            variant="outline"
+            onClick={() => {
+              onStartBlank();
+              onOpenChange(false);
+            }}
+          >
+            Default Layout
+          </Button>
+        </div>
+
+        <div className="max-h-[60vh] overflow-y-auto">
+          {loading ? (
+            <p className="text-sm text-gray-500 py-8 text-center">Loading templates...</p>
+          ) : results.length === 0 ? (
+            <p className="text-sm text-gray-500 py-8 text-center">
+              {templates.length === 0 ? 'No templates saved yet.' : 'No templates match your search.'}
+            </p>
+          ) : (
+            <ul className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {results.map(template => (
+                <li key={template.id} className="border rounded-lg overflow-hidden">
+                  <div className="flex gap-3 p-3">
+                    <div className="w-20 h-20 flex-shrink-0 bg-gray-50 rounded flex items-center justify-center overflow-hidden">
+                      {template.thumbnailUrl ? (
+                        <img src={template.thumbnailUrl} alt={template.name} className="w-full h-full object-cover" />
+                      ) : (
+                        <LayoutTemplate className="h-8 w-8 text-gray-300" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-sm truncate" title={template.name}>{template.name}</p>
+                      <p className="text-xs text-gray-500">
+                        v{template.currentVersion} · {template.blockCount} blocks · {new Date(template.updatedAt).toLocaleDateString()}
+                      </p>
+                      {template.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {template.tags.map(tag => (
+                            <button
+                              key={tag}
+                              onClick={() => setSearchText(tag)}
+                              className="text-xs px-1.5 py-0.5 bg-gray-100 rounded hover:bg-gray-200"
+                            >
+                              {tag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      <div className="flex items-center gap-2 mt-2">
+                        <Button size="sm" onClick={() => handleUse(template)} disabled={opening !== null}>
+                          {opening === `${template.id}:${template.currentVersion}` ? 'Opening...' : 'Use'}
+                        </Button>
+                        {template.currentVersion > 1 && (
+                          <button
+                            onClick={() => toggleVersions(template.id)}
+                            className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900"
+                          >
+                            <History className="h-3 w-3" />
+                            Versions
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                  {expandedId === template.id && (
+                    <ul className="border-t divide-y text-xs">
+                      {versions.length === 0 ? (
+                        <li className="px-3 py-2 text-gray-500">Loading versions...</li>
+                      ) : versions.map(version => (
+                        <li key={version.version} className="flex items-center gap-2 px-3 py-1.5">
+                          <span className="font-medium">v{version.version}</span>
+                          <span className="flex-1 text-gray-500 truncate">
+                            {version.savedBy} · {new Date(version.savedAt).toLocaleString()}
+                          </span>
+                          <button
+                            onClick={() => handleUse(template, version.version)}
+                            disabled={opening !== null}
+                            className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                          >
+                            Use
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { ImageGridBlockData, ImageGridItem, isBlockType, ImageBlockData, HeaderBlockData, ActivePanelType, AnimatedImageData } from '@/types/email-editor'; // Added ImageGridItem, ActivePanelType, AnimatedImageData
 import { useRouter, useSearchParams } from 'next/navigation'; // Import useRouter
-import React, { useState, useCallback, ReactElement, useEffect, useRef, Suspense } from 'react'; // Added React, useEffect, useRef
+import React, { useState, useCallback, ReactElement, useEffect, useRef, useMemo, Suspense } from 'react'; // Added React, useEffect, useRef
 import dynamic from 'next/dynamic';
 import { DndProvider } from 'react-dnd';
 import { HTML5Backend } from 'react-dnd-html5-backend';
@@ -47,6 +47,17 @@ import { CollectionPreview } from '@/components/CollectionPreview';
 // import { generateAndUploadThumbnail } from '@/lib/thumbnailGenerator'; // Import for thumbnail generation
 // import type { ImageEditorSourceData, EditableImageData } from '@/components/email-generator/ImageEditorModal'; // Replaced with PolotnoStudioModal
 import { GifEditorModal } from '@/components/email-generator/GifEditorModal'; // Import GIF Editor Modal
+import { SaveTemplateDialog } from './components/SaveTemplateDialog';
+import { TemplateLibraryDialog } from './components/TemplateLibraryDialog';
+import { instantiateTemplate, protectLockedBlocks } from './templates';
+import type { EmailTemplateSummary, EmailTemplateVersion, TemplateSource } from './templates';
+import { clearDraft, getRevision, loadDraft, mergeBlocks, mergeMetadata, sameBlocks, saveDraft, saveRevision } from './autosave';
+import type { CampaignMetadata, EmailDraft, SavedBase } from './autosave';
+import { generateAmpEmail, hasProductGrid } from './alternates';
+import { generatePlainText } from './plainText';
+import { CompatibilityPanel } from './components/CompatibilityPanel';
+import { PreviewMatrixDialog } from './components/PreviewMatrixDialog';
+import { checkEmailCompatibility } from './compatibility';
 
 // Define ImageEditorSourceData type for compatibility
 type ImageEditorSourceData = {
@@ -57,7 +68,7 @@ type ImageEditorSourceData = {
 };
 
 import type { Product, ProductSwatch } from '@/types/product';
-import { Info } from 'lucide-react';
+import { Info, LayoutTemplate, MonitorSmartphone, ShieldCheck } from 'lucide-react';
 
 // Define the swatch type locally for the page
 type ProductSwatchType = ProductSwatch;
@@ -239,6 +250,13 @@ function EmailEditorContent() {
   const [currentUser, setCurrentUser] = useState<TempUser | null>(null);
   const [currentEmailId, setCurrentEmailId] = useState<string>(roomId); // Use the roomId from URL params
   const debounceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // The last revision saved or loaded; autosave merges against it when the stored email has moved on
+  const savedBaseRef = useRef<SavedBase>({ revisionId: null, blocks: [] });
+  const savedMetadataRef = useRef<CampaignMetadata>({ campaignName: '', subjectLine: '', preheader: '', sendDate: '' });
+  const [autosaveStatus, setAutosaveStatus] = useState<'idle' | 'pending' | 'saving' | 'saved' | 'error'>('idle');
+  const [lastAutosavedAt, setLastAutosavedAt] = useState<Date | null>(null);
+  const [autosaveAttempt, setAutosaveAttempt] = useState(0);
+  const [recoverableDraft, setRecoverableDraft] = useState<EmailDraft | null>(null);
   const isRemoteChange = useRef(false); // Ref to prevent feedback loop
   const [isImageEditorOpen, setIsImageEditorOpen] = useState(false);
   const [imageToEdit, setImageToEdit] = useState<{ blockId: string; imageIndex?: number; frameIndex?: number; imageUrl: string } | null>(null);
@@ -255,11 +273,20 @@ function EmailEditorContent() {
   const [isRoomInfoOpen, setIsRoomInfoOpen] = useState(false);
   const [isViewOnly, setIsViewOnly] = useState(false);
   const [showCollections, setShowCollections] = useState(false);
+  // Brand blocks from the template this email was started from; their content can't be edited
+  const [lockedBlockIds, setLockedBlockIds] = useState<string[]>([]);
+  const [templateSource, setTemplateSource] = useState<TemplateSource | null>(null);
+  const [isTemplateLibraryOpen, setIsTemplateLibraryOpen] = useState(false);
+  // Set while a brand-new email is still untouched, so picking a template doesn't need confirming
+  const [isNewEmail, setIsNewEmail] = useState(false);
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false);
+  const [isCompatibilityOpen, setIsCompatibilityOpen] = useState(false);
+  const [isPreviewMatrixOpen, setIsPreviewMatrixOpen] = useState(false);
   // Canvas-only comments (not exported)
   const [comments, setComments] = useState<{ id: string; blockId: string; text: string; resolved?: boolean }[]>([]);
 
   // Helper function to check if any modal is open (excludes sidebars)
-  const isAnyModalOpen = isImageEditorOpen || isGifEditorOpen || isMeetingOpen || isChatOpen || isCursorSettingsOpen || isRoomInfoOpen;
+  const isAnyModalOpen = isImageEditorOpen || isGifEditorOpen || isMeetingOpen || isChatOpen || isCursorSettingsOpen || isRoomInfoOpen || isTemplateLibraryOpen || isSaveTemplateOpen || isPreviewMatrixOpen;
   
   // Helper function to check if any sidebar is open
   const isAnySidebarOpen = isProductSearchSliderOpen;
@@ -383,6 +410,11 @@ function EmailEditorContent() {
     if (!roomIdFromUrl) {
       console.log('❌ No room ID found in URL');
       setIsDataLoaded(true);
+      // A new email: offer the template library instead of going straight to the default blocks
+      if (!viewOnly) {
+        setIsNewEmail(true);
+        setIsTemplateLibraryOpen(true);
+      }
       return;
     }
 
@@ -423,19 +455,42 @@ function EmailEditorContent() {
           console.log('🏠 Loaded room data from Firebase:', data);
           
           if (data.blocks) {
+            savedBaseRef.current = { revisionId: data.revisionId || null, blocks: data.blocks };
             setBlocks(data.blocks);
             setCampaignName(data.campaignName || '');
             setCampaignSummary(data.campaignSummary || '');
             setSubjectLine(data.subjectLine || '');
             setPreheader(data.preheader || '');
             setSendDate(data.sendDate || '');
+            savedMetadataRef.current = {
+              campaignName: data.campaignName || '',
+              subjectLine: data.subjectLine || '',
+              preheader: data.preheader || '',
+              sendDate: data.sendDate || '',
+            };
+            setLockedBlockIds(data.lockedBlockIds || []);
+            setTemplateSource(data.templateSource || null);
           }
         } else {
           console.log('🏠 No existing room data found, starting with defaults');
-          // Initialize with default blocks for new rooms
-          setBlocks(getInitialBlocks());
+          // Initialize with default blocks for new rooms, and let the user pick a template instead
+          const initialBlocks = getInitialBlocks();
+          savedBaseRef.current = { revisionId: null, blocks: initialBlocks };
+          setBlocks(initialBlocks);
+          if (!viewOnly) {
+            setIsNewEmail(true);
+            setIsTemplateLibraryOpen(true);
+          }
         }
         
+        // Offer back anything that was edited here but never reached Firestore
+        const draft = viewOnly ? null : loadDraft(roomIdFromUrl);
+        if (draft && !sameBlocks(draft.blocks, savedBaseRef.current.blocks)) {
+          setRecoverableDraft(draft);
+        } else if (draft) {
+          clearDraft(roomIdFromUrl);
+        }
+
         const loadTime = performance.now() - startTime;
         console.log('✅ Room data loaded in:', Math.round(loadTime) + 'ms');
         setIsDataLoaded(true);
@@ -480,10 +535,13 @@ function EmailEditorContent() {
           subjectLine,
           preheader,
           sendDate,
+          lockedBlockIds,
+          templateSource,
           lastUpdatedBy: currentUser?.uid,
           lastUpdated: serverTimestamp(),
           updatedAt: serverTimestamp(),
         }, { merge: true });
+        savedMetadataRef.current = { campaignName, subjectLine, preheader, sendDate };
         
         console.log('💾 Campaign metadata saved:', { campaignName, subjectLine, preheader, sendDate });
       } catch (error) {
@@ -494,7 +552,7 @@ function EmailEditorContent() {
     // Debounce campaign data saves
     const timeoutId = setTimeout(saveCampaignData, 1000);
     return () => clearTimeout(timeoutId);
-  }, [campaignName, subjectLine, preheader, sendDate, currentEmailId, isDataLoaded, currentUser?.uid]);
+  }, [campaignName, subjectLine, preheader, sendDate, lockedBlockIds, templateSource, currentEmailId, isDataLoaded, currentUser?.uid]);
 
 
 
@@ -519,57 +577,70 @@ function EmailEditorContent() {
     console.log('🖼️ Thumbnail generation disabled - using real-time hover preview');
   };
 
-  // Debounced save effect - TEMPORARILY DISABLED
-  /* useEffect(() => {
-    // Prevent auto-saving until the initial data has been loaded from Firestore.
-    // This stops the initial/default state from overwriting your saved work on page load.
-    if (!isDataLoaded) {
+  // Latest blocks and updater for the autosave callback, which finishes after the render that started it
+  const blocksRef = useRef(blocks);
+  blocksRef.current = blocks;
+  const updateBlocksRef = useRef<(newBlocksState: EditorBlock[]) => void>(() => {});
+
+  // Debounced auto-save. Nothing is written until the stored email has loaded and the
+  // blocks differ from the last saved revision, so the initial state can't overwrite saved work.
+  useEffect(() => {
+    if (!isDataLoaded || isViewOnly || !currentEmailId || currentEmailId === 'default_email_id') {
+      return;
+    }
+    if (sameBlocks(blocks, savedBaseRef.current.blocks)) {
       return;
     }
 
+    setAutosaveStatus('pending');
+    saveDraft(currentEmailId, {
+      blocks,
+      baseRevisionId: savedBaseRef.current.revisionId,
+      campaignName,
+      subjectLine,
+      preheader,
+      sendDate,
+      baseMetadata: savedMetadataRef.current,
+      savedAt: new Date().toISOString(),
+    });
+
     if (debounceTimeoutRef.current) {
       clearTimeout(debounceTimeoutRef.current);
     }
 
     debounceTimeoutRef.current = setTimeout(async () => {
-      console.log("[DEBUG Auto-Save] Timeout triggered. currentEmailId:", currentEmailId, "currentUser:", currentUser?.uid);
-      if (!currentEmailId || currentEmailId === 'default_email_id') { // Also check for default
-        console.log("[DEBUG Auto-Save] No valid currentEmailId, skipping auto-save.");
-        return;
-      }
-      
-      console.log(`[DEBUG Auto-Save] Attempting to auto-save email for currentEmailId: ${currentEmailId}`);
-      // Step 1: Construct the raw data object that needs to be saved.
-      const rawDataForSave = {
-        blocks: blocks, // Use raw blocks from state; sanitization will happen next.
-        campaignName,
-        campaignSummary,
-        sendDate,
-        subjectLine,
-        preheader,
-        lastSaved: serverTimestamp(),
-        userId: currentUser?.uid || 'anonymous',
-      };
-
-      // Step 2: Sanitize the entire data object before sending to Firestore.
-      const finalDataForFirestore = sanitizeDataForFirestore(rawDataForSave);
-
+      const savedBlocks = blocksRef.current;
+      setAutosaveStatus('saving');
       try {
-        const emailDocRef = doc(db, 'userEmails', currentEmailId);
-        await setDoc(emailDocRef, finalDataForFirestore, { merge: true });
-        
-        toast({
-          title: 'Email Auto-Saved',
-          description: 'Your changes have been automatically saved.',
-        });
-        console.log(`Email ${currentEmailId} auto-saved successfully.`);
+        const { base, merge } = await saveRevision(currentEmailId, savedBaseRef.current, savedBlocks, currentUser?.uid || 'anonymous');
+        savedBaseRef.current = base;
+
+        const currentBlocks = blocksRef.current;
+        if (merge) {
+          // Anything edited while the save was in flight is merged on top of the saved revision
+          const nextBlocks = currentBlocks === savedBlocks ? merge.blocks : mergeBlocks(savedBlocks, currentBlocks, merge.blocks).blocks;
+          if (!sameBlocks(nextBlocks, currentBlocks)) {
+            updateBlocksRef.current(nextBlocks);
+          }
+          if (merge.conflicts.length > 0) {
+            toast({
+              title: 'Merged With Other Changes',
+              description: `${merge.conflicts.length} block${merge.conflicts.length === 1 ? ' was' : 's were'} also changed by someone else; your version was kept where the edits clashed.`,
+            });
+          }
+        }
+        if (currentBlocks === savedBlocks) {
+          clearDraft(currentEmailId);
+          setLastAutosavedAt(new Date());
+          setAutosaveStatus('saved');
+        } else {
+          // Edits made while the save was in flight still need saving
+          setAutosaveStatus('pending');
+          setAutosaveAttempt(attempt => attempt + 1);
+        }
       } catch (error) {
-        console.error("Error auto-saving email:", error);
-        toast({
-          title: 'Auto-Save Failed',
-          description: 'Could not automatically save your changes.',
-          variant: 'destructive',
-        });
+        console.error('Error auto-saving email:', error);
+        setAutosaveStatus('error');
       }
     }, 2000);
 
@@ -578,9 +649,28 @@ function EmailEditorContent() {
         clearTimeout(debounceTimeoutRef.current);
       }
     };
-  }, [isDataLoaded, blocks, campaignName, campaignSummary, sendDate, subjectLine, preheader, currentUser, currentEmailId, toast]); */
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isDataLoaded, isViewOnly, blocks, currentEmailId, autosaveAttempt]);
 
-  const updateBlocksAndHistory = (newBlocksState: EditorBlock[]) => {
+  // Warn before closing the tab while a save is still due
+  useEffect(() => {
+    if (autosaveStatus !== 'pending' && autosaveStatus !== 'saving') {
+      return;
+    }
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [autosaveStatus]);
+
+  const updateBlocksAndHistory = (requestedBlocksState: EditorBlock[]) => {
+    // Every edit passes through here, so this is where locked brand blocks are kept intact
+    const { blocks: newBlocksState, reverted } = protectLockedBlocks(blocks, requestedBlocksState, lockedBlockIds);
+    if (reverted) {
+      toast({ title: 'Brand Block Locked', description: 'Locked blocks from the template can\'t be edited or removed.', variant: 'destructive' });
+    }
     console.log('🎯 updateBlocksAndHistory called:', { 
       oldBlocksLength: blocks.length, 
       newBlocksLength: newBlocksState.length,
@@ -600,6 +690,42 @@ function EmailEditorContent() {
     // setSelectedBlockState({ block: null, element: null });
     // setEditingBlock(null);
   };
+  updateBlocksRef.current = updateBlocksAndHistory;
+
+  const handleRecoverDraft = async () => {
+    const draft = recoverableDraft;
+    if (!draft) return;
+    setRecoverableDraft(null);
+    try {
+      // Without the revision the draft started from, every difference is taken from the draft
+      const draftBase = draft.baseRevisionId ? await getRevision(currentEmailId, draft.baseRevisionId) : null;
+      const saved = savedBaseRef.current.blocks;
+      const { blocks: recoveredBlocks, conflicts } = mergeBlocks(draftBase?.blocks || saved, draft.blocks, saved);
+      updateBlocksAndHistory(recoveredBlocks);
+      // Metadata saved since the draft wins; older drafts don't record a base, so theirs is left alone
+      if (draft.baseMetadata) {
+        const metadata = mergeMetadata(draft.baseMetadata, draft, { campaignName, subjectLine, preheader, sendDate });
+        setCampaignName(metadata.campaignName);
+        setSubjectLine(metadata.subjectLine);
+        setPreheader(metadata.preheader);
+        setSendDate(metadata.sendDate);
+      }
+      toast({
+        title: 'Draft Recovered',
+        description: conflicts.length > 0
+          ? `${conflicts.length} block${conflicts.length === 1 ? ' was' : 's were'} changed since the draft; the draft's version was kept.`
+          : 'Your unsaved changes have been restored.',
+      });
+    } catch (error) {
+      console.error('Error recovering draft:', error);
+      toast({ title: 'Recovery Failed', description: 'Could not restore the unsaved changes.', variant: 'destructive' });
+    }
+  };
+
+  const handleDiscardDraft = () => {
+    clearDraft(currentEmailId);
+    setRecoverableDraft(null);
+  };
 
   // const handleSignOut = async () => {
   //   try {
@@ -738,8 +864,13 @@ function EmailEditorContent() {
     updateBlocksAndHistory(newBlocks);
   };
 
+  // EmailCanvas doesn't mark its blocks in the DOM, so their elements are remembered as it reports them
+  const blockElementsRef = useRef(new Map<string, HTMLElement>());
+  const canvasScrollRef = useRef<HTMLDivElement | null>(null);
+
   const handleSelectBlock = useCallback(
     (blockData: EditorBlock | null, element: HTMLElement | null) => {
+      if (blockData && element) blockElementsRef.current.set(blockData.id, element);
       setSelectedBlockState({ block: blockData, element: element });
       setEditingBlock(blockData); // Set the block for editing but don't auto-open settings
       // Settings panel will only open when user clicks the settings cog specifically
@@ -747,15 +878,47 @@ function EmailEditorContent() {
     [], // Removed setActivePanel dependency since we're not using it
   );
 
+  // Only lint while the report is showing; it exports every block separately
+  const compatibilityReport = useMemo(
+    () => (isCompatibilityOpen ? checkEmailCompatibility(blocks, preheader) : null),
+    [isCompatibilityOpen, blocks, preheader],
+  );
+
+  const handleJumpToBlock = useCallback(
+    (blockId: string) => {
+      const block = blocks.find(b => b.id === blockId);
+      if (!block) return;
+      // Selecting highlights the block on the canvas. A block the canvas hasn't reported
+      // yet is scrolled to roughly where it sits in the email
+      const known = blockElementsRef.current.get(blockId);
+      const element = known?.isConnected ? known : null;
+      const container = canvasScrollRef.current;
+      if (element) {
+        element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      } else if (container) {
+        const top = (blocks.indexOf(block) / blocks.length) * container.scrollHeight;
+        container.scrollTo({ top: Math.max(0, top - container.clientHeight / 4), behavior: 'smooth' });
+      }
+      handleSelectBlock(block, element);
+    },
+    [blocks, handleSelectBlock],
+  );
+
   const handleShowSettings = useCallback(
     (blockData: EditorBlock | null, element: HTMLElement | null) => {
+      if (blockData && element) blockElementsRef.current.set(blockData.id, element);
       // First select the block
       setSelectedBlockState({ block: blockData, element: element });
+      if (blockData && lockedBlockIds.includes(blockData.id)) {
+        setEditingBlock(null);
+        toast({ title: 'Brand Block Locked', description: 'This block comes from the template and can\'t be edited.' });
+        return;
+      }
       setEditingBlock(blockData);
       // Then open the settings panel
       setActivePanel('settings');
     },
-    [],
+    [lockedBlockIds, toast],
   );
 
   const handleUpdateBlockSettings = (
@@ -857,6 +1020,10 @@ function EmailEditorContent() {
   };
  
   const handleDeleteBlock = (blockId: string) => {
+    if (lockedBlockIds.includes(blockId)) {
+      toast({ title: 'Brand Block Locked', description: 'Locked blocks from the template can\'t be removed.', variant: 'destructive' });
+      return;
+    }
     const nextBlockState = produce(blocks, (draft: EditorBlock[]) => {
       const index = draft.findIndex((b: EditorBlock) => b.id === blockId);
       if (index !== -1) {
@@ -1039,6 +1206,9 @@ function EmailEditorContent() {
       return true;
     });
   };
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [exportAmp, setExportAmp] = useState(true);
+
   const handleExport = async (type: 'html' | 'images' | 'html-images') => {
     if (blocks.length === 0) {
       toast({ title: "Cannot Export", description: "There are no blocks to export.", variant: "destructive" });
@@ -1105,6 +1275,11 @@ function EmailEditorContent() {
           });
         });
         zip.file('index.html', generateEmailHTML(blocksForHtmlExport, preheader));
+        zip.file('index.txt', generatePlainText(blocks, preheader));
+        // AMP only loads absolute https images, so it keeps the original URLs
+        if (exportAmp && hasProductGrid(blocks)) {
+          zip.file('index.amp.html', await generateAmpEmail(blocks));
+        }
       }
 
       const zipBlob = await zip.generateAsync({ type: 'blob' });
@@ -1120,7 +1295,14 @@ function EmailEditorContent() {
 
   const handleExportHtml = () => handleExport('html');
   const handleExportImagesOnly = () => handleExport('images');
-  const handleExportHtmlAndImages = () => handleExport('html-images');
+  // Emails with product grids can also export an AMP version, so ask first
+  const handleExportHtmlAndImages = () => {
+    if (hasProductGrid(blocks)) {
+      setShowExportDialog(true);
+    } else {
+      handleExport('html-images');
+    }
+  };
  
   const handleDeleteAllBlocks = () => {
     const headerBlock = blocks.find(b => b.type === BlockType.Header);
@@ -1140,14 +1322,40 @@ function EmailEditorContent() {
     toast({ title: "Content Blocks Deleted", description: "All content blocks have been cleared from the canvas." });
   };
  
-  // Placeholder for Save Template
   const handleSaveTemplate = () => {
-    toast({ title: "Save Template", description: "Save functionality not yet implemented." });
-    console.log("Attempting to save template with blocks:", blocks);
+    setIsSaveTemplateOpen(true);
+  };
+
+  // Replaces the canvas with a template (or the default blocks) and starts a fresh undo history
+  const startFromBlocks = (newBlocks: EditorBlock[], locked: string[], source: TemplateSource | null) => {
+    if ((!isNewEmail || history.length > 1) && !window.confirm('Replace everything in this email? This can\'t be undone.')) {
+      return false;
+    }
+    setIsNewEmail(false);
+    setLockedBlockIds(locked);
+    setTemplateSource(source);
+    setBlocks(newBlocks);
+    setHistory([newBlocks]);
+    setHistoryPointer(0);
+    setSelectedBlockState({ block: null, element: null });
+    setEditingBlock(null);
+    return true;
+  };
+
+  const handleUseTemplate = (template: EmailTemplateSummary, version: EmailTemplateVersion) => {
+    const { blocks: templateBlocks, lockedBlockIds: locked } = instantiateTemplate(version);
+    if (!startFromBlocks(templateBlocks, locked, { templateId: template.id, version: version.version })) return;
+    toast({ title: 'Template Applied', description: `Started from "${template.name}" v${version.version}.` });
+  };
+
+  const handleStartBlank = () => {
+    startFromBlocks(getInitialBlocks(), [], null);
   };
  
   const [showEmailDialog, setShowEmailDialog] = useState(false);
   const [emailRecipients, setEmailRecipients] = useState('');
+  // Stops a second send while the first is still in flight
+  const [isSendingEmail, setIsSendingEmail] = useState(false);
 
   const handleSendTestEmail = () => {
     // Pre-fill with user's email if available and recipients field is empty
@@ -1158,6 +1366,7 @@ function EmailEditorContent() {
   };
 
   const handleConfirmSendEmail = async () => {
+    setIsSendingEmail(true);
     try {
       console.log('🚀 Sending email with:', { subjectLine, preheader });
       const html = generateEmailHTML(blocks, preheader);
@@ -1193,6 +1402,8 @@ function EmailEditorContent() {
       }
     } catch (error) {
       toast({ title: 'Send Error', description: 'Error sending email.', variant: 'destructive' });
+    } finally {
+      setIsSendingEmail(false);
     }
   };
 
@@ -1431,6 +1642,21 @@ function EmailEditorContent() {
                   onSendDateChange={setSendDate}
                 />
               )}
+              {!isViewOnly && autosaveStatus !== 'idle' && (
+                <div className={`px-4 py-1 text-xs border-b ${autosaveStatus === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+                  {autosaveStatus === 'pending' && 'Unsaved changes'}
+                  {autosaveStatus === 'saving' && 'Saving...'}
+                  {autosaveStatus === 'saved' && lastAutosavedAt && `All changes saved at ${lastAutosavedAt.toLocaleTimeString()}`}
+                  {autosaveStatus === 'error' && (
+                    <>
+                      Autosave failed; your changes are kept on this device.{' '}
+                      <button onClick={() => setAutosaveAttempt(attempt => attempt + 1)} className="underline">
+                        Retry
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
             </div>
             
             {/* Collection Preview Section */}
@@ -1464,6 +1690,7 @@ function EmailEditorContent() {
                 WebkitOverflowScrolling: 'touch'
               }}
               ref={(node) => {
+                canvasScrollRef.current = node;
                 if (node) {
                   // Add wheel event listener for scroll control only - don't interfere with clicks
                   const handleWheel = (e: WheelEvent) => {
@@ -1543,6 +1770,19 @@ function EmailEditorContent() {
             </div>
           </div>
         </Panel>
+        {isCompatibilityOpen && (
+          <>
+            <PanelResizeHandle className="w-2 bg-gray-200 hover:bg-gray-300 transition-colors" />
+            <Panel defaultSize={25} minSize={18} maxSize={40} id="compatibility-panel" order={2}>
+              <CompatibilityPanel
+                report={compatibilityReport}
+                blocks={blocks}
+                onJumpToBlock={handleJumpToBlock}
+                onClose={() => setIsCompatibilityOpen(false)}
+              />
+            </Panel>
+          </>
+        )}
         {/* AI Panel removed - not needed for current project */}
       </PanelGroup>
       {currentUser && (
@@ -1653,6 +1893,72 @@ function EmailEditorContent() {
         />
       )}
       
+      <TemplateLibraryDialog
+        open={isTemplateLibraryOpen}
+        onOpenChange={setIsTemplateLibraryOpen}
+        onUseTemplate={handleUseTemplate}
+        onStartBlank={handleStartBlank}
+      />
+      <SaveTemplateDialog
+        open={isSaveTemplateOpen}
+        onOpenChange={setIsSaveTemplateOpen}
+        blocks={blocks}
+        lockedBlockIds={lockedBlockIds}
+        templateSource={templateSource}
+        userId={currentUser?.email || currentUser?.uid || 'anonymous'}
+      />
+
+      <PreviewMatrixDialog
+        open={isPreviewMatrixOpen}
+        onOpenChange={setIsPreviewMatrixOpen}
+        blocks={blocks}
+        preheader={preheader}
+      />
+
+      {/* Template Library Button - Bottom Right (next to room info) */}
+      {!isViewOnly && (
+        <div className="fixed bottom-5 right-28 z-[10000]">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setIsTemplateLibraryOpen(true)}
+            title="Template Library"
+            aria-label="Template Library"
+            className="bg-white/90 backdrop-blur border-gray-300 shadow-lg hover:bg-white"
+          >
+            <LayoutTemplate className="h-5 w-5" />
+          </Button>
+        </div>
+      )}
+
+      {/* Preview Matrix Button - Bottom Right (next to compatibility report) */}
+      <div className="fixed bottom-5 right-52 z-[10000]">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => setIsPreviewMatrixOpen(true)}
+          title="Preview Matrix"
+          aria-label="Preview Matrix"
+          className="bg-white/90 backdrop-blur border-gray-300 shadow-lg hover:bg-white"
+        >
+          <MonitorSmartphone className="h-5 w-5" />
+        </Button>
+      </div>
+
+      {/* Compatibility Report Button - Bottom Right (next to template library) */}
+      <div className="fixed bottom-5 right-40 z-[10000]">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => setIsCompatibilityOpen(open => !open)}
+          title="Client Compatibility"
+          aria-label="Client Compatibility"
+          className={`backdrop-blur border-gray-300 shadow-lg hover:bg-white ${isCompatibilityOpen ? 'bg-gray-100' : 'bg-white/90'}`}
+        >
+          <ShieldCheck className="h-5 w-5" />
+        </Button>
+      </div>
+
       {/* Information Toggle Button - Bottom Right (next to chat) */}
       <div className="fixed bottom-5 right-16 z-[10000]">
         <Button
@@ -1667,6 +1973,57 @@ function EmailEditorContent() {
         </Button>
       </div>
       
+      {/* Recover Draft Dialog */}
+      {/* Closing without choosing keeps the draft; only Discard deletes it */}
+      <Dialog open={recoverableDraft !== null} onOpenChange={(open) => !open && setRecoverableDraft(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Recover Unsaved Changes?</DialogTitle>
+            <DialogDescription>
+              {recoverableDraft && `Changes made on this device at ${new Date(recoverableDraft.savedAt).toLocaleString()} were never saved. `}
+              Recovering merges them with what's been saved since.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={handleDiscardDraft}>
+              Discard
+            </Button>
+            <Button onClick={handleRecoverDraft}>
+              Recover
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Export HTML & Images Dialog */}
+      <Dialog open={showExportDialog} onOpenChange={setShowExportDialog}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Export HTML & Images</DialogTitle>
+            <DialogDescription>
+              The ZIP contains the HTML, a plain-text version and the images.
+            </DialogDescription>
+          </DialogHeader>
+          <label className="flex items-center gap-2 text-sm py-4">
+            <input type="checkbox" checked={exportAmp} onChange={(e) => setExportAmp(e.target.checked)} />
+            Include an AMP version with swipeable product grids
+          </label>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowExportDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                setShowExportDialog(false);
+                handleExport('html-images');
+              }}
+            >
+              Export
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Send Email Dialog */}
       <Dialog open={showEmailDialog} onOpenChange={setShowEmailDialog}>
         <DialogContent className="sm:max-w-[425px]">
@@ -1694,8 +2051,8 @@ function EmailEditorContent() {
             <Button variant="outline" onClick={() => setShowEmailDialog(false)}>
               Cancel
             </Button>
-            <Button onClick={handleConfirmSendEmail}>
-              Send Email
+            <Button onClick={handleConfirmSendEmail} disabled={isSendingEmail}>
+              {isSendingEmail ? 'Sending...' : 'Send Email'}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -0,0 +1,118 @@
+import { EditorBlock } from '@/types/email-editor';
+import type { Product } from '@/types/product';
+import { STYLE_FIELD, STYLE_VALUE } from './templates';
+
+// --- Plain-Text Alternative ---
+// Builds the text/plain part of an email from the blocks rather than the exported HTML,
+// so product grids read as names with prices and buttons as their label and URL.
+// Block types aren't special-cased beyond products: copy fields are found by name.
+
+const TEXT_FIELD = /text|title|heading|headline|content|body|copy|html|caption|label|name|description/i;
+const HEADING_FIELD = /title|heading|headline/i;
+const CTA_FIELD = /button|cta/i;
+const URL_FIELD = /url|link|href/i;
+const LINK_FIELD = /link|href/i;
+const IMAGE_FIELD = /image|img|src|logo|icon|thumbnail/i;
+const ALT_FIELD = /^alt|alt$/i;
+const LINKABLE = /^(https?:|mailto:|tel:)/i;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', pound: '£', euro: '€' };
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x?[0-9a-f]+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+// Headings become upper case, list items bullets and links "text (url)"
+export const htmlToText = (html: string): string =>
+  decodeEntities(
+    html
+      .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/gi, (_, inner: string) => `\n\n${inner.toUpperCase()}\n\n`)
+      .replace(/<a\s[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, inner: string) => {
+        const label = inner.replace(/<[^>]+>/g, '').trim();
+        return !label || label === href || !LINKABLE.test(href) ? (LINKABLE.test(href) ? href : label) : `${label} (${href})`;
+      })
+      .replace(/<li[^>]*>/gi, '\n- ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/li>/gi, '')
+      .replace(/<\/(p|div|tr|table|ul|ol)>/gi, '\n\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+export type FieldRole = 'link' | 'image' | 'alt' | 'cta' | 'heading' | 'text';
+
+// What a string field in block data holds, judged by its name and value; null for styling and anything else
+export const classifyField = (key: string, value: string): FieldRole | null => {
+  const text = value.trim();
+  if (!text || STYLE_FIELD.test(key) || STYLE_VALUE.test(text)) return null;
+  if (URL_FIELD.test(key) && (LINK_FIELD.test(key) || !IMAGE_FIELD.test(key))) return LINKABLE.test(text) ? 'link' : null;
+  if (ALT_FIELD.test(key)) return 'alt';
+  if (IMAGE_FIELD.test(key)) return /^https?:/i.test(text) ? 'image' : null;
+  if (CTA_FIELD.test(key) && TEXT_FIELD.test(key)) return 'cta';
+  if (TEXT_FIELD.test(key) && !LINKABLE.test(text)) return HEADING_FIELD.test(key) ? 'heading' : 'text';
+  return null;
+};
+
+export const isProduct = (value: Record<string, unknown>): value is Record<string, unknown> & Product =>
+  typeof value.titles === 'object' && value.titles !== null && 'default' in (value.titles as object);
+
+const productLines = (product: Product): string[] => {
+  const price = product.pricing?.current?.formatted;
+  return [price ? `${product.titles.default} - ${price}` : product.titles.default, ...(product.url ? [product.url] : [])];
+};
+
+// One object's copy, followed by its link under the button label (or the linked image's alt text)
+const describe = (data: Record<string, unknown>): string[] => {
+  if (isProduct(data)) return productLines(data);
+
+  const lines: string[] = [];
+  const links: string[] = [];
+  let label = '';
+  let alt = '';
+
+  Object.entries(data).forEach(([key, value]) => {
+    if (STYLE_FIELD.test(key)) return;
+    if (Array.isArray(value)) {
+      value.forEach(item => {
+        if (item && typeof item === 'object') {
+          const described = describe(item as Record<string, unknown>);
+          if (described.length > 0) lines.push(described.join('\n'));
+        }
+      });
+    } else if (value && typeof value === 'object') {
+      const described = describe(value as Record<string, unknown>);
+      if (described.length > 0) lines.push(described.join('\n'));
+    } else if (typeof value === 'string') {
+      const role = classifyField(key, value);
+      if (role === 'link') links.push(value.trim());
+      else if (role === 'alt') alt = htmlToText(value);
+      else if (role === 'cta') label = htmlToText(value);
+      else if (role === 'heading' || role === 'text') {
+        const converted = htmlToText(value);
+        if (converted) lines.push(role === 'heading' ? converted.toUpperCase() : converted);
+      }
+    }
+  });
+
+  links.forEach(link => lines.push(label || alt ? `${label || alt}: ${link}` : link));
+  if (links.length === 0 && label) lines.push(label);
+  return lines;
+};
+
+export const generatePlainText = (blocks: EditorBlock[], preheader: string): string => {
+  const sections = blocks
+    .map(block => describe(block.data as Record<string, unknown>).join('\n\n').trim())
+    .filter(Boolean);
+  if (preheader.trim()) sections.unshift(preheader.trim());
+  return `${sections.join('\n\n')}\n`;
+};
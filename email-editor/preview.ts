@@ -0,0 +1,144 @@
+// --- Email Preview Simulation ---
+// Rewrites exported email HTML to approximate how clients display it: the colour changes
+// dark-mode clients make and what's left when images are blocked. These are approximations
+// of each client family's behaviour, good enough to spot unreadable text or missing alt text.
+
+export interface PreviewWidth {
+  label: string;
+  width: number;
+}
+
+export const PREVIEW_WIDTHS: PreviewWidth[] = [
+  { label: 'Small phone', width: 320 },
+  { label: 'Phone', width: 375 },
+  { label: 'Large phone', width: 428 },
+  { label: 'Desktop client', width: 600 },
+  { label: 'Webmail', width: 1024 },
+];
+
+// 'apple': Apple Mail / iOS Mail, which only apply the email's own prefers-color-scheme styles
+// 'partial': Gmail Android and Outlook.com, which darken light backgrounds and lighten dark text
+// 'full': Gmail iOS and Outlook for Windows, which invert every colour
+export type DarkModeSimulation = 'off' | 'apple' | 'partial' | 'full';
+
+export const DARK_MODE_LABELS: Record<DarkModeSimulation, string> = {
+  off: 'Light mode',
+  apple: 'Dark: Apple Mail (email\'s own dark styles)',
+  partial: 'Dark: Gmail Android / Outlook.com (partial inversion)',
+  full: 'Dark: Gmail iOS / Outlook Windows (full inversion)',
+};
+
+type Rgb = [number, number, number];
+
+const NAMED_COLOURS: Record<string, Rgb> = {
+  white: [255, 255, 255], black: [0, 0, 0], red: [255, 0, 0], green: [0, 128, 0], blue: [0, 0, 255],
+  gray: [128, 128, 128], grey: [128, 128, 128], silver: [192, 192, 192], navy: [0, 0, 128],
+};
+
+const COLOUR_PATTERN = /#[0-9a-f]{3,8}\b|rgba?\([^)]*\)|\b(white|black|red|green|blue|gray|grey|silver|navy)\b/gi;
+
+const parseColour = (value: string): { rgb: Rgb; alpha: string | null } | null => {
+  const lower = value.toLowerCase();
+  if (NAMED_COLOURS[lower]) return { rgb: NAMED_COLOURS[lower], alpha: null };
+  if (lower.startsWith('#')) {
+    const hex = lower.length <= 5 ? lower.slice(1).split('').map(c => c + c).join('') : lower.slice(1);
+    const rgb = [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16)) as Rgb;
+    return rgb.some(Number.isNaN) ? null : { rgb, alpha: hex.length === 8 ? String(parseInt(hex.slice(6, 8), 16) / 255) : null };
+  }
+  const parts = lower.replace(/rgba?\(|\)/g, '').split(/[\s,/]+/).filter(Boolean).map(Number);
+  if (parts.length < 3 || parts.some(Number.isNaN)) return null;
+  return { rgb: [parts[0], parts[1], parts[2]], alpha: parts.length > 3 ? String(parts[3]) : null };
+};
+
+const luminance = ([r, g, b]: Rgb) => (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+
+// Flips lightness while keeping hue, as the inverting clients do, so brand colours stay recognisable
+const invertLightness = ([r, g, b]: Rgb): Rgb => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const shift = 255 - max - min;
+  return [r + shift, g + shift, b + shift].map(c => Math.max(0, Math.min(255, Math.round(c)))) as Rgb;
+};
+
+const formatColour = (rgb: Rgb, alpha: string | null) =>
+  alpha === null ? `rgb(${rgb.join(', ')})` : `rgba(${rgb.join(', ')}, ${alpha})`;
+
+const darkenColour = (value: string, isBackground: boolean, mode: 'partial' | 'full') => {
+  const colour = parseColour(value);
+  if (!colour) return value;
+  const light = luminance(colour.rgb) > 0.5;
+  // Partial inversion only touches light backgrounds and dark text
+  if (mode === 'partial' && (isBackground ? !light : light)) return value;
+  return formatColour(invertLightness(colour.rgb), colour.alpha);
+};
+
+const BACKGROUND_PROPERTY = /^(background|background-color|border(-\w+)*)$/;
+const COLOUR_PROPERTY = /^(background|background-color|color|border(-\w+)*)$/;
+
+const darkenStyle = (style: string, mode: 'partial' | 'full') =>
+  style.split(';').map(declaration => {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) return declaration;
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    if (!COLOUR_PROPERTY.test(property)) return declaration;
+    const isBackground = BACKGROUND_PROPERTY.test(property);
+    return declaration.slice(0, colon + 1) + declaration.slice(colon + 1).replace(COLOUR_PATTERN, match => darkenColour(match, isBackground, mode));
+  }).join(';');
+
+const serialise = (document: Document) => `<!DOCTYPE html>\n${document.documentElement.outerHTML}`;
+
+export const simulateDarkMode = (html: string, mode: DarkModeSimulation): string => {
+  if (mode === 'off') return html;
+  if (mode === 'apple') {
+    // The iframe can't be put in dark mode, so the email's dark styles are applied unconditionally
+    return html.replace(/@media\s*\(\s*prefers-color-scheme\s*:\s*dark\s*\)/gi, '@media all');
+  }
+
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  document.querySelectorAll('[style]').forEach(element => {
+    element.setAttribute('style', darkenStyle(element.getAttribute('style') || '', mode));
+  });
+  document.querySelectorAll('[bgcolor]').forEach(element => {
+    element.setAttribute('bgcolor', darkenColour(element.getAttribute('bgcolor') || '', true, mode));
+  });
+  document.querySelectorAll('font[color]').forEach(element => {
+    element.setAttribute('color', darkenColour(element.getAttribute('color') || '', false, mode));
+  });
+  document.querySelectorAll('style').forEach(style => {
+    style.textContent = (style.textContent || '').replace(/([\w-]+)\s*:\s*([^;{}]+)/g, (declaration: string) => darkenStyle(declaration, mode));
+  });
+
+  // Clients paint their own dark canvas and default text colour behind the email
+  const canvas = document.createElement('style');
+  canvas.textContent = 'html, body { background-color: #1e1e1e !important; color: #e8e8e8; }';
+  document.head.appendChild(canvas);
+  return serialise(document);
+};
+
+// Replaces images with their alt text in a box of the same size, as clients do before images are allowed
+export const simulateBlockedImages = (html: string): string => {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  document.querySelectorAll('img').forEach(img => {
+    const box = document.createElement('span');
+    const width = img.getAttribute('width');
+    const height = img.getAttribute('height');
+    box.textContent = img.getAttribute('alt') || '';
+    box.setAttribute('style', [
+      'display:inline-block',
+      'box-sizing:border-box',
+      'border:1px dashed #9ca3af',
+      'color:#6b7280',
+      'font:12px/1.4 Arial, sans-serif',
+      'padding:4px',
+      'overflow:hidden',
+      width ? `width:${/^\d+$/.test(width) ? `${width}px` : width}` : 'min-width:24px',
+      height ? `height:${/^\d+$/.test(height) ? `${height}px` : height}` : 'min-height:24px',
+    ].join(';'));
+    img.replaceWith(box);
+  });
+  return serialise(document);
+};
+
+// Links open in a new tab instead of navigating the preview frame
+export const withPreviewBase = (html: string) =>
+  /<head[^>]*>/i.test(html) ? html.replace(/<head([^>]*)>/i, '<head$1><base target="_blank">') : `<base target="_blank">${html}`;
@@ -0,0 +1,197 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, runTransaction } from 'firebase/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/lib/firebase';
+import { BlockType, EditorBlock, ImageGridBlockData, ImageGridItem, isBlockType } from '@/types/email-editor';
+import { AVAILABLE_BLOCKS } from '@/components/email-generator/available-blocks';
+
+// --- Email Templates ---
+// Reusable block layouts. `emailTemplates/{id}` holds the latest version's details for
+// the library list; each version's blocks live in `emailTemplates/{id}/versions/{n}`.
+// Blocks locked in a template are brand blocks: once instantiated their content can't change.
+
+export interface EmailTemplateSummary {
+  id: string;
+  name: string;
+  tags: string[];
+  thumbnailUrl: string | null;
+  blockCount: number;
+  currentVersion: number;
+  createdBy: string;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export interface EmailTemplateVersion {
+  version: number;
+  blocks: EditorBlock[];
+  lockedBlockIds: string[];
+  savedBy: string;
+  savedAt: string;
+}
+
+// Which template (and version) an email was started from
+export interface TemplateSource {
+  templateId: string;
+  version: number;
+}
+
+export interface SaveTemplateInput {
+  // Saving onto an existing template adds a version instead of creating a new one
+  templateId?: string;
+  name: string;
+  tags: string[];
+  blocks: EditorBlock[];
+  lockedBlockIds: string[];
+  stripCopy: boolean;
+  userId: string;
+}
+
+const TEMPLATES = 'emailTemplates';
+
+// Fields and values that style a block rather than carry its copy; kept when copy is stripped
+export const STYLE_FIELD = /colou?r|align|font|size|width|height|padding|margin|spacing|gap|border|radius|weight|style|layout|background/i;
+export const STYLE_VALUE = /^(#[0-9a-f]{3,8}|-?\d+(\.\d+)?(px|%|em|rem)?|rgba?\(.*\))$/i;
+
+const templateRef = (templateId: string) => doc(db, TEMPLATES, templateId);
+const versionRef = (templateId: string, version: number) => doc(db, TEMPLATES, templateId, 'versions', String(version));
+
+// Firestore rejects undefined values, which block data often has
+export const toFirestore = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Resets a block's copy, links and products to the block type's defaults, keeping its layout and styling
+export const stripCampaignCopy = (block: EditorBlock): EditorBlock => {
+  const defaults = (AVAILABLE_BLOCKS.find(b => b.type === block.type)?.defaultData || {}) as Record<string, unknown>;
+  const data = { ...block.data } as Record<string, unknown>;
+
+  Object.keys(data).forEach(key => {
+    const value = data[key];
+    if (typeof value === 'string' && !STYLE_FIELD.test(key) && !STYLE_VALUE.test(value.trim())) {
+      data[key] = typeof defaults[key] === 'string' ? defaults[key] : '';
+    }
+  });
+
+  if (isBlockType(block, BlockType.ImageGrid)) {
+    data.columns = ((block.data as ImageGridBlockData).columns || []).map(() => ({ type: 'placeholder' } as ImageGridItem));
+  }
+
+  return { ...block, data } as EditorBlock;
+};
+
+// The first content image, for the library card; data URLs are too large to store twice
+export const getTemplateThumbnail = (blocks: EditorBlock[]): string | null => {
+  const usable = (url?: string) => (url && !url.startsWith('data:') ? url : null);
+  for (const block of blocks) {
+    if (isBlockType(block, BlockType.Image) && usable(block.data.src)) return block.data.src;
+    if (isBlockType(block, BlockType.ImageGrid)) {
+      const column = (block.data as ImageGridBlockData).columns?.find(col => col.type !== 'placeholder' && usable(col.imageUrl));
+      if (column && column.type !== 'placeholder') return column.imageUrl;
+    }
+  }
+  const header = blocks.find(block => isBlockType(block, BlockType.Header) && usable(block.data.logoSrc));
+  return header && isBlockType(header, BlockType.Header) ? header.data.logoSrc : null;
+};
+
+export const listTemplates = async (): Promise<EmailTemplateSummary[]> => {
+  const snapshot = await getDocs(query(collection(db, TEMPLATES), orderBy('updatedAt', 'desc')));
+  return snapshot.docs.map(entry => ({ ...entry.data(), id: entry.id }) as EmailTemplateSummary);
+};
+
+export const listTemplateVersions = async (templateId: string): Promise<EmailTemplateVersion[]> => {
+  const snapshot = await getDocs(query(collection(db, TEMPLATES, templateId, 'versions'), orderBy('version', 'desc')));
+  return snapshot.docs.map(entry => entry.data() as EmailTemplateVersion);
+};
+
+export const getTemplateVersion = async (templateId: string, version: number): Promise<EmailTemplateVersion> => {
+  const snapshot = await getDoc(versionRef(templateId, version));
+  if (!snapshot.exists()) throw new Error(`Version ${version} of this template no longer exists`);
+  return snapshot.data() as EmailTemplateVersion;
+};
+
+// Name and tag words must all match, so "sale hero" finds a "Sale" template tagged "hero"
+export const searchTemplates = (templates: EmailTemplateSummary[], text: string): EmailTemplateSummary[] => {
+  const terms = text.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return templates;
+  return templates.filter(template => {
+    const haystack = [template.name, ...template.tags].join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+export const saveTemplate = async (input: SaveTemplateInput): Promise<EmailTemplateSummary> => {
+  const locked = new Set(input.lockedBlockIds);
+  const blocks = input.stripCopy
+    ? input.blocks.map(block => (locked.has(block.id) ? block : stripCampaignCopy(block)))
+    : input.blocks;
+  const templateId = input.templateId || `template_${Date.now()}`;
+  const now = new Date().toISOString();
+
+  // The version number is read and claimed in one transaction so two saves can't both take it
+  return runTransaction(db, async transaction => {
+    const existing = input.templateId ? await transaction.get(templateRef(templateId)) : null;
+    if (input.templateId && !existing?.exists()) throw new Error('That template has been deleted');
+    const previous = existing?.data() as EmailTemplateSummary | undefined;
+
+    const version: EmailTemplateVersion = {
+      version: (previous?.currentVersion || 0) + 1,
+      blocks,
+      lockedBlockIds: blocks.filter(block => locked.has(block.id)).map(block => block.id),
+      savedBy: input.userId,
+      savedAt: now
+    };
+    const summary: EmailTemplateSummary = {
+      id: templateId,
+      name: input.name,
+      tags: input.tags,
+      thumbnailUrl: getTemplateThumbnail(blocks),
+      blockCount: blocks.length,
+      currentVersion: version.version,
+      createdBy: previous?.createdBy || input.userId,
+      updatedBy: input.userId,
+      updatedAt: now
+    };
+
+    transaction.set(versionRef(templateId, version.version), toFirestore(version));
+    transaction.set(templateRef(templateId), toFirestore(summary));
+    return summary;
+  });
+};
+
+// Copies a template version into fresh blocks for a new email, carrying its locks over to the new IDs
+export const instantiateTemplate = (version: EmailTemplateVersion): { blocks: EditorBlock[]; lockedBlockIds: string[] } => {
+  const locked = new Set(version.lockedBlockIds);
+  const lockedBlockIds: string[] = [];
+  const blocks = version.blocks.map(block => {
+    const copy: EditorBlock = { ...JSON.parse(JSON.stringify(block)), id: uuidv4() };
+    if (locked.has(block.id)) lockedBlockIds.push(copy.id);
+    return copy;
+  });
+  return { blocks, lockedBlockIds };
+};
+
+// Undoes any edit or deletion of a locked block in `next`; other changes, including moving locked blocks, go through
+export const protectLockedBlocks = (
+  previous: EditorBlock[],
+  next: EditorBlock[],
+  lockedBlockIds: string[]
+): { blocks: EditorBlock[]; reverted: boolean } => {
+  if (lockedBlockIds.length === 0) return { blocks: next, reverted: false };
+  const locked = new Set(lockedBlockIds);
+  let reverted = false;
+
+  const blocks = next.map(block => {
+    if (!locked.has(block.id)) return block;
+    const original = previous.find(b => b.id === block.id);
+    if (!original || original === block || JSON.stringify(original) === JSON.stringify(block)) return block;
+    reverted = true;
+    return original;
+  });
+
+  previous.forEach((block, index) => {
+    if (locked.has(block.id) && !blocks.some(b => b.id === block.id)) {
+      reverted = true;
+      blocks.splice(Math.min(index, blocks.length), 0, block);
+    }
+  });
+
+  return { blocks: reverted ? blocks : next, reverted };
+};
@@ -0,0 +1,295 @@
+import type { Product } from '@/types/product';
+import type {
+  Collection,
+  CollectionAction,
+  CollectionActivity,
+  CollectionItemType,
+  CollectionMember,
+  CollectionRole,
+  CollectionVersion
+} from '@/types/collection';
+
+// --- Shared Collections ---
+// Roles, activity and version history for collections, and versioned writes to
+// /api/collections. Collections are stored under their owner; members find them
+// through `sharedWith`. Every write names who is making it and the version it was
+// based on, and the API checks both as it stores the collection: it answers 403 when
+// that user's role doesn't allow the write and 409 when someone else saved first. On
+// a 409 the change is re-applied on top of theirs where that's safe (adds and
+// removes) or handed back as a conflict where it isn't (renames, sharing, restores).
+
+// Anything stored in a collection: product-search products, assets, outfit slot items
+export interface CollectionItemLike {
+  product: {
+    id: string | number;
+    name?: string;
+    titles?: { default?: string };
+  };
+  itemType?: CollectionItemType;
+  addedBy?: string;
+  addedAt?: string;
+}
+
+export type CollectionChange<TItem> =
+  | { type: 'add'; item: TItem }
+  | { type: 'remove'; itemId: string }
+  | { type: 'rename'; name: string }
+  | { type: 'share'; userId: string; role: CollectionRole | null }
+  | { type: 'visibility'; isPublic: boolean }
+  | { type: 'restore'; version: number };
+
+export type UpdateResult<TItem> =
+  | { status: 'saved'; collection: Collection<TItem>; rebased: boolean }
+  | { status: 'conflict'; latest: Collection<TItem>; message: string };
+
+const MAX_VERSIONS = 20;
+const MAX_ACTIVITY = 200;
+const MAX_REBASES = 3;
+
+// Older collections nest the product one level deeper (item.product.product)
+export const getItemId = (item: CollectionItemLike): string => {
+  const nested = (item.product as { product?: { id?: string | number } }).product;
+  return String(nested?.id ?? item.product.id);
+};
+
+export const getItemName = (item: CollectionItemLike): string =>
+  item.product.titles?.default || item.product.name || 'Product';
+
+// Amplience assets are stored in collections in product form, flagged as assets
+export const assetToProduct = (asset: { id: string; name: string; imageUrl?: string | null }): Product => ({
+  id: asset.id,
+  titles: { default: asset.name },
+  media: {
+    main_image: {
+      url: asset.imageUrl || '',
+      alt: asset.name
+    }
+  },
+  pricing: {
+    current: {
+      value: 0,
+      formatted: '$0.00',
+      currency: 'USD'
+    },
+    on_sale: false
+  },
+  stock: {
+    available: true
+  },
+  properties: { swatches: [] },
+  variants: []
+} as Product);
+
+// Collections from before sharing have no owner or members; anyone could edit them then, so they still
+// can until someone changes one and becomes its owner
+export const getRole = (collection: Collection<unknown>, userId: string): CollectionRole | null => {
+  const members = collection.members || [];
+  if (!collection.userId && members.length === 0) return 'owner';
+  if (collection.userId === userId) return 'owner';
+  const member = members.find(m => m.userId === userId);
+  if (member) return member.role;
+  return collection.isPublic ? 'viewer' : null;
+};
+
+export const canEdit = (role: CollectionRole | null) => role === 'owner' || role === 'editor';
+
+export const canManage = (role: CollectionRole | null) => role === 'owner';
+
+const requiredRole: Record<CollectionAction, (role: CollectionRole | null) => boolean> = {
+  add: canEdit,
+  remove: canEdit,
+  rename: canEdit,
+  restore: canEdit,
+  share: canManage,
+  visibility: canManage
+};
+
+const snapshotOf = <TItem>(collection: Collection<TItem>, savedBy: string): CollectionVersion<TItem> => ({
+  version: collection.version ?? 0,
+  savedAt: collection.lastModified || collection.createdAt,
+  savedBy,
+  name: collection.name,
+  products: collection.products
+});
+
+// Applies changes locally, recording activity and a new version; throws if the user's role doesn't allow them
+export const applyChanges = <TItem extends CollectionItemLike>(
+  collection: Collection<TItem>,
+  changes: CollectionChange<TItem>[],
+  userId: string
+): Collection<TItem> => {
+  const role = getRole(collection, userId);
+  const denied = changes.find(change => !requiredRole[change.type](role));
+  if (denied) {
+    throw new Error(`You don't have permission to ${denied.type === 'share' ? 'share' : 'change'} "${collection.name}"`);
+  }
+
+  const now = new Date().toISOString();
+  const activity: CollectionActivity[] = [];
+  const log = (entry: Omit<CollectionActivity, 'id' | 'userId' | 'at'>) => {
+    activity.push({ id: `activity_${Date.now()}_${activity.length}`, userId, at: now, ...entry });
+  };
+
+  let next: Collection<TItem> = { ...collection };
+  // Whoever first changes an unowned collection becomes its owner, so sharing it can't lock everyone out
+  if (!next.userId && (next.members || []).length === 0) next.userId = userId;
+  changes.forEach(change => {
+    switch (change.type) {
+      case 'add': {
+        const itemId = getItemId(change.item);
+        if (next.products.some(item => getItemId(item) === itemId)) return;
+        next.products = [...next.products, { ...change.item, addedBy: userId, addedAt: now }];
+        log({ action: 'add', itemId, itemName: getItemName(change.item), itemType: change.item.itemType || 'product' });
+        return;
+      }
+      case 'remove': {
+        const removed = next.products.find(item => getItemId(item) === change.itemId);
+        if (!removed) return;
+        next.products = next.products.filter(item => item !== removed);
+        log({ action: 'remove', itemId: change.itemId, itemName: getItemName(removed), itemType: removed.itemType || 'product' });
+        return;
+      }
+      case 'rename':
+        if (change.name === next.name) return;
+        log({ action: 'rename', detail: `${next.name} → ${change.name}` });
+        next.name = change.name;
+        return;
+      case 'share': {
+        if (change.userId === next.userId) throw new Error("The owner's access can't be changed");
+        const others = (next.members || []).filter(member => member.userId !== change.userId);
+        const member: CollectionMember[] = change.role ? [{ userId: change.userId, role: change.role, addedAt: now }] : [];
+        next.members = [...others, ...member];
+        log({ action: 'share', detail: `${change.userId} → ${change.role || 'removed'}` });
+        return;
+      }
+      case 'visibility':
+        if (change.isPublic === next.isPublic) return;
+        next.isPublic = change.isPublic;
+        log({ action: 'visibility', detail: change.isPublic ? 'public' : 'private' });
+        return;
+      case 'restore': {
+        const version = (next.history || []).find(entry => entry.version === change.version);
+        if (!version) throw new Error(`Version ${change.version} of "${next.name}" is no longer available`);
+        next = { ...next, name: version.name, products: version.products };
+        log({ action: 'restore', detail: `version ${change.version}` });
+        return;
+      }
+    }
+  });
+
+  if (activity.length === 0) return collection;
+
+  const version = (collection.version ?? 0) + 1;
+  next = { ...next, version, lastModified: now, lastModifiedBy: userId };
+  // Collections from before versioning get their current state as the first version
+  const history = collection.history?.length ? collection.history : [snapshotOf(collection, collection.lastModifiedBy || collection.userId || userId)];
+  const contentChanged = next.products !== collection.products || next.name !== collection.name;
+
+  return {
+    ...next,
+    activity: [...(collection.activity || []), ...activity].slice(-MAX_ACTIVITY),
+    history: contentChanged ? [...history, snapshotOf(next, userId)].slice(-MAX_VERSIONS) : history
+  };
+};
+
+// Whether a change made against `base` still means the same thing on top of `latest`
+const rebaseConflict = <TItem extends CollectionItemLike>(
+  base: Collection<TItem>,
+  latest: Collection<TItem>,
+  change: CollectionChange<TItem>
+): string | null => {
+  switch (change.type) {
+    case 'rename':
+      return latest.name !== base.name ? `It was renamed to "${latest.name}" meanwhile.` : null;
+    case 'visibility':
+      return latest.isPublic !== base.isPublic ? 'Its visibility was changed meanwhile.' : null;
+    case 'share': {
+      const roleIn = (collection: Collection<TItem>) => collection.members?.find(m => m.userId === change.userId)?.role;
+      return roleIn(latest) !== roleIn(base) ? `${change.userId}'s access was changed meanwhile.` : null;
+    }
+    case 'restore':
+      return latest.version !== base.version ? 'It was edited after you opened its history.' : null;
+    default:
+      return null;
+  }
+};
+
+const getCollections = async <TItem>(params: Record<string, string>): Promise<Collection<TItem>[]> => {
+  const response = await fetch(`/api/collections?${new URLSearchParams(params)}`);
+  if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  const data = await response.json();
+  if (data.success === false) throw new Error(data.error || 'Failed to load collections');
+  return Array.isArray(data.collections) ? data.collections : [];
+};
+
+// The user's own collections followed by those shared with them, leaving out any they've lost access to
+export const fetchCollections = async <TItem>(userId: string): Promise<Collection<TItem>[]> => {
+  const [own, shared] = await Promise.all([
+    getCollections<TItem>({ userId }),
+    // Still list their own collections if the shared ones can't be loaded
+    getCollections<TItem>({ sharedWith: userId }).catch(error => {
+      console.error('Error fetching shared collections:', error);
+      return [];
+    })
+  ]);
+  const seen = new Set<string>();
+  return [...own, ...shared].filter(collection => {
+    if (!collection || seen.has(collection.id) || getRole(collection, userId) === null) return false;
+    seen.add(collection.id);
+    return true;
+  });
+};
+
+export const fetchCollection = async <TItem>(collectionId: string, ownerId: string): Promise<Collection<TItem> | null> => {
+  const collections = await getCollections<TItem>({ userId: ownerId });
+  return collections.find(collection => collection.id === collectionId) || null;
+};
+
+// Only the owner may delete; the API checks `requestedBy` against the stored collection too
+export const deleteCollectionRequest = async (collection: Collection<unknown>, userId: string): Promise<void> => {
+  if (!canManage(getRole(collection, userId))) {
+    throw new Error(`Only the owner can delete "${collection.name}"`);
+  }
+  const response = await fetch('/api/collections', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ collectionId: collection.id, userId: collection.userId || userId, requestedBy: userId })
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+};
+
+export const updateCollection = async <TItem extends CollectionItemLike>(
+  collection: Collection<TItem>,
+  changes: CollectionChange<TItem>[],
+  userId: string
+): Promise<UpdateResult<TItem>> => {
+  let base = collection;
+  for (let attempt = 0; attempt <= MAX_REBASES; attempt++) {
+    const next = applyChanges(base, changes, userId);
+    if (next === base) return { status: 'saved', collection: base, rebased: attempt > 0 };
+
+    // Collections are stored under their owner, whoever is making the change
+    const ownerId = next.userId || userId;
+    const response = await fetch('/api/collections', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId: ownerId, collection: next, requestedBy: userId, expectedVersion: base.version ?? 0 })
+    });
+    if (response.ok) return { status: 'saved', collection: next, rebased: attempt > 0 };
+    if (response.status !== 409) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const latest = await fetchCollection<TItem>(collection.id, ownerId);
+    if (!latest) throw new Error(`"${collection.name}" has been deleted`);
+
+    const conflict = changes.map(change => rebaseConflict(base, latest, change)).find(Boolean);
+    if (conflict) return { status: 'conflict', latest, message: conflict };
+    base = latest;
+  }
+  throw new Error(`"${collection.name}" keeps changing; please try again`);
+};
@@ -0,0 +1,62 @@
+import type { Product } from './types';
+
+// --- Offline Catalogue Fixture ---
+// Amplience-shaped products for developing without the catalogue API
+// (NEXT_PUBLIC_OUTFIT_CATALOGUE=fixture). Colourways of one style are swatches.
+
+const CDN = 'https://cdn.media.amplience.net/i/lkbennett';
+
+const product = (
+  id: string,
+  title: string,
+  category: string,
+  price: number,
+  swatches: Array<[name: string, image: string]>
+): Product => ({
+  id,
+  titles: { default: title },
+  media: { main_image: { url: `${CDN}/${swatches[0][1]}` } },
+  properties: {
+    category,
+    swatches: swatches.map(([name, image]) => ({ name, images: [`${CDN}/${image}`] }))
+  },
+  pricing: { current: { value: price, formatted: `£${price}.00` } }
+});
+
+export const fixtureProducts: Product[] = [
+  product('fx-athena', 'Athena Jersey Vest Top', 'Tops', 79, [
+    ['Black', 'UK_AW25_TJ_ATHENA_BLACK_VISCOSEMIXf'],
+    ['Cream', 'UK_AW25_TJ_ATHENA_IVORY_VISCOSEMIXe']
+  ]),
+  product('fx-sonya', 'Sonya Crepe Blouse', 'Tops', 149, [
+    ['White', 'UK_AW25_TW_SONYA_WHITE_COTTONe'],
+    ['Cream', 'UK_AW25_TW_SONYA_CREAM_VISCOSEe']
+  ]),
+  product('fx-hardy', 'Hardy Skirt', 'Skirts', 199, [['Conker', 'UK_SS25_SK_HARDY_CONKER_POLYESTERg']]),
+  product('fx-allie', 'Allie Trousers', 'Trousers', 179, [['Ecru', 'UK_SS24_TR_ALLIE_ECRU_COTTONMIXd']]),
+  product('fx-julia', 'Julia Dress', 'Dresses', 299, [['Camel Ivory', 'UK_AW25_DR_JULIA_CAMELIVORY_POLYESTERMIXe']]),
+  product('fx-juno', 'Juno Rope Print Dress', 'Dresses', 279, [
+    ['Spring Navy', 'UK_AW25_DR_JUNO_SPRINGNAVYCASHMEREBLUE_VISCOSEe']
+  ]),
+  product('fx-claire', 'Claire Button Detail Dress', 'Dresses', 329, [['Black', 'UK_AW25_DR_CLAIRE_BLACK_POLYESTERMIXe']]),
+  product('fx-rosa', 'Rosa Sculptured Shift Dress', 'Dresses', 349, [['Black', 'UK_AW25_DR_ROSA_BLACK_POLYESTERMIXe']]),
+  product('fx-mimi', 'Mimi Floral Print Dress', 'Dresses', 259, [['Birch Black', 'UK_AW25_DR_MIMI_BIRCHBLACK_VISCOSEMIXe']]),
+  product('fx-floret', 'Floret Court Shoes', 'Shoes', 229, [
+    ['Burgundy Suede', 'UK_AW25_CC_FLORET_NEW_BURGUNDY_SUEDEb'],
+    ['Black White Snake Effect', 'UK_AW25_CC_FLORET_NEW_BLACKWHITE_SNAKEEFFECTb']
+  ]),
+  product('fx-fern', 'Fern Nappa Court Shoes', 'Shoes', 229, [['Ecru', 'UK_AW25_CC_FERN_NEW_ECRU_NAPPALEATHERb']]),
+  product('fx-florena', 'Florena Court Shoes', 'Shoes', 229, [['Trench', 'UK_AW25_CC_FLORENA_TRENCH_NAPPALEATHERb']]),
+  product('fx-vivi', 'Vivi Fabric Court Shoes', 'Shoes', 199, [['Black', 'UK_AW25_CC_VIVI_BLACK_FABRICb']]),
+  product('fx-thelma', 'Thelma Velvet Court Shoes', 'Shoes', 219, [['Imperial Blue', 'UK_AW25_CC_THELMA_IMPERIALBLUE_VELVETb']]),
+  product('fx-loretta', 'Loretta Nappa Boots', 'Boots', 399, [['Burgundy', 'UK_AW25_KB_LORETTA_BURGUNDY_NAPPALEATHERb']]),
+  product('fx-astrid', 'Astrid Suede Boots', 'Boots', 429, [['Chocolate', 'UK_AW25_KB_ASTRID_CHOCOLATE_SUEDEb']]),
+  product('fx-amber', 'Amber Satin Flats', 'Flats', 179, [['Tea', 'UK_AW25_FL_AMBER_TEA_SATINb']]),
+  product('fx-loulou-bag', 'Lou Lou Handbag', 'Bags', 299, [['Stone', 'UK_AW25_SH_LOU_LOU_STONE_SUEDEa']]),
+  product('fx-elowen', 'Elowen Hat', 'Hats', 195, [['Metallic', 'UK_SS24_HT_ELOWEN_METALLIC_FABRICa']]),
+  product('fx-loura', 'Loura Necklace', 'Jewellery', 89, [['Clear Crystal', 'UK_AW25_NL_NL_LOURA_CLEAR_CRYSTALRHODIUMPLATINGa']]),
+  product('fx-loulou-earrings', 'Lou Lou Earrings', 'Jewellery', 69, [['Gold', 'UK_AW25_JW_EA_LOU_LOU_GOLD_METALb']]),
+  product('fx-alina', 'Alina Neckscarf', 'Scarves', 79, [['Multi Black', 'UK_AW25_SC_SC%20ALINA_MULTIBLACK_SILKa']]),
+  product('fx-perry', 'Perry Belt', 'Belts', 99, [['Chocolate', 'UK_AW25_BT_PERRY_CHOCOLATE_SUEDEa']]),
+  product('fx-gina', 'Gina Gloves', 'Gloves', 129, [['Chocolate', 'UK_AW24_GINA_CHOCOLATE_LEATHERa']])
+];
@@ -0,0 +1,186 @@
+import type { Product, ProductSwatch, SlotCategory } from './types';
+import { fixtureProducts } from './catalogue-fixture';
+
+// --- Catalogue Data Sources ---
+// The outfit builder searches the same catalogue as the product search page
+// (/api/product-search). Set NEXT_PUBLIC_OUTFIT_CATALOGUE=fixture to work offline
+// against the bundled fixture instead.
+
+export interface CatalogueQuery {
+  searchText: string;
+  category?: SlotCategory;
+  page: number; // 1-based
+  pageSize: number;
+}
+
+export interface CataloguePage {
+  products: Product[];
+  page: number;
+  hasMore: boolean;
+}
+
+export interface CatalogueSource {
+  search: (query: CatalogueQuery) => Promise<CataloguePage>;
+}
+
+// Catalogue categories (properties.category) are matched on keywords, first match wins,
+// so "Dress Shoes" is Shoes and "Jewellery" an Accessory
+const CATEGORY_KEYWORDS: Array<[SlotCategory, string[]]> = [
+  ['Shoes', ['shoe', 'boot', 'heel', 'sandal', 'flat', 'pump', 'loafer', 'trainer', 'sneaker', 'court']],
+  ['Handbag', ['bag', 'clutch', 'tote']],
+  ['Hat', ['hat', 'fascinator', 'headband', 'headpiece']],
+  ['Dress', ['dress', 'jumpsuit', 'gown']],
+  ['Bottom', ['skirt', 'trouser', 'pant', 'jean', 'short', 'culotte']],
+  ['Top', ['top', 'blouse', 'shirt', 'knit', 'jumper', 'sweater', 'cardigan', 'jacket', 'coat', 'blazer', 'vest', 'tee']],
+  ['Accessory', ['accessor', 'jewel', 'necklace', 'earring', 'bracelet', 'ring', 'scarf', 'scarves', 'belt', 'glove', 'brooch', 'sunglass']]
+];
+
+// Search terms used when a slot is browsed without one. Singular on purpose: plural
+// category words ("shoes", "dresses") redirect on the catalogue search
+const DEFAULT_SEARCH_TEXT: Record<SlotCategory, string> = {
+  Top: 'top',
+  Bottom: 'skirt',
+  Dress: 'dress',
+  Shoes: 'shoe',
+  Accessory: 'necklace',
+  Handbag: 'bag',
+  Hat: 'hat'
+};
+
+export const mapCategory = (category: string | undefined): SlotCategory | null => {
+  if (!category) return null;
+  const lower = category.toLowerCase();
+  const match = CATEGORY_KEYWORDS.find(([, keywords]) => keywords.some(keyword => lower.includes(keyword)));
+  return match ? match[0] : null;
+};
+
+export const getSwatches = (product: Product): ProductSwatch[] =>
+  (product.properties?.swatches || []).filter(swatch => swatch.images && swatch.images.length > 0);
+
+export const getSwatchImageUrl = (product: Product, swatch: ProductSwatch | null): string =>
+  swatch?.images?.[0] ||
+  product.imageUrl ||
+  product.media?.main_image?.url ||
+  product.media?.default?.src ||
+  product.properties?.swatches?.[0]?.images?.[0] ||
+  'https://placehold.co/128x160/f0f0f0/a0a0a0?text=No+Image';
+
+// Flatten catalogue products into the fields the builder reads, keeping the originals
+const normaliseProduct = (product: Product): Product => ({
+  ...product,
+  name: product.name || product.titles?.default || 'Unknown Product',
+  category: mapCategory(product.properties?.category || product.category) || 'Unknown',
+  imageUrl: product.imageUrl || product.media?.main_image?.url || product.properties?.swatches?.[0]?.images?.[0] || '',
+  price: product.price || product.pricing?.current?.value || 0
+});
+
+const matchesQuery = (product: Product, { searchText, category }: CatalogueQuery) => {
+  if (category && product.category !== category) return false;
+  const name = (product.name || '').toLowerCase();
+  return searchText.trim().toLowerCase().split(/\s+/).every(word => name.includes(word));
+};
+
+const fetchApiPage = async (searchText: string, page: number, pageSize: number) => {
+  const params = new URLSearchParams({
+    searchText,
+    page: String(page),
+    pageSize: String(pageSize)
+  });
+  const response = await fetch(`/api/product-search?${params}`);
+  if (!response.ok) {
+    throw new Error(`Catalogue search failed (${response.status})`);
+  }
+
+  const data = await response.json();
+  if (!data.success) {
+    throw new Error(data.error || 'Catalogue search failed');
+  }
+  const products: Product[] = (data.products || []).map(normaliseProduct);
+  const hasMore = typeof data.total === 'number'
+    ? page * pageSize < data.total
+    : products.length >= pageSize;
+  return { products, hasMore };
+};
+
+// The catalogue search can't filter by slot, so a slot's results are collected across
+// catalogue pages: each page keeps reading until it's full or the catalogue runs out.
+// Reads are capped per page so a rare slot can't walk the whole catalogue in one go
+const MAX_API_PAGES_PER_PAGE = 5;
+
+interface SlotResults {
+  products: Product[];
+  nextApiPage: number;
+  exhausted: boolean;
+}
+
+// Keyed by search text, slot and page size; each entry chains on the last so pages fill in order
+const slotResults = new Map<string, Promise<SlotResults>>();
+
+const searchSlot = async (searchText: string, category: SlotCategory, page: number, pageSize: number): Promise<CataloguePage> => {
+  const key = JSON.stringify([searchText.toLowerCase(), category, pageSize]);
+  const needed = page * pageSize;
+  const previous = slotResults.get(key) ?? Promise.resolve({ products: [], nextApiPage: 1, exhausted: false });
+
+  const filled = previous.then(async ({ products, nextApiPage, exhausted }) => {
+    for (let reads = 0; !exhausted && products.length < needed && reads < MAX_API_PAGES_PER_PAGE; reads++) {
+      const result = await fetchApiPage(searchText, nextApiPage, pageSize);
+      products = [...products, ...result.products.filter(product => product.category === category)];
+      nextApiPage++;
+      exhausted = !result.hasMore;
+    }
+    return { products, nextApiPage, exhausted };
+  });
+  slotResults.set(key, filled);
+  // A failed read starts the slot's results over next time
+  filled.catch(() => {
+    if (slotResults.get(key) === filled) slotResults.delete(key);
+  });
+
+  const { products, exhausted } = await filled;
+  const start = (page - 1) * pageSize;
+  return {
+    products: products.slice(start, start + pageSize),
+    page,
+    hasMore: products.length > start + pageSize || !exhausted
+  };
+};
+
+export const apiCatalogue: CatalogueSource = {
+  search: async (query) => {
+    const searchText = query.searchText.trim() || (query.category ? DEFAULT_SEARCH_TEXT[query.category] : '');
+    if (query.category) {
+      return searchSlot(searchText, query.category, query.page, query.pageSize);
+    }
+    const { products, hasMore } = await fetchApiPage(searchText, query.page, query.pageSize);
+    return { products, page: query.page, hasMore };
+  }
+};
+
+export const fixtureCatalogue: CatalogueSource = {
+  search: async (query) => {
+    const matches = fixtureProducts.map(normaliseProduct).filter(product => matchesQuery(product, query));
+    const start = (query.page - 1) * query.pageSize;
+    return {
+      products: matches.slice(start, start + query.pageSize),
+      page: query.page,
+      hasMore: start + query.pageSize < matches.length
+    };
+  }
+};
+
+const source: CatalogueSource = process.env.NEXT_PUBLIC_OUTFIT_CATALOGUE === 'fixture' ? fixtureCatalogue : apiCatalogue;
+
+// Every outfit renders the same slot selectors, so identical searches share one request
+const pageCache = new Map<string, Promise<CataloguePage>>();
+
+export const searchCatalogue = (query: CatalogueQuery): Promise<CataloguePage> => {
+  const key = JSON.stringify([query.searchText.trim().toLowerCase(), query.category, query.page, query.pageSize]);
+  const cached = pageCache.get(key);
+  if (cached) return cached;
+
+  const request = source.search(query);
+  pageCache.set(key, request);
+  // Failed searches are retried next time rather than cached
+  request.catch(() => pageCache.delete(key));
+  return request;
+};
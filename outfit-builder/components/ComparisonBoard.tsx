@@ -0,0 +1,125 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { OutfitItem } from '../types';
+import { OUTFIT_SLOTS } from '../types';
+import { formatItemPrice, formatPrice, getItemPrice } from '../rules';
+import { comparisonToCsv, comparisonSheetHtml, printSheet, downloadCsv } from '../export';
+import { useImagePalettes } from '../hooks/useImagePalettes';
+
+type Slot = keyof OutfitItem;
+
+interface ComparisonBoardProps {
+  outfits: Record<string, OutfitItem>;
+  onMoveItem: (fromOutfitId: string, slot: Slot, toOutfitId: string) => void;
+  onNotify: (message: string) => void;
+}
+
+const DRAG_TYPE = 'application/x-outfit-item';
+
+const ComparisonBoard = ({ outfits, onMoveItem, onNotify }: ComparisonBoardProps) => {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const imageUrls = Object.values(outfits).flatMap(outfit =>
+    OUTFIT_SLOTS.map(slot => outfit[slot]?.imageUrl).filter((url): url is string => Boolean(url)));
+  const palettes = useImagePalettes(imageUrls, 2);
+
+  const handleDragStart = (e: React.DragEvent, outfitId: string, slot: Slot) => {
+    e.dataTransfer.setData(DRAG_TYPE, JSON.stringify({ outfitId, slot }));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDrop = (e: React.DragEvent, toOutfitId: string) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const data = e.dataTransfer.getData(DRAG_TYPE);
+    if (!data) return;
+    const { outfitId, slot } = JSON.parse(data) as { outfitId: string; slot: Slot };
+    if (outfitId !== toOutfitId) onMoveItem(outfitId, slot, toOutfitId);
+  };
+
+  const handlePrint = () => {
+    try {
+      printSheet(comparisonSheetHtml(outfits, palettes));
+    } catch (error) {
+      onNotify(error instanceof Error ? error.message : 'Failed to open the comparison sheet.');
+    }
+  };
+
+  const handleExportCsv = () => {
+    downloadCsv(comparisonToCsv(outfits), 'outfit-comparison.csv');
+    onNotify('Comparison exported.');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-500">Drag items between outfits to try them in another look.</p>
+        <div className="flex gap-2">
+          <button onClick={handleExportCsv} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 transition-colors">
+            Export CSV
+          </button>
+          <button onClick={handlePrint} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 transition-colors">
+            Print sheet
+          </button>
+        </div>
+      </div>
+
+      <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${Object.keys(outfits).length}, minmax(0, 1fr))` }}>
+        {Object.entries(outfits).map(([outfitId, outfit]) => {
+          const slots = OUTFIT_SLOTS.filter(slot => outfit[slot]);
+          const total = slots.reduce((sum, slot) => sum + getItemPrice(outfit[slot]!.product), 0);
+          const palette = [...new Set(slots.flatMap(slot => palettes[outfit[slot]!.imageUrl] || []))];
+
+          return (
+            <div
+              key={outfitId}
+              onDragOver={(e) => { e.preventDefault(); setDropTarget(outfitId); }}
+              onDragLeave={() => setDropTarget(prev => (prev === outfitId ? null : prev))}
+              onDrop={(e) => handleDrop(e, outfitId)}
+              className={`bg-white rounded-lg shadow-md p-4 border-2 transition-colors ${dropTarget === outfitId ? 'border-indigo-400 bg-indigo-50' : 'border-transparent'}`}
+            >
+              <div className="flex justify-between items-baseline mb-2">
+                <h3 className="text-lg font-bold text-gray-800">Outfit {outfitId}</h3>
+                <span className="text-lg font-semibold text-gray-800">{formatPrice(total, slots.map(slot => outfit[slot]!.product))}</span>
+              </div>
+              <p className="text-xs text-gray-500 mb-2">{slots.length} item{slots.length === 1 ? '' : 's'}</p>
+
+              <div className="flex flex-wrap gap-1 mb-3 min-h-[1rem]">
+                {palette.map(colour => (
+                  <span key={colour} className="w-4 h-4 rounded-full border border-gray-300" style={{ backgroundColor: colour }} title={colour} />
+                ))}
+              </div>
+
+              {slots.length === 0 ? (
+                <p className="text-sm text-gray-400 text-center py-8">Drop items here</p>
+              ) : (
+                <ul className="space-y-2">
+                  {slots.map(slot => {
+                    const item = outfit[slot]!;
+                    return (
+                      <li
+                        key={slot}
+                        draggable
+                        onDragStart={(e) => handleDragStart(e, outfitId, slot)}
+                        className="flex gap-2 items-center p-1 rounded hover:bg-gray-50 cursor-grab active:cursor-grabbing"
+                      >
+                        <img src={item.imageUrl} alt={item.product.name} className="w-10 h-12 object-cover rounded bg-gray-100" />
+                        <div className="min-w-0 flex-1">
+                          <p className="text-xs text-gray-400">{slot}</p>
+                          <p className="text-sm text-gray-800 truncate">{item.product.name}</p>
+                        </div>
+                        <span className="text-sm text-gray-600">{formatItemPrice(item.product)}</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonBoard;
@@ -0,0 +1,72 @@
+'use client';
+
+import React from 'react';
+import type { OutfitEvaluation } from '../rules';
+import type { LookSuggestion } from '../hooks/useLookSuggestions';
+import type { Product } from '../types';
+
+interface OutfitRuleReportProps {
+  evaluation: OutfitEvaluation;
+  suggestions?: LookSuggestion[];
+  suggestionsLoading?: boolean;
+  onSelectSuggestion?: (product: Product) => void;
+}
+
+const OutfitRuleReport = ({ evaluation, suggestions = [], suggestionsLoading = false, onSelectSuggestion }: OutfitRuleReportProps) => {
+  const { violations, complete, totalPrice, priceBand } = evaluation;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex justify-between items-center">
+        <span className={`font-medium ${complete ? 'text-green-600' : 'text-gray-600'}`}>
+          {complete ? '✓ Look complete' : 'Look incomplete'}
+        </span>
+        <span className="text-gray-600">
+          £{totalPrice}
+          {priceBand && <span className="text-gray-400"> / £{priceBand.min}–£{priceBand.max}</span>}
+        </span>
+      </div>
+
+      {violations.length > 0 && (
+        <ul className="space-y-1">
+          {violations.map((violation, index) => (
+            <li
+              key={`${violation.rule}-${index}`}
+              className={`px-2 py-1 rounded ${violation.severity === 'error' ? 'bg-red-50 text-red-700' : 'bg-yellow-50 text-yellow-800'}`}
+            >
+              {violation.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {(suggestions.length > 0 || suggestionsLoading) && (
+        <div>
+          <h4 className="font-semibold text-gray-700 mb-2">Complete the look</h4>
+          {suggestionsLoading && suggestions.length === 0 ? (
+            <p className="text-gray-400">Finding suggestions...</p>
+          ) : (
+            <div className="flex gap-2 overflow-x-auto scrollbar-hide">
+              {suggestions.map(({ slot, product }) => (
+                <button
+                  key={`${slot}-${product.id}`}
+                  onClick={() => onSelectSuggestion?.(product)}
+                  className="flex-shrink-0 w-20 text-left group"
+                  title={`Add ${product.name} as ${slot}`}
+                >
+                  <div className="w-20 h-24 bg-gray-100 rounded overflow-hidden border-2 border-transparent group-hover:border-indigo-400 transition-colors">
+                    <img src={product.imageUrl} alt={product.name} className="w-full h-full object-cover" />
+                  </div>
+                  <p className="text-xs text-gray-600 mt-1 truncate">{product.name}</p>
+                  <p className="text-xs text-gray-400">{slot}</p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OutfitRuleReport;
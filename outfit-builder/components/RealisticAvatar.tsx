@@ -1,383 +1,289 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { motion } from 'framer-motion';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import type { OutfitItem } from '../types';
+import type { BodyType, Pose, SkinTone, LayerAdjustment, ComposerLayer, Cutout } from '../composer';
+import {
+  getMannequinTemplate,
+  getCutout,
+  getLayerRect,
+  renderComposition,
+  hitTestLayer,
+  exportComposition,
+  LAYER_ORDER,
+  DEFAULT_ADJUSTMENT,
+  TEMPLATE_WIDTH,
+  TEMPLATE_HEIGHT,
+  CAMPAIGN_SCALE
+} from '../composer';
+import { downloadBlob } from '../export';
+
+type Slot = keyof OutfitItem;
 
 interface RealisticAvatarProps {
-  outfit: any;
-  bodyType?: string;
-  pose?: string;
-  skinTone?: string;
+  outfit: OutfitItem;
+  bodyType?: BodyType;
+  pose?: Pose;
+  skinTone?: SkinTone;
+  // Preview size as a fraction of the 600 x 900 template
+  previewScale?: number;
 }
 
-const RealisticAvatar = ({ 
-  outfit, 
-  bodyType = 'athletic', 
-  pose = 'standing', 
-  skinTone = 'medium' 
+const NUDGE_STEP = 5;
+const SCALE_STEP = 0.05;
+
+const RealisticAvatar = ({
+  outfit,
+  bodyType = 'athletic',
+  pose = 'standing',
+  skinTone = 'medium',
+  previewScale = 0.5
 }: RealisticAvatarProps) => {
-  const [clothingLayers, setClothingLayers] = useState<any[]>([]);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ slot: Slot; startX: number; startY: number; origin: LayerAdjustment } | null>(null);
+  const imageUrlsRef = useRef<Partial<Record<Slot, string>>>({});
+  const [cutouts, setCutouts] = useState<Partial<Record<Slot, Cutout>>>({});
+  const [failedSlots, setFailedSlots] = useState<Slot[]>([]);
+  const [adjustments, setAdjustments] = useState<Partial<Record<Slot, LayerAdjustment>>>({});
+  const [selectedSlot, setSelectedSlot] = useState<Slot | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const template = useMemo(() => getMannequinTemplate(bodyType, pose), [bodyType, pose]);
+  const imageKey = LAYER_ORDER.map(slot => outfit[slot]?.imageUrl ?? '').join('|');
 
+  // Cut out each product image; a slot keeps its nudges until its product changes
   useEffect(() => {
-    const processOutfit = async () => {
-      const layers: any[] = [];
-      const layeringOrder = [
-        { category: 'Bottom', zIndex: 1 },
-        { category: 'Dress', zIndex: 2 },
-        { category: 'Top', zIndex: 3 },
-        { category: 'Accessory', zIndex: 4 },
-        { category: 'Handbag', zIndex: 5 },
-        { category: 'Hat', zIndex: 6 },
-        { category: 'Shoes', zIndex: 7 }
-      ];
+    let cancelled = false;
+    setFailedSlots([]);
 
-      layeringOrder.forEach(({ category, zIndex }) => {
-        const item = outfit[category];
-        if (item) {
-          layers.push({
-            ...item,
-            zIndex,
-            category
-          });
-        }
-      });
+    const changed = LAYER_ORDER.filter(slot => outfit[slot]?.imageUrl !== imageUrlsRef.current[slot]);
+    changed.forEach(slot => { imageUrlsRef.current[slot] = outfit[slot]?.imageUrl; });
+    setAdjustments(prev => {
+      const kept = { ...prev };
+      changed.forEach(slot => { delete kept[slot]; });
+      return kept;
+    });
 
-      setClothingLayers(layers);
-    };
+    LAYER_ORDER.forEach(slot => {
+      const item = outfit[slot];
+      if (!item) {
+        setCutouts(prev => ({ ...prev, [slot]: undefined }));
+        return;
+      }
+      getCutout(item.imageUrl)
+        .then(cutout => {
+          if (!cancelled) setCutouts(prev => ({ ...prev, [slot]: cutout }));
+        })
+        .catch(error => {
+          console.error(`Error preparing ${slot} cut-out:`, error);
+          if (!cancelled) {
+            setCutouts(prev => ({ ...prev, [slot]: undefined }));
+            setFailedSlots(prev => [...prev, slot]);
+          }
+        });
+    });
 
-    processOutfit();
-  }, [outfit, bodyType]);
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [imageKey]);
 
-  // Real body type dimensions that actually change the avatar
-  const getBodyDimensions = (bodyType: string) => {
-    const dimensions = {
-      slim: {
-        height: 280,
-        width: 120,
-        headSize: 45,
-        torsoWidth: 80,
-        armWidth: 12,
-        legWidth: 18,
-        shoulderWidth: 90,
-        hipWidth: 70
-      },
-      athletic: {
-        height: 300,
-        width: 140,
-        headSize: 50,
-        torsoWidth: 100,
-        armWidth: 16,
-        legWidth: 22,
-        shoulderWidth: 110,
-        hipWidth: 85
-      },
-      curvy: {
-        height: 300,
-        width: 160,
-        headSize: 50,
-        torsoWidth: 120,
-        armWidth: 18,
-        legWidth: 24,
-        shoulderWidth: 120,
-        hipWidth: 110
-      },
-      plus: {
-        height: 320,
-        width: 180,
-        headSize: 55,
-        torsoWidth: 140,
-        armWidth: 20,
-        legWidth: 28,
-        shoulderWidth: 130,
-        hipWidth: 130
-      }
-    };
-    return dimensions[bodyType as keyof typeof dimensions] || dimensions.athletic;
-  };
+  const layers: ComposerLayer[] = useMemo(() => LAYER_ORDER
+    .filter(slot => outfit[slot] && cutouts[slot])
+    // A dress replaces the bottom, as in the builder
+    .filter(slot => !(slot === 'Bottom' && outfit.Dress))
+    .map(slot => ({ slot, image: cutouts[slot]!.image, adjustment: adjustments[slot] || DEFAULT_ADJUSTMENT })),
+  [outfit, cutouts, adjustments]);
+
+  // Redraw the preview; the backing store follows the device pixel ratio so it stays sharp
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = TEMPLATE_WIDTH * previewScale * pixelRatio;
+    canvas.height = TEMPLATE_HEIGHT * previewScale * pixelRatio;
+    renderComposition(ctx, template, skinTone, layers, previewScale * pixelRatio);
 
-  // Real clothing positioning that adapts to body type
-  const getClothingPosition = (category: string, bodyType: string) => {
-    const dims = getBodyDimensions(bodyType);
-    
-    const positions = {
-      'Top': {
-        width: dims.shoulderWidth,
-        height: dims.height * 0.3,
-        y: dims.headSize + 20,
-        scale: bodyType === 'slim' ? 0.8 : bodyType === 'plus' ? 1.2 : 1.0
-      },
-      'Dress': {
-        width: dims.hipWidth,
-        height: dims.height * 0.6,
-        y: dims.headSize + 10,
-        scale: bodyType === 'slim' ? 0.85 : bodyType === 'plus' ? 1.15 : 1.0
-      },
-      'Bottom': {
-        width: dims.hipWidth,
-        height: dims.height * 0.25,
-        y: dims.headSize + dims.height * 0.35,
-        scale: bodyType === 'slim' ? 0.75 : bodyType === 'plus' ? 1.25 : 1.0
-      },
-      'Shoes': {
-        width: 60,
-        height: 25,
-        y: dims.height - 30,
-        scale: bodyType === 'slim' ? 0.7 : bodyType === 'plus' ? 1.3 : 1.0
-      },
-      'Accessory': {
-        width: 35,
-        height: 35,
-        y: dims.headSize - 10,
-        scale: bodyType === 'slim' ? 0.8 : bodyType === 'plus' ? 1.2 : 1.0
-      },
-      'Handbag': {
-        width: 45,
-        height: 55,
-        y: dims.headSize + dims.height * 0.2,
-        x: dims.shoulderWidth * 0.4,
-        scale: bodyType === 'slim' ? 0.7 : bodyType === 'plus' ? 1.3 : 1.0
-      },
-      'Hat': {
-        width: dims.headSize * 1.3,
-        height: 25,
-        y: -10,
-        scale: bodyType === 'slim' ? 0.8 : bodyType === 'plus' ? 1.2 : 1.0
+    if (selectedSlot) {
+      const layer = layers.find(({ slot }) => slot === selectedSlot);
+      if (layer) {
+        const scale = previewScale * pixelRatio;
+        const { x, y, width, height } = getLayerRect(template.anchors[selectedSlot], layer.image.width, layer.image.height, layer.adjustment);
+        ctx.save();
+        ctx.strokeStyle = '#6366f1';
+        ctx.lineWidth = 2 * pixelRatio;
+        ctx.setLineDash([6 * pixelRatio, 4 * pixelRatio]);
+        ctx.strokeRect(x * scale, y * scale, width * scale, height * scale);
+        ctx.restore();
       }
-    };
-    
-    return positions[category as keyof typeof positions] || { width: 100, height: 100, y: 0, x: 0, scale: 1.0 };
-  };
+    }
+  }, [template, skinTone, layers, previewScale, selectedSlot]);
+
+  const updateAdjustment = useCallback((slot: Slot, update: (current: LayerAdjustment) => LayerAdjustment) => {
+    setAdjustments(prev => ({ ...prev, [slot]: update(prev[slot] || DEFAULT_ADJUSTMENT) }));
+  }, []);
 
-  const getSkinToneColor = (tone: string) => {
-    const colors = {
-      light: '#FFDBB4',
-      medium: '#C68642',
-      dark: '#8D5524'
+  // Pointer position in template units
+  const toTemplatePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * TEMPLATE_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * TEMPLATE_HEIGHT
     };
-    return colors[tone as keyof typeof colors] || colors.medium;
   };
 
-  const dimensions = getBodyDimensions(bodyType);
-  const skinToneColor = getSkinToneColor(skinTone);
-
-  return (
-    <div className="relative w-full h-full bg-gradient-to-br from-gray-50 to-gray-100 rounded-xl p-4">
-      <div className="relative w-full h-full flex items-center justify-center">
-        
-        {/* Avatar Container */}
-        <div className="relative" style={{ height: dimensions.height, width: dimensions.width }}>
-          
-          {/* Head */}
-          <div 
-            className="absolute top-0 left-1/2 transform -translate-x-1/2 rounded-full shadow-lg"
-            style={{
-              width: dimensions.headSize,
-              height: dimensions.headSize,
-              backgroundColor: skinToneColor,
-              boxShadow: '0 4px 15px rgba(0,0,0,0.2)'
-            }}
-          >
-            {/* Hair */}
-            <div 
-              className="absolute -top-1 -left-1 rounded-full"
-              style={{
-                width: dimensions.headSize * 1.1,
-                height: dimensions.headSize * 0.4,
-                background: 'linear-gradient(45deg, #8B4513, #A0522D)',
-                boxShadow: '0 2px 6px rgba(0,0,0,0.3)'
-              }}
-            />
-            
-            {/* Eyes */}
-            <div className="absolute top-5 left-3 w-2 h-2 bg-gray-800 rounded-full" />
-            <div className="absolute top-5 right-3 w-2 h-2 bg-gray-800 rounded-full" />
-            
-            {/* Nose */}
-            <div className="absolute top-7 left-1/2 transform -translate-x-1/2 w-1 h-1 bg-gray-600 rounded-full" />
-            
-            {/* Lips */}
-            <div className="absolute top-9 left-1/2 transform -translate-x-1/2 w-3 h-1 bg-pink-300 rounded-full opacity-70" />
-          </div>
-
-          {/* Neck */}
-          <div 
-            className="absolute left-1/2 transform -translate-x-1/2 rounded-full"
-            style={{
-              top: dimensions.headSize,
-              width: dimensions.headSize * 0.4,
-              height: 20,
-              backgroundColor: skinToneColor,
-              boxShadow: '0 2px 6px rgba(0,0,0,0.1)'
-            }}
-          />
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toTemplatePoint(e);
+    const slot = hitTestLayer(template, layers, point.x, point.y);
+    setSelectedSlot(slot);
+    if (!slot) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { slot, startX: point.x, startY: point.y, origin: adjustments[slot] || DEFAULT_ADJUSTMENT };
+  };
 
-          {/* Torso */}
-          <div 
-            className="absolute left-1/2 transform -translate-x-1/2 rounded-t-full"
-            style={{
-              top: dimensions.headSize + 20,
-              width: dimensions.torsoWidth,
-              height: dimensions.height * 0.4,
-              background: `linear-gradient(135deg, ${skinToneColor}, ${skinToneColor}dd)`,
-              boxShadow: '0 4px 15px rgba(0,0,0,0.15)'
-            }}
-          >
-            {/* Shoulders */}
-            <div 
-              className="absolute -top-2 left-1/2 transform -translate-x-1/2 rounded-full"
-              style={{
-                width: dimensions.shoulderWidth,
-                height: dimensions.headSize * 0.25,
-                backgroundColor: skinToneColor,
-                boxShadow: '0 2px 6px rgba(0,0,0,0.1)'
-              }}
-            />
-            
-            {/* Hips */}
-            <div 
-              className="absolute bottom-2 left-1/2 transform -translate-x-1/2 rounded-full"
-              style={{
-                width: dimensions.hipWidth,
-                height: dimensions.headSize * 0.3,
-                backgroundColor: skinToneColor,
-                boxShadow: '0 2px 6px rgba(0,0,0,0.1)'
-              }}
-            />
-          </div>
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = toTemplatePoint(e);
+    updateAdjustment(drag.slot, () => ({
+      ...drag.origin,
+      dx: drag.origin.dx + point.x - drag.startX,
+      dy: drag.origin.dy + point.y - drag.startY
+    }));
+  };
 
-          {/* Arms */}
-          <div 
-            className="absolute rounded-full shadow-md"
-            style={{
-              top: dimensions.headSize + 30,
-              left: -dimensions.armWidth * 2,
-              width: dimensions.armWidth,
-              height: dimensions.height * 0.35,
-              background: `linear-gradient(135deg, ${skinToneColor}, ${skinToneColor}dd)`,
-              transform: 'rotate(-15deg)',
-              boxShadow: '0 3px 10px rgba(0,0,0,0.2)'
-            }}
-          />
-          <div 
-            className="absolute rounded-full shadow-md"
-            style={{
-              top: dimensions.headSize + 30,
-              right: -dimensions.armWidth * 2,
-              width: dimensions.armWidth,
-              height: dimensions.height * 0.35,
-              background: `linear-gradient(135deg, ${skinToneColor}, ${skinToneColor}dd)`,
-              transform: 'rotate(15deg)',
-              boxShadow: '0 3px 10px rgba(0,0,0,0.2)'
-            }}
-          />
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
 
-          {/* Hands */}
-          <div 
-            className="absolute rounded-full shadow-sm"
-            style={{
-              top: dimensions.headSize + dimensions.height * 0.35 - 5,
-              left: -dimensions.armWidth * 2 - 3,
-              width: dimensions.armWidth * 0.8,
-              height: dimensions.armWidth * 1.2,
-              backgroundColor: skinToneColor
-            }}
-          />
-          <div 
-            className="absolute rounded-full shadow-sm"
-            style={{
-              top: dimensions.headSize + dimensions.height * 0.35 - 5,
-              right: -dimensions.armWidth * 2 - 3,
-              width: dimensions.armWidth * 0.8,
-              height: dimensions.armWidth * 1.2,
-              backgroundColor: skinToneColor
-            }}
-          />
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    if (!selectedSlot) return;
+    const step = e.shiftKey ? NUDGE_STEP * 4 : NUDGE_STEP;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step]
+    };
+    if (moves[e.key]) {
+      e.preventDefault();
+      const [dx, dy] = moves[e.key];
+      updateAdjustment(selectedSlot, current => ({ ...current, dx: current.dx + dx, dy: current.dy + dy }));
+    } else if (e.key === '+' || e.key === '=') {
+      updateAdjustment(selectedSlot, current => ({ ...current, scale: current.scale + SCALE_STEP }));
+    } else if (e.key === '-') {
+      updateAdjustment(selectedSlot, current => ({ ...current, scale: Math.max(SCALE_STEP, current.scale - SCALE_STEP) }));
+    }
+  };
 
-          {/* Legs */}
-          <div 
-            className="absolute left-1/2 transform -translate-x-1/2 rounded-t-full shadow-md"
-            style={{
-              top: dimensions.headSize + 20 + dimensions.height * 0.4,
-              width: dimensions.legWidth,
-              height: dimensions.height * 0.35,
-              background: `linear-gradient(135deg, ${skinToneColor}, ${skinToneColor}dd)`,
-              boxShadow: '0 3px 10px rgba(0,0,0,0.2)'
-            }}
-          />
+  // Drawn as they are; their hosts don't allow the pixel access cutting out and exporting need
+  const uncutSlots = layers.filter(({ slot }) => !cutouts[slot]!.cutOut).map(({ slot }) => slot);
 
-          {/* Feet */}
-          <div 
-            className="absolute left-1/2 transform -translate-x-1/2 rounded-full shadow-sm"
-            style={{
-              top: dimensions.headSize + 20 + dimensions.height * 0.4 + dimensions.height * 0.35 - 3,
-              width: dimensions.legWidth * 1.5,
-              height: dimensions.legWidth * 0.6,
-              backgroundColor: skinToneColor
-            }}
-          />
+  const handleExport = async () => {
+    setExportError(null);
+    if (uncutSlots.length > 0) {
+      setExportError(`Can't export while ${uncutSlots.join(', ')} ${uncutSlots.length === 1 ? 'is' : 'are'} shown uncut; remove or replace ${uncutSlots.length === 1 ? 'it' : 'them'} first.`);
+      return;
+    }
+    setExporting(true);
+    try {
+      const blob = await exportComposition(template, skinTone, layers);
+      downloadBlob(blob, `look-${bodyType}-${pose}.png`);
+    } catch (error) {
+      console.error('Error exporting composed look:', error);
+      setExportError(error instanceof Error ? error.message : 'Failed to export the look');
+    } finally {
+      setExporting(false);
+    }
+  };
 
-          {/* Clothing Layers */}
-          {clothingLayers.map((layer, index) => {
-            const position = getClothingPosition(layer.category, bodyType);
-            return (
-              <motion.div
-                key={`${layer.category}-${layer.id}`}
-                className="absolute left-1/2 transform -translate-x-1/2 pointer-events-none"
-                style={{ 
-                  zIndex: layer.zIndex,
-                  width: position.width,
-                  height: position.height,
-                  transform: `translateY(${position.y}px) translateX(${(position as any).x || 0}px) scale(${position.scale})`
-                }}
-                initial={{ opacity: 0, scale: 0.5 }}
-                animate={{ opacity: 1, scale: 1 }}
-                transition={{ duration: 0.3, delay: index * 0.1 }}
-              >
-                <img
-                  src={layer.imageUrl || layer.media?.main_image?.url || layer.media?.default?.src || layer.properties?.swatches?.[0]?.images?.[0] || 'https://placehold.co/200x200/f0f0f0/a0a0a0?text=No+Image'}
-                  alt={layer.name || layer.titles?.default || 'Clothing Item'}
-                  className="w-full h-full object-contain"
-                  style={{
-                    filter: 'drop-shadow(0 4px 12px rgba(0,0,0,0.2))',
-                    borderRadius: layer.category === 'Hat' ? '50%' : '6px'
-                  }}
-                  onError={(e) => {
-                    (e.target as HTMLElement).style.display = 'none';
-                  }}
-                />
-              </motion.div>
-            );
-          })}
+  const selectedAdjustment = selectedSlot ? adjustments[selectedSlot] || DEFAULT_ADJUSTMENT : null;
 
-          {/* Lighting */}
-          <div className="absolute inset-0 bg-gradient-to-br from-transparent via-transparent to-white opacity-20 pointer-events-none rounded-full" />
-        </div>
+  return (
+    <div className="relative w-full h-full bg-gradient-to-br from-gray-50 to-gray-100 rounded-xl p-4 space-y-3">
+      <div className="relative flex justify-center">
+        <canvas
+          ref={canvasRef}
+          tabIndex={0}
+          style={{ width: TEMPLATE_WIDTH * previewScale, height: TEMPLATE_HEIGHT * previewScale }}
+          className="rounded-lg shadow-md bg-white cursor-move focus:outline-none focus:ring-2 focus:ring-indigo-400"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onKeyDown={handleKeyDown}
+        />
 
         {/* Status Indicators */}
         <div className="absolute top-2 left-2">
           <div className="bg-white bg-opacity-95 rounded-lg px-2 py-1 text-xs font-medium text-gray-700 shadow-md">
-            {bodyType.charAt(0).toUpperCase() + bodyType.slice(1)} Model
+            {bodyType.charAt(0).toUpperCase() + bodyType.slice(1)} Model · {pose}
           </div>
         </div>
+      </div>
 
-        <div className="absolute top-2 right-2">
-          <div className="bg-green-500 bg-opacity-95 rounded-lg px-2 py-1 text-xs font-medium text-white shadow-md">
-            ✓ Working Avatar
-          </div>
-        </div>
+      {failedSlots.length > 0 && (
+        <p className="text-xs text-yellow-800 bg-yellow-50 rounded px-2 py-1">
+          Couldn't show {failedSlots.join(', ')}; the images failed to load.
+        </p>
+      )}
 
-        {/* Body Type Info */}
-        <div className="absolute bottom-2 left-2">
-          <div className="bg-white bg-opacity-95 rounded-lg p-2 text-xs shadow-md">
-            <div className="font-medium text-gray-700 mb-1">Dimensions:</div>
-            <div className="text-gray-600">
-              H: {dimensions.height}px<br/>
-              W: {dimensions.width}px<br/>
-              Shoulders: {dimensions.shoulderWidth}px<br/>
-              Hips: {dimensions.hipWidth}px
-            </div>
-          </div>
+      {uncutSlots.length > 0 && (
+        <p className="text-xs text-yellow-800 bg-yellow-50 rounded px-2 py-1">
+          {uncutSlots.join(', ')} {uncutSlots.length === 1 ? 'is' : 'are'} shown uncut; the image host doesn't allow cross-origin use.
+        </p>
+      )}
+
+      {/* Layer Controls */}
+      <div className="flex flex-wrap gap-1">
+        {layers.map(({ slot }) => (
+          <button
+            key={slot}
+            onClick={() => setSelectedSlot(slot)}
+            className={`px-2 py-1 text-xs rounded-md transition-colors ${selectedSlot === slot ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-200'}`}
+          >
+            {slot}
+          </button>
+        ))}
+      </div>
+
+      {selectedSlot && selectedAdjustment && (
+        <div className="flex items-center gap-2 text-xs text-gray-600">
+          <span>Drag or use arrow keys to nudge.</span>
+          <button
+            onClick={() => updateAdjustment(selectedSlot, current => ({ ...current, scale: Math.max(SCALE_STEP, current.scale - SCALE_STEP) }))}
+            className="px-2 py-1 bg-white rounded-md hover:bg-gray-200"
+            aria-label={`Shrink ${selectedSlot}`}
+          >
+            −
+          </button>
+          <span>{Math.round(selectedAdjustment.scale * 100)}%</span>
+          <button
+            onClick={() => updateAdjustment(selectedSlot, current => ({ ...current, scale: current.scale + SCALE_STEP }))}
+            className="px-2 py-1 bg-white rounded-md hover:bg-gray-200"
+            aria-label={`Enlarge ${selectedSlot}`}
+          >
+            +
+          </button>
+          <button
+            onClick={() => updateAdjustment(selectedSlot, () => DEFAULT_ADJUSTMENT)}
+            className="px-2 py-1 bg-white rounded-md hover:bg-gray-200"
+          >
+            Reset
+          </button>
         </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={handleExport}
+          disabled={exporting || layers.length === 0}
+          className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {exporting ? 'Exporting...' : `Export ${TEMPLATE_WIDTH * CAMPAIGN_SCALE} × ${TEMPLATE_HEIGHT * CAMPAIGN_SCALE}`}
+        </button>
+        {exportError && <span className="text-xs text-red-600">{exportError}</span>}
       </div>
     </div>
   );
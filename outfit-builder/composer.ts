@@ -0,0 +1,391 @@
+import type { OutfitItem } from './types';
+import { loadImage } from './export';
+
+// --- Flat-Lay Composer ---
+// Lays product cut-outs over a mannequin template. Everything is measured in template
+// units (600 x 900); the preview draws at a fraction of that and campaign exports at
+// CAMPAIGN_SCALE times it.
+
+type Slot = keyof OutfitItem;
+
+export type BodyType = 'slim' | 'athletic' | 'curvy' | 'plus';
+export type Pose = 'standing' | 'walking' | 'sitting';
+export type SkinTone = 'light' | 'medium' | 'dark';
+
+export const BODY_TYPES: BodyType[] = ['slim', 'athletic', 'curvy', 'plus'];
+export const POSES: Pose[] = ['standing', 'walking', 'sitting'];
+export const SKIN_TONES: SkinTone[] = ['light', 'medium', 'dark'];
+
+export const TEMPLATE_WIDTH = 600;
+export const TEMPLATE_HEIGHT = 900;
+// 2400 x 3600, the campaign asset size
+export const CAMPAIGN_SCALE = 4;
+
+// Back to front
+export const LAYER_ORDER: Slot[] = ['Shoes', 'Bottom', 'Dress', 'Top', 'Accessory2', 'Accessory', 'Handbag', 'Hat'];
+
+export interface AnchorRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Which edge the cut-out hugs when it's shorter than the region
+  align: 'top' | 'bottom';
+}
+
+interface BodyMeasurements {
+  shoulderWidth: number;
+  waistWidth: number;
+  hipWidth: number;
+  limbWidth: number;
+}
+
+export interface MannequinTemplate {
+  bodyType: BodyType;
+  pose: Pose;
+  measurements: BodyMeasurements;
+  // Vertical landmarks, top to bottom
+  shoulderY: number;
+  waistY: number;
+  hipY: number;
+  kneeY: number;
+  ankleY: number;
+  // Horizontal offset of each ankle from the centre line
+  stance: number;
+  anchors: Record<Slot, AnchorRegion>;
+}
+
+export interface LayerAdjustment {
+  dx: number;
+  dy: number;
+  scale: number;
+}
+
+export const DEFAULT_ADJUSTMENT: LayerAdjustment = { dx: 0, dy: 0, scale: 1 };
+
+export interface ComposerLayer {
+  slot: Slot;
+  image: CanvasImageSource & { width: number; height: number };
+  adjustment: LayerAdjustment;
+}
+
+const BODY_MEASUREMENTS: Record<BodyType, BodyMeasurements> = {
+  slim: { shoulderWidth: 180, waistWidth: 110, hipWidth: 150, limbWidth: 30 },
+  athletic: { shoulderWidth: 205, waistWidth: 135, hipWidth: 175, limbWidth: 36 },
+  curvy: { shoulderWidth: 200, waistWidth: 140, hipWidth: 215, limbWidth: 40 },
+  plus: { shoulderWidth: 235, waistWidth: 190, hipWidth: 245, limbWidth: 48 }
+};
+
+const SKIN_TONE_COLOURS: Record<SkinTone, string> = {
+  light: '#FFDBB4',
+  medium: '#C68642',
+  dark: '#8D5524'
+};
+
+const CENTRE_X = TEMPLATE_WIDTH / 2;
+const HEAD_TOP = 35;
+const HEAD_HEIGHT = 110;
+
+export const getMannequinTemplate = (bodyType: BodyType, pose: Pose): MannequinTemplate => {
+  const measurements = BODY_MEASUREMENTS[bodyType] || BODY_MEASUREMENTS.athletic;
+  const { shoulderWidth, waistWidth, hipWidth } = measurements;
+
+  const shoulderY = 175;
+  const waistY = 360;
+  const hipY = 440;
+  // Seated, the thighs come towards the camera and the legs look shorter
+  const kneeY = pose === 'sitting' ? 560 : 650;
+  const ankleY = pose === 'sitting' ? 760 : 830;
+  const stance = pose === 'walking' ? hipWidth * 0.35 : hipWidth * 0.18;
+  const widest = Math.max(shoulderWidth, hipWidth);
+  const handX = CENTRE_X + shoulderWidth / 2 + (pose === 'walking' ? 40 : 15);
+
+  const box = (centreX: number, y: number, width: number, height: number, align: AnchorRegion['align']): AnchorRegion =>
+    ({ x: centreX - width / 2, y, width, height, align });
+
+  return {
+    bodyType,
+    pose,
+    measurements,
+    shoulderY,
+    waistY,
+    hipY,
+    kneeY,
+    ankleY,
+    stance,
+    anchors: {
+      Hat: box(CENTRE_X, 0, 200, HEAD_TOP + 55, 'bottom'),
+      Accessory: box(CENTRE_X, shoulderY - 25, shoulderWidth * 0.6, 130, 'top'),
+      Top: box(CENTRE_X, shoulderY - 25, shoulderWidth * 1.4, hipY - shoulderY + 55, 'top'),
+      Dress: box(CENTRE_X, shoulderY - 25, widest * 1.45, kneeY - shoulderY + 70, 'top'),
+      Accessory2: box(CENTRE_X, waistY - 30, waistWidth * 1.3, 70, 'top'),
+      Bottom: box(CENTRE_X, waistY - 15, hipWidth * 1.35, ankleY - waistY + 15, 'top'),
+      Handbag: box(handX + 55, hipY - 40, 150, 180, 'top'),
+      Shoes: box(CENTRE_X, ankleY - 35, (stance + measurements.limbWidth) * 2 + 40, 100, 'bottom')
+    }
+  };
+};
+
+export const drawMannequin = (ctx: CanvasRenderingContext2D, template: MannequinTemplate, skinTone: SkinTone) => {
+  const { measurements, shoulderY, waistY, hipY, kneeY, ankleY, stance } = template;
+  const skin = SKIN_TONE_COLOURS[skinTone] || SKIN_TONE_COLOURS.medium;
+  const half = (width: number) => width / 2;
+
+  ctx.save();
+  ctx.fillStyle = skin;
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.12)';
+  ctx.lineWidth = 2;
+  ctx.lineJoin = 'round';
+  ctx.lineCap = 'round';
+
+  // Head and neck
+  ctx.beginPath();
+  ctx.ellipse(CENTRE_X, HEAD_TOP + HEAD_HEIGHT / 2, 42, HEAD_HEIGHT / 2, 0, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+  ctx.fillRect(CENTRE_X - 17, HEAD_TOP + HEAD_HEIGHT - 10, 34, shoulderY - HEAD_TOP - HEAD_HEIGHT + 20);
+
+  // Torso: shoulders in to the waist and out to the hips
+  ctx.beginPath();
+  ctx.moveTo(CENTRE_X - half(measurements.shoulderWidth), shoulderY);
+  ctx.lineTo(CENTRE_X + half(measurements.shoulderWidth), shoulderY);
+  ctx.quadraticCurveTo(CENTRE_X + half(measurements.waistWidth) + 10, (shoulderY + waistY) / 2, CENTRE_X + half(measurements.waistWidth), waistY);
+  ctx.lineTo(CENTRE_X + half(measurements.hipWidth), hipY);
+  ctx.lineTo(CENTRE_X - half(measurements.hipWidth), hipY);
+  ctx.lineTo(CENTRE_X - half(measurements.waistWidth), waistY);
+  ctx.quadraticCurveTo(CENTRE_X - half(measurements.waistWidth) - 10, (shoulderY + waistY) / 2, CENTRE_X - half(measurements.shoulderWidth), shoulderY);
+  ctx.closePath();
+  ctx.fill();
+  ctx.stroke();
+
+  // Limbs are thick round-capped strokes
+  const limb = (points: Array<[number, number]>, width: number) => {
+    ctx.save();
+    ctx.strokeStyle = skin;
+    ctx.lineWidth = width;
+    ctx.beginPath();
+    ctx.moveTo(points[0][0], points[0][1]);
+    points.slice(1).forEach(([x, y]) => ctx.lineTo(x, y));
+    ctx.stroke();
+    ctx.restore();
+  };
+
+  const armSwing = template.pose === 'walking' ? 25 : 0;
+  [-1, 1].forEach(side => {
+    const shoulderX = CENTRE_X + side * (half(measurements.shoulderWidth) - measurements.limbWidth / 3);
+    limb([
+      [shoulderX, shoulderY + 10],
+      [shoulderX + side * 20, (shoulderY + hipY) / 2 + 20],
+      [shoulderX + side * (25 + armSwing), hipY + 30]
+    ], measurements.limbWidth * 0.75);
+
+    const hipX = CENTRE_X + side * (half(measurements.hipWidth) - measurements.limbWidth * 0.8);
+    limb([
+      [hipX, hipY - 10],
+      [CENTRE_X + side * (stance * 0.6 + measurements.limbWidth / 2), kneeY],
+      [CENTRE_X + side * stance, ankleY]
+    ], measurements.limbWidth);
+  });
+
+  ctx.restore();
+};
+
+// Where a cut-out of the given size lands: fitted inside its anchor, then nudged and scaled
+export const getLayerRect = (
+  anchor: AnchorRegion,
+  imageWidth: number,
+  imageHeight: number,
+  adjustment: LayerAdjustment
+): { x: number; y: number; width: number; height: number } => {
+  const fit = Math.min(anchor.width / imageWidth, anchor.height / imageHeight) * adjustment.scale;
+  const width = imageWidth * fit;
+  const height = imageHeight * fit;
+  const x = anchor.x + (anchor.width - width) / 2 + adjustment.dx;
+  const y = (anchor.align === 'bottom' ? anchor.y + anchor.height - height : anchor.y) + adjustment.dy;
+  return { x, y, width, height };
+};
+
+// Draws the mannequin and layers in template units scaled by `scale`
+export const renderComposition = (
+  ctx: CanvasRenderingContext2D,
+  template: MannequinTemplate,
+  skinTone: SkinTone,
+  layers: ComposerLayer[],
+  scale: number
+) => {
+  ctx.save();
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  ctx.fillStyle = '#f7f7f5';
+  ctx.fillRect(0, 0, TEMPLATE_WIDTH, TEMPLATE_HEIGHT);
+  drawMannequin(ctx, template, skinTone);
+
+  const sorted = [...layers].sort((a, b) => LAYER_ORDER.indexOf(a.slot) - LAYER_ORDER.indexOf(b.slot));
+  sorted.forEach(({ slot, image, adjustment }) => {
+    const rect = getLayerRect(template.anchors[slot], image.width, image.height, adjustment);
+    ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height);
+  });
+  ctx.restore();
+};
+
+// The front-most layer under a template-unit point, for picking layers to nudge
+export const hitTestLayer = (template: MannequinTemplate, layers: ComposerLayer[], x: number, y: number): Slot | null => {
+  const frontToBack = [...layers].sort((a, b) => LAYER_ORDER.indexOf(b.slot) - LAYER_ORDER.indexOf(a.slot));
+  const hit = frontToBack.find(({ slot, image, adjustment }) => {
+    const rect = getLayerRect(template.anchors[slot], image.width, image.height, adjustment);
+    return x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+  });
+  return hit ? hit.slot : null;
+};
+
+// --- Cut-outs ---
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Clears the studio background: pixels connected to the border and close to the corner
+// colour become transparent, with a soft edge for pixels just over the tolerance.
+// Images whose corners are already transparent are left alone.
+export const knockOutBackground = (pixels: PixelBuffer, tolerance = 40): boolean => {
+  const { data, width, height } = pixels;
+  const corners = [0, width - 1, (height - 1) * width, height * width - 1];
+  if (corners.some(index => data[index * 4 + 3] < 250)) return false;
+
+  const background = [0, 1, 2].map(channel =>
+    corners.reduce((total, index) => total + data[index * 4 + channel], 0) / corners.length);
+  const distance = (index: number) => Math.hypot(
+    data[index * 4] - background[0],
+    data[index * 4 + 1] - background[1],
+    data[index * 4 + 2] - background[2]
+  );
+
+  const softEdge = tolerance * 1.5;
+  const visited = new Uint8Array(width * height);
+  const queue: number[] = [];
+  const visit = (index: number) => {
+    if (visited[index]) return;
+    visited[index] = 1;
+    const d = distance(index);
+    if (d < tolerance) {
+      data[index * 4 + 3] = 0;
+      queue.push(index);
+    } else if (d < softEdge) {
+      data[index * 4 + 3] = Math.min(data[index * 4 + 3], Math.round(((d - tolerance) / (softEdge - tolerance)) * 255));
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+  for (let head = 0; head < queue.length; head++) {
+    const index = queue[head];
+    const x = index % width;
+    if (x > 0) visit(index - 1);
+    if (x < width - 1) visit(index + 1);
+    if (index >= width) visit(index - width);
+    if (index < (height - 1) * width) visit(index + width);
+  }
+  return true;
+};
+
+// Bounding box of the visible pixels, or null when there are none
+export const getOpaqueBounds = (pixels: PixelBuffer, threshold = 8) => {
+  const { data, width, height } = pixels;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > threshold) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+// Larger product shots are scaled down first; campaign exports never need more
+const MAX_CUTOUT_SIZE = 1600;
+
+export interface Cutout {
+  image: HTMLCanvasElement;
+  // False when the host doesn't allow cross-origin use: the image is shown as it is,
+  // and the composition it's drawn into can't be exported
+  cutOut: boolean;
+}
+
+const makeCutout = async (src: string): Promise<Cutout> => {
+  const image = await loadImage(src).catch(() => loadImage(src, false));
+  const fit = Math.min(1, MAX_CUTOUT_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * fit);
+  canvas.height = Math.round(image.naturalHeight * fit);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  let pixels: ImageData;
+  try {
+    pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  } catch (error) {
+    console.warn(`Showing ${src} without cutting it out:`, error);
+    return { image: canvas, cutOut: false };
+  }
+  knockOutBackground(pixels);
+  const bounds = getOpaqueBounds(pixels);
+  if (!bounds) return { image: canvas, cutOut: true };
+
+  const trimmed = document.createElement('canvas');
+  trimmed.width = bounds.width;
+  trimmed.height = bounds.height;
+  trimmed.getContext('2d')!.putImageData(pixels, -bounds.x, -bounds.y);
+  return { image: trimmed, cutOut: true };
+};
+
+// Each product image is cut out once per session, however many times it's composed
+const cutoutCache = new Map<string, Promise<Cutout>>();
+
+export const getCutout = (src: string): Promise<Cutout> => {
+  const cached = cutoutCache.get(src);
+  if (cached) return cached;
+  const cutout = makeCutout(src);
+  cutoutCache.set(src, cutout);
+  // Failed loads are retried next time rather than cached
+  cutout.catch(() => cutoutCache.delete(src));
+  return cutout;
+};
+
+export const exportComposition = async (
+  template: MannequinTemplate,
+  skinTone: SkinTone,
+  layers: ComposerLayer[]
+): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = TEMPLATE_WIDTH * CAMPAIGN_SCALE;
+  canvas.height = TEMPLATE_HEIGHT * CAMPAIGN_SCALE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+  ctx.imageSmoothingQuality = 'high';
+  renderComposition(ctx, template, skinTone, layers, CAMPAIGN_SCALE);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) {
+    throw new Error('Could not create the composed image');
+  }
+  return blob;
+};
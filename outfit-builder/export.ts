@@ -0,0 +1,196 @@
+import type { OutfitItem, SlotItem } from './types';
+import { OUTFIT_SLOTS } from './types';
+import { formatItemPrice, formatPrice, getItemPrice } from './rules';
+
+// --- Outfit Exports ---
+// A flat-lay composite image of the outfit and a CSV product list for the email team
+
+const FLAT_LAY_WIDTH = 1200;
+const FLAT_LAY_HEIGHT = 1500;
+
+// Where each slot sits on the flat-lay, mirroring the builder's layout
+const FLAT_LAY_POSITIONS: Record<keyof OutfitItem, { x: number; y: number; width: number; height: number }> = {
+  Hat: { x: 450, y: 60, width: 300, height: 240 },
+  Accessory: { x: 80, y: 360, width: 280, height: 300 },
+  Top: { x: 420, y: 340, width: 360, height: 440 },
+  Dress: { x: 400, y: 340, width: 400, height: 880 },
+  Accessory2: { x: 840, y: 360, width: 280, height: 300 },
+  Bottom: { x: 420, y: 820, width: 360, height: 400 },
+  Handbag: { x: 840, y: 760, width: 300, height: 340 },
+  Shoes: { x: 450, y: 1260, width: 300, height: 200 }
+};
+
+export const loadImage = (src: string, crossOrigin = true): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    // Without CORS the canvas is tainted and can't be exported
+    if (crossOrigin) image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load ${src}`));
+    image.src = src;
+  });
+
+const drawContained = (
+  ctx: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  box: { x: number; y: number; width: number; height: number }
+) => {
+  const scale = Math.min(box.width / image.naturalWidth, box.height / image.naturalHeight);
+  const width = image.naturalWidth * scale;
+  const height = image.naturalHeight * scale;
+  ctx.drawImage(image, box.x + (box.width - width) / 2, box.y + (box.height - height) / 2, width, height);
+};
+
+const getItemName = (item: SlotItem) => item.product.name || item.product.titles?.default || 'Unknown Product';
+
+// Resolves with the PNG and the names of any products whose image couldn't be drawn
+export const renderFlatLay = async (outfit: OutfitItem): Promise<{ blob: Blob; skipped: string[] }> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = FLAT_LAY_WIDTH;
+  canvas.height = FLAT_LAY_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, FLAT_LAY_WIDTH, FLAT_LAY_HEIGHT);
+
+  const skipped: string[] = [];
+  for (const slot of OUTFIT_SLOTS) {
+    const item = outfit[slot];
+    // A dress takes the bottom's place, as in the builder
+    if (!item || (slot === 'Bottom' && outfit.Dress)) continue;
+    try {
+      drawContained(ctx, await loadImage(item.imageUrl), FLAT_LAY_POSITIONS[slot]);
+    } catch (error) {
+      console.error('Error drawing flat-lay image:', error);
+      skipped.push(getItemName(item));
+    }
+  }
+
+  const blob = await new Promise<Blob | null>((resolve, reject) => {
+    try {
+      canvas.toBlob(resolve, 'image/png');
+    } catch {
+      reject(new Error("Product images could not be exported: their host doesn't allow cross-origin use"));
+    }
+  });
+  if (!blob) {
+    throw new Error('Could not create the flat-lay image');
+  }
+  return { blob, skipped };
+};
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const outfitToCsv = (outfit: OutfitItem): string => {
+  const rows = [['Slot', 'Product ID', 'Name', 'Colour', 'Price', 'Formatted Price', 'URL']];
+  OUTFIT_SLOTS.forEach(slot => {
+    const item = outfit[slot];
+    if (!item) return;
+    const { product } = item;
+    rows.push([
+      slot,
+      String(product.id),
+      getItemName(item),
+      item.selectedSwatch?.name || '',
+      product.pricing?.current?.value === undefined ? '' : String(product.pricing.current.value),
+      product.pricing?.current?.formatted || '',
+      product.url || ''
+    ]);
+  });
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+// --- Comparison Sheets ---
+// All outfits side by side, for buying meetings
+
+const outfitProducts = (outfit: OutfitItem) =>
+  OUTFIT_SLOTS.flatMap(slot => (outfit[slot] ? [outfit[slot]!.product] : []));
+
+const outfitTotal = (outfit: OutfitItem) =>
+  OUTFIT_SLOTS.reduce((total, slot) => total + (outfit[slot] ? getItemPrice(outfit[slot]!.product) : 0), 0);
+
+export const comparisonToCsv = (outfits: Record<string, OutfitItem>): string => {
+  const rows = [['Outfit', 'Slot', 'Product ID', 'Name', 'Colour', 'Price', 'URL']];
+  Object.entries(outfits).forEach(([outfitId, outfit]) => {
+    OUTFIT_SLOTS.forEach(slot => {
+      const item = outfit[slot];
+      if (!item) return;
+      rows.push([
+        outfitId,
+        slot,
+        String(item.product.id),
+        getItemName(item),
+        item.selectedSwatch?.name || '',
+        String(getItemPrice(item.product)),
+        item.product.url || ''
+      ]);
+    });
+    rows.push([outfitId, 'Total', '', '', '', String(outfitTotal(outfit)), '']);
+  });
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// A standalone page with one column per outfit; palettes are keyed by image URL
+export const comparisonSheetHtml = (outfits: Record<string, OutfitItem>, palettes: Record<string, string[]> = {}): string => {
+  const columns = Object.entries(outfits).map(([outfitId, outfit]) => {
+    const items = OUTFIT_SLOTS.filter(slot => outfit[slot]).map(slot => {
+      const item = outfit[slot]!;
+      return `<li><img src="${escapeHtml(item.imageUrl)}" alt=""><div><small>${slot}</small><br>${escapeHtml(getItemName(item))}`
+        + `${item.selectedSwatch?.name ? `<br><small>${escapeHtml(item.selectedSwatch.name)}</small>` : ''}`
+        + `<br>${escapeHtml(formatItemPrice(item.product))}</div></li>`;
+    }).join('');
+    const chips = [...new Set(OUTFIT_SLOTS.flatMap(slot => (outfit[slot] ? palettes[outfit[slot]!.imageUrl] || [] : [])))]
+      .map(colour => `<span class="chip" style="background:${escapeHtml(colour)}"></span>`).join('');
+    const count = OUTFIT_SLOTS.filter(slot => outfit[slot]).length;
+    return `<section><h2>Outfit ${escapeHtml(outfitId)}</h2>`
+      + `<p class="total">${escapeHtml(formatPrice(outfitTotal(outfit), outfitProducts(outfit)))} · ${count} item${count === 1 ? '' : 's'}</p>`
+      + `<div>${chips}</div><ul>${items || '<li>Empty</li>'}</ul></section>`;
+  }).join('');
+
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Outfit comparison</title><style>
+body{font-family:system-ui,sans-serif;margin:24px;color:#111}
+h1{font-size:20px}main{display:grid;grid-template-columns:repeat(${Object.keys(outfits).length},1fr);gap:16px}
+section{border:1px solid #ddd;border-radius:8px;padding:12px;break-inside:avoid}
+h2{margin:0 0 4px;font-size:16px}.total{margin:0 0 8px;font-weight:600}
+.chip{display:inline-block;width:16px;height:16px;border-radius:50%;margin-right:4px;border:1px solid #ccc}
+ul{list-style:none;padding:0;margin:8px 0 0}li{display:flex;gap:8px;margin-bottom:8px;font-size:12px}
+img{width:48px;height:60px;object-fit:cover;border-radius:4px;background:#f3f3f3}
+@page{size:landscape;margin:12mm}
+</style></head><body><h1>Outfit comparison · ${escapeHtml(new Date().toLocaleDateString())}</h1><main>${columns}</main></body></html>`;
+};
+
+// Prints the sheet from its own window so the builder's UI stays out of the printout
+export const printSheet = (html: string) => {
+  const sheet = window.open('', '_blank');
+  if (!sheet) {
+    throw new Error('Allow pop-ups for this site to print the comparison sheet');
+  }
+  sheet.document.write(html);
+  sheet.document.close();
+  // Wait for the product images so they make it onto the page
+  sheet.onload = () => sheet.print();
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight away can cancel the download in Firefox and Safari
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// The BOM makes Excel read prices like £149.00 as UTF-8
+export const downloadCsv = (csv: string, filename: string) =>
+  downloadBlob(new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }), filename);
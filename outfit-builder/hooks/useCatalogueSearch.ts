@@ -0,0 +1,56 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Product, SlotCategory } from '../types';
+import { searchCatalogue } from '../catalogue';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Paged catalogue search for one slot (or all slots when category is undefined)
+export const useCatalogueSearch = (searchText: string, category?: SlotCategory, pageSize = 24) => {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest search may update state; older responses are dropped
+  const requestIdRef = useRef(0);
+
+  const loadPage = useCallback(async (pageToLoad: number) => {
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await searchCatalogue({ searchText, category, page: pageToLoad, pageSize });
+      if (requestId !== requestIdRef.current) return;
+      setProducts(prev => {
+        if (pageToLoad === 1) return result.products;
+        const seen = new Set(prev.map(product => product.id));
+        return [...prev, ...result.products.filter(product => !seen.has(product.id))];
+      });
+      setPage(pageToLoad);
+      setHasMore(result.hasMore);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error('Error searching catalogue:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load products');
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [searchText, category, pageSize]);
+
+  // New search text or category starts again from the first page
+  useEffect(() => {
+    const timer = setTimeout(() => loadPage(1), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [loadPage]);
+
+  const loadMore = useCallback(() => {
+    if (!loading && hasMore) loadPage(page + 1);
+  }, [loading, hasMore, page, loadPage]);
+
+  const retry = useCallback(() => loadPage(products.length > 0 ? page + 1 : 1), [loadPage, products.length, page]);
+
+  return { products, loading, error, hasMore, loadMore, retry };
+};
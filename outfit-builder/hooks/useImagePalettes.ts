@@ -0,0 +1,22 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getImagePalette } from '../palette';
+
+// Dominant colours for each image URL, filled in as the images are sampled
+export const useImagePalettes = (imageUrls: string[], count = 3) => {
+  const [palettes, setPalettes] = useState<Record<string, string[]>>({});
+  const urlsKey = [...new Set(imageUrls)].sort().join('|');
+
+  useEffect(() => {
+    let cancelled = false;
+    const urls = urlsKey ? urlsKey.split('|') : [];
+    Promise.all(urls.map(async url => [url, await getImagePalette(url, count)] as const))
+      .then(entries => {
+        if (!cancelled) setPalettes(Object.fromEntries(entries));
+      });
+    return () => { cancelled = true; };
+  }, [urlsKey, count]);
+
+  return palettes;
+};
@@ -0,0 +1,61 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { OutfitItem, Product } from '../types';
+import { OUTFIT_SLOTS } from '../types';
+import { searchCatalogue } from '../catalogue';
+import type { OutfitEvaluation, OutfitRules } from '../rules';
+import { getSuggestionSlots, getSlotCategory, fitsOutfit } from '../rules';
+
+const CANDIDATES_PER_SLOT = 24;
+
+export interface LookSuggestion {
+  slot: keyof OutfitItem;
+  product: Product;
+}
+
+// "Complete the look": catalogue products for the outfit's open slots that fit its rules
+export const useLookSuggestions = (outfit: OutfitItem, evaluation: OutfitEvaluation, rules: OutfitRules, perSlot = 3) => {
+  const [suggestions, setSuggestions] = useState<LookSuggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const slots = getSuggestionSlots(outfit, evaluation, rules);
+  // Re-run only when what's being asked for changes, not on every evaluation object
+  const slotsKey = slots.join(',');
+  const outfitKey = OUTFIT_SLOTS.map(slot => `${outfit[slot]?.product.id ?? ''}:${outfit[slot]?.selectedSwatch?.name ?? ''}`).join('|');
+
+  useEffect(() => {
+    if (slots.length === 0) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const inOutfit = new Set(OUTFIT_SLOTS.map(slot => outfit[slot]?.product.id));
+    setLoading(true);
+
+    Promise.all(slots.map(async slot => {
+      const { products } = await searchCatalogue({ searchText: '', category: getSlotCategory(slot), page: 1, pageSize: CANDIDATES_PER_SLOT });
+      return products
+        .filter(product => !inOutfit.has(product.id) && fitsOutfit(product, outfit, evaluation, rules))
+        .slice(0, perSlot)
+        .map(product => ({ slot, product }));
+    }))
+      .then(results => {
+        if (!cancelled) setSuggestions(results.flat());
+      })
+      .catch(error => {
+        // Suggestions are a nicety; the rules report stands without them
+        console.error('Error loading look suggestions:', error);
+        if (!cancelled) setSuggestions([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [slotsKey, outfitKey, rules, perSlot]);
+
+  return { suggestions, loading };
+};
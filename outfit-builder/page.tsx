@@ -1,7 +1,24 @@
 'use client';
 
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { useAuthorization } from '@/hooks/useAuthorization';
+import type { Collection as SharedCollection } from '@/types/collection';
+import { canManage, fetchCollections, getRole } from '@/lib/collections';
+import type { Product, ProductSwatch, SlotCategory, SlotItem, OutfitItem, SavedOutfit } from './types';
+import { SLOT_CATEGORIES, OUTFIT_SLOTS, createEmptyOutfit } from './types';
+import { getSwatches, getSwatchImageUrl } from './catalogue';
+import { loadSavedOutfits, saveOutfit, deleteSavedOutfit, isSavedOutfit } from './storage';
+import { SHARE_PARAM, decodeOutfit, getShareUrl } from './share';
+import { renderFlatLay, outfitToCsv, downloadBlob, downloadCsv } from './export';
+import { evaluateOutfit, placeItem, getSlotCategory } from './rules';
+import { DEFAULT_OUTFIT_RULES, DEFAULT_OCCASION } from './rules-config';
+import { useLookSuggestions } from './hooks/useLookSuggestions';
+import OutfitRuleReport from './components/OutfitRuleReport';
+import RealisticAvatar from './components/RealisticAvatar';
+import ComparisonBoard from './components/ComparisonBoard';
+import type { BodyType, Pose, SkinTone } from './composer';
+import { BODY_TYPES, POSES, SKIN_TONES } from './composer';
+import { useCatalogueSearch } from './hooks/useCatalogueSearch';
 
 // --- Helper Components ---
 
@@ -14,104 +31,10 @@ const XIcon = () => (
 );
 
 // --- Type Definitions ---
-interface Product {
-  id: number | string;
-  name?: string;
-  category?: string;
-  imageUrl?: string;
-  // Amplience product structure
-  titles?: {
-    default?: string;
-  };
-  media?: {
-    main_image?: {
-      url?: string;
-    };
-    default?: {
-      src?: string;
-    };
-  };
-  properties?: {
-    category?: string;
-    swatches?: Array<{
-      images?: string[];
-    }>;
-  };
-  pricing?: {
-    current?: {
-      value?: number;
-      formatted?: string;
-    };
-  };
-  price?: number;
-  url?: string;
-}
-
-interface OutfitItem {
-  Hat: Product | null;
-  Top: Product | null;
-  Bottom: Product | null;
-  Shoes: Product | null;
-  Accessory: Product | null;
-  Accessory2: Product | null;
-  Handbag: Product | null;
-  Dress: Product | null;
-}
-
-interface ProductData {
-  shoeProducts: Product[];
-  topProducts: Product[];
-  dressProducts: Product[];
-  activeSelector: string | null;
-}
-
-interface Collection {
-  id: string;
-  name: string;
-  products: Array<{
-    product: Product;
-    selectedSwatch: any;
-    imageUrl: string;
-  }>;
-  createdAt: string;
-  isPublic: boolean;
-}
+type Collection = SharedCollection<SlotItem>;
 
 // --- Main Application Components ---
 
-// Placeholder data for products (including Amplience-style products)
-const initialProducts: Product[] = [
-    // Simple products with basic structure
-    { id: 1, name: 'Athena Tank Top', category: 'Top', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_TJ_ATHENA_BLACK_VISCOSEMIXf' },
-    { id: 2, name: 'Loura Necklace', category: 'Accessory', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_NL_NL_LOURA_CLEAR_CRYSTALRHODIUMPLATINGa' },
-    { id: 3, name: 'Lou Lou Handbag', category: 'Handbag', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_SH_LOU_LOU_STONE_SUEDEa' },
-    { id: 4, name: 'Hardy Skirt', category: 'Bottom', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_SS25_SK_HARDY_CONKER_POLYESTERg' },
-    { id: 5, name: 'Elowen Hat', category: 'Hat', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_SS24_HT_ELOWEN_METALLIC_FABRICa' },
-    { id: 6, name: 'Julia Dress', category: 'Dress', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_DR_JULIA_CAMELIVORY_POLYESTERMIXe' },
-    { id: 7, name: 'Sonya Blouse', category: 'Top', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_TW_SONYA_WHITE_COTTONe' },
-    { id: 8, name: 'Allie Trousers', category: 'Bottom', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_SS24_TR_ALLIE_ECRU_COTTONMIXd' },
-    { id: 9, name: 'Alina Neckscarf', category: 'Accessory', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_SC_SC%20ALINA_MULTIBLACK_SILKa' },
-    { id: 10, name: 'Lou Lou Earrings', category: 'Accessory', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_JW_EA_LOU_LOU_GOLD_METALb' },
-    { id: 11, name: 'Perry Belt', category: 'Accessory', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_BT_PERRY_CHOCOLATE_SUEDEa' },
-    { id: 12, name: 'Gina Gloves', category: 'Accessory', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW24_GINA_CHOCOLATE_LEATHERa' },
-    { id: 13, name: 'Floret Suede Shoes', category: 'Shoes', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_CC_FLORET_NEW_BURGUNDY_SUEDEb' },
-    { id: 14, name: 'Fern Nappa Shoes', category: 'Shoes', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_CC_FERN_NEW_ECRU_NAPPALEATHERb' },
-    { id: 15, name: 'Florena Trench Shoes', category: 'Shoes', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_CC_FLORENA_TRENCH_NAPPALEATHERb' },
-    { id: 16, name: 'Floret Snake Effect Shoes', category: 'Shoes', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_CC_FLORET_NEW_BLACKWHITE_SNAKEEFFECTb' },
-    { id: 17, name: 'Vivi Fabric Shoes', category: 'Shoes', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_CC_VIVI_BLACK_FABRICb' },
-    { id: 18, name: 'Thelma Velvet Shoes', category: 'Shoes', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_CC_THELMA_IMPERIALBLUE_VELVETb' },
-    { id: 19, name: 'Loretta Nappa Shoes', category: 'Shoes', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_KB_LORETTA_BURGUNDY_NAPPALEATHERb' },
-    { id: 20, name: 'Amber Satin Shoes', category: 'Shoes', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_FL_AMBER_TEA_SATINb' },
-    { id: 21, name: 'Astrid Suede Shoes', category: 'Shoes', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_KB_ASTRID_CHOCOLATE_SUEDEb' },
-    { id: 22, name: 'Juno Rope Print Dress', category: 'Dress', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_DR_JUNO_SPRINGNAVYCASHMEREBLUE_VISCOSEe' },
-    { id: 23, name: 'Claire Button Detail Dress', category: 'Dress', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_DR_CLAIRE_BLACK_POLYESTERMIXe' },
-    { id: 24, name: 'Rosa Sculptured Shift Dress', category: 'Dress', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_DR_ROSA_BLACK_POLYESTERMIXe' },
-    { id: 25, name: 'Mimi Floral Print Dress', category: 'Dress', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_DR_MIMI_BIRCHBLACK_VISCOSEMIXe' },
-    { id: 26, name: 'Sonya Cream Crepe Blouse', category: 'Top', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_TW_SONYA_CREAM_VISCOSEe' },
-    { id: 27, name: 'Athena Cream Jersey Vest Top', category: 'Top', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_TJ_ATHENA_IVORY_VISCOSEMIXe' },
-    { id: 28, name: 'Athena Black Jersey Vest Top', category: 'Top', imageUrl: 'https://cdn.media.amplience.net/i/lkbennett/UK_AW25_TJ_ATHENA_BLACK%20_VISCOSEMIXe' },
-];
-
 // Component for a single product card
 const ProductCard = ({ product, onSelect }: { product: Product; onSelect: (product: Product) => void }) => {
     const getProductName = (product: Product) => {
@@ -141,26 +64,16 @@ const ProductCard = ({ product, onSelect }: { product: Product; onSelect: (produ
 };
 
 // Component for the product list with search and filtering
-const ProductList = ({ products, onSelectProduct }: { products: Product[]; onSelectProduct: (product: Product) => void }) => {
+const ProductList = ({ onSelectProduct }: { onSelectProduct: (product: Product) => void }) => {
     const [searchTerm, setSearchTerm] = useState('');
-    const [selectedCategory, setSelectedCategory] = useState('All');
+    const [selectedCategory, setSelectedCategory] = useState<SlotCategory | 'All'>('All');
     
-    const categories = ['All', 'Top', 'Bottom', 'Dress', 'Shoes', 'Accessory', 'Handbag', 'Hat'];
+    const categories: Array<SlotCategory | 'All'> = ['All', ...SLOT_CATEGORIES];
     
-    // Helper function to get product name - moved before useMemo
-    const getProductName = (product: Product) => {
-        return product.name || product.titles?.default || 'Unknown Product';
-    };
-    
-    const filteredProducts = useMemo(() => {
-        return products.filter(product => {
-            const productCategory = product.category || 'Unknown';
-            const productName = getProductName(product);
-            const matchesCategory = selectedCategory === 'All' || productCategory === selectedCategory;
-            const matchesSearch = productName.toLowerCase().includes(searchTerm.toLowerCase());
-            return matchesCategory && matchesSearch;
-        });
-    }, [products, searchTerm, selectedCategory]);
+    const { products, loading, error, hasMore, loadMore, retry } = useCatalogueSearch(
+        searchTerm,
+        selectedCategory === 'All' ? undefined : selectedCategory
+    );
 
     return (
         <div className="bg-gray-50 p-4 rounded-lg shadow-inner">
@@ -168,7 +81,7 @@ const ProductList = ({ products, onSelectProduct }: { products: Product[]; onSel
                 <h2 className="text-xl font-bold text-gray-800 flex-shrink-0">Choose Products</h2>
                 <input
                     type="text"
-                    placeholder="Search for an item..."
+                    placeholder="Search the catalogue..."
                     className="w-full p-2 border rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
@@ -182,19 +95,54 @@ const ProductList = ({ products, onSelectProduct }: { products: Product[]; onSel
                     </button>
                 ))}
             </div>
+            {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-3 text-center text-sm">
+                    <span className="text-red-600">{error}</span>{' '}
+                    <button onClick={retry} className="text-red-500 hover:text-red-700 underline">Try again</button>
+                </div>
+            )}
+            {!loading && !error && products.length === 0 && (
+                <p className="text-center text-gray-500 text-sm py-8">No products found. Try a different search.</p>
+            )}
             <div className="flex space-x-4 overflow-x-auto scrollbar-hide py-2">
-                {filteredProducts.map(product => (
+                {products.map(product => (
                     <div key={product.id} className="w-40 h-56 flex-shrink-0">
                         <ProductCard product={product} onSelect={onSelectProduct} />
                     </div>
                 ))}
+                {(loading || hasMore) && (
+                    <div className="w-40 h-56 flex-shrink-0 flex items-center justify-center">
+                        {loading ? (
+                            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+                        ) : (
+                            <button onClick={loadMore} className="px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-100 rounded-md hover:bg-indigo-200 transition-colors">Load more</button>
+                        )}
+                    </div>
+                )}
             </div>
         </div>
     );
 };
 
+// Colour swatches for the product in a slot; hidden when there is only one
+const SwatchPicker = ({ item, onSelect }: { item: SlotItem; onSelect: (swatch: ProductSwatch) => void }) => {
+    const swatches = getSwatches(item.product);
+    if (swatches.length < 2) return null;
+
+    return (
+        <div className="absolute bottom-1 left-1 right-1 flex justify-center gap-1">
+            {swatches.map((swatch, index) => (
+                <button key={`${swatch.name}-${index}`} onClick={(e) => { e.stopPropagation(); onSelect(swatch); }}
+                    title={swatch.name} aria-label={`Show ${swatch.name || `colour ${index + 1}`}`}
+                    className={`w-5 h-5 rounded-full border-2 bg-cover bg-center shadow ${item.selectedSwatch === swatch || item.imageUrl === swatch.images?.[0] ? 'border-indigo-600' : 'border-white'}`}
+                    style={{ backgroundImage: `url(${swatch.images?.[0]})` }} />
+            ))}
+        </div>
+    );
+};
+
 // Component for a single static slot in the outfit builder
-const OutfitSlot = ({ category, item, onRemove }: { category: string; item: Product | null; onRemove: (category: string) => void }) => {
+const OutfitSlot = ({ category, item, onRemove, onSelectSwatch }: { category: string; item: SlotItem | null; onRemove: (category: string) => void; onSelectSwatch: (category: string, swatch: ProductSwatch) => void }) => {
     const getCategoryLabel = (cat: string): string => {
         switch(cat) {
             case 'Accessory2':
@@ -209,24 +157,16 @@ const OutfitSlot = ({ category, item, onRemove }: { category: string; item: Prod
         return product.name || product.titles?.default || 'Unknown Product';
     };
 
-    // Helper function to get product image URL
-    const getProductImageUrl = (product: Product) => {
-        return product.imageUrl || 
-               product.media?.main_image?.url || 
-               product.media?.default?.src || 
-               product.properties?.swatches?.[0]?.images?.[0] || 
-               'https://placehold.co/128x160/f0f0f0/a0a0a0?text=No+Image';
-    };
-
     return (
         <div className="relative border-2 border-dashed border-gray-300 rounded-lg h-40 w-32 flex items-center justify-center bg-white transition-all duration-300">
             {item ? (
                 <>
-                    <img src={getProductImageUrl(item)} alt={getProductName(item)} className="h-full w-full object-cover object-top rounded-md"
+                    <img src={item.imageUrl} alt={getProductName(item.product)} className="h-full w-full object-cover object-top rounded-md"
                         onError={(e) => { (e.target as HTMLImageElement).onerror = null; (e.target as HTMLImageElement).src='https://placehold.co/128x160/f0f0f0/a0a0a0?text=Image+Error'; }}/>
-                    <button onClick={() => onRemove(category)} className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1 shadow-md hover:bg-red-600 transition-colors" aria-label={`Remove ${getProductName(item)}`}>
+                    <button onClick={() => onRemove(category)} className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1 shadow-md hover:bg-red-600 transition-colors" aria-label={`Remove ${getProductName(item.product)}`}>
                         <XIcon />
                     </button>
+                    <SwatchPicker item={item} onSelect={(swatch) => onSelectSwatch(category, swatch)} />
                 </>
             ) : (
                 <span className="text-gray-400 text-sm font-medium">{getCategoryLabel(category)}</span>
@@ -236,7 +176,7 @@ const OutfitSlot = ({ category, item, onRemove }: { category: string; item: Prod
 };
 
 // New component for the combined Top/Dress slot
-const CombinedSlot = ({ topItem, dressItem, onRemove, onOpenSelector }: { topItem: Product | null; dressItem: Product | null; onRemove: (category: string) => void; onOpenSelector: () => void }) => {
+const CombinedSlot = ({ topItem, dressItem, onRemove, onOpenSelector, onSelectSwatch }: { topItem: SlotItem | null; dressItem: SlotItem | null; onRemove: (category: string) => void; onOpenSelector: () => void; onSelectSwatch: (category: string, swatch: ProductSwatch) => void }) => {
     const item = topItem || dressItem;
     const category = topItem ? 'Top' : 'Dress';
     const isDress = !!dressItem;
@@ -247,25 +187,17 @@ const CombinedSlot = ({ topItem, dressItem, onRemove, onOpenSelector }: { topIte
         return product.name || product.titles?.default || 'Unknown Product';
     };
 
-    // Helper function to get product image URL
-    const getProductImageUrl = (product: Product) => {
-        return product.imageUrl || 
-               product.media?.main_image?.url || 
-               product.media?.default?.src || 
-               product.properties?.swatches?.[0]?.images?.[0] || 
-               'https://placehold.co/128x160/f0f0f0/a0a0a0?text=No+Image';
-    };
-
     return (
         <div className={`relative border-2 border-dashed border-gray-300 rounded-lg ${slotHeight} w-32 flex items-center justify-center bg-white transition-all duration-300 cursor-pointer`}
             onClick={!item ? onOpenSelector : undefined}>
             {item ? (
                 <>
-                    <img src={getProductImageUrl(item)} alt={getProductName(item)} className="h-full w-full object-cover object-top rounded-md"
+                    <img src={item.imageUrl} alt={getProductName(item.product)} className="h-full w-full object-cover object-top rounded-md"
                         onError={(e) => { (e.target as HTMLImageElement).onerror = null; (e.target as HTMLImageElement).src='https://placehold.co/128x160/f0f0f0/a0a0a0?text=Image+Error'; }}/>
-                    <button onClick={() => onRemove(category)} className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1 shadow-md hover:bg-red-600 transition-colors" aria-label={`Remove ${getProductName(item)}`}>
+                    <button onClick={() => onRemove(category)} className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1 shadow-md hover:bg-red-600 transition-colors" aria-label={`Remove ${getProductName(item.product)}`}>
                         <XIcon />
                     </button>
+                    <SwatchPicker item={item} onSelect={(swatch) => onSelectSwatch(category, swatch)} />
                 </>
             ) : (
                 <span className="text-gray-400 text-sm font-medium text-center">Top / Dress</span>
@@ -274,38 +206,50 @@ const CombinedSlot = ({ topItem, dressItem, onRemove, onOpenSelector }: { topIte
     );
 };
 
-// A generalized horizontal selector for products
-const HorizontalProductSelector = ({ products, selectedItem, onSelectItem, categoryName, collections, onToggleCollection }: { products: Product[]; selectedItem: Product | null; onSelectItem: (product: Product) => void; categoryName: string; collections: Collection[]; onToggleCollection: (collectionId: string) => void }) => {
-    if (!products || products.length === 0) return null;
+// A generalized horizontal selector for products, searching the catalogue for one slot
+const HorizontalProductSelector = ({ category, selectedItem, onSelectItem, collections, onToggleCollection }: { category: SlotCategory; selectedItem: SlotItem | null; onSelectItem: (product: Product) => void; collections: Collection[]; onToggleCollection: (collectionId: string) => void }) => {
+    const { products, loading, error, hasMore, loadMore, retry } = useCatalogueSearch('', category, 12);
+
+    // Load the next page as the strip is scrolled near its end
+    const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+        const { scrollLeft, scrollWidth, clientWidth } = e.currentTarget;
+        if (scrollWidth - scrollLeft - clientWidth < 200) loadMore();
+    };
+
+    if (!loading && !error && products.length === 0) return null;
     
     // Helper function to get product name
     const getProductName = (product: Product) => {
         return product.name || product.titles?.default || 'Unknown Product';
     };
-
-    // Helper function to get product image URL
-    const getProductImageUrl = (product: Product) => {
-        return product.imageUrl || 
-               product.media?.main_image?.url || 
-               product.media?.default?.src || 
-               product.properties?.swatches?.[0]?.images?.[0] || 
-               'https://placehold.co/128x160/f0f0f0/a0a0a0?text=No+Image';
-    };
     
     return (
         <div className="w-full my-2">
-            <p className="text-gray-500 text-sm font-medium mb-2 text-center">{categoryName}</p>
+            <p className="text-gray-500 text-sm font-medium mb-2 text-center">{category}</p>
+            {error && (
+                <p className="text-center text-xs text-red-600 mb-1">
+                    {error}{' '}
+                    <button onClick={retry} className="underline hover:text-red-700">Try again</button>
+                </p>
+            )}
             <div className="relative w-full max-w-lg mx-auto">
                 <div className="absolute inset-y-0 left-1/2 -translate-x-1/2 w-36 h-full border-2 border-dashed border-indigo-300 rounded-lg pointer-events-none z-10"></div>
-                <div className="w-full flex overflow-x-auto snap-x snap-mandatory py-4 space-x-4 scrollbar-hide">
+                <div className="w-full flex overflow-x-auto snap-x snap-mandatory py-4 space-x-4 scrollbar-hide" onScroll={handleScroll}>
                     <div className="flex-shrink-0 w-1/2 -ml-16"></div> {/* Spacer for centering */}
                     {products.map((product: Product) => (
                         <div key={product.id} onClick={() => onSelectItem(product)}
-                            className={`snap-center flex-shrink-0 w-32 h-40 rounded-lg overflow-hidden cursor-pointer transition-all duration-300 border-4 ${selectedItem?.id === product.id ? 'border-indigo-500 scale-105 shadow-lg' : 'border-transparent'}`}>
-                            <img src={getProductImageUrl(product)} alt={getProductName(product)} className="w-full h-full object-cover object-top"
+                            className={`snap-center flex-shrink-0 w-32 h-40 rounded-lg overflow-hidden cursor-pointer transition-all duration-300 border-4 ${selectedItem?.product.id === product.id ? 'border-indigo-500 scale-105 shadow-lg' : 'border-transparent'}`}>
+                            <img src={getSwatchImageUrl(product, null)} alt={getProductName(product)} className="w-full h-full object-cover object-top"
                                 onError={(e) => { (e.target as HTMLImageElement).onerror = null; (e.target as HTMLImageElement).src='https://placehold.co/128x160/f0f0f0/a0a0a0?text=Error'; }}/>
                         </div>
                     ))}
+                    {(loading || hasMore) && (
+                        <div className="snap-center flex-shrink-0 w-32 h-40 flex items-center justify-center">
+                            {loading
+                                ? <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+                                : <button onClick={loadMore} className="text-xs text-indigo-700 underline">Load more</button>}
+                        </div>
+                    )}
                     <div className="flex-shrink-0 w-1/2 -mr-16"></div> {/* Spacer for centering */}
                 </div>
             </div>
@@ -326,34 +270,54 @@ const CategoryChoiceModal = ({ onSelect, onClose }: { onSelect: (category: strin
     </div>
 );
 
+// Share and export buttons, shared by the builders, saved outfits and the shared view
+const OutfitActions = ({ disabled = false, onShare, onExportImage, onExportCsv }: { disabled?: boolean; onShare?: () => void; onExportImage: () => void; onExportCsv: () => void }) => (
+    <div className="flex flex-wrap gap-2 mb-4">
+        {onShare && (
+            <button onClick={onShare} disabled={disabled} className="px-3 py-1 text-xs font-medium text-indigo-700 bg-indigo-50 rounded-md hover:bg-indigo-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">Copy share link</button>
+        )}
+        <button onClick={onExportImage} disabled={disabled} className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">Export flat-lay</button>
+        <button onClick={onExportCsv} disabled={disabled} className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">Export CSV</button>
+    </div>
+);
+
 // Component for the main outfit builder canvas
 const OutfitBuilder = ({ 
     outfit, 
-    productData, 
+    occasion, 
+    activeSelector, 
     onRemoveItem, 
     onSelectProduct, 
+    onSelectSwatch, 
     onSave, 
     onClear, 
+    onShare, 
+    onExportImage, 
+    onExportCsv, 
     onOpenSelector, 
     outfitId,
     collections, 
     onToggleCollection 
 }: { 
     outfit: OutfitItem; 
-    productData: ProductData; 
+    occasion: string; 
+    activeSelector: SlotCategory | null; 
     onRemoveItem: (category: string) => void; 
     onSelectProduct: (product: Product) => void; 
+    onSelectSwatch: (category: string, swatch: ProductSwatch) => void; 
     onSave: () => void; 
     onClear: () => void; 
+    onShare: () => void; 
+    onExportImage: () => void; 
+    onExportCsv: () => void; 
     onOpenSelector: () => void; 
     outfitId: string;
     collections: Collection[]; 
     onToggleCollection: (collectionId: string) => void; 
 }) => {
     const isOutfitEmpty = Object.values(outfit).every(item => item === null);
-    const { shoeProducts, activeSelector, topProducts, dressProducts } = productData;
-
-    const selectorProducts = activeSelector === 'Top' ? topProducts : dressProducts;
+    const evaluation = useMemo(() => evaluateOutfit(outfit, DEFAULT_OUTFIT_RULES, occasion), [outfit, occasion]);
+    const { suggestions, loading: suggestionsLoading } = useLookSuggestions(outfit, evaluation, DEFAULT_OUTFIT_RULES);
 
     return (
         <div className="bg-white p-6 rounded-lg shadow-lg h-full flex flex-col">
@@ -364,6 +328,7 @@ const OutfitBuilder = ({
                     <button onClick={onSave} disabled={isOutfitEmpty} className="px-6 py-2 font-semibold text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-transform duration-200 active:scale-95">Save Collection</button>
                 </div>
             </div>
+            <OutfitActions disabled={isOutfitEmpty} onShare={onShare} onExportImage={onExportImage} onExportCsv={onExportCsv} />
             
             {/* Extended mannequin area with new layout */}
             <div className="flex-grow flex items-start justify-center pt-8">
@@ -371,50 +336,57 @@ const OutfitBuilder = ({
                     {/* Row 1: Empty - Hat - Empty */}
                     <div></div>
                     <div className="flex justify-center items-center">
-                        <OutfitSlot category="Hat" item={outfit.Hat} onRemove={onRemoveItem} />
+                        <OutfitSlot category="Hat" item={outfit.Hat} onRemove={onRemoveItem} onSelectSwatch={onSelectSwatch} />
                     </div>
                     <div></div>
                     
                     {/* Row 2: Accessory - Top/Dress - Accessory */}
                     <div className="flex justify-center items-center">
-                        <OutfitSlot category="Accessory" item={outfit.Accessory} onRemove={onRemoveItem} />
+                        <OutfitSlot category="Accessory" item={outfit.Accessory} onRemove={onRemoveItem} onSelectSwatch={onSelectSwatch} />
                     </div>
                     <div className={`flex justify-center items-center ${outfit.Dress ? 'row-span-2' : ''}`}>
-                        <CombinedSlot topItem={outfit.Top} dressItem={outfit.Dress} onRemove={onRemoveItem} onOpenSelector={onOpenSelector} />
+                        <CombinedSlot topItem={outfit.Top} dressItem={outfit.Dress} onRemove={onRemoveItem} onOpenSelector={onOpenSelector} onSelectSwatch={onSelectSwatch} />
                     </div>
                     <div className="flex justify-center items-center">
-                        <OutfitSlot category="Accessory2" item={outfit.Accessory2} onRemove={onRemoveItem} />
+                        <OutfitSlot category="Accessory2" item={outfit.Accessory2} onRemove={onRemoveItem} onSelectSwatch={onSelectSwatch} />
                     </div>
                     
                     {/* Row 3: Empty - Bottom (only show if no dress) - Handbag */}
                     <div></div>
                     {!outfit.Dress && (
                         <div className="flex justify-center items-center">
-                            <OutfitSlot category="Bottom" item={outfit.Bottom} onRemove={onRemoveItem} />
+                            <OutfitSlot category="Bottom" item={outfit.Bottom} onRemove={onRemoveItem} onSelectSwatch={onSelectSwatch} />
                         </div>
                     )}
                     {!outfit.Dress && <div></div>}
                     <div className="flex justify-center items-center">
-                        <OutfitSlot category="Handbag" item={outfit.Handbag} onRemove={onRemoveItem} />
+                        <OutfitSlot category="Handbag" item={outfit.Handbag} onRemove={onRemoveItem} onSelectSwatch={onSelectSwatch} />
                     </div>
                 </div>
             </div>
 
+            <div className="flex-shrink-0 pt-4">
+                <OutfitRuleReport 
+                    evaluation={evaluation} 
+                    suggestions={suggestions} 
+                    suggestionsLoading={suggestionsLoading} 
+                    onSelectSuggestion={onSelectProduct} 
+                />
+            </div>
+
             <div className="flex-shrink-0 pt-4">
                  <HorizontalProductSelector 
-                    products={shoeProducts} 
+                    category="Shoes" 
                     selectedItem={outfit.Shoes} 
                     onSelectItem={onSelectProduct} 
-                    categoryName="Shoes" 
                     collections={collections}
                     onToggleCollection={onToggleCollection}
                 />
                 {activeSelector && (
                     <HorizontalProductSelector 
-                        products={selectorProducts} 
-                        selectedItem={outfit[activeSelector as keyof OutfitItem] as Product} 
+                        category={activeSelector} 
+                        selectedItem={outfit[activeSelector]} 
                         onSelectItem={onSelectProduct} 
-                        categoryName={activeSelector} 
                         collections={collections}
                         onToggleCollection={onToggleCollection}
                     />
@@ -425,34 +397,27 @@ const OutfitBuilder = ({
 };
 
 // Component for saved collection card
-const SavedCollectionCard = ({ collection, id, onDelete }: { collection: OutfitItem; id: number; onDelete: (index: number) => void }) => {
+const SavedCollectionCard = ({ collection, onDelete, onShare, onExportImage, onExportCsv }: { collection: SavedOutfit; onDelete: (outfitId: string) => void; onShare: () => void; onExportImage: () => void; onExportCsv: () => void }) => {
     const getProductName = (product: Product) => {
         return product.name || product.titles?.default || 'Unknown Product';
     };
 
-    const getProductImageUrl = (product: Product) => {
-        return product.imageUrl || 
-               product.media?.main_image?.url || 
-               product.media?.default?.src || 
-               product.properties?.swatches?.[0]?.images?.[0] || 
-               'https://placehold.co/128x160/f0f0f0/a0a0a0?text=No+Image';
-    };
-
-    const items = Object.entries(collection).filter(([_, item]) => item !== null);
+    const items = Object.entries(collection.outfit).filter(([_, item]) => item !== null);
     
     return (
         <div className="bg-white rounded-lg shadow-md p-4">
             <div className="flex justify-between items-center mb-3">
-                <h3 className="font-semibold text-gray-800">Collection #{id + 1}</h3>
-                <button onClick={() => onDelete(id)} className="text-red-500 hover:text-red-700">
+                <h3 className="font-semibold text-gray-800">{collection.name}</h3>
+                <button onClick={() => onDelete(collection.id)} className="text-red-500 hover:text-red-700">
                     <XIcon />
                 </button>
             </div>
+            <OutfitActions onShare={onShare} onExportImage={onExportImage} onExportCsv={onExportCsv} />
             <div className="grid grid-cols-2 gap-2">
                 {items.slice(0, 4).map(([category, item]) => (
                     <div key={category} className="text-center">
                         <div className="w-16 h-20 mx-auto bg-gray-100 rounded overflow-hidden">
-                            <img src={getProductImageUrl(item!)} alt={getProductName(item!)} className="w-full h-full object-cover" />
+                            <img src={item!.imageUrl} alt={getProductName(item!.product)} className="w-full h-full object-cover" />
                         </div>
                         <p className="text-xs text-gray-600 mt-1">{category}</p>
                     </div>
@@ -465,41 +430,105 @@ const SavedCollectionCard = ({ collection, id, onDelete }: { collection: OutfitI
     );
 };
 
+// Read-only view of an outfit opened from a share link
+const SharedOutfitView = ({ outfit, onExportImage, onExportCsv }: { outfit: OutfitItem; onExportImage: () => void; onExportCsv: () => void }) => {
+    const items = OUTFIT_SLOTS
+        .map(slot => [slot, outfit[slot]] as const)
+        .filter((entry): entry is readonly [keyof OutfitItem, SlotItem] => entry[1] !== null);
+
+    return (
+        <div className="bg-gray-100 min-h-screen font-sans text-gray-900">
+            <header className="bg-white shadow-md">
+                <div className="w-full px-4 py-4 flex justify-between items-center">
+                    <div>
+                        <h1 className="text-3xl font-extrabold text-gray-800 tracking-tight">Shared Outfit</h1>
+                        <p className="text-gray-500 mt-1">A read-only look from the Outfit Builder.</p>
+                    </div>
+                    <a href={window.location.pathname} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 transition-colors">Build your own</a>
+                </div>
+            </header>
+            <main className="w-full p-4">
+                <OutfitActions onExportImage={onExportImage} onExportCsv={onExportCsv} />
+                {items.length === 0 ? (
+                    <p className="text-gray-500">This outfit link is empty.</p>
+                ) : (
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+                        {items.map(([slot, item]) => (
+                            <div key={slot} className="bg-white rounded-lg shadow-md p-4">
+                                <div className="w-full h-64 bg-gray-100 rounded overflow-hidden mb-3">
+                                    <img src={item.imageUrl} alt={item.product.name} className="w-full h-full object-cover" />
+                                </div>
+                                <p className="text-xs text-gray-500 uppercase">{slot}</p>
+                                <h3 className="font-semibold text-gray-800">{item.product.name}</h3>
+                                {item.selectedSwatch?.name && <p className="text-sm text-gray-600">{item.selectedSwatch.name}</p>}
+                                {item.product.pricing?.current?.formatted && <p className="text-sm text-gray-800 mt-1">{item.product.pricing.current.formatted}</p>}
+                                {item.product.url && (
+                                    <a href={item.product.url} target="_blank" rel="noopener noreferrer" className="text-sm text-indigo-600 hover:underline">View product</a>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </main>
+        </div>
+    );
+};
+
 // Main App component
 function App() {
     const { userEmail } = useAuthorization();
     const userId = userEmail || "public";
     
     const [outfits, setOutfits] = useState<{ [key: string]: OutfitItem }>({
-        'A': { Hat: null, Top: null, Bottom: null, Shoes: null, Accessory: null, Accessory2: null, Handbag: null, Dress: null },
-        'B': { Hat: null, Top: null, Bottom: null, Shoes: null, Accessory: null, Accessory2: null, Handbag: null, Dress: null },
-        'C': { Hat: null, Top: null, Bottom: null, Shoes: null, Accessory: null, Accessory2: null, Handbag: null, Dress: null },
-        'D': { Hat: null, Top: null, Bottom: null, Shoes: null, Accessory: null, Accessory2: null, Handbag: null, Dress: null }
+        'A': createEmptyOutfit(),
+        'B': createEmptyOutfit(),
+        'C': createEmptyOutfit(),
+        'D': createEmptyOutfit()
     });
-    const [collections, setCollections] = useState<OutfitItem[]>([]);
+    const [collections, setCollections] = useState<SavedOutfit[]>([]);
+    const [sharedOutfit, setSharedOutfit] = useState<OutfitItem | null>(null);
     const [isModalOpen, setIsModalOpen] = useState(false);
-    const [activeSelector, setActiveSelector] = useState<string | null>(null);
+    const [activeSelector, setActiveSelector] = useState<SlotCategory | null>(null);
     const [activeOutfitId, setActiveOutfitId] = useState<string>('A');
+    const [occasion, setOccasion] = useState(DEFAULT_OCCASION);
+    const [isComparing, setIsComparing] = useState(false);
+    const [bodyType, setBodyType] = useState<BodyType>('athletic');
+    const [pose, setPose] = useState<Pose>('standing');
+    const [skinTone, setSkinTone] = useState<SkinTone>('medium');
     const [realCollections, setRealCollections] = useState<Collection[]>([]);
     const [notification, setNotification] = useState<{ message: string; visible: boolean }>({ message: '', visible: false });
 
     // Fetch real collections from API
     useEffect(() => {
-        const fetchCollections = async () => {
+        const loadCollections = async () => {
             try {
-                const response = await fetch(`/api/collections?userId=${userId}`);
-                if (response.ok) {
-                    const data = await response.json();
-                    if (data.success && data.collections) {
-                        setRealCollections(data.collections);
-                    }
-                }
+                // Includes collections other people have shared with this user
+                const loaded = await fetchCollections<SlotItem>(userId);
+                // Saved outfits are listed under Saved Collections instead
+                setRealCollections(loaded.filter(collection => !isSavedOutfit(collection)));
             } catch (error) {
                 console.error('Error fetching collections:', error);
             }
         };
         
-        fetchCollections();
+        loadCollections();
+    }, []);
+
+    // Saved outfits, from the API or this device's copy when it's unavailable
+    useEffect(() => {
+        loadSavedOutfits(userId).then(setCollections);
+    }, [userId]);
+
+    // A share link opens the read-only view instead of the builder
+    useEffect(() => {
+        const encoded = new URLSearchParams(window.location.search).get(SHARE_PARAM);
+        if (!encoded) return;
+        const outfit = decodeOutfit(encoded);
+        if (outfit) {
+            setSharedOutfit(outfit);
+        } else {
+            showNotification('That outfit link is incomplete or invalid.');
+        }
     }, []);
 
     const showNotification = (message: string) => {
@@ -507,34 +536,64 @@ function App() {
         setTimeout(() => setNotification({ message: '', visible: false }), 3000);
     };
 
-    // Filter products by category
-    const shoeProducts = useMemo(() => initialProducts.filter(p => p.category === 'Shoes'), []);
-    const topProducts = useMemo(() => initialProducts.filter(p => p.category === 'Top'), []);
-    const dressProducts = useMemo(() => initialProducts.filter(p => p.category === 'Dress'), []);
+    // Builders add to their own outfit; the shared product list adds to the active one
+    const handleSelectProduct = useCallback((product: Product, outfitId: string = activeOutfitId) => {
+        const productCategory = getProductCategory(product);
+        const productName = getProductName(product);
+        if (!SLOT_CATEGORIES.includes(productCategory as SlotCategory)) {
+            showNotification(`${productName} doesn't fit an outfit slot.`);
+            return;
+        }
+
+        // Start on the first colourway; the slot's swatches switch between them
+        const selectedSwatch = getSwatches(product)[0] || null;
+        const item: SlotItem = { product, selectedSwatch, imageUrl: getSwatchImageUrl(product, selectedSwatch) };
 
-    const handleSelectProduct = useCallback((product: Product) => {
         setOutfits(prevOutfits => {
-            const updatedOutfits = { ...prevOutfits };
-            const currentOutfit = updatedOutfits[activeOutfitId];
-            
-            const productCategory = getProductCategory(product);
-            const productName = getProductName(product);
-            
-            if (productCategory === 'Dress') {
-                showNotification(`Added ${productName} to Outfit ${activeOutfitId}. Tops and bottoms cleared.`);
-                updatedOutfits[activeOutfitId] = { ...currentOutfit, Top: null, Bottom: null, Dress: product };
-            } else if (productCategory === 'Top' || productCategory === 'Bottom') {
-                if(currentOutfit.Dress) showNotification(`${productName} replaced the dress in Outfit ${activeOutfitId}.`);
-                updatedOutfits[activeOutfitId] = { ...currentOutfit, [productCategory]: product, Dress: null };
-            } else {
-                 showNotification(`Added ${productName} to Outfit ${activeOutfitId}.`);
-                updatedOutfits[activeOutfitId] = { ...currentOutfit, [productCategory]: product };
-            }
-            return updatedOutfits;
+            const { outfit, cleared } = placeItem(prevOutfits[outfitId], productCategory as SlotCategory, item, DEFAULT_OUTFIT_RULES);
+            showNotification(cleared.length > 0
+                ? `Added ${productName} to Outfit ${outfitId}. ${cleared.join(' and ')} cleared.`
+                : `Added ${productName} to Outfit ${outfitId}.`);
+            return { ...prevOutfits, [outfitId]: outfit };
         });
         setActiveSelector(null);
     }, [activeOutfitId]);
 
+    const handleSelectSwatch = useCallback((outfitId: string, category: string, swatch: ProductSwatch) => {
+        setOutfits(prevOutfits => {
+            const item = prevOutfits[outfitId][category as keyof OutfitItem];
+            if (!item) return prevOutfits;
+            return {
+                ...prevOutfits,
+                [outfitId]: {
+                    ...prevOutfits[outfitId],
+                    [category]: { ...item, selectedSwatch: swatch, imageUrl: getSwatchImageUrl(item.product, swatch) }
+                }
+            };
+        });
+    }, []);
+
+    // Dropping an item on another outfit on the comparison board; the rules decide its slot there
+    const handleMoveItem = useCallback((fromOutfitId: string, slot: keyof OutfitItem, toOutfitId: string) => {
+        setOutfits(prevOutfits => {
+            const item = prevOutfits[fromOutfitId][slot];
+            if (!item) return prevOutfits;
+            const { outfit, slot: toSlot, cleared } = placeItem(prevOutfits[toOutfitId], getSlotCategory(slot), item, DEFAULT_OUTFIT_RULES);
+            // A full slot swaps: its item goes back to the slot the moved item came from
+            const displaced = prevOutfits[toOutfitId][toSlot];
+            const productName = getProductName(item.product);
+            const moved = displaced
+                ? `Swapped ${productName} with ${getProductName(displaced.product)} from Outfit ${toOutfitId}.`
+                : `Moved ${productName} to Outfit ${toOutfitId}.`;
+            showNotification(cleared.length > 0 ? `${moved} ${cleared.join(' and ')} cleared.` : moved);
+            return {
+                ...prevOutfits,
+                [fromOutfitId]: { ...prevOutfits[fromOutfitId], [slot]: displaced },
+                [toOutfitId]: outfit
+            };
+        });
+    }, []);
+
     const handleRemoveItem = useCallback((category: string) => {
         setOutfits(prevOutfits => {
             const updatedOutfits = { ...prevOutfits };
@@ -547,22 +606,66 @@ function App() {
     const handleClearOutfit = useCallback((outfitId: string) => {
         setOutfits(prevOutfits => ({
             ...prevOutfits,
-            [outfitId]: { Hat: null, Top: null, Bottom: null, Shoes: null, Accessory: null, Accessory2: null, Handbag: null, Dress: null }
+            [outfitId]: createEmptyOutfit()
         }));
         setActiveSelector(null);
         showNotification(`Outfit ${outfitId} cleared.`);
     }, []);
 
-    const handleSaveCollection = useCallback((outfitId: string) => {
-        const outfitToSave = outfits[outfitId];
-        setCollections(prev => [...prev, outfitToSave]);
+    const handleSaveCollection = useCallback(async (outfitId: string) => {
+        const name = `Outfit ${outfitId} · ${new Date().toLocaleDateString()}`;
+        const { savedOutfit, persisted } = await saveOutfit(userId, name, outfits[outfitId]);
+        setCollections(prev => [...prev, savedOutfit]);
         handleClearOutfit(outfitId);
-        showNotification(`Outfit ${outfitId} saved to collections!`);
-    }, [outfits, handleClearOutfit]);
+        showNotification(persisted
+            ? `Outfit ${outfitId} saved to collections!`
+            : `Outfit ${outfitId} saved on this device only; collections are unavailable.`);
+    }, [outfits, userId, handleClearOutfit]);
+
+    const handleDeleteCollection = useCallback(async (savedOutfitId: string) => {
+        const savedOutfit = collections.find(collection => collection.id === savedOutfitId);
+        if (!savedOutfit) return;
+        if (!canManage(getRole(savedOutfit, userId))) {
+            showNotification(`Only the owner can delete "${savedOutfit.name}".`);
+            return;
+        }
+        setCollections(prev => prev.filter(collection => collection.id !== savedOutfitId));
+        try {
+            await deleteSavedOutfit(userId, savedOutfit);
+            showNotification(`"${savedOutfit?.name}" deleted.`);
+        } catch (error) {
+            console.error('Error deleting saved outfit:', error);
+            showNotification(`"${savedOutfit?.name}" removed from this device, but not from collections.`);
+        }
+    }, [collections, userId]);
+
+    const handleShareOutfit = useCallback(async (outfit: OutfitItem) => {
+        const url = getShareUrl(outfit);
+        try {
+            await navigator.clipboard.writeText(url);
+            showNotification('Share link copied to clipboard.');
+        } catch {
+            // Clipboard access can be blocked; let the user copy it by hand
+            window.prompt('Copy this outfit link:', url);
+        }
+    }, []);
+
+    const handleExportImage = useCallback(async (outfit: OutfitItem, name: string) => {
+        try {
+            const { blob, skipped } = await renderFlatLay(outfit);
+            downloadBlob(blob, `${name}.png`);
+            showNotification(skipped.length > 0
+                ? `Flat-lay exported without ${skipped.join(', ')}.`
+                : 'Flat-lay exported.');
+        } catch (error) {
+            console.error('Error exporting flat-lay:', error);
+            showNotification(error instanceof Error ? error.message : 'Failed to export flat-lay.');
+        }
+    }, []);
 
-    const handleDeleteCollection = useCallback((indexToDelete: number) => {
-        setCollections(prev => prev.filter((_, index) => index !== indexToDelete));
-        showNotification(`Collection #${indexToDelete + 1} deleted.`);
+    const handleExportCsv = useCallback((outfit: OutfitItem, name: string) => {
+        downloadCsv(outfitToCsv(outfit), `${name}.csv`);
+        showNotification('Product list exported.');
     }, []);
 
     const handleToggleCollection = useCallback((collectionId: string) => {
@@ -582,12 +685,11 @@ function App() {
     
     const handleCloseModal = () => setIsModalOpen(false);
     const handleCategorySelect = (category: string) => {
+        if (category !== 'Top' && category !== 'Dress') return;
         setActiveSelector(category);
         handleCloseModal();
     };
 
-    const productData: ProductData = { shoeProducts, topProducts, dressProducts, activeSelector };
-
     // Helper functions
     const getProductCategory = (product: Product): string => {
         return product.category || 'Unknown';
@@ -597,16 +699,31 @@ function App() {
         return product.name || product.titles?.default || 'Unknown Product';
     };
 
+    const notificationBanner = notification.visible && (
+        <div className="fixed top-4 right-4 bg-green-500 text-white px-6 py-3 rounded-lg shadow-lg z-50 animate-fade-in-out">
+            {notification.message}
+        </div>
+    );
+
+    if (sharedOutfit) {
+        return (
+            <>
+                {notificationBanner}
+                <SharedOutfitView 
+                    outfit={sharedOutfit} 
+                    onExportImage={() => handleExportImage(sharedOutfit, 'shared-outfit')} 
+                    onExportCsv={() => handleExportCsv(sharedOutfit, 'shared-outfit')} 
+                />
+            </>
+        );
+    }
+
     return (
         <div className="bg-gray-100 min-h-screen font-sans text-gray-900">
             {isModalOpen && <CategoryChoiceModal onSelect={handleCategorySelect} onClose={handleCloseModal} />}
             
             {/* Notification */}
-            {notification.visible && (
-                <div className="fixed top-4 right-4 bg-green-500 text-white px-6 py-3 rounded-lg shadow-lg z-50 animate-fade-in-out">
-                    {notification.message}
-                </div>
-            )}
+            {notificationBanner}
             
             <header className="bg-white shadow-md">
                 <div className="w-full px-4 py-4">
@@ -618,29 +735,96 @@ function App() {
             <main className="w-full p-4">
                 {/* Product Search */}
                 <div className="mb-8">
-                    <ProductList products={initialProducts} onSelectProduct={handleSelectProduct} />
+                    <ProductList onSelectProduct={product => handleSelectProduct(product)} />
                 </div>
                 
                 {/* 4 Outfit Builders */}
                 <div className="mb-12">
-                    <h2 className="text-2xl font-bold text-gray-800 mb-6">Outfit Builders</h2>
-                    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
-                        {Object.entries(outfits).map(([outfitId, outfit]) => (
-                            <OutfitBuilder 
-                                key={outfitId}
-                                outfitId={outfitId}
-                                outfit={outfit} 
-                                productData={productData}
-                                onRemoveItem={handleRemoveItem} 
-                                onSelectProduct={handleSelectProduct}
-                                onSave={() => handleSaveCollection(outfitId)}
-                                onClear={() => handleClearOutfit(outfitId)}
-                                onOpenSelector={() => handleOpenSelector(outfitId)}
-                                collections={realCollections}
-                                onToggleCollection={handleToggleCollection}
-                            />
-                        ))}
+                    <div className="flex justify-between items-center mb-6">
+                        <h2 className="text-2xl font-bold text-gray-800">Outfit Builders</h2>
+                        <div className="flex items-center gap-4">
+                            <div className="inline-flex rounded-md shadow-sm">
+                                <button 
+                                    onClick={() => setIsComparing(false)} 
+                                    className={`px-4 py-1 text-sm font-medium rounded-l-md border border-gray-300 ${!isComparing ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                                >
+                                    Build
+                                </button>
+                                <button 
+                                    onClick={() => setIsComparing(true)} 
+                                    className={`px-4 py-1 text-sm font-medium rounded-r-md border border-l-0 border-gray-300 ${isComparing ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                                >
+                                    Compare
+                                </button>
+                            </div>
+                            <label className="text-sm text-gray-600">
+                                Occasion{' '}
+                                <select 
+                                    value={occasion} 
+                                    onChange={(e) => setOccasion(e.target.value)} 
+                                    className="ml-2 px-3 py-1 border border-gray-300 rounded-md bg-white text-gray-800"
+                                >
+                                    {Object.entries(DEFAULT_OUTFIT_RULES.occasions).map(([id, rule]) => (
+                                        <option key={id} value={id}>{rule.label}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        </div>
+                    </div>
+                    {isComparing ? (
+                        <ComparisonBoard outfits={outfits} onMoveItem={handleMoveItem} onNotify={showNotification} />
+                    ) : (
+                        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
+                            {Object.entries(outfits).map(([outfitId, outfit]) => (
+                                <OutfitBuilder 
+                                    key={outfitId}
+                                    outfitId={outfitId}
+                                    outfit={outfit} 
+                                    occasion={occasion}
+                                    activeSelector={outfitId === activeOutfitId ? activeSelector : null}
+                                    onRemoveItem={handleRemoveItem} 
+                                    onSelectProduct={product => handleSelectProduct(product, outfitId)}
+                                    onSelectSwatch={(category, swatch) => handleSelectSwatch(outfitId, category, swatch)}
+                                    onSave={() => handleSaveCollection(outfitId)}
+                                    onClear={() => handleClearOutfit(outfitId)}
+                                    onShare={() => handleShareOutfit(outfit)}
+                                    onExportImage={() => handleExportImage(outfit, `outfit-${outfitId}`)}
+                                    onExportCsv={() => handleExportCsv(outfit, `outfit-${outfitId}`)}
+                                    onOpenSelector={() => handleOpenSelector(outfitId)}
+                                    collections={realCollections}
+                                    onToggleCollection={handleToggleCollection}
+                                />
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {/* Look composer for the outfit being edited */}
+                <div className="mb-12 bg-white rounded-lg shadow-lg p-6">
+                    <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                        <h2 className="text-2xl font-bold text-gray-800">Compose Outfit {activeOutfitId}</h2>
+                        <div className="flex flex-wrap gap-3 text-sm text-gray-600">
+                            <label>
+                                Body{' '}
+                                <select value={bodyType} onChange={(e) => setBodyType(e.target.value as BodyType)} className="ml-1 px-2 py-1 border border-gray-300 rounded-md bg-white text-gray-800 capitalize">
+                                    {BODY_TYPES.map(option => <option key={option} value={option}>{option}</option>)}
+                                </select>
+                            </label>
+                            <label>
+                                Pose{' '}
+                                <select value={pose} onChange={(e) => setPose(e.target.value as Pose)} className="ml-1 px-2 py-1 border border-gray-300 rounded-md bg-white text-gray-800 capitalize">
+                                    {POSES.map(option => <option key={option} value={option}>{option}</option>)}
+                                </select>
+                            </label>
+                            <label>
+                                Skin{' '}
+                                <select value={skinTone} onChange={(e) => setSkinTone(e.target.value as SkinTone)} className="ml-1 px-2 py-1 border border-gray-300 rounded-md bg-white text-gray-800 capitalize">
+                                    {SKIN_TONES.map(option => <option key={option} value={option}>{option}</option>)}
+                                </select>
+                            </label>
+                        </div>
                     </div>
+                    <RealisticAvatar outfit={outfits[activeOutfitId]} bodyType={bodyType} pose={pose} skinTone={skinTone} />
                 </div>
 
                 {/* Real Collections from API */}
@@ -677,8 +861,15 @@ function App() {
                     <div className="mb-12">
                         <h2 className="text-2xl font-bold text-gray-800 mb-6">Saved Collections</h2>
                         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                            {collections.map((collection, index) => (
-                                <SavedCollectionCard key={index} collection={collection} id={index} onDelete={handleDeleteCollection} />
+                            {collections.map(collection => (
+                                <SavedCollectionCard 
+                                    key={collection.id} 
+                                    collection={collection} 
+                                    onDelete={handleDeleteCollection}
+                                    onShare={() => handleShareOutfit(collection.outfit)}
+                                    onExportImage={() => handleExportImage(collection.outfit, collection.id)}
+                                    onExportCsv={() => handleExportCsv(collection.outfit, collection.id)}
+                                />
                             ))}
                         </div>
                     </div>
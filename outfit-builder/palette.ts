@@ -0,0 +1,59 @@
+import type { PixelBuffer } from './composer';
+import { loadImage } from './export';
+
+// --- Product Colour Palettes ---
+// Dominant colours of product images, for palette chips on the comparison board
+
+// Product shots are sampled this small; enough to find the main colours
+const SAMPLE_SIZE = 32;
+
+const toHex = (r: number, g: number, b: number) =>
+  `#${[r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+
+// Groups pixels into coarse colour buckets and returns the biggest as hex, skipping
+// transparent pixels and the near-white studio backdrop
+export const quantizePixels = (pixels: PixelBuffer, count = 3): string[] => {
+  const buckets = new Map<number, { r: number; g: number; b: number; pixels: number }>();
+  const { data } = pixels;
+  for (let index = 0; index < data.length; index += 4) {
+    const [r, g, b, a] = [data[index], data[index + 1], data[index + 2], data[index + 3]];
+    if (a < 128 || (r > 235 && g > 235 && b > 235)) continue;
+    const key = ((r >> 5) << 6) | ((g >> 5) << 3) | (b >> 5);
+    const bucket = buckets.get(key) || { r: 0, g: 0, b: 0, pixels: 0 };
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    bucket.pixels += 1;
+    buckets.set(key, bucket);
+  }
+  return [...buckets.values()]
+    .sort((a, b) => b.pixels - a.pixels)
+    .slice(0, count)
+    .map(bucket => toHex(bucket.r / bucket.pixels, bucket.g / bucket.pixels, bucket.b / bucket.pixels));
+};
+
+const samplePalette = async (src: string, count: number): Promise<string[]> => {
+  const image = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return [];
+  ctx.drawImage(image, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  return quantizePixels(ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE), count);
+};
+
+const paletteCache = new Map<string, Promise<string[]>>();
+
+// Images that can't be loaded or read (no CORS) just have no palette
+export const getImagePalette = (src: string, count = 3): Promise<string[]> => {
+  const key = `${count}:${src}`;
+  const cached = paletteCache.get(key);
+  if (cached) return cached;
+  const palette = samplePalette(src, count).catch(error => {
+    console.error('Error sampling image palette:', error);
+    return [];
+  });
+  paletteCache.set(key, palette);
+  return palette;
+};
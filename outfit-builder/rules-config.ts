@@ -0,0 +1,60 @@
+import type { OutfitRules } from './rules';
+
+// --- Stylist Outfit Rules ---
+// Edit here to change how outfits are checked; the engine in rules.ts has no
+// styling opinions of its own.
+
+export const DEFAULT_OCCASION = 'everyday';
+
+export const DEFAULT_OUTFIT_RULES: OutfitRules = {
+  exclusiveSlots: [
+    [['Dress'], ['Top', 'Bottom']]
+  ],
+  accessorySlots: ['Hat', 'Accessory', 'Accessory2'],
+  maxAccessories: 2,
+  colourFamilies: {
+    black: ['black', 'jet'],
+    white: ['white', 'ivory', 'cream', 'ecru', 'off white'],
+    beige: ['beige', 'camel', 'stone', 'trench', 'nude', 'tea', 'oatmeal'],
+    grey: ['grey', 'gray', 'charcoal', 'pewter'],
+    navy: ['navy', 'midnight'],
+    blue: ['blue', 'cobalt', 'denim', 'sky'],
+    brown: ['brown', 'chocolate', 'conker', 'tan', 'cognac', 'mocha'],
+    red: ['red', 'burgundy', 'scarlet', 'wine', 'oxblood'],
+    pink: ['pink', 'rose', 'blush', 'fuchsia'],
+    orange: ['orange', 'rust', 'coral', 'terracotta'],
+    green: ['green', 'olive', 'khaki', 'emerald', 'sage'],
+    gold: ['gold'],
+    silver: ['silver', 'metallic', 'rhodium']
+  },
+  neutralColours: ['white', 'beige', 'grey'],
+  clashingColours: [
+    ['navy', 'black'],
+    ['brown', 'black'],
+    ['red', 'pink'],
+    ['red', 'orange'],
+    ['pink', 'orange'],
+    ['gold', 'silver']
+  ],
+  occasions: {
+    everyday: {
+      label: 'Everyday',
+      looks: [['Dress', 'Shoes'], ['Top', 'Bottom', 'Shoes']]
+    },
+    work: {
+      label: 'Work',
+      looks: [['Dress', 'Shoes', 'Handbag'], ['Top', 'Bottom', 'Shoes', 'Handbag']],
+      priceBand: { min: 400, max: 900 }
+    },
+    occasion: {
+      label: 'Occasion',
+      looks: [['Dress', 'Shoes', 'Handbag', 'Hat']],
+      priceBand: { min: 600, max: 1500 }
+    },
+    weekend: {
+      label: 'Weekend',
+      looks: [['Top', 'Bottom', 'Shoes'], ['Dress', 'Shoes']],
+      priceBand: { min: 200, max: 600 }
+    }
+  }
+};
@@ -0,0 +1,231 @@
+import type { OutfitItem, Product, SlotCategory, SlotItem } from './types';
+import { OUTFIT_SLOTS } from './types';
+
+// --- Outfit Rules Engine ---
+// Evaluates an outfit against stylist-configured rules (see rules-config.ts). Rules
+// never block a selection; they clear exclusive slots and report what's wrong.
+
+type Slot = keyof OutfitItem;
+
+export interface OccasionRule {
+  label: string;
+  // Alternative complete looks; an outfit is complete once every slot of one is filled
+  looks: Slot[][];
+  priceBand?: { min: number; max: number };
+}
+
+export interface OutfitRules {
+  // Filling a slot on one side clears the slots on the other
+  exclusiveSlots: Array<[Slot[], Slot[]]>;
+  accessorySlots: Slot[];
+  maxAccessories: number;
+  // Colour family -> words that identify it in a swatch name
+  colourFamilies: Record<string, string[]>;
+  // Families that go with anything
+  neutralColours: string[];
+  clashingColours: Array<[string, string]>;
+  occasions: Record<string, OccasionRule>;
+}
+
+export type RuleKind = 'exclusive' | 'required' | 'max-accessories' | 'colour-clash' | 'price-band';
+
+export interface RuleViolation {
+  rule: RuleKind;
+  severity: 'error' | 'warning';
+  message: string;
+  slots: Slot[];
+}
+
+export interface OutfitEvaluation {
+  violations: RuleViolation[];
+  complete: boolean;
+  // Empty slots of the look closest to complete
+  missingSlots: Slot[];
+  totalPrice: number;
+  priceBand?: { min: number; max: number };
+}
+
+// The outfit slots a product category can go in, in fill order
+const SLOTS_BY_CATEGORY: Record<SlotCategory, Slot[]> = {
+  Hat: ['Hat'],
+  Top: ['Top'],
+  Bottom: ['Bottom'],
+  Dress: ['Dress'],
+  Shoes: ['Shoes'],
+  Accessory: ['Accessory', 'Accessory2'],
+  Handbag: ['Handbag']
+};
+
+export const getSlotCategory = (slot: Slot): SlotCategory => (slot === 'Accessory2' ? 'Accessory' : slot);
+
+export const getItemPrice = (product: Product): number => product.pricing?.current?.value ?? product.price ?? 0;
+
+// Prices in the catalogue's currency: its currency code when there is one, otherwise the
+// symbol its formatted prices use ("£149.00", "$210.00")
+export const formatPrice = (value: number, products: Product[]): string => {
+  const current = products.map(product => product.pricing?.current).find(price => price?.currency || price?.formatted);
+  if (current?.currency) {
+    try {
+      return new Intl.NumberFormat(undefined, { style: 'currency', currency: current.currency }).format(value);
+    } catch {
+      // Not an ISO currency code; fall through to the formatted price
+    }
+  }
+  if (current?.formatted && /\d/.test(current.formatted)) {
+    return current.formatted.replace(/\d[\d.,]*/, value.toFixed(2));
+  }
+  return value.toFixed(2);
+};
+
+export const formatItemPrice = (product: Product): string =>
+  product.pricing?.current?.formatted || formatPrice(getItemPrice(product), [product]);
+
+const getItemName = (item: SlotItem) => item.product.name || item.product.titles?.default || 'Unknown Product';
+
+// Colour families named by a swatch, e.g. "Black White Snake Effect" -> black, white.
+// Keywords match whole words only, so "Teal" isn't "tea" and "Tartan" isn't "tan"
+export const getColourFamilies = (swatchName: string | undefined, rules: OutfitRules): string[] => {
+  if (!swatchName) return [];
+  const words = ` ${swatchName.toLowerCase().split(/[^a-z]+/).filter(Boolean).join(' ')} `;
+  return Object.entries(rules.colourFamilies)
+    .filter(([, keywords]) => keywords.some(keyword => words.includes(` ${keyword.toLowerCase()} `)))
+    .map(([family]) => family);
+};
+
+const coloursClash = (a: string[], b: string[], rules: OutfitRules) =>
+  rules.clashingColours.some(([first, second]) =>
+    (a.includes(first) && b.includes(second)) || (a.includes(second) && b.includes(first)));
+
+const boldColours = (families: string[], rules: OutfitRules) =>
+  families.filter(family => !rules.neutralColours.includes(family));
+
+// Puts an item in the first free slot for its category and clears any slots it excludes
+export const placeItem = (
+  outfit: OutfitItem,
+  category: SlotCategory,
+  item: SlotItem,
+  rules: OutfitRules
+): { outfit: OutfitItem; slot: Slot; cleared: Slot[] } => {
+  const candidates = SLOTS_BY_CATEGORY[category];
+  const slot = candidates.find(candidate => !outfit[candidate]) || candidates[0];
+  const updated: OutfitItem = { ...outfit, [slot]: item };
+
+  const cleared: Slot[] = [];
+  rules.exclusiveSlots.forEach(([sideA, sideB]) => {
+    const excluded = sideA.includes(slot) ? sideB : sideB.includes(slot) ? sideA : [];
+    excluded.forEach(other => {
+      if (updated[other]) {
+        updated[other] = null;
+        cleared.push(other);
+      }
+    });
+  });
+  return { outfit: updated, slot, cleared };
+};
+
+export const evaluateOutfit = (outfit: OutfitItem, rules: OutfitRules, occasionId: string): OutfitEvaluation => {
+  const violations: RuleViolation[] = [];
+  const filled = OUTFIT_SLOTS.filter(slot => outfit[slot]);
+  const occasion = rules.occasions[occasionId];
+
+  // Exclusive slots only both end up filled in outfits saved or shared before a rule changed
+  rules.exclusiveSlots.forEach(([sideA, sideB]) => {
+    const filledA = sideA.filter(slot => outfit[slot]);
+    const filledB = sideB.filter(slot => outfit[slot]);
+    if (filledA.length > 0 && filledB.length > 0) {
+      violations.push({
+        rule: 'exclusive',
+        severity: 'error',
+        message: `${filledA.join(' / ')} can't be worn with ${filledB.join(' / ')}.`,
+        slots: [...filledA, ...filledB]
+      });
+    }
+  });
+
+  let missingSlots: Slot[] = [];
+  if (occasion && occasion.looks.length > 0) {
+    missingSlots = occasion.looks
+      .map(look => look.filter(slot => !outfit[slot]))
+      .reduce((closest, missing) => (missing.length < closest.length ? missing : closest));
+    if (missingSlots.length > 0) {
+      violations.push({
+        rule: 'required',
+        severity: 'warning',
+        message: `A ${occasion.label.toLowerCase()} look still needs ${missingSlots.join(', ')}.`,
+        slots: missingSlots
+      });
+    }
+  }
+
+  const accessories = rules.accessorySlots.filter(slot => outfit[slot]);
+  if (accessories.length > rules.maxAccessories) {
+    violations.push({
+      rule: 'max-accessories',
+      severity: 'warning',
+      message: `${accessories.length} accessories; stylists recommend at most ${rules.maxAccessories}.`,
+      slots: accessories
+    });
+  }
+
+  const colours = filled.map(slot => [slot, getColourFamilies(outfit[slot]!.selectedSwatch?.name, rules)] as const);
+  colours.forEach(([slot, families], index) => {
+    colours.slice(index + 1).forEach(([otherSlot, otherFamilies]) => {
+      if (coloursClash(boldColours(families, rules), boldColours(otherFamilies, rules), rules)) {
+        violations.push({
+          rule: 'colour-clash',
+          severity: 'warning',
+          message: `${getItemName(outfit[slot]!)} (${outfit[slot]!.selectedSwatch?.name}) clashes with ${getItemName(outfit[otherSlot]!)} (${outfit[otherSlot]!.selectedSwatch?.name}).`,
+          slots: [slot, otherSlot]
+        });
+      }
+    });
+  });
+
+  const totalPrice = filled.reduce((total, slot) => total + getItemPrice(outfit[slot]!.product), 0);
+  const priceBand = occasion?.priceBand;
+  if (priceBand && filled.length > 0) {
+    // Under budget only matters once the look is complete
+    if (totalPrice > priceBand.max) {
+      violations.push({
+        rule: 'price-band',
+        severity: 'warning',
+        message: `£${totalPrice} is over the ${occasion.label.toLowerCase()} target of £${priceBand.min}–£${priceBand.max}.`,
+        slots: filled
+      });
+    } else if (missingSlots.length === 0 && totalPrice < priceBand.min) {
+      violations.push({
+        rule: 'price-band',
+        severity: 'warning',
+        message: `£${totalPrice} is under the ${occasion.label.toLowerCase()} target of £${priceBand.min}–£${priceBand.max}.`,
+        slots: filled
+      });
+    }
+  }
+
+  return { violations, complete: missingSlots.length === 0, missingSlots, totalPrice, priceBand };
+};
+
+// Slots worth suggesting products for: what the look is missing, then spare accessory room
+export const getSuggestionSlots = (outfit: OutfitItem, evaluation: OutfitEvaluation, rules: OutfitRules): Slot[] => {
+  if (evaluation.missingSlots.length > 0) return evaluation.missingSlots;
+  const accessoryCount = rules.accessorySlots.filter(slot => outfit[slot]).length;
+  if (accessoryCount >= rules.maxAccessories) return [];
+  return rules.accessorySlots.filter(slot => !outfit[slot]).slice(0, rules.maxAccessories - accessoryCount);
+};
+
+// Whether a product could join the outfit without clashing or breaking the budget
+export const fitsOutfit = (
+  product: Product,
+  outfit: OutfitItem,
+  evaluation: OutfitEvaluation,
+  rules: OutfitRules
+): boolean => {
+  const families = boldColours(getColourFamilies(product.properties?.swatches?.[0]?.name, rules), rules);
+  const clashes = OUTFIT_SLOTS.some(slot => {
+    const item = outfit[slot];
+    return item && coloursClash(families, boldColours(getColourFamilies(item.selectedSwatch?.name, rules), rules), rules);
+  });
+  const overBudget = evaluation.priceBand !== undefined
+    && evaluation.totalPrice + getItemPrice(product) > evaluation.priceBand.max;
+  return !clashes && !overBudget;
+};
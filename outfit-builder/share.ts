@@ -0,0 +1,100 @@
+import type { OutfitItem, Product } from './types';
+import { OUTFIT_SLOTS, createEmptyOutfit } from './types';
+
+// --- Shareable Outfit Links ---
+// The outfit travels in the URL itself (?look=...), so a link opens read-only for
+// anyone, whether or not the outfit was ever saved or the viewer can see its collection.
+
+export const SHARE_PARAM = 'look';
+
+// Just what the read-only view and exports need, per slot
+interface SharedSlot {
+  id: Product['id'];
+  name: string;
+  imageUrl: string;
+  price?: number;
+  formattedPrice?: string;
+  url?: string;
+  swatch?: string;
+}
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+export const encodeOutfit = (outfit: OutfitItem): string => {
+  const slots: Partial<Record<keyof OutfitItem, SharedSlot>> = {};
+  OUTFIT_SLOTS.forEach(slot => {
+    const item = outfit[slot];
+    if (!item) return;
+    const { product } = item;
+    slots[slot] = {
+      id: product.id,
+      name: product.name || product.titles?.default || 'Unknown Product',
+      imageUrl: item.imageUrl,
+      price: product.pricing?.current?.value ?? product.price,
+      formattedPrice: product.pricing?.current?.formatted,
+      url: product.url,
+      swatch: item.selectedSwatch?.name
+    };
+  });
+  return toBase64Url(JSON.stringify(slots));
+};
+
+// Links are untrusted input: only web URLs are let through to hrefs and image sources,
+// so a crafted link can't plant a javascript: or data: URL. Relative product paths are fine
+const isWebUrl = (url: unknown): url is string => {
+  if (typeof url !== 'string') return false;
+  try {
+    return ['https:', 'http:'].includes(new URL(url, window.location.origin).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Returns null for links that were truncated or tampered with; slots with unsafe URLs are left empty
+export const decodeOutfit = (encoded: string): OutfitItem | null => {
+  try {
+    const slots = JSON.parse(fromBase64Url(encoded));
+    if (!slots || typeof slots !== 'object') return null;
+
+    const outfit = createEmptyOutfit();
+    OUTFIT_SLOTS.forEach(slot => {
+      const shared: SharedSlot | undefined = slots[slot];
+      if (!shared || !isWebUrl(shared.imageUrl)) return;
+      if (shared.url !== undefined && !isWebUrl(shared.url)) return;
+      outfit[slot] = {
+        product: {
+          id: shared.id,
+          name: shared.name,
+          imageUrl: shared.imageUrl,
+          price: shared.price,
+          pricing: { current: { value: shared.price, formatted: shared.formattedPrice } },
+          url: shared.url
+        },
+        selectedSwatch: shared.swatch ? { name: shared.swatch, images: [shared.imageUrl] } : null,
+        imageUrl: shared.imageUrl
+      };
+    });
+    return outfit;
+  } catch (error) {
+    console.error('Error reading shared outfit link:', error);
+    return null;
+  }
+};
+
+export const getShareUrl = (outfit: OutfitItem): string => {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(SHARE_PARAM, encodeOutfit(outfit));
+  return url.toString();
+};
@@ -0,0 +1,91 @@
+import { deleteCollectionRequest, fetchCollections } from '@/lib/collections';
+import type { OutfitItem, SavedOutfit, SlotItem } from './types';
+import { OUTFIT_SLOTS } from './types';
+
+// --- Saved Outfit Persistence ---
+// Outfits are saved as collections through /api/collections, like product-search
+// collections, and mirrored to localStorage so they survive the API being down.
+
+const storageKey = (userId: string) => `outfits_${userId}`;
+
+const readStoredOutfits = (userId: string): SavedOutfit[] => {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading saved outfits from localStorage:', error);
+    return [];
+  }
+};
+
+const writeStoredOutfits = (userId: string, outfits: SavedOutfit[]) => {
+  try {
+    localStorage.setItem(storageKey(userId), JSON.stringify(outfits));
+  } catch (error) {
+    console.error('Error writing saved outfits to localStorage:', error);
+  }
+};
+
+// Collections saved from the outfit builder carry their slots; everything else is a plain collection
+export const isSavedOutfit = (collection: unknown): collection is SavedOutfit => {
+  if (!collection || typeof collection !== 'object') return false;
+  const { id, userId, outfit, products } = collection as Record<string, unknown>;
+  return typeof id === 'string' && typeof userId === 'string'
+    && !!outfit && typeof outfit === 'object' && Array.isArray(products);
+};
+
+export const getOutfitItems = (outfit: OutfitItem): SlotItem[] =>
+  OUTFIT_SLOTS.map(slot => outfit[slot]).filter((item): item is SlotItem => item !== null);
+
+export const loadSavedOutfits = async (userId: string): Promise<SavedOutfit[]> => {
+  try {
+    // Includes outfits other people have shared with this user
+    const outfits = (await fetchCollections(userId)).filter(isSavedOutfit);
+    writeStoredOutfits(userId, outfits);
+    return outfits;
+  } catch (error) {
+    console.error('Error fetching saved outfits:', error);
+  }
+
+  // Fallback to localStorage
+  return readStoredOutfits(userId);
+};
+
+// Always kept locally; `persisted` says whether the API accepted it too
+export const saveOutfit = async (
+  userId: string,
+  name: string,
+  outfit: OutfitItem
+): Promise<{ savedOutfit: SavedOutfit; persisted: boolean }> => {
+  const savedOutfit: SavedOutfit = {
+    id: `outfit_${Date.now()}`,
+    name,
+    outfit,
+    products: getOutfitItems(outfit),
+    createdAt: new Date().toISOString(),
+    isPublic: true,
+    userId
+  };
+  writeStoredOutfits(userId, [...readStoredOutfits(userId), savedOutfit]);
+
+  let persisted = false;
+  try {
+    const response = await fetch('/api/collections', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId, collection: savedOutfit })
+    });
+    persisted = response.ok;
+    if (!response.ok) {
+      console.error('Failed to save outfit:', response.status, response.statusText);
+    }
+  } catch (error) {
+    console.error('Error saving outfit:', error);
+  }
+  return { savedOutfit, persisted };
+};
+
+export const deleteSavedOutfit = async (userId: string, savedOutfit: SavedOutfit): Promise<void> => {
+  writeStoredOutfits(userId, readStoredOutfits(userId).filter(outfit => outfit.id !== savedOutfit.id));
+  await deleteCollectionRequest(savedOutfit, userId);
+};
@@ -0,0 +1,77 @@
+import type { Collection } from '@/types/collection';
+
+// --- Shared Outfit Builder Types ---
+
+export interface ProductSwatch {
+  name?: string;
+  images?: string[];
+}
+
+export interface Product {
+  id: number | string;
+  name?: string;
+  category?: string;
+  imageUrl?: string;
+  // Amplience product structure
+  titles?: {
+    default?: string;
+  };
+  media?: {
+    main_image?: {
+      url?: string;
+    };
+    default?: {
+      src?: string;
+    };
+  };
+  properties?: {
+    category?: string;
+    swatches?: ProductSwatch[];
+  };
+  pricing?: {
+    current?: {
+      value?: number;
+      formatted?: string;
+      currency?: string;
+    };
+  };
+  price?: number;
+  url?: string;
+}
+
+// Categories an outfit has a slot for; Accessory2 is a second Accessory slot
+export type SlotCategory = 'Hat' | 'Top' | 'Bottom' | 'Dress' | 'Shoes' | 'Accessory' | 'Handbag';
+
+export const SLOT_CATEGORIES: SlotCategory[] = ['Top', 'Bottom', 'Dress', 'Shoes', 'Accessory', 'Handbag', 'Hat'];
+
+// A product placed in an outfit slot, in the same shape collections store products
+export interface SlotItem {
+  product: Product;
+  selectedSwatch: ProductSwatch | null;
+  imageUrl: string;
+}
+
+export interface OutfitItem {
+  Hat: SlotItem | null;
+  Top: SlotItem | null;
+  Bottom: SlotItem | null;
+  Shoes: SlotItem | null;
+  Accessory: SlotItem | null;
+  Accessory2: SlotItem | null;
+  Handbag: SlotItem | null;
+  Dress: SlotItem | null;
+}
+
+export const OUTFIT_SLOTS: Array<keyof OutfitItem> = ['Hat', 'Top', 'Dress', 'Bottom', 'Shoes', 'Accessory', 'Accessory2', 'Handbag'];
+
+export const createEmptyOutfit = (): OutfitItem => ({
+  Hat: null, Top: null, Bottom: null, Shoes: null, Accessory: null, Accessory2: null, Handbag: null, Dress: null
+});
+
+// An outfit saved through /api/collections. `products` keeps it readable as an
+// ordinary collection; `outfit` remembers which slot each product was in.
+export interface SavedOutfit extends Collection<SlotItem> {
+  // The user who saved it; outfits are always saved with their owner
+  userId: string;
+  outfit: OutfitItem;
+}
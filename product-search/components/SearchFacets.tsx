@@ -0,0 +1,112 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { SearchFacets as Facets, SearchFilters, FacetValue } from '../search';
+import { EMPTY_FILTERS } from '../search';
+
+interface SearchFacetsProps {
+  facets: Facets;
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+}
+
+type ListFacet = 'categories' | 'colours' | 'sizes';
+
+const FACET_LABELS: Record<ListFacet, string> = {
+  categories: 'Category',
+  colours: 'Colour',
+  sizes: 'Size'
+};
+
+const parsePrice = (value: string) => (value.trim() === '' || isNaN(Number(value)) ? null : Number(value));
+
+const SearchFacets = ({ facets, filters, onChange }: SearchFacetsProps) => {
+  const toggleValue = (facet: ListFacet, value: string) => {
+    const selected = filters[facet];
+    onChange({
+      ...filters,
+      [facet]: selected.includes(value) ? selected.filter(item => item !== value) : [...selected, value]
+    });
+  };
+
+  const renderList = (facet: ListFacet, values: FacetValue[]) => {
+    // Selected values stay listed even when nothing in this result set has them
+    const missing = filters[facet].filter(value => !values.some(item => item.value === value));
+    const options = [...values, ...missing.map(value => ({ value, count: 0 }))];
+    if (options.length === 0) return null;
+
+    return (
+      <div key={facet}>
+        <h4 className="text-sm font-medium text-gray-700 mb-2">{FACET_LABELS[facet]}</h4>
+        <ul className="space-y-1 max-h-48 overflow-y-auto">
+          {options.map(({ value, count }) => (
+            <li key={value}>
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={filters[facet].includes(value)}
+                  onChange={() => toggleValue(facet, value)}
+                />
+                <span className="capitalize flex-1">{value}</span>
+                <span className="text-xs text-gray-400">{count}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(EMPTY_FILTERS);
+
+  return (
+    <div className="space-y-5">
+      {renderList('categories', facets.categories)}
+      {renderList('colours', facets.colours)}
+      {renderList('sizes', facets.sizes)}
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-2">Price</h4>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            placeholder={facets.priceRange ? String(Math.floor(facets.priceRange.min)) : 'Min'}
+            value={filters.minPrice ?? ''}
+            onChange={(e) => onChange({ ...filters, minPrice: parsePrice(e.target.value) })}
+            className="h-8"
+          />
+          <span className="text-gray-400">–</span>
+          <Input
+            type="number"
+            min={0}
+            placeholder={facets.priceRange ? String(Math.ceil(facets.priceRange.max)) : 'Max'}
+            value={filters.maxPrice ?? ''}
+            onChange={(e) => onChange({ ...filters, maxPrice: parsePrice(e.target.value) })}
+            className="h-8"
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={filters.inStockOnly}
+          onChange={(e) => onChange({ ...filters, inStockOnly: e.target.checked })}
+        />
+        <span className="flex-1">In stock only</span>
+        <span className="text-xs text-gray-400">{facets.inStockCount}</span>
+      </label>
+
+      {hasFilters && (
+        <Button variant="outline" size="sm" onClick={() => onChange(EMPTY_FILTERS)} className="w-full">
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default SearchFacets;
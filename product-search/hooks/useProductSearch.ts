@@ -0,0 +1,45 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import type { SearchFilters, SearchSort, SearchResult } from '../search';
+import { searchProducts } from '../search';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Faceted product search; nothing is requested until there's search text
+export const useProductSearch = (searchText: string, filters: SearchFilters, sort: SearchSort) => {
+  const [result, setResult] = useState<SearchResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest search may update state; older responses are dropped
+  const requestIdRef = useRef(0);
+  const filtersKey = JSON.stringify(filters);
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+    if (!searchText.trim()) {
+      setResult(null);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const next = await searchProducts(searchText, JSON.parse(filtersKey) as SearchFilters, sort);
+        if (requestId === requestIdRef.current) setResult(next);
+      } catch (err) {
+        if (requestId !== requestIdRef.current) return;
+        console.error('Error searching products:', err);
+        setError(err instanceof Error ? err.message : 'Search failed');
+      } finally {
+        if (requestId === requestIdRef.current) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchText, filtersKey, sort]);
+
+  return { result, loading, error };
+};
@@ -6,25 +6,20 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Search, Loader2, Plus, FolderOpen, X, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+import { Search, Loader2, Plus, FolderOpen, X, Trash2, ChevronDown, ChevronUp, SlidersHorizontal, LayoutGrid, List, Bookmark } from 'lucide-react';
 import type { Product } from '@/types/product';
 import { CollectionModal } from '@/components/ui/collection-modal';
 import { SearchTabs } from '@/components/ui/search-tabs';
 import { useAuthorization } from '@/hooks/useAuthorization';
-
-type ProductSwatchType = NonNullable<NonNullable<Product['properties']>['swatches']>[number];
-
-interface Collection {
-  id: string;
-  name: string;
-  products: Array<{
-    product: Product;
-    selectedSwatch: ProductSwatchType | null;
-    imageUrl: string;
-  }>;
-  createdAt: string;
-  isPublic: boolean;
-}
+import type { SearchFilters, SearchSort } from './search';
+import { EMPTY_FILTERS, getProductName } from './search';
+import { useProductSearch } from './hooks/useProductSearch';
+import type { SavedSearch, SearchChanges } from './saved-searches';
+import { loadSavedSearches, saveSearch, deleteSavedSearch, recordSearchRun, diffAgainstLastRun, isSameSearch } from './saved-searches';
+import SearchFacets from './components/SearchFacets';
+import type { Collection, CollectionItemType, CollectionProduct } from '@/types/collection';
+import type { CollectionChange } from '@/lib/collections';
+import { updateCollection, fetchCollections as fetchStoredCollections, assetToProduct, getRole, canEdit } from '@/lib/collections';
 
 // Advanced Performance Monitoring Interface
 interface PerformanceMetrics {
@@ -64,14 +59,24 @@ export default function ProductSearchPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
-  const [sortBy, setSortBy] = useState<'name' | 'price' | 'date'>('name');
+  const [sortBy, setSortBy] = useState<SearchSort>('relevance');
   const [showFilters, setShowFilters] = useState(false);
+  const [searchText, setSearchText] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+
+  // Saved Searches
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [openSavedSearchId, setOpenSavedSearchId] = useState<string | null>(null);
+  const [searchChanges, setSearchChanges] = useState<SearchChanges | null>(null);
+  const [newSearchName, setNewSearchName] = useState<string | null>(null);
+  const diffedSearchIdRef = useRef<string | null>(null);
   
   // Collections with Independent State
   const [collections, setCollections] = useState<Collection[]>([]);
   const [activeCollection, setActiveCollection] = useState<string | null>(null);
   const [showCollectionModal, setShowCollectionModal] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [selectedItemType, setSelectedItemType] = useState<CollectionItemType>('product');
   const [selectedCollectionId, setSelectedCollectionId] = useState<string | null>(null);
   const [isDockingStationCollapsed, setIsDockingStationCollapsed] = useState(false);
   
@@ -89,6 +94,8 @@ export default function ProductSearchPage() {
   const { userEmail } = useAuthorization();
   const userId = userEmail || "public";
 
+  const { result: searchResult, loading: isSearching, error: searchError } = useProductSearch(searchText, filters, sortBy);
+
   // Performance Monitoring Effect - COMPLETELY DISABLED to prevent API abuse
   // This was causing infinite loops and hammering the third-party API
   // Re-enabled only when needed for debugging
@@ -158,40 +165,6 @@ export default function ProductSearchPage() {
     }));
   }, []);
 
-  // Auto-correct search terms to bypass redirects
-  const autoCorrectSearchTerm = useCallback((searchTerm: string): string => {
-    const redirectWords: Record<string, string> = {
-      'dresses': 'dre sses',
-      'shoes': 's hoes', 
-      'tops': 't ops',
-      'bags': 'b ags',
-      'accessories': 'a ccessories',
-      'jewelry': 'j ewelry',
-      'handbags': 'h andbags',
-      'sandals': 's andals',
-      'boots': 'b oots',
-      'heels': 'h eels',
-      'flats': 'f lats',
-      'sneakers': 's neakers',
-      'blouses': 'b louses',
-      'skirts': 's kirts',
-      'pants': 'p ants',
-      'jeans': 'j eans',
-      'jackets': 'j ackets',
-      'coats': 'c oats',
-      'sweaters': 's weaters',
-      'cardigans': 'c ardigans'
-    };
-    
-    const lowerTerm = searchTerm.toLowerCase().trim();
-    if (lowerTerm in redirectWords) {
-      console.log(`🔄 Auto-correcting "${searchTerm}" to "${redirectWords[lowerTerm]}" to bypass redirect`);
-      return redirectWords[lowerTerm];
-    }
-    
-    return searchTerm;
-  }, []);
-
   // Optimized Image URL Function
   const optimizeImageUrl = useCallback((url: string | undefined | null): string => {
     if (!url) return '';
@@ -216,33 +189,17 @@ export default function ProductSearchPage() {
     updateApiState(endpoint, { status: 'loading' });
     
     try {
-      const response = await fetch(`/api/collections?userId=${userId}`);
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success && data.collections) {
-          setCollections(data.collections);
-          localStorage.setItem(`collections_${userId}`, JSON.stringify(data.collections));
-          
-          // Update API state on success
-          updateApiState(endpoint, { 
-            status: 'success', 
-            data: data.collections,
-            retryCount: 0 
-          });
-          return;
-        }
-      }
+      // Includes collections other people have shared with this user
+      const loadedCollections = await fetchStoredCollections<CollectionProduct>(userId);
+      setCollections(loadedCollections);
+      localStorage.setItem(`collections_${userId}`, JSON.stringify(loadedCollections));
       
-      // Fallback to localStorage
-      const storedCollections = localStorage.getItem(`collections_${userId}`);
-      if (storedCollections) {
-        setCollections(JSON.parse(storedCollections));
-        updateApiState(endpoint, { 
-          status: 'success', 
-          data: JSON.parse(storedCollections),
-          retryCount: 0 
-        });
-      }
+      // Update API state on success
+      updateApiState(endpoint, { 
+        status: 'success', 
+        data: loadedCollections,
+        retryCount: 0 
+      });
     } catch (error) {
       console.error('Error fetching collections:', error);
       
@@ -270,69 +227,30 @@ export default function ProductSearchPage() {
     }
   }, [userId, performanceMetrics.status]);
 
-  // Add to Collection with Performance Monitoring
-  const addToCollection = useCallback(async (product: Product) => {
-    if (!activeCollection) {
-      setSelectedProduct(product);
-      setShowCollectionModal(true);
-      return;
-    }
-
-    const endpoint = 'add-to-collection';
-    
+  // Versioned collection write; a change that can't be merged with someone else's shows theirs instead
+  const saveCollectionChanges = useCallback(async (
+    endpoint: string,
+    collection: Collection,
+    changes: CollectionChange<CollectionProduct>[]
+  ): Promise<boolean> => {
     try {
-      const collection = collections.find(c => c.id === activeCollection);
-      if (!collection) return;
-
-      const newProduct = {
-        product,
-        selectedSwatch: null,
-        imageUrl: optimizeImageUrl(product.media?.main_image?.url)
-      };
-
-      const updatedCollection = {
-        ...collection,
-        products: [...collection.products, newProduct]
-      };
-
-      const response = await fetch('/api/collections', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          userId: userId || 'public',
-          collection: updatedCollection
-        })
+      const result = await updateCollection(collection, changes, userId);
+      const saved = result.status === 'saved' ? result.collection : result.latest;
+      setCollections(prev => {
+        const updatedCollections = prev.map(c => (c.id === saved.id ? saved : c));
+        localStorage.setItem(`collections_${userId}`, JSON.stringify(updatedCollections));
+        return updatedCollections;
       });
 
-      if (response.ok) {
-        const updatedCollections = collections.map(c => 
-          c.id === activeCollection ? updatedCollection : c
-        );
-        console.log('✅ Collection updated successfully:', {
-          activeCollection,
-          updatedCollection,
-          updatedCollections
-        });
-        setCollections(updatedCollections);
-        localStorage.setItem(`collections_${userId}`, JSON.stringify(updatedCollections));
-        
-        // Force a re-render by updating the collections state
-        setTimeout(() => {
-          setCollections(prev => [...prev]);
-        }, 100);
-        
-        updateApiState(endpoint, { status: 'success', data: updatedCollection });
-        
-        // Show success feedback
-        const collection = collections.find(c => c.id === activeCollection);
-        if (collection) {
-          console.log(`✅ Added "${product.titles?.default || 'Product'}" to "${collection.name}"`);
-        }
-      } else {
-        console.error('❌ Failed to update collection:', response.status, response.statusText);
+      if (result.status === 'conflict') {
+        updateApiState(endpoint, { status: 'error', error: result.message });
+        alert(`Your change to "${collection.name}" wasn't saved: ${result.message} The latest version is now shown.`);
+        return false;
       }
+      updateApiState(endpoint, { status: 'success', data: saved });
+      return true;
     } catch (error) {
-      console.error('Error adding to collection:', error);
+      console.error(`Error updating collection (${endpoint}):`, error);
       updateApiState(endpoint, { 
         status: 'error', 
         error: error instanceof Error ? error.message : 'Unknown error' 
@@ -342,55 +260,49 @@ export default function ProductSearchPage() {
         ...prev,
         errorCount: prev.errorCount + 1
       }));
+      return false;
     }
-  }, [activeCollection, collections, userId, optimizeImageUrl, updateApiState]);
-
-  const removeFromCollection = useCallback(async (productId: string, collectionId: string) => {
-    const endpoint = 'remove-from-collection';
-    
-    try {
-      const collection = collections.find(c => c.id === collectionId);
-      if (!collection) return;
+  }, [userId, updateApiState]);
 
-      const updatedCollection = {
-        ...collection,
-        products: collection.products.filter((item: any) => item.product.id !== productId)
-      };
+  // Add to Collection with Performance Monitoring
+  const addToCollection = useCallback(async (
+    product: Product,
+    itemType: CollectionItemType = 'product',
+    collectionId: string | null = activeCollection
+  ) => {
+    if (!collectionId) {
+      setSelectedProduct(product);
+      setSelectedItemType(itemType);
+      setShowCollectionModal(true);
+      return;
+    }
 
-      const response = await fetch('/api/collections', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          userId: userId || 'public',
-          collection: updatedCollection
-        })
-      });
+    const collection = collections.find(c => c.id === collectionId);
+    if (!collection) return;
 
-      if (response.ok) {
-        const updatedCollections = collections.map(c => 
-          c.id === collectionId ? updatedCollection : c
-        );
-        console.log('✅ Product removed from collection successfully');
-        setCollections(updatedCollections);
-        localStorage.setItem(`collections_${userId}`, JSON.stringify(updatedCollections));
-        
-        // Force a re-render
-        setTimeout(() => {
-          setCollections(prev => [...prev]);
-        }, 100);
-        
-        updateApiState(endpoint, { status: 'success' });
-      } else {
-        console.error('❌ Failed to remove from collection:', response.status, response.statusText);
+    const saved = await saveCollectionChanges('add-to-collection', collection, [{
+      type: 'add',
+      item: {
+        product,
+        selectedSwatch: null,
+        imageUrl: optimizeImageUrl(product.media?.main_image?.url),
+        itemType
       }
-    } catch (error) {
-      console.error('Error removing from collection:', error);
-      updateApiState(endpoint, { 
-        status: 'error', 
-        error: error instanceof Error ? error.message : 'Unknown error' 
-      });
+    }]);
+    if (saved) {
+      console.log(`✅ Added "${product.titles?.default || 'Product'}" to "${collection.name}"`);
     }
-  }, [collections, userId, updateApiState]);
+  }, [activeCollection, collections, optimizeImageUrl, saveCollectionChanges]);
+
+  const removeFromCollection = useCallback(async (productId: string, collectionId: string) => {
+    const collection = collections.find(c => c.id === collectionId);
+    if (!collection) return;
+
+    const saved = await saveCollectionChanges('remove-from-collection', collection, [{ type: 'remove', itemId: productId }]);
+    if (saved) {
+      console.log('✅ Product removed from collection successfully');
+    }
+  }, [collections, saveCollectionChanges]);
 
   // Create Collection with Performance Monitoring
   const createCollection = useCallback(async (name: string): Promise<string> => {
@@ -401,7 +313,8 @@ export default function ProductSearchPage() {
       name,
       products: [],
       createdAt: new Date().toISOString(),
-      isPublic: true
+      isPublic: true,
+      userId
     };
 
     try {
@@ -437,6 +350,12 @@ export default function ProductSearchPage() {
     return '';
   }, [collections, userId, updateApiState]);
 
+  // Shared collections the user can only view aren't offered as targets
+  const editableCollections = useMemo(() =>
+    collections.filter(c => canEdit(getRole(c, userId))),
+    [collections, userId]
+  );
+
   // Memoized Collections Data
   const activeCollectionData = useMemo(() => 
     collections.find(c => c.id === activeCollection), 
@@ -448,6 +367,203 @@ export default function ProductSearchPage() {
     fetchCollections();
   }, []); // Only run once on mount
 
+  useEffect(() => {
+    setSavedSearches(loadSavedSearches(userId));
+  }, [userId]);
+
+  const openSavedSearch = savedSearches.find(search => search.id === openSavedSearchId) || null;
+  // Highlights only apply while the saved query is what's on screen
+  const showingSavedSearch = openSavedSearch !== null && isSameSearch(openSavedSearch, searchText, filters, sortBy);
+
+  // The first results for a reopened search are compared with its last run, then become its new snapshot
+  useEffect(() => {
+    if (!openSavedSearch || !searchResult || diffedSearchIdRef.current === openSavedSearch.id) return;
+    if (!isSameSearch(openSavedSearch, searchResult.searchText, searchResult.filters, searchResult.sort)) return;
+    diffedSearchIdRef.current = openSavedSearch.id;
+    setSearchChanges(diffAgainstLastRun(openSavedSearch, searchResult.products));
+    setSavedSearches(recordSearchRun(userId, openSavedSearch.id, searchResult.products));
+  }, [openSavedSearch, searchResult, userId]);
+
+  const handleOpenSavedSearch = (search: SavedSearch) => {
+    diffedSearchIdRef.current = null;
+    setSearchChanges(null);
+    setOpenSavedSearchId(search.id);
+    setSearchText(search.searchText);
+    setFilters(search.filters);
+    setSortBy(search.sort);
+  };
+
+  const handleSaveSearch = () => {
+    const name = newSearchName?.trim();
+    if (!name || !searchResult) return;
+    const searches = saveSearch(userId, name, searchText, filters, sortBy, searchResult.products);
+    // Already up to date, so there's nothing to highlight until the next run
+    diffedSearchIdRef.current = searches[searches.length - 1].id;
+    setSavedSearches(searches);
+    setOpenSavedSearchId(searches[searches.length - 1].id);
+    setSearchChanges(null);
+    setNewSearchName(null);
+  };
+
+  const handleDeleteSavedSearch = (id: string) => {
+    setSavedSearches(deleteSavedSearch(userId, id));
+    if (openSavedSearchId === id) {
+      setOpenSavedSearchId(null);
+      setSearchChanges(null);
+    }
+  };
+
+  const formatPrice = (value: number, currency?: string) => {
+    try {
+      return new Intl.NumberFormat(undefined, { style: 'currency', currency: currency || 'GBP' }).format(value);
+    } catch {
+      return String(value);
+    }
+  };
+
+  // Sort, filters and faceted results for the product search box in <SearchTabs>
+  const productSearchPanel = (
+    <div>
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <Button
+          variant={showFilters ? "default" : "outline"}
+          size="sm"
+          onClick={() => setShowFilters(!showFilters)}
+          className="flex items-center gap-2"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          Filters
+        </Button>
+        {newSearchName === null ? (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setNewSearchName(searchText.trim())}
+            disabled={!searchResult}
+            className="flex items-center gap-2"
+          >
+            <Bookmark className="w-4 h-4" />
+            Save search
+          </Button>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Input
+              autoFocus
+              value={newSearchName}
+              onChange={(e) => setNewSearchName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSaveSearch();
+                if (e.key === 'Escape') setNewSearchName(null);
+              }}
+              placeholder="Search name"
+              className="h-9 w-40"
+            />
+            <Button size="sm" onClick={handleSaveSearch} disabled={!newSearchName.trim()}>Save</Button>
+            <Button variant="ghost" size="sm" onClick={() => setNewSearchName(null)} className="h-6 w-6 p-0">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        <Select value={sortBy} onValueChange={(value) => setSortBy(value as SearchSort)}>
+          <SelectTrigger className="w-44">
+            <SelectValue placeholder="Sort by" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="relevance">Relevance</SelectItem>
+            <SelectItem value="name">Name</SelectItem>
+            <SelectItem value="price-asc">Price: low to high</SelectItem>
+            <SelectItem value="price-desc">Price: high to low</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex">
+          <Button variant={viewMode === 'grid' ? "default" : "outline"} size="sm" onClick={() => setViewMode('grid')} aria-label="Grid view">
+            <LayoutGrid className="w-4 h-4" />
+          </Button>
+          <Button variant={viewMode === 'list' ? "default" : "outline"} size="sm" onClick={() => setViewMode('list')} aria-label="List view">
+            <List className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {searchResult && searchResult.query.categories.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {searchResult.query.categories.map(category => (
+            <Badge key={category} variant="secondary">Category: {category}</Badge>
+          ))}
+        </div>
+      )}
+
+      {searchText.trim() && (
+        <div className="flex gap-6">
+          {showFilters && searchResult && (
+            <aside className="w-56 flex-shrink-0">
+              <SearchFacets facets={searchResult.facets} filters={filters} onChange={setFilters} />
+            </aside>
+          )}
+
+          <div className="flex-1 min-w-0">
+            {isSearching && (
+              <div className="flex items-center gap-2 text-sm text-gray-500 mb-3">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Searching...
+              </div>
+            )}
+            {searchError && <p className="text-sm text-red-600 mb-3">{searchError}</p>}
+            {searchResult && !isSearching && (
+              <p className="text-sm text-gray-500 mb-3">
+                {searchResult.total} result{searchResult.total !== 1 ? 's' : ''}
+                {showingSavedSearch && searchChanges && (
+                  <> · {searchChanges.newIds.length} new, {Object.keys(searchChanges.previousPrices).length} price change{Object.keys(searchChanges.previousPrices).length !== 1 ? 's' : ''} since {new Date(searchChanges.since).toLocaleString()}</>
+                )}
+              </p>
+            )}
+
+            <div className={viewMode === 'grid' ? "grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4" : "space-y-2"}>
+              {searchResult?.products.map(product => {
+                const imageUrl = optimizeImageUrl(product.media?.main_image?.url);
+                const productName = getProductName(product);
+                const isNew = showingSavedSearch && searchChanges?.newIds.includes(product.id);
+                const previousPrice = showingSavedSearch ? searchChanges?.previousPrices[product.id] : undefined;
+
+                return (
+                  <Card key={product.id} className={isNew || previousPrice !== undefined ? "ring-2 ring-pink-300" : ""}>
+                    <CardContent className={viewMode === 'grid' ? "p-3" : "p-3 flex items-center gap-4"}>
+                      <div className={viewMode === 'grid' ? "aspect-square bg-gray-100 rounded-lg overflow-hidden mb-2" : "w-16 h-16 flex-shrink-0 bg-gray-100 rounded-lg overflow-hidden"}>
+                        {imageUrl && <img src={imageUrl} alt={productName} className="w-full h-full object-contain" />}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{productName}</p>
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-gray-600">{product.pricing?.current?.formatted}</span>
+                          {product.stock?.available === false && <Badge variant="outline">Out of stock</Badge>}
+                          {isNew && <Badge>New</Badge>}
+                          {previousPrice !== undefined && (
+                            <span className="text-xs text-gray-400 line-through">
+                              {formatPrice(previousPrice, product.pricing?.current?.currency)}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => addToCollection(product)}
+                        className={viewMode === 'grid' ? "w-full mt-2" : ""}
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        Collect
+                      </Button>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
   // Performance Status Display
   const getPerformanceStatus = () => {
     if (performanceMetrics.status === 'critical') return '🚨 CRITICAL';
@@ -477,30 +593,11 @@ export default function ProductSearchPage() {
       {/* Search Tabs */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 mb-6 pb-32">
         <SearchTabs
+          searchText={searchText}
+          onSearchTextChange={setSearchText}
+          productResults={productSearchPanel}
           onAddToCollection={addToCollection}
-          onAddAmplienceAssetToCollection={(asset) => addToCollection({
-            id: asset.id,
-            titles: { default: asset.name },
-            media: {
-              main_image: {
-                url: asset.imageUrl || '',
-                alt: asset.name
-              }
-            },
-            pricing: {
-              current: {
-                value: 0,
-                formatted: '$0.00',
-                currency: 'USD'
-              },
-              on_sale: false
-            },
-            stock: {
-              available: true
-            },
-            properties: { swatches: [] },
-            variants: []
-          } as Product)}
+          onAddAmplienceAssetToCollection={(asset) => addToCollection(assetToProduct(asset), 'asset')}
         />
       </div>
 
@@ -534,6 +631,7 @@ export default function ProductSearchPage() {
               </Button>
               <span className="text-sm text-gray-500">
                 {collections.length} collection{collections.length !== 1 ? 's' : ''}
+                {savedSearches.length > 0 && ` · ${savedSearches.length} saved search${savedSearches.length !== 1 ? 'es' : ''}`}
               </span>
             </div>
           </div>
@@ -564,6 +662,35 @@ export default function ProductSearchPage() {
                 </div>
               )}
 
+              {/* Saved Searches */}
+              {savedSearches.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {savedSearches.map((search) => (
+                    <div key={search.id} className="flex items-center">
+                      <Button
+                        variant={openSavedSearchId === search.id ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => handleOpenSavedSearch(search)}
+                        className="flex items-center gap-2"
+                        title={`Last run ${new Date(search.lastRunAt).toLocaleString()}`}
+                      >
+                        <Search className="h-4 w-4" />
+                        {search.name}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteSavedSearch(search.id)}
+                        className="h-6 w-6 p-0"
+                        aria-label={`Delete saved search ${search.name}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Selected Collection Items */}
               {selectedCollectionId && (
                 <div className="space-y-2">
@@ -615,14 +742,16 @@ export default function ProductSearchPage() {
                               {productName}
                             </p>
                           </div>
-                          <Button
-                            size="sm"
-                            variant="destructive"
-                            className="absolute -top-1 -right-1 h-5 w-5 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
-                            onClick={() => removeFromCollection(product.id, selectedCollectionId)}
-                          >
-                            <Trash2 className="h-3 w-3" />
-                          </Button>
+                          {editableCollections.some(c => c.id === selectedCollectionId) && (
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              className="absolute -top-1 -right-1 h-5 w-5 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                              onClick={() => removeFromCollection(product.id, selectedCollectionId)}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          )}
                         </div>
                       );
                     })}
@@ -660,10 +789,10 @@ export default function ProductSearchPage() {
       <CollectionModal
         isOpen={showCollectionModal}
         onClose={() => setShowCollectionModal(false)}
-        collections={collections}
+        collections={editableCollections}
         onAddToCollection={async (collectionId) => {
           if (selectedProduct) {
-            await addToCollection(selectedProduct);
+            await addToCollection(selectedProduct, selectedItemType, collectionId);
           }
           setShowCollectionModal(false);
           setSelectedProduct(null);
@@ -0,0 +1,101 @@
+import type { Product } from '@/types/product';
+import type { SearchFilters, SearchSort } from './search';
+import { getProductPrice } from './search';
+
+// --- Saved Searches ---
+// Named queries with their filters and sort, kept per user in localStorage. Each
+// keeps a snapshot of the last run (product id -> price) so a re-run can show
+// what's new or has changed price since.
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  searchText: string;
+  filters: SearchFilters;
+  sort: SearchSort;
+  createdAt: string;
+  lastRunAt: string;
+  snapshot: Record<string, number>;
+}
+
+export interface SearchChanges {
+  // When the run being compared against happened
+  since: string;
+  newIds: string[];
+  // Product id -> price at the last run
+  previousPrices: Record<string, number>;
+}
+
+const storageKey = (userId: string) => `saved_searches_${userId}`;
+
+export const loadSavedSearches = (userId: string): SavedSearch[] => {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading saved searches:', error);
+    return [];
+  }
+};
+
+const writeSavedSearches = (userId: string, searches: SavedSearch[]) => {
+  localStorage.setItem(storageKey(userId), JSON.stringify(searches));
+};
+
+export const takeSnapshot = (products: Product[]): Record<string, number> =>
+  Object.fromEntries(products.map(product => [product.id, getProductPrice(product)]));
+
+export const saveSearch = (
+  userId: string,
+  name: string,
+  searchText: string,
+  filters: SearchFilters,
+  sort: SearchSort,
+  products: Product[]
+): SavedSearch[] => {
+  const now = new Date().toISOString();
+  const savedSearch: SavedSearch = {
+    id: `search_${Date.now()}`,
+    name,
+    searchText,
+    filters,
+    sort,
+    createdAt: now,
+    lastRunAt: now,
+    snapshot: takeSnapshot(products)
+  };
+  const searches = [...loadSavedSearches(userId), savedSearch];
+  writeSavedSearches(userId, searches);
+  return searches;
+};
+
+export const deleteSavedSearch = (userId: string, id: string): SavedSearch[] => {
+  const searches = loadSavedSearches(userId).filter(search => search.id !== id);
+  writeSavedSearches(userId, searches);
+  return searches;
+};
+
+// Records a fresh run so the next one is compared against these results
+export const recordSearchRun = (userId: string, id: string, products: Product[]): SavedSearch[] => {
+  const searches = loadSavedSearches(userId).map(search => (search.id === id
+    ? { ...search, lastRunAt: new Date().toISOString(), snapshot: takeSnapshot(products) }
+    : search));
+  writeSavedSearches(userId, searches);
+  return searches;
+};
+
+export const diffAgainstLastRun = (search: SavedSearch, products: Product[]): SearchChanges => {
+  const { snapshot } = search;
+  const changes: SearchChanges = { since: search.lastRunAt, newIds: [], previousPrices: {} };
+  products.forEach(product => {
+    if (!(product.id in snapshot)) {
+      changes.newIds.push(product.id);
+    } else if (snapshot[product.id] !== getProductPrice(product)) {
+      changes.previousPrices[product.id] = snapshot[product.id];
+    }
+  });
+  return changes;
+};
+
+export const isSameSearch = (search: SavedSearch, searchText: string, filters: SearchFilters, sort: SearchSort) =>
+  search.searchText === searchText && search.sort === sort && JSON.stringify(search.filters) === JSON.stringify(filters);
@@ -0,0 +1,399 @@
+import type { Product } from '@/types/product';
+
+// --- Product Search Layer ---
+// Query analysis, facets, fuzzy matching and sorting for /api/product-search.
+// Query words are sent singular ("dresses" -> dress), which is what used to trigger
+// the catalogue's redirects, and category words also filter by category. When the API
+// finds nothing, the search is retried with typos corrected and synonyms swapped in.
+
+export type SearchSort = 'relevance' | 'name' | 'price-asc' | 'price-desc';
+
+export interface SearchFilters {
+  categories: string[];
+  colours: string[];
+  sizes: string[];
+  minPrice: number | null;
+  maxPrice: number | null;
+  inStockOnly: boolean;
+}
+
+export const EMPTY_FILTERS: SearchFilters = {
+  categories: [],
+  colours: [],
+  sizes: [],
+  minPrice: null,
+  maxPrice: null,
+  inStockOnly: false
+};
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  categories: FacetValue[];
+  colours: FacetValue[];
+  sizes: FacetValue[];
+  priceRange: { min: number; max: number } | null;
+  inStockCount: number;
+}
+
+export interface AnalysedQuery {
+  // Stemmed words to match, each with its synonyms
+  terms: string[][];
+  // Every stemmed query word, category words included; sent as the search text
+  searchTerms: string[];
+  // Catalogue categories named in the query
+  categories: string[];
+}
+
+export interface SearchResult {
+  // What was searched for, so callers can tell which request a result answers
+  searchText: string;
+  filters: SearchFilters;
+  sort: SearchSort;
+  products: Product[];
+  facets: SearchFacets;
+  query: AnalysedQuery;
+  total: number;
+}
+
+// Query words that name a category -> the catalogue category (properties.category)
+const CATEGORY_WORDS: Record<string, string> = {
+  dress: 'Dresses',
+  gown: 'Dresses',
+  shoe: 'Shoes',
+  heel: 'Shoes',
+  court: 'Shoes',
+  pump: 'Shoes',
+  sandal: 'Shoes',
+  flat: 'Flats',
+  boot: 'Boots',
+  bag: 'Bags',
+  handbag: 'Bags',
+  clutch: 'Bags',
+  tote: 'Bags',
+  top: 'Tops',
+  blouse: 'Tops',
+  shirt: 'Tops',
+  skirt: 'Skirts',
+  trouser: 'Trousers',
+  pant: 'Trousers',
+  jean: 'Jeans',
+  jacket: 'Jackets',
+  coat: 'Coats',
+  knitwear: 'Knitwear',
+  jumper: 'Knitwear',
+  sweater: 'Knitwear',
+  cardigan: 'Knitwear',
+  accessory: 'Accessories',
+  jewellery: 'Jewellery',
+  jewelry: 'Jewellery',
+  hat: 'Hats'
+};
+
+// Words that mean the same thing in product names; each group matches any of its members
+const SYNONYM_GROUPS: string[][] = [
+  ['trouser', 'pant'],
+  ['jumper', 'sweater', 'knit'],
+  ['bag', 'handbag'],
+  ['heel', 'court', 'pump'],
+  ['trainer', 'sneaker'],
+  ['jewellery', 'jewelry'],
+  ['grey', 'gray'],
+  ['colour', 'color'],
+  ['ivory', 'cream', 'ecru']
+];
+
+// Colour words looked for in swatch names to build the colour facet
+const COLOUR_WORDS = [
+  'black', 'white', 'ivory', 'cream', 'ecru', 'beige', 'camel', 'stone', 'nude', 'grey', 'navy', 'blue',
+  'green', 'olive', 'khaki', 'red', 'burgundy', 'pink', 'orange', 'yellow', 'purple', 'lilac', 'brown',
+  'chocolate', 'tan', 'gold', 'silver', 'metallic', 'multi'
+];
+
+export const stem = (word: string): string => {
+  const lower = word.toLowerCase();
+  if (lower.length <= 3) return lower;
+  if (lower.endsWith('ies')) return `${lower.slice(0, -3)}y`;
+  if (lower.endsWith('sses')) return lower.slice(0, -2);
+  if (/(ches|shes|xes)$/.test(lower)) return lower.slice(0, -2);
+  if (lower.endsWith('s') && !lower.endsWith('ss')) return lower.slice(0, -1);
+  return lower;
+};
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).map(stem);
+
+// Categories compared by their words, so "dresses", "Dress" and "DRESSES" are the same
+const categoryKey = (category: string) => tokenize(category).join(' ');
+
+const sameCategory = (a: string, b: string) => categoryKey(a) === categoryKey(b);
+
+// Edit distance counting a swap of neighbouring letters as one edit, giving up once it's over `limit`
+const editDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  let previousMin = 0;
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    // A swap reaches back two rows, so stop only once both are over the limit
+    if (rowMin > limit && previousMin > limit) return limit + 1;
+    previousMin = rowMin;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Short words must be exact; longer ones tolerate one typo, and two from eight letters
+const typoAllowance = (word: string) => (word.length < 4 ? 0 : word.length < 8 ? 1 : 2);
+
+// 3 for an exact word, 2 for a prefix, 1 for a near miss, 0 for no match
+const matchScore = (term: string, words: string[]): number => {
+  if (words.includes(term)) return 3;
+  if (term.length >= 3 && words.some(word => word.startsWith(term))) return 2;
+  const allowance = typoAllowance(term);
+  if (allowance > 0 && words.some(word => editDistance(term, word, allowance) <= allowance)) return 1;
+  return 0;
+};
+
+// Every word the search layer knows, which typos in the query are corrected towards
+const KNOWN_WORDS = [...new Set([...Object.keys(CATEGORY_WORDS), ...SYNONYM_GROUPS.flat(), ...COLOUR_WORDS])];
+
+// The known word a typo was meant to be, if exactly one is close enough
+const correctTypo = (word: string): string => {
+  const allowance = typoAllowance(word);
+  if (allowance === 0 || KNOWN_WORDS.includes(word)) return word;
+  let best: string[] = [];
+  let bestDistance = allowance + 1;
+  KNOWN_WORDS.forEach(known => {
+    const distance = editDistance(word, known, allowance);
+    if (distance < bestDistance) {
+      best = [known];
+      bestDistance = distance;
+    } else if (distance === bestDistance) {
+      best.push(known);
+    }
+  });
+  return best.length === 1 ? best[0] : word;
+};
+
+export const analyseQuery = (text: string, options: { correctTypos?: boolean } = {}): AnalysedQuery => {
+  const categories = new Set<string>();
+  const terms: string[][] = [];
+  const searchTerms: string[] = [];
+  tokenize(text).forEach(token => {
+    const word = options.correctTypos ? correctTypo(token) : token;
+    searchTerms.push(word);
+    if (CATEGORY_WORDS[word]) categories.add(CATEGORY_WORDS[word]);
+    else terms.push(SYNONYM_GROUPS.find(synonyms => synonyms.includes(word)) || [word]);
+  });
+  return { terms, searchTerms, categories: [...categories] };
+};
+
+const sameAttempt = (a: AnalysedQuery, b: AnalysedQuery) =>
+  a.searchTerms.join(' ') === b.searchTerms.join(' ') && a.categories.join('|') === b.categories.join('|');
+
+// The query as typed, then progressively looser versions to retry with when the API finds
+// nothing: typos corrected, each word swapped for its synonyms, then category words left
+// to the category filter alone
+export const queryAttempts = (text: string): AnalysedQuery[] => {
+  const attempts = [analyseQuery(text)];
+  const add = (attempt: AnalysedQuery) => {
+    if (!attempts.some(existing => sameAttempt(existing, attempt))) attempts.push(attempt);
+  };
+  const corrected = analyseQuery(text, { correctTypos: true });
+  add(corrected);
+
+  const alternatives = corrected.searchTerms.map(word =>
+    (SYNONYM_GROUPS.find(synonyms => synonyms.includes(word)) || []).filter(synonym => synonym !== word));
+  const mostAlternatives = Math.max(0, ...alternatives.map(list => list.length));
+  for (let index = 0; index < mostAlternatives; index++) {
+    add({ ...corrected, searchTerms: corrected.searchTerms.map((word, position) => alternatives[position][index] || word) });
+  }
+
+  if (corrected.categories.length > 0) {
+    add({ ...corrected, searchTerms: corrected.searchTerms.filter(word => !CATEGORY_WORDS[word]) });
+  }
+  return attempts;
+};
+
+export const getProductName = (product: Product) => product.titles?.default || 'Unknown Product';
+
+export const getProductPrice = (product: Product) => product.pricing?.current?.value ?? 0;
+
+export const getProductColours = (product: Product): string[] => {
+  const colours = new Set<string>();
+  (product.properties?.swatches || []).forEach(swatch => {
+    const words = (swatch.name || '').toLowerCase().split(/[^a-z]+/);
+    COLOUR_WORDS.filter(colour => words.includes(colour)).forEach(colour => colours.add(colour));
+  });
+  return [...colours];
+};
+
+// Variants carry their size under different keys depending on the product feed
+const getVariantSize = (variant: unknown): string | null => {
+  if (!variant || typeof variant !== 'object') return null;
+  const fields = variant as { size?: unknown; attributes?: { size?: unknown }; properties?: { size?: unknown } };
+  const size = fields.size ?? fields.attributes?.size ?? fields.properties?.size;
+  return typeof size === 'string' || typeof size === 'number' ? String(size) : null;
+};
+
+export const getProductSizes = (product: Product): string[] =>
+  [...new Set(((product.variants || []) as unknown[]).map(getVariantSize).filter((size): size is string => size !== null))];
+
+const isInStock = (product: Product) => product.stock?.available !== false;
+
+// Products that match every term (or one of its synonyms), with their relevance
+export const scoreProduct = (product: Product, query: AnalysedQuery): number => {
+  if (query.terms.length === 0) return 1;
+  const words = tokenize([
+    getProductName(product),
+    product.properties?.category || '',
+    ...(product.properties?.swatches || []).map(swatch => swatch.name || '')
+  ].join(' '));
+  let total = 0;
+  for (const synonyms of query.terms) {
+    const best = Math.max(...synonyms.map(term => matchScore(term, words)));
+    if (best === 0) return 0;
+    total += best;
+  }
+  return total;
+};
+
+type FacetKey = 'categories' | 'colours' | 'sizes' | 'price' | 'stock';
+
+const matchesFilters = (product: Product, filters: SearchFilters, ignore?: FacetKey) => {
+  if (ignore !== 'categories' && filters.categories.length > 0
+    && !filters.categories.some(category => sameCategory(category, product.properties?.category || ''))) return false;
+  if (ignore !== 'colours' && filters.colours.length > 0
+    && !getProductColours(product).some(colour => filters.colours.includes(colour))) return false;
+  if (ignore !== 'sizes' && filters.sizes.length > 0
+    && !getProductSizes(product).some(size => filters.sizes.includes(size))) return false;
+  if (ignore !== 'price') {
+    const price = getProductPrice(product);
+    if (filters.minPrice !== null && price < filters.minPrice) return false;
+    if (filters.maxPrice !== null && price > filters.maxPrice) return false;
+  }
+  if (ignore !== 'stock' && filters.inStockOnly && !isInStock(product)) return false;
+  return true;
+};
+
+const countValues = (products: Product[], getValues: (product: Product) => string[]): FacetValue[] => {
+  const counts = new Map<string, number>();
+  products.forEach(product => getValues(product).forEach(value => counts.set(value, (counts.get(value) || 0) + 1)));
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+// Each facet is counted with every other filter applied but not its own, so picking
+// one colour still shows how many products the other colours would add
+export const computeFacets = (products: Product[], filters: SearchFilters): SearchFacets => {
+  const without = (facet: FacetKey) => products.filter(product => matchesFilters(product, filters, facet));
+  const prices = without('price').map(getProductPrice);
+  return {
+    categories: countValues(without('categories'), product => (product.properties?.category ? [product.properties.category] : [])),
+    colours: countValues(without('colours'), getProductColours),
+    sizes: countValues(without('sizes'), getProductSizes),
+    priceRange: prices.length > 0 ? { min: Math.min(...prices), max: Math.max(...prices) } : null,
+    inStockCount: without('stock').filter(isInStock).length
+  };
+};
+
+export const sortProducts = (products: Product[], sort: SearchSort, scores?: Map<Product, number>): Product[] => {
+  const sorted = [...products];
+  switch (sort) {
+    case 'name':
+      return sorted.sort((a, b) => getProductName(a).localeCompare(getProductName(b)));
+    case 'price-asc':
+      return sorted.sort((a, b) => getProductPrice(a) - getProductPrice(b));
+    case 'price-desc':
+      return sorted.sort((a, b) => getProductPrice(b) - getProductPrice(a));
+    default:
+      // Stable, so equally relevant products keep the API's order
+      return scores ? sorted.sort((a, b) => (scores.get(b) || 0) - (scores.get(a) || 0)) : sorted;
+  }
+};
+
+// Enough results to facet over in one request
+const SEARCH_PAGE_SIZE = 100;
+
+export const buildSearchParams = (query: AnalysedQuery, filters: SearchFilters, sort: SearchSort): URLSearchParams => {
+  const categories = [...new Set([...query.categories, ...filters.categories])];
+  const params = new URLSearchParams({
+    searchText: query.searchTerms.join(' '),
+    pageSize: String(SEARCH_PAGE_SIZE),
+    sort
+  });
+  categories.forEach(category => params.append('category', category));
+  filters.colours.forEach(colour => params.append('colour', colour));
+  filters.sizes.forEach(size => params.append('size', size));
+  if (filters.minPrice !== null) params.set('minPrice', String(filters.minPrice));
+  if (filters.maxPrice !== null) params.set('maxPrice', String(filters.maxPrice));
+  if (filters.inStockOnly) params.set('inStock', '1');
+  return params;
+};
+
+const fetchProducts = async (query: AnalysedQuery, filters: SearchFilters, sort: SearchSort) => {
+  const response = await fetch(`/api/product-search?${buildSearchParams(query, filters, sort)}`);
+  if (!response.ok) {
+    throw new Error(`Search failed (${response.status})`);
+  }
+  const data = await response.json();
+  if (!data.success) {
+    throw new Error(data.error || 'Search failed');
+  }
+  return data as { products?: Product[]; sort?: string };
+};
+
+// The API may apply filters and sort itself; everything is re-applied here so results
+// are right either way, and sorted client-side unless the API says it sorted
+export const searchProducts = async (
+  text: string,
+  filters: SearchFilters,
+  sort: SearchSort
+): Promise<SearchResult> => {
+  const attempts = queryAttempts(text);
+  let query = attempts[0];
+  let data = await fetchProducts(query, filters, sort);
+  for (const attempt of attempts.slice(1)) {
+    if ((data.products || []).length > 0) break;
+    query = attempt;
+    data = await fetchProducts(query, filters, sort);
+  }
+
+  const effectiveFilters: SearchFilters = {
+    ...filters,
+    categories: [...new Set([...query.categories, ...filters.categories])]
+  };
+  const scores = new Map<Product, number>();
+  const matching = (data.products || []).filter(product => {
+    const score = scoreProduct(product, query);
+    scores.set(product, score);
+    return score > 0;
+  });
+  const filtered = matching.filter(product => matchesFilters(product, effectiveFilters));
+  const products = data.sort === sort ? filtered : sortProducts(filtered, sort, scores);
+
+  return {
+    searchText: text,
+    filters,
+    sort,
+    products,
+    facets: computeFacets(matching, effectiveFilters),
+    query,
+    total: products.length
+  };
+};
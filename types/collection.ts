@@ -0,0 +1,64 @@
+import type { Product } from '@/types/product';
+
+// Shared by product-search, asset-search, collections and outfit-builder
+
+export type ProductSwatchType = NonNullable<NonNullable<Product['properties']>['swatches']>[number];
+
+export type CollectionRole = 'owner' | 'editor' | 'viewer';
+
+export type CollectionItemType = 'product' | 'asset';
+
+export interface CollectionProduct {
+  product: Product;
+  selectedSwatch: ProductSwatchType | null;
+  imageUrl: string;
+  itemType?: CollectionItemType;
+  addedBy?: string;
+  addedAt?: string;
+}
+
+export interface CollectionMember {
+  userId: string;
+  role: CollectionRole;
+  addedAt: string;
+}
+
+export type CollectionAction = 'add' | 'remove' | 'rename' | 'share' | 'visibility' | 'restore';
+
+export interface CollectionActivity {
+  id: string;
+  userId: string;
+  action: CollectionAction;
+  at: string;
+  // Set for add/remove
+  itemId?: string;
+  itemName?: string;
+  itemType?: CollectionItemType;
+  // Human-readable detail for everything else, e.g. "jo@example.com → editor"
+  detail?: string;
+}
+
+export interface CollectionVersion<TItem = CollectionProduct> {
+  version: number;
+  savedAt: string;
+  savedBy: string;
+  name: string;
+  products: TItem[];
+}
+
+export interface Collection<TItem = CollectionProduct> {
+  id: string;
+  name: string;
+  products: TItem[];
+  createdAt: string;
+  isPublic: boolean;
+  // The owner; collections saved before sharing existed only have this
+  userId?: string;
+  lastModified?: string;
+  lastModifiedBy?: string;
+  // Bumped on every write; writes send the version they were based on, and the API answers 409 when it has moved on
+  version?: number;
+  members?: CollectionMember[];
+  activity?: CollectionActivity[];
+  history?: CollectionVersion<TItem>[];
+}